@@ -1,30 +1,33 @@
 /*
 Usage:
-  node scripts/create-admin-user.js --uid <UID> --email <email> --role admin --serviceAccount ./serviceAccount.json
+  node scripts/create-admin-user.js --uid <UID> --email <email> --role admin --org <orgId> --serviceAccount ./serviceAccount.json
 
 This script requires a Firebase service account JSON to run (Admin SDK).
-It will create a `users/{uid}` document with the specified role and an empty `userData/{uid}` doc if missing.
+It will create a `users/{uid}` profile pointing at the organisation, make the user a member of
+`orgs/{orgId}` with the specified role (creating the organisation if missing) and an empty
+`userData/{uid}` doc if missing.
 */
 
-const fs = require('fs');
-const path = require('path');
-const yargs = require('yargs');
+import fs from 'fs';
+import path from 'path';
+import yargs from 'yargs';
+import { hideBin } from 'yargs/helpers';
+import admin from 'firebase-admin';
 
-const argv = yargs.option('uid', { type: 'string', demandOption: true })
+const argv = yargs(hideBin(process.argv)).option('uid', { type: 'string', demandOption: true })
   .option('email', { type: 'string', demandOption: false })
   .option('role', { type: 'string', demandOption: true })
+  .option('org', { type: 'string', demandOption: true })
   .option('serviceAccount', { type: 'string', demandOption: true })
   .argv;
 
-const admin = require('firebase-admin');
-
 const saPath = path.resolve(argv.serviceAccount);
 if (!fs.existsSync(saPath)) {
   console.error('Service account file not found:', saPath);
   process.exit(1);
 }
 
-const sa = require(saPath);
+const sa = JSON.parse(fs.readFileSync(saPath, 'utf8'));
 admin.initializeApp({ credential: admin.credential.cert(sa) });
 const db = admin.firestore();
 
@@ -33,15 +36,28 @@ const db = admin.firestore();
   const role = argv.role;
   const email = argv.email || '';
 
+  const orgId = argv.org;
+
+  // Create orgs/{orgId}
+  const orgRef = db.collection('orgs').doc(orgId);
+  if (!(await orgRef.get()).exists) {
+    await orgRef.set({ name: orgId, createdBy: uid, createdAt: admin.firestore.FieldValue.serverTimestamp() });
+    console.log('Created orgs/' + orgId);
+  }
+
+  // Create or update the membership with the role
+  await orgRef.collection('members').doc(uid).set({ email, role, displayName: email || 'Admin user', permissions: [], disabled: false }, { merge: true });
+  console.log('Set orgs/' + orgId + '/members/' + uid + ' role -> ' + role);
+
   // Create users/{uid}
   const userRef = db.collection('users').doc(uid);
   const userDoc = await userRef.get();
   if (!userDoc.exists) {
-    await userRef.set({ email, role, displayName: email || 'Admin user', permissions: [], createdAt: admin.firestore.FieldValue.serverTimestamp() });
+    await userRef.set({ email, displayName: email || 'Admin user', orgId, createdAt: admin.firestore.FieldValue.serverTimestamp() });
     console.log('Created users/' + uid);
   } else {
-    await userRef.update({ role });
-    console.log('Updated users/' + uid + ' role -> ' + role);
+    await userRef.update({ orgId });
+    console.log('Updated users/' + uid + ' orgId -> ' + orgId);
   }
 
   // Ensure userData exists
@@ -0,0 +1,126 @@
+/*
+Usage:
+  node scripts/migrate-to-org.js --org <orgId> --name "<Organisation name>" --admin <UID> --serviceAccount ./serviceAccount.json [--uids <UID>,<UID>] [--deleteSource]
+
+This script requires a Firebase service account JSON to run (Admin SDK).
+It moves data stored per user (before organisation workspaces) into orgs/{orgId}:
+  - every subcollection of users/{uid} is copied to orgs/{orgId}/{collection}, keeping document ids
+  - root `psirs` and `auditLog` documents with userId == uid are copied to orgs/{orgId}/psirs and orgs/{orgId}/auditLog
+  - each user becomes a member with the role, extra permissions and disabled flag of their old profile
+    (the --admin user is made admin), and users/{uid}.orgId is set so they land in the workspace
+Without --uids every users/{uid} profile is migrated. Documents already in the organisation are left
+untouched, so the script can be re-run. With --deleteSource the originals are deleted once copied.
+*/
+
+import fs from 'fs';
+import path from 'path';
+import yargs from 'yargs';
+import { hideBin } from 'yargs/helpers';
+import admin from 'firebase-admin';
+
+const argv = yargs(hideBin(process.argv)).option('org', { type: 'string', demandOption: true })
+  .option('name', { type: 'string', demandOption: false })
+  .option('admin', { type: 'string', demandOption: true })
+  .option('uids', { type: 'string', demandOption: false })
+  .option('deleteSource', { type: 'boolean', default: false })
+  .option('serviceAccount', { type: 'string', demandOption: true })
+  .argv;
+
+const saPath = path.resolve(argv.serviceAccount);
+if (!fs.existsSync(saPath)) {
+  console.error('Service account file not found:', saPath);
+  process.exit(1);
+}
+
+const sa = JSON.parse(fs.readFileSync(saPath, 'utf8'));
+admin.initializeApp({ credential: admin.credential.cert(sa) });
+const db = admin.firestore();
+
+// Collections that used to live at the root, keyed by the owner's userId
+const ROOT_COLLECTIONS = ['psirs', 'auditLog'];
+// gRPC ALREADY_EXISTS: the document was copied by an earlier run
+const ALREADY_EXISTS = 6;
+
+(async () => {
+  const orgId = argv.org;
+  const orgRef = db.collection('orgs').doc(orgId);
+
+  const org = await orgRef.get();
+  if (!org.exists) {
+    await orgRef.set({ name: argv.name || orgId, createdBy: argv.admin, createdAt: admin.firestore.FieldValue.serverTimestamp() });
+    console.log('Created orgs/' + orgId);
+  }
+
+  const uids = argv.uids
+    ? argv.uids.split(',').map(s => s.trim()).filter(Boolean)
+    : (await db.collection('users').listDocuments()).map(ref => ref.id);
+  if (!uids.includes(argv.admin)) uids.push(argv.admin);
+
+  let copied = 0;
+  let skipped = 0;
+  let failed = 0;
+  const writer = db.bulkWriter();
+  writer.onWriteError(error => {
+    if (error.code === ALREADY_EXISTS) {
+      skipped++;
+      return false;
+    }
+    return error.failedAttempts < 5;
+  });
+  const sources = [];
+  const copy = (docSnap, collectionName) => {
+    sources.push(docSnap.ref);
+    writer.create(orgRef.collection(collectionName).doc(docSnap.id), docSnap.data())
+      .then(() => copied++)
+      .catch(error => {
+        if (error.code === ALREADY_EXISTS) return;
+        failed++;
+        console.error(`Could not copy ${docSnap.ref.path}:`, error.message);
+      });
+  };
+
+  for (const uid of uids) {
+    const userRef = db.collection('users').doc(uid);
+    const profile = await userRef.get();
+    const data = profile.exists ? profile.data() : {};
+
+    for (const col of await userRef.listCollections()) {
+      const snap = await col.get();
+      snap.docs.forEach(d => copy(d, col.id));
+      console.log(`users/${uid}/${col.id}: ${snap.size} document(s)`);
+    }
+    for (const name of ROOT_COLLECTIONS) {
+      const snap = await db.collection(name).where('userId', '==', uid).get();
+      snap.docs.forEach(d => copy(d, name));
+      console.log(`${name} (userId ${uid}): ${snap.size} document(s)`);
+    }
+
+    const memberRef = orgRef.collection('members').doc(uid);
+    if (!(await memberRef.get()).exists) {
+      await memberRef.set({
+        email: data.email || '',
+        displayName: data.displayName || 'User',
+        role: uid === argv.admin ? 'admin' : (data.role || 'viewer'),
+        permissions: Array.isArray(data.permissions) ? data.permissions : [],
+        disabled: uid === argv.admin ? false : data.disabled === true,
+        joinedAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+      console.log('Added member ' + uid + ' as ' + (uid === argv.admin ? 'admin' : (data.role || 'viewer')));
+    }
+    await userRef.set({ orgId }, { merge: true });
+  }
+
+  await writer.close();
+  console.log(`Copied ${copied} document(s), ${skipped} already present, ${failed} failed`);
+
+  if (argv.deleteSource && failed > 0) {
+    console.error('Not deleting the originals because some documents failed to copy; re-run the script');
+  } else if (argv.deleteSource) {
+    const remover = db.bulkWriter();
+    sources.forEach(ref => remover.delete(ref));
+    await remover.close();
+    console.log(`Deleted ${sources.length} original document(s)`);
+  }
+
+  process.exit(0);
+})();
@@ -4,61 +4,185 @@ import PSIRModule from './modules/PSIRModule';
 import VSIRModule from './modules/VSIRModule';
 import StockModule from './modules/StockModule';
 import ItemMasterModule from './modules/ItemMasterModule';
+import AuditLogModule from './modules/AuditLogModule';
+import DataResetModule from './modules/DataResetModule';
+import UserManagementModule from './modules/UserManagementModule';
 
 import React from 'react';
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback } from 'react';
+import { onAuthStateChanged, signOut } from 'firebase/auth';
+import type { User } from 'firebase/auth';
+import { auth } from './firebase';
 
 import LoginPage from './LoginPage';
 import SyncStatus from './components/SyncStatus';
+import NotificationBell from './components/NotificationBell';
+import EventLogViewer from './components/EventLogViewer';
 import IndentModule from './modules/IndentModule';
 import PurchaseModule from './modules/PurchaseModule';
 import VendorDeptModule from './modules/VendorDeptModule';
 import VendorIssueModule from './modules/VendorIssueModule';
 import InHouseIssueModule from './modules/InHouseIssueModule';
+import DebitNoteModule from './modules/DebitNoteModule';
+import SalesModule from './modules/SalesModule';
+import DeliveryChallanModule from './modules/DeliveryChallanModule';
+import InventoryDashboardModule from './modules/InventoryDashboardModule';
+import SalesDashboardModule from './modules/SalesDashboardModule';
 import { ErrorBoundary } from './components/ErrorBoundary';
+import WorkspaceSetup from './components/WorkspaceSetup';
 import './App.css';
 import { useUserRole } from './hooks/useUserRole';
+import { useAccessControl } from './hooks/useAccessControl';
 import { useUserDataSync } from './hooks/useUserDataSync';
+import { useIdleTimeout } from './hooks/useIdleTimeout';
+import { useNotifications } from './hooks/useNotifications';
+import { pendingInviteFromUrl } from './utils/invites';
 import { runDataDiagnostics } from './utils/diagnostics';
-import { hardResetAllData, verifyDataCleared, forceCleanupAllData } from './utils/firestoreServices';
+import { runDataMigrations } from './utils/migrations';
+import { startWriteQueue, replayQueue, getQueuedMutations, clearLocalData } from './utils/writeQueue';
+import { reconcileStockLedger, runStockLedgerReconcile } from './utils/stockLedger';
+import bus from './utils/eventBus';
+import { purgeExpiredRecycleBin } from './utils/firestoreServices';
 
 
+type ModuleId = 'sales' | 'dc' | 'acuInventory' | 'acuInventoryDashboard' | 'purchase' | 'salesDashboard' | 'debitNote' | 'indent' | 'vendorDept' | 'vendorIssue' | 'inHouseIssue' | 'psir' | 'vsir' | 'stock' | 'itemMaster' | 'auditLog' | 'dataReset' | 'users';
+
+const navButtonStyle = (active: boolean): React.CSSProperties => ({
+  background: active ? '#3949ab' : '#fff',
+  color: active ? '#fff' : '#1a237e',
+  border: 'none',
+  borderRadius: 4,
+  padding: '10px 28px',
+  fontWeight: 500,
+  fontSize: 16,
+  cursor: 'pointer',
+  transition: 'background 0.2s, color 0.2s',
+});
+
+// Sign out after this many minutes without activity in any tab (0 disables)
+const IDLE_TIMEOUT_MINUTES = Number(import.meta.env.VITE_IDLE_TIMEOUT_MINUTES ?? 30);
+
 function App() {
-  const [activeModule, setActiveModule] = useState<'sales' | 'dc' | 'acuInventory' | 'acuInventoryDashboard' | 'purchase' | 'salesDashboard' | 'debitNote' | 'indent' | 'vendorDept' | 'vendorIssue' | 'inHouseIssue' | 'psir' | 'vsir' | 'stock' | 'itemMaster'>('purchase');
-  const [user, setUser] = useState<any>(null);
+  const [activeModule, setActiveModule] = useState<ModuleId>('purchase');
+  const [user, setUser] = useState<User | null>(null);
+  // False until Firebase has restored (or ruled out) a persisted session
+  const [authReady, setAuthReady] = useState(false);
+  const [signOutNotice, setSignOutNotice] = useState<string | null>(null);
+  // Invite link the app was opened with; accepted once the invitee is signed in
+  const [invite] = useState(pendingInviteFromUrl);
   // Hook to fetch and create role/profile
-  const { userProfile: _userProfile } = useUserRole(user);
+  const { userProfile, loading: roleLoading, error: roleError, inviteError, reload: reloadProfile } = useUserRole(user, invite);
+  // Shared data lives in the user's organisation workspace; nothing loads until they have one
+  const orgId = userProfile?.orgId ?? null;
+  const { getAccessibleModules, hasAccessToModule, hasPermission, getModulePermissions, getVisibleModuleButtons } = useAccessControl(userProfile);
   // Hook to sync user data with Firestore (on login)
-  useUserDataSync(user);
+  useUserDataSync(user, orgId, hasPermission);
+  // Tasks and alerts derived from the data this member can see; none while disabled
+  const inbox = useNotifications(user?.uid ?? null, userProfile?.disabled ? null : orgId, hasPermission);
+
+  useEffect(() => onAuthStateChanged(auth, u => {
+    setUser(u);
+    setAuthReady(true);
+    if (u) setSignOutNotice(null);
+  }), []);
+
+  const logout = useCallback((notice: string | null = null) => {
+    setSignOutNotice(notice);
+    clearLocalData()
+      .catch(err => console.error('[App] Clearing the offline cache failed:', err))
+      .then(() => signOut(auth))
+      .catch(err => console.error('[App] Sign out failed:', err));
+  }, []);
+
+  const handleIdle = useCallback(() => {
+    logout(`You were signed out after ${IDLE_TIMEOUT_MINUTES} minutes of inactivity.`);
+  }, [logout]);
+  useIdleTimeout(!!user, IDLE_TIMEOUT_MINUTES * 60_000, handleIdle);
+
+  // Replay writes queued while offline, now and on every reconnect
+  useEffect(() => {
+    if (!user) return;
+    return startWriteQueue();
+  }, [user]);
+
+  // Replayed offline writes skipped the ledger transaction; post their stock movements now
+  useEffect(() => {
+    if (!user?.uid || !orgId) return;
+    const uid: string = user.uid;
+    return bus.on('offline.queue.replayed', () => {
+      reconcileStockLedger(uid).catch(err => console.error('[App] Stock ledger reconcile failed:', err));
+    });
+  }, [user, orgId]);
+
+  // Empty recycle bins of records past the retention period, once per sign-in
+  useEffect(() => {
+    if (!user?.uid || !orgId) return;
+    purgeExpiredRecycleBin(user.uid).catch(err => console.error('[App] Recycle bin purge failed:', err));
+  }, [user?.uid, orgId]);
+
+  // Land on the role's first module when the current one is not allowed
+  useEffect(() => {
+    if (!userProfile || hasAccessToModule(activeModule)) return;
+    const first = getAccessibleModules()[0];
+    if (first) setActiveModule(first as ModuleId);
+  }, [userProfile, activeModule, hasAccessToModule, getAccessibleModules]);
+
+  const switchModule = (moduleId: ModuleId) => {
+    if (!hasAccessToModule(moduleId)) {
+      console.warn(`[App] Role ${userProfile?.role ?? '(none)'} has no access to ${moduleId}`);
+      return;
+    }
+    setActiveModule(moduleId);
+  };
 
   // Expose diagnostics function to window for console debugging
   useEffect(() => {
     (window as any).AcuDiagnostics = {
       runDiagnostics: runDataDiagnostics,
+      runMigrations: runDataMigrations,
+      queuedWrites: getQueuedMutations,
+      replayQueue,
+      reconcileStockLedger: runStockLedgerReconcile,
       help: () => {
         console.info('Available diagnostics commands:');
         console.info('  AcuDiagnostics.runDiagnostics() - Check all collections for data');
+        console.info('  AcuDiagnostics.runMigrations() - Upgrade stored documents to the current schema version');
+        console.info('  AcuDiagnostics.queuedWrites() - List writes waiting to sync (made while offline)');
+        console.info('  AcuDiagnostics.replayQueue() - Retry syncing queued writes now');
+        console.info('  AcuDiagnostics.reconcileStockLedger() - Post missing stock movements (backfill / after offline edits)');
         console.info('Usage: AcuDiagnostics.runDiagnostics()');
       },
     };
     console.info('[App] Diagnostics available - type: AcuDiagnostics.runDiagnostics()');
   }, []);
 
-  // Build modules with user prop
-  const modulesWithUser: Record<string, React.ReactElement> = {
-    purchase: <PurchaseModule user={user} />,
-    indent: <IndentModule user={user} />,
-    vendorDept: <VendorDeptModule />,
-    vendorIssue: <VendorIssueModule />,
-    inHouseIssue: <InHouseIssueModule />,
-    psir: <PSIRModule />,
-    vsir: <VSIRModule />,
-    stock: <StockModule />,
-    itemMaster: <ItemMasterModule />,
+  // Build modules with user prop; only modules the role can access are rendered
+  const modulesWithUser: Partial<Record<ModuleId, React.ReactElement>> = {
+    purchase: <PurchaseModule user={user} permissions={getModulePermissions('purchase')} hasPermission={hasPermission} />,
+    indent: <IndentModule user={user} permissions={getModulePermissions('indent')} hasPermission={hasPermission} />,
+    vendorDept: <VendorDeptModule permissions={getModulePermissions('vendorDept')} />,
+    vendorIssue: <VendorIssueModule permissions={getModulePermissions('vendorIssue')} />,
+    inHouseIssue: <InHouseIssueModule permissions={getModulePermissions('inHouseIssue')} />,
+    psir: <PSIRModule permissions={getModulePermissions('psir')} />,
+    vsir: <VSIRModule permissions={getModulePermissions('vsir')} />,
+    debitNote: <DebitNoteModule uid={user?.uid ?? ''} permissions={getModulePermissions('debitNote')} hasPermission={hasPermission} orgName={userProfile?.orgName} />,
+    sales: <SalesModule uid={user?.uid ?? ''} permissions={getModulePermissions('sales')} hasPermission={hasPermission} />,
+    salesDashboard: <SalesDashboardModule uid={user?.uid ?? ''} hasPermission={hasPermission} />,
+    dc: <DeliveryChallanModule uid={user?.uid ?? ''} permissions={getModulePermissions('dc')} hasPermission={hasPermission} orgName={userProfile?.orgName} />,
+    stock: <StockModule permissions={getModulePermissions('stock')} hasPermission={hasPermission} />,
+    itemMaster: <ItemMasterModule permissions={getModulePermissions('itemMaster')} />,
+    acuInventoryDashboard: <InventoryDashboardModule uid={user?.uid ?? ''} hasPermission={hasPermission} />,
+    auditLog: <AuditLogModule />,
+    dataReset: <DataResetModule uid={user?.uid ?? ''} />,
+    users: <UserManagementModule currentUid={user?.uid ?? ''} orgId={orgId ?? ''} />,
   };
 
+  if (!authReady) {
+    return <div style={{ fontFamily: 'Segoe UI, Arial, sans-serif', color: '#888', textAlign: 'center', padding: 80 }}>Loading...</div>;
+  }
+
   if (!user) {
-    return <LoginPage onLogin={setUser} />;
+    return <LoginPage invite={invite} notice={signOutNotice} />;
   }
 
   return (
@@ -67,49 +191,44 @@ function App() {
         <h1 style={{ margin: 0, fontSize: 28, letterSpacing: 1, textAlign: 'center' }}>Airtech Inventory ERP System</h1>
         <div style={{ display: 'flex', justifyContent: 'center', alignItems: 'center', gap: 12, marginTop: 10 }}>
           <span style={{ fontWeight: 500, fontSize: 16 }}>{user.email}</span>
+          {userProfile?.orgName && <span style={{ fontSize: 14, opacity: 0.8 }}>· {userProfile.orgName}</span>}
           <div style={{ marginLeft: 8 }}><SyncStatus /></div>
-          <button onClick={async () => {
-            if (confirm('⚠️ WARNING: This will delete ALL data except ItemMaster. Are you sure?')) {
-              try {
-                const resetResult = await hardResetAllData(user.uid);
-                console.log('[App] Hard reset result:', resetResult);
-                
-                // Verify deletion
-                let verifyResult = await verifyDataCleared(user.uid);
-                console.log('[App] Verification result:', verifyResult);
-                
-                // If data still exists, force cleanup
-                if (!verifyResult.allClear) {
-                  console.warn('[App] Data still exists after hard reset, attempting force cleanup...');
-                  await forceCleanupAllData(user.uid);
-                  
-                  // Verify again after force cleanup
-                  console.log('[App] Verifying again after force cleanup...');
-                  verifyResult = await verifyDataCleared(user.uid);
-                  console.log('[App] Second verification result:', verifyResult);
-                }
-                
-                if (verifyResult.allClear) {
-                  alert('✅ All data successfully deleted! All collections verified empty.\n\nRefreshing page...');
-                } else {
-                  alert(`⚠️ WARNING: Some data could not be deleted:\n${Object.entries(verifyResult.results).map(([k, v]) => `${k}: ${v}`).join('\n')}\n\nPlease check browser console for details.\n\nRefreshing page anyway...`);
-                }
-                
-                window.location.reload();
-              } catch (err) {
-                alert('❌ Hard reset failed. Check console for details.');
-                console.error('Hard reset error:', err);
-              }
-            }
-          }} style={{ background: '#d32f2f', color: '#fff', border: 'none', borderRadius: 4, padding: '6px 14px', fontWeight: 500, cursor: 'pointer', fontSize: 14 }}>Hard Reset</button>
-          <button onClick={() => setUser(null)} style={{ background: '#fff', color: '#1a237e', border: 'none', borderRadius: 4, padding: '6px 14px', fontWeight: 500, cursor: 'pointer' }}>Logout</button>
+          {orgId && !userProfile?.disabled && (
+            <NotificationBell
+              notifications={inbox.notifications}
+              readIds={inbox.readIds}
+              unreadCount={inbox.unreadCount}
+              onOpen={n => switchModule(n.module as ModuleId)}
+              onMarkRead={inbox.markRead}
+              onMarkAllRead={inbox.markAllRead}
+            />
+          )}
+          <button onClick={() => logout()} style={{ background: '#fff', color: '#1a237e', border: 'none', borderRadius: 4, padding: '6px 14px', fontWeight: 500, cursor: 'pointer' }}>Logout</button>
         </div>
       </header>
       <main style={{ maxWidth: 900, margin: '32px auto', background: '#fff', borderRadius: 8, boxShadow: '0 2px 12px #0002', padding: 32, minHeight: 400 }}>
         <ErrorBoundary>
-          {modulesWithUser[activeModule]}
+          {roleLoading || (!userProfile && !roleError) ? (
+            <div style={{ color: '#888' }}>Loading your access...</div>
+          ) : !orgId && !roleError ? (
+            <WorkspaceSetup user={user} onReady={reloadProfile} notice={inviteError} />
+          ) : userProfile?.disabled ? (
+            <div style={{ textAlign: 'center', padding: 40 }}>
+              <h2>Account disabled</h2>
+              <p>Your access to {userProfile.orgName || 'this organisation'} is disabled or waiting for approval. Contact an administrator of the organisation.</p>
+            </div>
+          ) : getAccessibleModules().length === 0 ? (
+            <div style={{ textAlign: 'center', padding: 40 }}>
+              <h2>No access</h2>
+              <p>Your role ({userProfile?.role || 'unknown'}) does not include any modules. Ask an administrator to assign you a role.</p>
+              {roleError && <p style={{ color: '#d32f2f' }}>{roleError}</p>}
+            </div>
+          ) : hasAccessToModule(activeModule) ? (
+            modulesWithUser[activeModule] ?? <div>This module is not available yet.</div>
+          ) : null}
         </ErrorBoundary>
       </main>
+      {import.meta.env.DEV && <EventLogViewer />}
       <footer style={{
         position: 'fixed',
         left: 0,
@@ -125,105 +244,9 @@ function App() {
         zIndex: 100
       }}>
   <nav style={{ display: 'flex', gap: 24, overflowX: 'auto', whiteSpace: 'nowrap', paddingBottom: 4, maxWidth: '100vw' }}>
-          <button onClick={() => setActiveModule('purchase')} style={{
-            background: activeModule === 'purchase' ? '#3949ab' : '#fff',
-            color: activeModule === 'purchase' ? '#fff' : '#1a237e',
-            border: 'none',
-            borderRadius: 4,
-            padding: '10px 28px',
-            fontWeight: 500,
-            fontSize: 16,
-            cursor: 'pointer',
-            transition: 'background 0.2s, color 0.2s',
-          }}>Purchase</button>
-          <button onClick={() => setActiveModule('vendorDept')} style={{
-            background: activeModule === 'vendorDept' ? '#3949ab' : '#fff',
-            color: activeModule === 'vendorDept' ? '#fff' : '#1a237e',
-            border: 'none',
-            borderRadius: 4,
-            padding: '10px 28px',
-            fontWeight: 500,
-            fontSize: 16,
-            cursor: 'pointer',
-            transition: 'background 0.2s, color 0.2s',
-          }}>Vendor Dept</button>
-          <button onClick={() => setActiveModule('vendorIssue')} style={{
-            background: activeModule === 'vendorIssue' ? '#3949ab' : '#fff',
-            color: activeModule === 'vendorIssue' ? '#fff' : '#1a237e',
-            border: 'none',
-            borderRadius: 4,
-            padding: '10px 28px',
-            fontWeight: 500,
-            fontSize: 16,
-            cursor: 'pointer',
-            transition: 'background 0.2s, color 0.2s',
-          }}>Vendor Issue</button>
-          <button onClick={() => setActiveModule('inHouseIssue')} style={{
-            background: activeModule === 'inHouseIssue' ? '#3949ab' : '#fff',
-            color: activeModule === 'inHouseIssue' ? '#fff' : '#1a237e',
-            border: 'none',
-            borderRadius: 4,
-            padding: '10px 28px',
-            fontWeight: 500,
-            fontSize: 16,
-            cursor: 'pointer',
-            transition: 'background 0.2s, color 0.2s',
-          }}>In House Issue</button>
-          <button onClick={() => setActiveModule('indent')} style={{
-            background: activeModule === 'indent' ? '#3949ab' : '#fff',
-            color: activeModule === 'indent' ? '#fff' : '#1a237e',
-            border: 'none',
-            borderRadius: 4,
-            padding: '10px 28px',
-            fontWeight: 500,
-            fontSize: 16,
-            cursor: 'pointer',
-            transition: 'background 0.2s, color 0.2s',
-          }}>Indent</button>
-          <button onClick={() => setActiveModule('psir')} style={{
-            background: activeModule === 'psir' ? '#3949ab' : '#fff',
-            color: activeModule === 'psir' ? '#fff' : '#1a237e',
-            border: 'none',
-            borderRadius: 4,
-            padding: '10px 28px',
-            fontWeight: 500,
-            fontSize: 16,
-            cursor: 'pointer',
-            transition: 'background 0.2s, color 0.2s',
-          }}>PSIR</button>
-          <button onClick={() => setActiveModule('vsir')} style={{
-            background: activeModule === 'vsir' ? '#3949ab' : '#fff',
-            color: activeModule === 'vsir' ? '#fff' : '#1a237e',
-            border: 'none',
-            borderRadius: 4,
-            padding: '10px 28px',
-            fontWeight: 500,
-            fontSize: 16,
-            cursor: 'pointer',
-            transition: 'background 0.2s, color 0.2s',
-          }}>VSIR</button>
-          <button onClick={() => setActiveModule('stock')} style={{
-            background: activeModule === 'stock' ? '#3949ab' : '#fff',
-            color: activeModule === 'stock' ? '#fff' : '#1a237e',
-            border: 'none',
-            borderRadius: 4,
-            padding: '10px 28px',
-            fontWeight: 500,
-            fontSize: 16,
-            cursor: 'pointer',
-            transition: 'background 0.2s, color 0.2s',
-          }}>Stock</button>
-          <button onClick={() => setActiveModule('itemMaster')} style={{
-            background: activeModule === 'itemMaster' ? '#3949ab' : '#fff',
-            color: activeModule === 'itemMaster' ? '#fff' : '#1a237e',
-            border: 'none',
-            borderRadius: 4,
-            padding: '10px 28px',
-            fontWeight: 500,
-            fontSize: 16,
-            cursor: 'pointer',
-            transition: 'background 0.2s, color 0.2s',
-          }}>Item Master</button>
+          {getVisibleModuleButtons().map(m => (
+            <button key={m.id} title={m.description} onClick={() => switchModule(m.id as ModuleId)} style={navButtonStyle(activeModule === m.id)}>{m.label}</button>
+          ))}
         </nav>
       </footer>
     </div>
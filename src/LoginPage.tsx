@@ -1,22 +1,69 @@
 import React, { useState } from 'react';
-import { getAuth, signInWithEmailAndPassword } from 'firebase/auth';
-import { app } from './firebase';
+import { createUserWithEmailAndPassword, sendPasswordResetEmail, signInWithEmailAndPassword, updateProfile } from 'firebase/auth';
+import { auth } from './firebase';
+import type { InviteRef } from './utils/invites';
 
-const auth = getAuth(app);
+type Mode = 'login' | 'reset' | 'signup';
 
-const LoginPage: React.FC<{ onLogin: (user: any) => void }> = ({ onLogin }) => {
+interface LoginPageProps {
+  /** Set when the app was opened from an invite link; offers sign-up */
+  invite?: InviteRef | null;
+  /** Why the user is back on this page, e.g. signed out after being idle */
+  notice?: string | null;
+}
+
+const inputStyle: React.CSSProperties = {
+  padding: '12px 16px',
+  borderRadius: 8,
+  border: '1px solid #c5cae9',
+  fontSize: 16,
+  outline: 'none',
+  boxShadow: '0 1px 4px #0001',
+};
+
+const linkStyle: React.CSSProperties = {
+  background: 'none',
+  border: 'none',
+  color: '#3949ab',
+  cursor: 'pointer',
+  fontSize: 15,
+  padding: 0,
+  textDecoration: 'underline',
+};
+
+// The App listens to onAuthStateChanged, so signing in here is all it takes
+const LoginPage: React.FC<LoginPageProps> = ({ invite = null, notice = null }) => {
+  const [mode, setMode] = useState<Mode>(invite ? 'signup' : 'login');
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
+  const [confirm, setConfirm] = useState('');
+  const [displayName, setDisplayName] = useState('');
   const [error, setError] = useState('');
+  const [info, setInfo] = useState('');
   const [loading, setLoading] = useState(false);
 
-  const handleLogin = async (e: React.FormEvent) => {
+  const switchMode = (next: Mode) => {
+    setMode(next);
+    setError('');
+    setInfo('');
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setLoading(true);
     setError('');
+    setInfo('');
     try {
-      const userCredential = await signInWithEmailAndPassword(auth, email, password);
-      onLogin(userCredential.user);
+      if (mode === 'login') {
+        await signInWithEmailAndPassword(auth, email, password);
+      } else if (mode === 'reset') {
+        await sendPasswordResetEmail(auth, email);
+        setInfo(`If ${email} has an account, a password reset link is on its way.`);
+      } else {
+        if (password !== confirm) throw new Error('Passwords do not match');
+        const credential = await createUserWithEmailAndPassword(auth, email, password);
+        if (displayName.trim()) await updateProfile(credential.user, { displayName: displayName.trim() });
+      }
     } catch (err: any) {
       setError(err.message || 'Login failed');
     } finally {
@@ -24,6 +71,10 @@ const LoginPage: React.FC<{ onLogin: (user: any) => void }> = ({ onLogin }) => {
     }
   };
 
+  const title = mode === 'reset' ? 'Reset your password' : mode === 'signup' ? 'Create your account' : 'Welcome to Airtech Inventory ERP System';
+  const submitLabel = mode === 'reset' ? 'Send reset link' : mode === 'signup' ? 'Create account' : 'Login';
+  const busyLabel = mode === 'reset' ? 'Sending...' : mode === 'signup' ? 'Creating account...' : 'Logging in...';
+
   return (
     <div className="login-page" style={{
       minHeight: '100vh',
@@ -45,38 +96,52 @@ const LoginPage: React.FC<{ onLogin: (user: any) => void }> = ({ onLogin }) => {
         alignItems: 'center',
       }}>
         <img src="/vite.svg" alt="Logo" style={{ width: 64, marginBottom: 18 }} />
-        <h2 style={{ color: '#1a237e', fontWeight: 700, marginBottom: 18, fontSize: 28, letterSpacing: 1 }}>Welcome to Airtech Inventory ERP System</h2>
-        <form onSubmit={handleLogin} style={{ width: '100%', display: 'flex', flexDirection: 'column', gap: 16 }}>
+        <h2 style={{ color: '#1a237e', fontWeight: 700, marginBottom: 18, fontSize: 28, letterSpacing: 1 }}>{title}</h2>
+        {notice && <div style={{ color: '#8d6e00', background: '#fff8e1', borderRadius: 8, padding: '8px 12px', marginBottom: 16, textAlign: 'center' }}>{notice}</div>}
+        {invite && mode === 'signup' && (
+          <div style={{ color: '#555', marginBottom: 16, textAlign: 'center' }}>
+            You have been invited to join an organisation. Sign up with the email address the invite was sent to; you will be asked to verify it.
+          </div>
+        )}
+        <form onSubmit={handleSubmit} style={{ width: '100%', display: 'flex', flexDirection: 'column', gap: 16 }}>
+          {mode === 'signup' && (
+            <input
+              type="text"
+              placeholder="Your name"
+              value={displayName}
+              onChange={e => setDisplayName(e.target.value)}
+              style={inputStyle}
+            />
+          )}
           <input
             type="email"
             placeholder="Email"
             value={email}
             onChange={e => setEmail(e.target.value)}
             required
-            style={{
-              padding: '12px 16px',
-              borderRadius: 8,
-              border: '1px solid #c5cae9',
-              fontSize: 16,
-              outline: 'none',
-              boxShadow: '0 1px 4px #0001',
-            }}
-          />
-          <input
-            type="password"
-            placeholder="Password"
-            value={password}
-            onChange={e => setPassword(e.target.value)}
-            required
-            style={{
-              padding: '12px 16px',
-              borderRadius: 8,
-              border: '1px solid #c5cae9',
-              fontSize: 16,
-              outline: 'none',
-              boxShadow: '0 1px 4px #0001',
-            }}
+            style={inputStyle}
           />
+          {mode !== 'reset' && (
+            <input
+              type="password"
+              placeholder="Password"
+              value={password}
+              onChange={e => setPassword(e.target.value)}
+              required
+              minLength={mode === 'signup' ? 6 : undefined}
+              style={inputStyle}
+            />
+          )}
+          {mode === 'signup' && (
+            <input
+              type="password"
+              placeholder="Confirm password"
+              value={confirm}
+              onChange={e => setConfirm(e.target.value)}
+              required
+              style={inputStyle}
+            />
+          )}
           <button type="submit" disabled={loading} style={{
             background: '#3949ab',
             color: '#fff',
@@ -89,9 +154,15 @@ const LoginPage: React.FC<{ onLogin: (user: any) => void }> = ({ onLogin }) => {
             cursor: loading ? 'not-allowed' : 'pointer',
             boxShadow: '0 2px 8px #3949ab33',
             transition: 'background 0.2s',
-          }}>{loading ? 'Logging in...' : 'Login'}</button>
+          }}>{loading ? busyLabel : submitLabel}</button>
           {error && <div style={{ color: '#d32f2f', marginTop: 8, textAlign: 'center', fontWeight: 500 }}>{error}</div>}
+          {info && <div style={{ color: '#2e7d32', marginTop: 8, textAlign: 'center', fontWeight: 500 }}>{info}</div>}
         </form>
+        <div style={{ marginTop: 16, display: 'flex', gap: 16, justifyContent: 'center' }}>
+          {mode === 'login' && <button type="button" onClick={() => switchMode('reset')} style={linkStyle}>Forgot password?</button>}
+          {mode !== 'login' && <button type="button" onClick={() => switchMode('login')} style={linkStyle}>Back to login</button>}
+          {mode === 'login' && invite && <button type="button" onClick={() => switchMode('signup')} style={linkStyle}>Create an account</button>}
+        </div>
         <div style={{ marginTop: 24, color: '#3949ab', fontSize: 15, textAlign: 'center', opacity: 0.8 }}>
           <span>Airtech Inventory ERP System &copy; {new Date().getFullYear()}</span>
         </div>
@@ -0,0 +1,86 @@
+import React, { useState, useSyncExternalStore } from 'react';
+import bus from '../utils/eventBus';
+import type { EventLogEntry } from '../utils/eventBus';
+
+// Large payloads (full record lists) are summarised rather than printed
+const summarize = (detail: unknown): string => {
+  if (Array.isArray(detail)) return `[${detail.length} items]`;
+  if (detail && typeof detail === 'object') {
+    return Object.entries(detail as Record<string, unknown>)
+      .map(([k, v]) => `${k}: ${Array.isArray(v) ? `[${v.length}]` : typeof v === 'object' && v !== null ? '{…}' : String(v)}`)
+      .join(', ');
+  }
+  return String(detail ?? '');
+};
+
+const cellStyle: React.CSSProperties = { padding: '3px 6px', borderBottom: '1px solid #eee', textAlign: 'left', verticalAlign: 'top' };
+
+/** Dev-only panel listing recent event bus traffic (render under import.meta.env.DEV) */
+const EventLogViewer: React.FC = () => {
+  const log = useSyncExternalStore(bus.subscribeLog, bus.getLog);
+  const [open, setOpen] = useState(false);
+  const [filter, setFilter] = useState('');
+  const [expanded, setExpanded] = useState<number | null>(null);
+
+  if (!bus.logEnabled) return null;
+
+  const visible: EventLogEntry[] = log
+    .filter(e => !filter || e.name.toLowerCase().includes(filter.toLowerCase()))
+    .slice()
+    .reverse();
+
+  return (
+    <div style={{ position: 'fixed', left: 12, bottom: 72, zIndex: 300, fontSize: 12 }}>
+      {open && (
+        <div style={{ width: 560, maxHeight: 360, overflow: 'auto', background: '#fff', borderRadius: 6, boxShadow: '0 4px 16px #0003', padding: 10, marginBottom: 8 }}>
+          <div style={{ display: 'flex', gap: 8, marginBottom: 8 }}>
+            <input
+              placeholder="Filter by event name"
+              value={filter}
+              onChange={e => setFilter(e.target.value)}
+              style={{ flex: 1, padding: 4 }}
+            />
+            <button onClick={() => bus.clearLog()} style={{ padding: '4px 10px', cursor: 'pointer' }}>Clear</button>
+          </div>
+          <table style={{ borderCollapse: 'collapse', width: '100%' }}>
+            <thead>
+              <tr style={{ background: '#e3e6f3' }}>
+                <th style={cellStyle}>Time</th>
+                <th style={cellStyle}>Event</th>
+                <th style={cellStyle}>Owner</th>
+                <th style={cellStyle}>Listeners</th>
+                <th style={cellStyle}>Payload</th>
+              </tr>
+            </thead>
+            <tbody>
+              {visible.length === 0 && (
+                <tr><td colSpan={5} style={{ ...cellStyle, color: '#888' }}>No events yet</td></tr>
+              )}
+              {visible.map(e => (
+                <tr key={e.seq} onClick={() => setExpanded(expanded === e.seq ? null : e.seq)} style={{ cursor: 'pointer' }}>
+                  <td style={cellStyle}>{new Date(e.ts).toLocaleTimeString()}</td>
+                  <td style={{ ...cellStyle, fontWeight: 600 }}>{e.name}</td>
+                  <td style={cellStyle}>{e.owner}</td>
+                  <td style={cellStyle}>{e.listeners}</td>
+                  <td style={{ ...cellStyle, fontFamily: 'monospace' }}>
+                    {expanded === e.seq
+                      ? <pre style={{ margin: 0, whiteSpace: 'pre-wrap', maxHeight: 200, overflow: 'auto' }}>{JSON.stringify(e.detail, null, 2)}</pre>
+                      : summarize(e.detail)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+      <button
+        onClick={() => setOpen(o => !o)}
+        style={{ background: '#37474f', color: '#fff', border: 'none', borderRadius: 4, padding: '6px 12px', cursor: 'pointer', opacity: 0.85 }}
+      >
+        {open ? 'Hide' : 'Events'} ({log.length})
+      </button>
+    </div>
+  );
+};
+
+export default EventLogViewer;
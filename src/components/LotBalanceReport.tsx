@@ -0,0 +1,82 @@
+import React, { useState } from 'react';
+import type { Lot, LotSource } from '../utils/lots';
+
+interface LotBalanceReportProps {
+  lots: Lot[];
+}
+
+const cellStyle: React.CSSProperties = { border: '1px solid #eee', padding: 6, textAlign: 'left' };
+const headStyle: React.CSSProperties = { ...cellStyle, background: '#e3e6f3', fontWeight: 600 };
+const SOURCES: LotSource[] = ['Purchase', 'Vendor', 'Stock'];
+
+/** Received / issued / remaining per lot, oldest first (the order issues consume them) */
+const LotBalanceReport: React.FC<LotBalanceReportProps> = ({ lots }) => {
+  const [filter, setFilter] = useState('');
+  const [source, setSource] = useState<LotSource | ''>('');
+  const [openOnly, setOpenOnly] = useState(true);
+
+  const visible = lots.filter(l =>
+    (!openOnly || l.remainingQty !== 0)
+    && (!source || l.source === source)
+    && (!filter || `${l.itemCode} ${l.itemName} ${l.batchNo}`.toLowerCase().includes(filter.toLowerCase())));
+  const total = (key: 'receivedQty' | 'issuedQty' | 'remainingQty') => Math.round(visible.reduce((sum, l) => sum + l[key], 0) * 1000) / 1000;
+
+  return (
+    <div style={{ marginTop: 32 }}>
+      <h3>Lot Balance Report</h3>
+      <div style={{ display: 'flex', gap: 12, alignItems: 'center', marginBottom: 8 }}>
+        <input placeholder="Filter by item or batch" value={filter} onChange={e => setFilter(e.target.value)} style={{ padding: 6, width: 240 }} />
+        <select value={source} onChange={e => setSource(e.target.value as LotSource | '')} style={{ padding: 6 }}>
+          <option value="">All sources</option>
+          {SOURCES.map(s => <option key={s} value={s}>{s}</option>)}
+        </select>
+        <label>
+          <input type="checkbox" checked={openOnly} onChange={e => setOpenOnly(e.target.checked)} /> Open lots only
+        </label>
+      </div>
+      <table style={{ width: '100%', borderCollapse: 'collapse', background: '#fafbfc' }}>
+        <thead>
+          <tr>
+            <th style={headStyle}>Item Code</th>
+            <th style={headStyle}>Item Name</th>
+            <th style={headStyle}>Batch No</th>
+            <th style={headStyle}>Source</th>
+            <th style={headStyle}>Received On</th>
+            <th style={headStyle}>Received Qty</th>
+            <th style={headStyle}>Issued Qty</th>
+            <th style={headStyle}>Remaining Qty</th>
+          </tr>
+        </thead>
+        <tbody>
+          {visible.length === 0 && (
+            <tr><td colSpan={8} style={{ ...cellStyle, color: '#888' }}>No lots</td></tr>
+          )}
+          {visible.map(l => (
+            <tr key={`${l.itemCode}|${l.batchNo}`}>
+              <td style={cellStyle}>{l.itemCode}</td>
+              <td style={cellStyle}>{l.itemName}</td>
+              <td style={cellStyle}>{l.batchNo || '—'}</td>
+              <td style={cellStyle}>{l.source}</td>
+              <td style={cellStyle}>{l.receivedAt ? new Date(l.receivedAt).toLocaleDateString() : '—'}</td>
+              <td style={cellStyle}>{l.receivedQty}</td>
+              <td style={cellStyle}>{l.issuedQty}</td>
+              <td style={{ ...cellStyle, fontWeight: 600, color: l.remainingQty < 0 ? '#d32f2f' : undefined }}>{l.remainingQty}</td>
+            </tr>
+          ))}
+        </tbody>
+        {visible.length > 0 && (
+          <tfoot>
+            <tr style={{ fontWeight: 600 }}>
+              <td style={cellStyle} colSpan={5}>Total ({visible.length} lots)</td>
+              <td style={cellStyle}>{total('receivedQty')}</td>
+              <td style={cellStyle}>{total('issuedQty')}</td>
+              <td style={cellStyle}>{total('remainingQty')}</td>
+            </tr>
+          </tfoot>
+        )}
+      </table>
+    </div>
+  );
+};
+
+export default LotBalanceReport;
@@ -0,0 +1,103 @@
+import React, { useState } from 'react';
+import type { AppNotification } from '../utils/notifications';
+
+interface NotificationBellProps {
+  notifications: AppNotification[];
+  readIds: Set<string>;
+  unreadCount: number;
+  /** Open the module that holds the notification's record */
+  onOpen: (notification: AppNotification) => void;
+  onMarkRead: (id: string) => void;
+  onMarkAllRead: () => void;
+}
+
+// Modules render after navigation, so look for the record's row for a short while
+const HIGHLIGHT_TRIES = 20;
+const HIGHLIGHT_INTERVAL_MS = 100;
+
+/** Scroll to and flash the first table row in the main area that mentions `ref` */
+const highlightRecord = (ref: string) => {
+  let tries = 0;
+  const find = () => {
+    const rows = Array.from(document.querySelectorAll<HTMLTableRowElement>('main tbody tr'));
+    const row = rows.find(r => Array.from(r.cells).some(c => c.textContent?.trim() === ref));
+    if (row) {
+      row.scrollIntoView({ behavior: 'smooth', block: 'center' });
+      const outline = row.style.outline;
+      row.style.outline = '3px solid #ffb300';
+      window.setTimeout(() => { row.style.outline = outline; }, 2500);
+    } else if (++tries < HIGHLIGHT_TRIES) {
+      window.setTimeout(find, HIGHLIGHT_INTERVAL_MS);
+    }
+  };
+  window.setTimeout(find, HIGHLIGHT_INTERVAL_MS);
+};
+
+const severityColor: Record<AppNotification['severity'], string> = {
+  info: '#3949ab',
+  warning: '#e65100',
+};
+
+const NotificationBell: React.FC<NotificationBellProps> = ({ notifications, readIds, unreadCount, onOpen, onMarkRead, onMarkAllRead }) => {
+  const [open, setOpen] = useState(false);
+  const [unreadOnly, setUnreadOnly] = useState(false);
+
+  const shown = unreadOnly ? notifications.filter(n => !readIds.has(n.id)) : notifications;
+
+  const handleOpen = (n: AppNotification) => {
+    onMarkRead(n.id);
+    onOpen(n);
+    setOpen(false);
+    highlightRecord(n.recordRef);
+  };
+
+  return (
+    <div style={{ position: 'relative' }}>
+      <button
+        onClick={() => setOpen(o => !o)}
+        title={unreadCount > 0 ? `${unreadCount} unread notification(s)` : 'Notifications'}
+        style={{ position: 'relative', background: 'none', border: 'none', color: '#fff', fontSize: 20, cursor: 'pointer', padding: '2px 6px' }}
+      >
+        🔔
+        {unreadCount > 0 && (
+          <span style={{ position: 'absolute', top: -4, right: -6, background: '#e53935', color: '#fff', borderRadius: 10, fontSize: 11, fontWeight: 700, padding: '1px 6px', minWidth: 10 }}>
+            {unreadCount > 99 ? '99+' : unreadCount}
+          </span>
+        )}
+      </button>
+      {open && (
+        <div style={{ position: 'absolute', top: '100%', right: 0, marginTop: 6, width: 360, maxHeight: 420, overflowY: 'auto', background: '#fff', color: '#222', borderRadius: 6, boxShadow: '0 4px 16px #0003', zIndex: 200, fontSize: 13, textAlign: 'left' }}>
+          <div style={{ display: 'flex', alignItems: 'center', gap: 8, padding: '10px 12px', borderBottom: '1px solid #eee', position: 'sticky', top: 0, background: '#fff' }}>
+            <strong style={{ flex: 1 }}>Inbox</strong>
+            <label style={{ fontSize: 12, display: 'flex', alignItems: 'center', gap: 4 }}>
+              <input type="checkbox" checked={unreadOnly} onChange={e => setUnreadOnly(e.target.checked)} />
+              Unread only
+            </label>
+            <button onClick={onMarkAllRead} disabled={unreadCount === 0} style={{ fontSize: 12, padding: '2px 8px', cursor: unreadCount === 0 ? 'default' : 'pointer' }}>
+              Mark all read
+            </button>
+          </div>
+          {shown.length === 0 ? (
+            <div style={{ padding: 16, color: '#888', textAlign: 'center' }}>{unreadOnly ? 'No unread notifications' : 'Nothing needs your attention'}</div>
+          ) : shown.map(n => {
+            const unread = !readIds.has(n.id);
+            return (
+              <div
+                key={n.id}
+                onClick={() => handleOpen(n)}
+                style={{ padding: '8px 12px', borderBottom: '1px solid #f0f0f0', cursor: 'pointer', background: unread ? '#f3f5ff' : '#fff', borderLeft: `4px solid ${severityColor[n.severity]}` }}
+              >
+                <div style={{ fontWeight: unread ? 700 : 500 }}>{n.title}</div>
+                <div style={{ fontSize: 12, color: '#666', marginTop: 2 }}>
+                  {n.detail}{n.date ? ` · ${n.date}` : ''}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default NotificationBell;
@@ -0,0 +1,110 @@
+import React, { useState, useEffect } from 'react';
+import { RECYCLE_BIN_RETENTION_DAYS } from '../utils/softDelete';
+import type { RecycleSource, SoftDeleteFields } from '../utils/softDelete';
+
+interface RecycleBinProps<T> {
+  uid: string | null;
+  source: RecycleSource<T>;
+  /** One-line description of a deleted record, e.g. "PO 123 - Supplier" */
+  describe: (doc: T) => string;
+  title?: string;
+  /** Restoring needs the module's edit permission, deleting forever its delete permission */
+  canRestore?: boolean;
+  canPurge?: boolean;
+  /** Why a record cannot be restored right now, or null when it can */
+  checkRestore?: (doc: T) => string | null;
+  /** Called after a record is restored, for modules that keep other records in step */
+  onRestored?: (id: string) => void;
+}
+
+const cellStyle: React.CSSProperties = { border: '1px solid #eee', padding: 6, textAlign: 'left' };
+const headStyle: React.CSSProperties = { ...cellStyle, background: '#e3e6f3', fontWeight: 600 };
+
+const daysLeft = (deletedAt: string | null | undefined) => {
+  const ms = deletedAt ? Date.parse(deletedAt) : NaN;
+  if (!Number.isFinite(ms)) return RECYCLE_BIN_RETENTION_DAYS;
+  return Math.max(0, RECYCLE_BIN_RETENTION_DAYS - Math.floor((Date.now() - ms) / (24 * 60 * 60 * 1000)));
+};
+
+/** Collapsible list of a module's deleted records with restore and delete-forever */
+const RecycleBin = <T extends object>({ uid, source, describe, title = 'Recycle Bin', canRestore = true, canPurge = true, checkRestore, onRestored }: RecycleBinProps<T>) => {
+  const [open, setOpen] = useState(false);
+  const [deleted, setDeleted] = useState<Array<T & SoftDeleteFields & { id: string }>>([]);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!uid) return;
+    const unsub = source.subscribeDeleted(uid, docs => setDeleted(docs));
+    return () => {
+      unsub();
+      setDeleted([]);
+    };
+  }, [uid, source]);
+
+  const run = async (id: string, action: 'restore' | 'purge') => {
+    if (!uid) return;
+    if (action === 'purge' && !window.confirm('Delete this record permanently? This cannot be undone.')) return;
+    const record = deleted.find(d => d.id === id);
+    const blocked = action === 'restore' && record && checkRestore ? checkRestore(record) : null;
+    if (blocked) {
+      alert(blocked);
+      return;
+    }
+    setBusyId(id);
+    try {
+      if (action === 'restore') {
+        await source.restore(uid, id);
+        onRestored?.(id);
+      } else {
+        await source.purge(uid, id);
+      }
+    } catch (err) {
+      console.error(`[RecycleBin] ${action} failed:`, err);
+      alert(err instanceof Error ? err.message : `Failed to ${action} record`);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const sorted = [...deleted].sort((a, b) => String(b.deletedAt || '').localeCompare(String(a.deletedAt || '')));
+
+  return (
+    <div style={{ marginTop: 24 }}>
+      <button onClick={() => setOpen(o => !o)} style={{ padding: '6px 14px', background: '#fff', color: '#1a237e', border: '1px solid #1a237e', borderRadius: 4, cursor: 'pointer' }}>
+        {open ? '▾' : '▸'} {title} ({deleted.length})
+      </button>
+      {open && (
+        <table style={{ width: '100%', borderCollapse: 'collapse', background: '#fafbfc', marginTop: 8 }}>
+          <thead>
+            <tr>
+              <th style={headStyle}>Record</th>
+              <th style={headStyle}>Deleted</th>
+              <th style={headStyle}>Deleted By</th>
+              <th style={headStyle}>Purged In</th>
+              <th style={headStyle}>Actions</th>
+            </tr>
+          </thead>
+          <tbody>
+            {sorted.length === 0 && (
+              <tr><td colSpan={5} style={{ ...cellStyle, color: '#888' }}>Recycle bin is empty</td></tr>
+            )}
+            {sorted.map(d => (
+              <tr key={d.id}>
+                <td style={cellStyle}>{describe(d)}</td>
+                <td style={cellStyle}>{d.deletedAt ? new Date(d.deletedAt).toLocaleString() : '—'}</td>
+                <td style={cellStyle}>{d.deletedBy || '—'}</td>
+                <td style={cellStyle}>{daysLeft(d.deletedAt)} day(s)</td>
+                <td style={cellStyle}>
+                  {canRestore && <button disabled={busyId === d.id} onClick={() => run(d.id, 'restore')} style={{ marginRight: 8, background: '#43a047', color: '#fff', border: 'none', borderRadius: 4, padding: '4px 12px', cursor: 'pointer' }}>Restore</button>}
+                  {canPurge && <button disabled={busyId === d.id} onClick={() => run(d.id, 'purge')} style={{ background: '#e53935', color: '#fff', border: 'none', borderRadius: 4, padding: '4px 12px', cursor: 'pointer' }}>Delete Forever</button>}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+};
+
+export default RecycleBin;
@@ -0,0 +1,161 @@
+import React, { useState } from 'react';
+import { postAdjustment } from '../utils/stockLedger';
+import type { StockBalance } from '../utils/stockLedger';
+import type { StockMovement } from '../utils/recordSchemas';
+
+interface StockLedgerPanelProps {
+  uid: string | null;
+  movements: StockMovement[];
+  balances: StockBalance[];
+  items: Array<{ itemName: string; itemCode: string }>;
+  /** Show the adjustment form; off for users who may not create stock records */
+  canAdjust?: boolean;
+}
+
+const SOURCE_LABELS: Record<string, string> = {
+  psir: 'PSIR (GRN)',
+  vsir: 'VSIR (GRN)',
+  vendorIssue: 'Vendor Issue',
+  inHouseIssue: 'In-House Issue',
+  deliveryChallan: 'Delivery Challan',
+  opening: 'Opening Stock',
+  adjustment: 'Adjustment',
+};
+
+const cellStyle: React.CSSProperties = { border: '1px solid #eee', padding: 6, textAlign: 'left' };
+const headStyle: React.CSSProperties = { ...cellStyle, background: '#e3e6f3', fontWeight: 600 };
+
+const formatDate = (val: unknown) => {
+  const ts = val && typeof (val as { toMillis?: unknown }).toMillis === 'function'
+    ? (val as { toMillis: () => number }).toMillis()
+    : typeof val === 'string' ? Date.parse(val) : NaN;
+  return Number.isFinite(ts) ? new Date(ts).toLocaleString() : '—';
+};
+
+const emptyAdjustment = { itemCode: '', batchNo: '', qty: '', reason: '' };
+
+/** Ledger balances per item and batch, the movements behind each, and manual adjustments */
+const StockLedgerPanel: React.FC<StockLedgerPanelProps> = ({ uid, movements, balances, items, canAdjust = true }) => {
+  const [filter, setFilter] = useState('');
+  const [selected, setSelected] = useState<string | null>(null);
+  const [adjustment, setAdjustment] = useState(emptyAdjustment);
+  const [posting, setPosting] = useState(false);
+
+  const keyOf = (b: { itemCode: string; batchNo: string }) => `${b.itemCode}|${b.batchNo}`;
+  const visible = balances.filter(b => !filter || `${b.itemCode} ${b.itemName} ${b.batchNo}`.toLowerCase().includes(filter.toLowerCase()));
+  const history = selected
+    ? movements.filter(m => keyOf({ itemCode: String(m.itemCode || m.itemName || '').trim(), batchNo: String(m.batchNo || '').trim() }) === selected)
+    : [];
+
+  const handleAdjust = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!uid) {
+      alert('Sign in to post stock adjustments.');
+      return;
+    }
+    const item = items.find(i => i.itemCode === adjustment.itemCode);
+    if (!item) {
+      alert('Select an item to adjust.');
+      return;
+    }
+    setPosting(true);
+    try {
+      await postAdjustment(uid, { itemCode: item.itemCode, itemName: item.itemName, batchNo: adjustment.batchNo, qty: Number(adjustment.qty), reason: adjustment.reason });
+      setAdjustment(emptyAdjustment);
+    } catch (err) {
+      console.error('[StockLedgerPanel] Adjustment failed:', err);
+      alert(err instanceof Error ? err.message : 'Failed to post adjustment');
+    } finally {
+      setPosting(false);
+    }
+  };
+
+  return (
+    <div style={{ marginTop: 32 }}>
+      <h3>Stock Ledger</h3>
+      {canAdjust && (
+        <form onSubmit={handleAdjust} style={{ display: 'flex', flexWrap: 'wrap', gap: 12, alignItems: 'flex-end', marginBottom: 16, padding: 12, background: '#f5f5f5', borderRadius: 6 }}>
+          <div>
+            <label style={{ display: 'block', marginBottom: 4 }}>Item</label>
+            <select value={adjustment.itemCode} onChange={e => setAdjustment(a => ({ ...a, itemCode: e.target.value }))} style={{ padding: 6, minWidth: 200 }}>
+              <option value="">Select Item</option>
+              {items.map(i => <option key={i.itemCode} value={i.itemCode}>{i.itemName} - {i.itemCode}</option>)}
+            </select>
+          </div>
+          <div>
+            <label style={{ display: 'block', marginBottom: 4 }}>Batch No</label>
+            <input value={adjustment.batchNo} onChange={e => setAdjustment(a => ({ ...a, batchNo: e.target.value }))} style={{ padding: 6 }} />
+          </div>
+          <div>
+            <label style={{ display: 'block', marginBottom: 4 }}>Qty (+/-)</label>
+            <input type="number" value={adjustment.qty} onChange={e => setAdjustment(a => ({ ...a, qty: e.target.value }))} style={{ padding: 6, width: 100 }} />
+          </div>
+          <div style={{ flex: '1 1 240px' }}>
+            <label style={{ display: 'block', marginBottom: 4 }}>Reason</label>
+            <input value={adjustment.reason} onChange={e => setAdjustment(a => ({ ...a, reason: e.target.value }))} placeholder="e.g. Physical count correction" style={{ padding: 6, width: '100%' }} />
+          </div>
+          <button type="submit" disabled={posting} style={{ padding: '8px 18px', background: '#1a237e', color: '#fff', border: 'none', borderRadius: 4, cursor: 'pointer' }}>
+            {posting ? 'Posting...' : 'Post Adjustment'}
+          </button>
+        </form>
+      )}
+
+      <input placeholder="Filter by item or batch" value={filter} onChange={e => setFilter(e.target.value)} style={{ padding: 6, marginBottom: 8, width: 280 }} />
+      <table style={{ width: '100%', borderCollapse: 'collapse', background: '#fafbfc' }}>
+        <thead>
+          <tr>
+            <th style={headStyle}>Item Code</th>
+            <th style={headStyle}>Item Name</th>
+            <th style={headStyle}>Batch No</th>
+            <th style={headStyle}>Closing Stock</th>
+            <th style={headStyle}>Movements</th>
+          </tr>
+        </thead>
+        <tbody>
+          {visible.length === 0 && (
+            <tr><td colSpan={5} style={{ ...cellStyle, color: '#888' }}>No stock movements yet</td></tr>
+          )}
+          {visible.map(b => (
+            <tr key={keyOf(b)} onClick={() => setSelected(selected === keyOf(b) ? null : keyOf(b))} style={{ cursor: 'pointer', background: selected === keyOf(b) ? '#e3f2fd' : undefined }}>
+              <td style={cellStyle}>{b.itemCode}</td>
+              <td style={cellStyle}>{b.itemName}</td>
+              <td style={cellStyle}>{b.batchNo || '—'}</td>
+              <td style={{ ...cellStyle, fontWeight: 600, color: b.qty < 0 ? '#d32f2f' : undefined }}>{b.qty}</td>
+              <td style={cellStyle}>{b.movements}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      {selected && (
+        <div style={{ marginTop: 16 }}>
+          <strong>Movements for {selected.replace('|', ' / batch ')}</strong>
+          <table style={{ width: '100%', borderCollapse: 'collapse', marginTop: 8 }}>
+            <thead>
+              <tr>
+                <th style={headStyle}>Date</th>
+                <th style={headStyle}>Source</th>
+                <th style={headStyle}>Reference</th>
+                <th style={headStyle}>Qty</th>
+                <th style={headStyle}>Reason</th>
+              </tr>
+            </thead>
+            <tbody>
+              {history.map(m => (
+                <tr key={m.id}>
+                  <td style={cellStyle}>{formatDate(m.createdAt)}</td>
+                  <td style={cellStyle}>{SOURCE_LABELS[m.source] || m.source}</td>
+                  <td style={cellStyle}>{m.sourceRef || m.sourceId}</td>
+                  <td style={{ ...cellStyle, color: m.qty < 0 ? '#d32f2f' : '#2e7d32' }}>{m.qty > 0 ? `+${m.qty}` : m.qty}</td>
+                  <td style={cellStyle}>{m.reason}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default StockLedgerPanel;
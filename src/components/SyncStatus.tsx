@@ -1,49 +1,152 @@
-import React, { useEffect, useState } from 'react';
+import React, { useState } from 'react';
+import { useSyncState } from '../hooks/useSyncState';
+import type { CollectionSyncState, SyncState } from '../utils/syncState';
+import { getQueuedMutations, resolveConflict } from '../utils/writeQueue';
+import type { QueuedMutation } from '../utils/writeQueue';
 
 const formatTime = (ts: number | null) => (ts ? new Date(ts).toLocaleString() : '—');
 
+type Overall = 'idle' | 'offline' | 'error' | 'syncing' | 'saving' | 'synced';
+
+const overallStatus = (state: SyncState, entries: CollectionSyncState[]): Overall => {
+  if (entries.length === 0) return 'idle';
+  if (!state.online) return 'offline';
+  if (entries.some(c => c.status === 'error') || state.queued.conflicts > 0 || state.queued.failed > 0) return 'error';
+  if (entries.some(c => c.status === 'syncing')) return 'syncing';
+  if (entries.some(c => c.hasPendingWrites) || state.queued.pending > 0) return 'saving';
+  return 'synced';
+};
+
+const statusColor: Record<Overall, string> = {
+  idle: '#90a4ae',
+  offline: '#90a4ae',
+  error: '#d32f2f',
+  syncing: '#f5a623',
+  saving: '#f5a623',
+  synced: '#19a34a',
+};
+
+const statusMessage = (overall: Overall, state: SyncState, entries: CollectionSyncState[]) => {
+  switch (overall) {
+    case 'idle': return 'Not syncing';
+    case 'offline': return state.queued.pending > 0 ? `Offline - ${state.queued.pending} change(s) queued` : 'Offline - showing cached data';
+    case 'error': {
+      if (state.queued.conflicts > 0) return `${state.queued.conflicts} offline change(s) in conflict`;
+      if (state.queued.failed > 0) return `${state.queued.failed} offline change(s) failed`;
+      return `Error in ${entries.filter(c => c.status === 'error').length} collection(s)`;
+    }
+    case 'syncing': return 'Connecting...';
+    case 'saving': return 'Saving to server...';
+    default: return 'All changes saved';
+  }
+};
+
+const cellStyle: React.CSSProperties = { padding: '4px 8px', borderBottom: '1px solid #eee', textAlign: 'left', whiteSpace: 'nowrap' };
+const buttonStyle: React.CSSProperties = { marginRight: 6, border: 'none', borderRadius: 4, padding: '2px 8px', color: '#fff', cursor: 'pointer', fontSize: 11 };
+
+const opLabel: Record<QueuedMutation['op'], string> = { add: 'Add', update: 'Edit', remove: 'Delete' };
+
 const SyncStatus: React.FC = () => {
-  const [status, setStatus] = useState<string>('idle');
-  const [lastTs, setLastTs] = useState<number | null>(null);
-  const [message, setMessage] = useState<string>('Not syncing');
-
-  useEffect(() => {
-    const onStarted = (e: any) => { setStatus('running'); setLastTs(e.detail?.ts || Date.now()); setMessage('Background sync started'); };
-    const onInitialized = (e: any) => { setStatus('initialized'); setLastTs(e.detail?.ts || Date.now()); setMessage('Initialized remote userData'); };
-    const onApplied = (e: any) => { setStatus('applied'); setLastTs(e.detail?.ts || Date.now()); setMessage('Applied remote userData'); };
-    const onRemoteUpdate = (e: any) => { setStatus('updated'); setLastTs(e.detail?.ts || Date.now()); setMessage('Remote update applied'); };
-    const onSaving = (e: any) => { setStatus('saving'); setLastTs(e.detail?.ts || Date.now()); setMessage('Saving to server...'); };
-    const onSaved = (e: any) => { setStatus('saved'); setLastTs(e.detail?.ts || Date.now()); setMessage('Saved'); };
-    const onError = (e: any) => { setStatus('error'); setLastTs(e.detail?.ts || Date.now()); setMessage('Error: ' + (e.detail?.error || 'Unknown')); };
-
-    window.addEventListener('userData.sync.started', onStarted as EventListener);
-    window.addEventListener('userData.sync.initialized', onInitialized as EventListener);
-    window.addEventListener('userData.sync.applied', onApplied as EventListener);
-    window.addEventListener('userData.sync.remoteUpdate', onRemoteUpdate as EventListener);
-    window.addEventListener('userData.sync.saving', onSaving as EventListener);
-    window.addEventListener('userData.sync.saved', onSaved as EventListener);
-    window.addEventListener('userData.sync.error', onError as EventListener);
-
-    return () => {
-      window.removeEventListener('userData.sync.started', onStarted as EventListener);
-      window.removeEventListener('userData.sync.initialized', onInitialized as EventListener);
-      window.removeEventListener('userData.sync.applied', onApplied as EventListener);
-      window.removeEventListener('userData.sync.remoteUpdate', onRemoteUpdate as EventListener);
-      window.removeEventListener('userData.sync.saving', onSaving as EventListener);
-      window.removeEventListener('userData.sync.saved', onSaved as EventListener);
-      window.removeEventListener('userData.sync.error', onError as EventListener);
-    };
-  }, []);
-
-  const color = status === 'saved' || status === 'applied' || status === 'initialized' ? '#19a34a' : status === 'saving' || status === 'running' ? '#f5a623' : status === 'error' ? '#d32f2f' : '#90a4ae';
+  const state = useSyncState();
+  const [open, setOpen] = useState(false);
+  const [resolving, setResolving] = useState<number | null>(null);
+  // The queue snapshot changes with state.queued, which re-renders this panel
+  const unsettled = getQueuedMutations().filter(m => m.status !== 'pending' && m.seq !== undefined);
+
+  // 'mine' replays the offline change over the server copy, 'theirs' drops it
+  const resolve = async (seq: number, keep: 'mine' | 'theirs') => {
+    if (keep === 'theirs' && !window.confirm('Discard your offline change and keep the server copy?')) return;
+    setResolving(seq);
+    try {
+      await resolveConflict(seq, keep);
+    } catch (err) {
+      console.error('[SyncStatus] Resolving offline change failed:', err);
+      alert(err instanceof Error ? err.message : 'Could not resolve the offline change');
+    } finally {
+      setResolving(null);
+    }
+  };
+
+  const entries = Object.values(state.collections);
+  const overall = overallStatus(state, entries);
+  const message = statusMessage(overall, state, entries);
+  const lastTs = entries.reduce<number | null>((max, c) => (c.lastSnapshotAt && (!max || c.lastSnapshotAt > max) ? c.lastSnapshotAt : max), null);
 
   return (
-    <div style={{ display: 'flex', alignItems: 'center', gap: 8 }} title={`${message} @ ${formatTime(lastTs)}`}>
-      <span style={{ width: 10, height: 10, borderRadius: 6, background: color, display: 'inline-block' }} />
-      <div style={{ fontSize: 12, color: '#fff', opacity: 0.9 }}>
-        <div style={{ fontWeight: 600 }}>{message}</div>
-        <div style={{ fontSize: 10, opacity: 0.85 }}>{formatTime(lastTs)}</div>
+    <div style={{ position: 'relative' }}>
+      <div
+        onClick={() => setOpen(o => !o)}
+        style={{ display: 'flex', alignItems: 'center', gap: 8, cursor: 'pointer' }}
+        title={`${message} @ ${formatTime(lastTs)} (click for details)`}
+      >
+        <span style={{ width: 10, height: 10, borderRadius: 6, background: statusColor[overall], display: 'inline-block' }} />
+        <div style={{ fontSize: 12, color: '#fff', opacity: 0.9 }}>
+          <div style={{ fontWeight: 600 }}>{message} {open ? '▴' : '▾'}</div>
+          <div style={{ fontSize: 10, opacity: 0.85 }}>{formatTime(lastTs)}</div>
+        </div>
       </div>
+      {open && (
+        <div style={{ position: 'absolute', top: '100%', right: 0, marginTop: 6, background: '#fff', color: '#222', borderRadius: 6, boxShadow: '0 4px 16px #0003', padding: 12, zIndex: 200, fontSize: 12 }}>
+          <table style={{ borderCollapse: 'collapse' }}>
+            <thead>
+              <tr style={{ background: '#e3e6f3' }}>
+                <th style={cellStyle}>Collection</th>
+                <th style={cellStyle}>Status</th>
+                <th style={cellStyle}>Docs</th>
+                <th style={cellStyle}>Last snapshot</th>
+                <th style={cellStyle}>Pending writes</th>
+                <th style={cellStyle}>Source</th>
+              </tr>
+            </thead>
+            <tbody>
+              {entries.map(c => (
+                <tr key={c.collection}>
+                  <td style={cellStyle}>{c.collection}</td>
+                  <td style={{ ...cellStyle, color: c.status === 'error' ? '#d32f2f' : undefined }} title={c.error || undefined}>
+                    {c.status}{c.error ? ' ⚠' : ''}
+                  </td>
+                  <td style={cellStyle}>{c.docCount}</td>
+                  <td style={cellStyle}>{formatTime(c.lastSnapshotAt)}</td>
+                  <td style={cellStyle}>{c.hasPendingWrites ? 'Yes' : 'No'}</td>
+                  <td style={cellStyle}>{c.lastSnapshotAt ? (c.fromCache ? 'Cache' : 'Server') : '—'}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {unsettled.length > 0 && (
+            <table style={{ borderCollapse: 'collapse', marginTop: 10 }}>
+              <thead>
+                <tr style={{ background: '#fdecea' }}>
+                  <th style={cellStyle}>Offline change</th>
+                  <th style={cellStyle}>Problem</th>
+                  <th style={cellStyle}>Made</th>
+                  <th style={cellStyle}>Keep</th>
+                </tr>
+              </thead>
+              <tbody>
+                {unsettled.map(m => (
+                  <tr key={m.seq}>
+                    <td style={cellStyle}>{opLabel[m.op]} {m.collectionPath.split('/').pop()}/{m.docId}</td>
+                    <td style={{ ...cellStyle, color: '#d32f2f' }} title={m.lastError || undefined}>
+                      {m.status === 'conflict' ? 'Changed on the server meanwhile' : 'Rejected by the server'}
+                    </td>
+                    <td style={cellStyle}>{formatTime(m.queuedAt)}</td>
+                    <td style={cellStyle}>
+                      <button disabled={resolving === m.seq || !state.online} onClick={() => resolve(m.seq as number, 'mine')} style={{ ...buttonStyle, background: '#1a237e' }}>Mine</button>
+                      <button disabled={resolving === m.seq} onClick={() => resolve(m.seq as number, 'theirs')} style={{ ...buttonStyle, background: '#757575' }}>Server's</button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+          <div style={{ marginTop: 8, color: '#555' }}>
+            {state.online ? 'Online' : 'Offline'} · Queued offline writes: {state.queued.pending}
+            {state.queued.conflicts > 0 && ` · Conflicts: ${state.queued.conflicts}`}
+            {state.queued.failed > 0 && ` · Failed: ${state.queued.failed}`}
+          </div>
+        </div>
+      )}
     </div>
   );
 };
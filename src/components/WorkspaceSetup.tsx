@@ -0,0 +1,68 @@
+import React, { useState } from 'react';
+import type { User } from 'firebase/auth';
+import { createOrganisation, requestToJoinOrganisation } from '../utils/userProfiles';
+
+interface WorkspaceSetupProps {
+  user: User;
+  /** Called once the user belongs to an organisation, to reload their profile */
+  onReady: () => void;
+  /** Shown above the options, e.g. why an invite could not be accepted */
+  notice?: string | null;
+}
+
+const panelStyle: React.CSSProperties = { flex: '1 1 260px', border: '1px solid #e3e6f3', borderRadius: 8, padding: 20 };
+const inputStyle: React.CSSProperties = { width: '100%', padding: 8, borderRadius: 4, border: '1px solid #bbb', boxSizing: 'border-box', marginBottom: 12 };
+const buttonStyle: React.CSSProperties = { padding: '8px 20px', background: '#1a237e', color: '#fff', border: 'none', borderRadius: 4, fontWeight: 500, cursor: 'pointer' };
+
+/** Shown to signed-in users who do not belong to an organisation yet */
+const WorkspaceSetup: React.FC<WorkspaceSetupProps> = ({ user, onReady, notice = null }) => {
+  const [name, setName] = useState('');
+  const [orgId, setOrgId] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const run = async (action: () => Promise<unknown>) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await action();
+      onReady();
+    } catch (err) {
+      console.error('[WorkspaceSetup] Failed:', err);
+      setError(err instanceof Error ? err.message : 'Something went wrong');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div>
+      <h2>Set up your workspace</h2>
+      <p style={{ color: '#666', marginTop: 0 }}>
+        Indents, purchase orders, GRNs and stock belong to an organisation and are shared by its members.
+      </p>
+      {notice && <div style={{ color: '#8d6e00', background: '#fff8e1', borderRadius: 4, padding: '8px 12px', marginBottom: 12 }}>{notice}</div>}
+      {error && <div style={{ color: '#d32f2f', marginBottom: 12 }}>{error}</div>}
+      <div style={{ display: 'flex', flexWrap: 'wrap', gap: 24 }}>
+        <div style={panelStyle}>
+          <h3 style={{ marginTop: 0 }}>Create an organisation</h3>
+          <p style={{ color: '#666' }}>You become its administrator and approve colleagues who ask to join.</p>
+          <input placeholder="Organisation name" value={name} onChange={e => setName(e.target.value)} style={inputStyle} />
+          <button disabled={busy || !name.trim()} onClick={() => void run(() => createOrganisation(user, name))} style={buttonStyle}>
+            Create
+          </button>
+        </div>
+        <div style={panelStyle}>
+          <h3 style={{ marginTop: 0 }}>Join an organisation</h3>
+          <p style={{ color: '#666' }}>Ask your administrator for an invite link, or for the workspace ID. Without an invite they enable your account once you have asked to join.</p>
+          <input placeholder="Workspace ID" value={orgId} onChange={e => setOrgId(e.target.value)} style={inputStyle} />
+          <button disabled={busy || !orgId.trim()} onClick={() => void run(() => requestToJoinOrganisation(user, orgId))} style={buttonStyle}>
+            Ask to join
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default WorkspaceSetup;
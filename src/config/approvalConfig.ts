@@ -0,0 +1,22 @@
+/** Documents that go through an approval chain before the next stage picks them up */
+export type ApprovalDocType = 'indent' | 'purchase';
+
+export interface ApprovalStep {
+  /** Stored on each decision, so keep it stable once documents use it */
+  id: string;
+  label: string;
+  /** `module:action` permission the approver needs for this step */
+  permission: string;
+}
+
+// Steps run in order; a document is approved once every step has approved it
+// and rejected as soon as any step rejects it. An empty chain approves on creation.
+// Once approved, an indent can be imported into Purchase and turned into a PO.
+export const approvalChains: Record<ApprovalDocType, ApprovalStep[]> = {
+  indent: [
+    { id: 'hod', label: 'HOD', permission: 'indent:approve' },
+  ],
+  purchase: [
+    { id: 'purchaseManager', label: 'Purchase Manager', permission: 'purchase:approve' },
+  ],
+};
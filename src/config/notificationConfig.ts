@@ -0,0 +1,5 @@
+// Thresholds for the notifications derived from module data (see utils/notifications.ts)
+export const notificationSettings = {
+  /** A placed PO with nothing received this many days after its order date is overdue */
+  poOverdueDays: 14,
+};
@@ -1,22 +1,87 @@
-// Define which modules are accessible by each role
-export const roleModuleAccess: Record<string, string[]> = {
-  admin: [
-    'purchase',
-    'indent',
-    'vendorDept',
-    'vendorIssue',
-    'inHouseIssue',
-    'psir',
-    'vsir',
-    'stock',
-    'itemMaster',
+export type PermissionAction = 'view' | 'create' | 'edit' | 'delete' | 'approve';
+
+export const PERMISSION_ACTIONS: PermissionAction[] = ['view', 'create', 'edit', 'delete', 'approve'];
+
+/** What the current user may do in one module */
+export type ModulePermissions = Record<PermissionAction, boolean>;
+
+/** Permission strings are `module:action`, e.g. `psir:create` or `indent:approve` */
+export const permissionKey = (moduleId: string, action: PermissionAction) => `${moduleId}:${action}`;
+
+// Every module, in footer navigation order
+export const MODULE_IDS = [
+  'purchase',
+  'vendorDept',
+  'vendorIssue',
+  'inHouseIssue',
+  'indent',
+  'psir',
+  'vsir',
+  'debitNote',
+  'sales',
+  'salesDashboard',
+  'dc',
+  'stock',
+  'itemMaster',
+  'acuInventoryDashboard',
+  'auditLog',
+  'dataReset',
+  'users',
+];
+
+const grant = (modules: string[], actions: PermissionAction[]) =>
+  modules.flatMap((moduleId) => actions.map((action) => permissionKey(moduleId, action)));
+
+const EDITOR: PermissionAction[] = ['view', 'create', 'edit', 'delete'];
+
+// Each role is a bundle of permissions; users can be granted extra ones on their profile.
+// firestore.rules enforces the same bundles (roleGrants), so change both together.
+export const rolePermissions: Record<string, string[]> = {
+  admin: grant(MODULE_IDS, PERMISSION_ACTIONS),
+  purchaseManager: [
+    ...grant(['purchase', 'indent', 'vendorDept', 'vendorIssue'], EDITOR),
+    ...grant(['purchase', 'indent'], ['approve']),
+    // Debit notes are raised from PSIR / VSIR rejections
+    ...grant(['debitNote'], EDITOR),
+    ...grant(['psir', 'vsir'], ['view']),
+    ...grant(['sales', 'salesDashboard'], ['view']),
   ],
-  purchaseManager: ['purchase', 'indent', 'vendorDept', 'vendorIssue'],
-  warehouseManager: ['stock', 'psir', 'vsir', 'inHouseIssue'],
-  itemMaster: ['itemMaster'],
-  viewer: ['stock', 'psir', 'vsir'],
+  hod: [
+    ...grant(['indent'], [...EDITOR, 'approve']),
+    ...grant(['stock', 'sales'], ['view']),
+  ],
+  // Readiness of an OA is rolled up from the indent, purchase, PSIR, vendor and issue records
+  sales: [
+    ...grant(['sales'], EDITOR),
+    ...grant(['salesDashboard', 'indent', 'purchase', 'psir', 'vendorDept', 'vsir', 'inHouseIssue', 'stock', 'itemMaster', 'dc'], ['view']),
+  ],
+  // The inventory dashboard groups and values stock by Item Master category and rate
+  warehouseManager: [
+    ...grant(['stock', 'psir', 'vsir', 'inHouseIssue', 'dc'], EDITOR),
+    ...grant(['acuInventoryDashboard', 'itemMaster'], ['view']),
+  ],
+  itemMaster: grant(['itemMaster'], EDITOR),
+  viewer: grant(['stock', 'psir', 'vsir', 'acuInventoryDashboard', 'itemMaster'], ['view']),
 };
 
+export const roleMetadata: Record<string, { label: string; description: string }> = {
+  admin: { label: 'Admin', description: 'Full system access' },
+  purchaseManager: { label: 'Purchase Manager', description: 'Purchase operations and vendor management' },
+  hod: { label: 'Head of Department', description: 'Raises and approves indents' },
+  sales: { label: 'Sales', description: 'Customer orders (OA) and their material readiness' },
+  warehouseManager: { label: 'Warehouse Manager', description: 'Inventory and warehouse operations' },
+  itemMaster: { label: 'Item Master', description: 'Item master data' },
+  viewer: { label: 'Viewer', description: 'View-only access to inventory' },
+};
+
+// Modules each role can open (those it may view), in navigation order; the first is the landing module
+export const roleModuleAccess: Record<string, string[]> = Object.fromEntries(
+  Object.entries(rolePermissions).map(([role, permissions]) => [
+    role,
+    MODULE_IDS.filter((moduleId) => permissions.includes(permissionKey(moduleId, 'view'))),
+  ])
+);
+
 // Define module metadata
 export const moduleMetadata: Record<
   string,
@@ -27,11 +92,19 @@ export const moduleMetadata: Record<
   vendorDept: { label: 'Vendor Dept', description: 'Vendor department management' },
   vendorIssue: { label: 'Vendor Issue', description: 'Vendor issues tracking' },
   inHouseIssue: {
-    label: 'In-House Issue',
+    label: 'In House Issue',
     description: 'Internal issue management',
   },
   psir: { label: 'PSIR', description: 'Purchase Stock Issue Report' },
   vsir: { label: 'VSIR', description: 'Vendor Stock Issue Report' },
+  debitNote: { label: 'Debit Note', description: 'Debit notes for rejected and returned material' },
+  sales: { label: 'Sales', description: 'Customer orders (OA) and material readiness' },
+  salesDashboard: { label: 'Sales Dashboard', description: 'OA completion, shortages and expected dates' },
+  dc: { label: 'Delivery Challan', description: 'Outward dispatch and returnable challans' },
   stock: { label: 'Stock', description: 'Inventory management' },
   itemMaster: { label: 'Item Master', description: 'Master item configuration' },
+  acuInventoryDashboard: { label: 'Inventory Dashboard', description: 'Stock, consumption, ageing and rejection charts' },
+  auditLog: { label: 'Audit Log', description: 'Who changed what, and when' },
+  dataReset: { label: 'Data Reset', description: 'Scoped, reversible data reset' },
+  users: { label: 'Users', description: 'Roles, permissions and account status' },
 };
@@ -1,44 +1,52 @@
-import { roleModuleAccess, moduleMetadata } from '../config/roleModuleConfig';
+import { useMemo } from 'react';
+import { MODULE_IDS, PERMISSION_ACTIONS, moduleMetadata, permissionKey, rolePermissions } from '../config/roleModuleConfig';
+import type { ModulePermissions } from '../config/roleModuleConfig';
 
 interface UserProfile {
   role: string;
-  permissions: string[];
+  permissions?: string[];
+  disabled?: boolean;
 }
 
-export const useAccessControl = (userProfile: UserProfile | null) => {
-  const getAccessibleModules = (): string[] => {
-    if (!userProfile) return [];
-    return roleModuleAccess[userProfile.role] || [];
-  };
-
-  const hasAccessToModule = (moduleId: string): boolean => {
-    if (!userProfile) return false;
-    const accessibleModules = roleModuleAccess[userProfile.role] || [];
-    return accessibleModules.includes(moduleId);
-  };
-
-  const hasPermission = (permission: string): boolean => {
-    if (!userProfile) return false;
-    return userProfile.permissions.includes(permission) || userProfile.role === 'admin';
-  };
-
-  const getVisibleModuleButtons = (): Array<{
-    id: string;
-    label: string;
-    description: string;
-  }> => {
-    const accessibleModules = getAccessibleModules();
-    return accessibleModules.map((moduleId) => ({
-      id: moduleId,
-      label: moduleMetadata[moduleId]?.label || moduleId,
-      description: moduleMetadata[moduleId]?.description || '',
-    }));
-  };
-
-  return {
-    getAccessibleModules,
-    hasAccessToModule,
-    hasPermission,
-    getVisibleModuleButtons,
-  };
-};
+// Helpers are memoised on the profile so callers can use them in effect deps
+export const useAccessControl = (userProfile: UserProfile | null) =>
+  useMemo(() => {
+    // The role's bundle plus any permissions granted to this user directly; nothing once disabled
+    const granted = new Set<string>(
+      userProfile && !userProfile.disabled
+        ? [...(rolePermissions[userProfile.role] || []), ...(userProfile.permissions || [])]
+        : []
+    );
+
+    const hasPermission = (permission: string): boolean => granted.has(permission);
+
+    const hasAccessToModule = (moduleId: string): boolean => granted.has(permissionKey(moduleId, 'view'));
+
+    const getAccessibleModules = (): string[] => MODULE_IDS.filter(hasAccessToModule);
+
+    const getModulePermissions = (moduleId: string): ModulePermissions =>
+      Object.fromEntries(
+        PERMISSION_ACTIONS.map((action) => [action, granted.has(permissionKey(moduleId, action))])
+      ) as ModulePermissions;
+
+    const getVisibleModuleButtons = (): Array<{
+      id: string;
+      label: string;
+      description: string;
+    }> => {
+      const accessibleModules = getAccessibleModules();
+      return accessibleModules.map((moduleId) => ({
+        id: moduleId,
+        label: moduleMetadata[moduleId]?.label || moduleId,
+        description: moduleMetadata[moduleId]?.description || '',
+      }));
+    };
+
+    return {
+      getAccessibleModules,
+      hasAccessToModule,
+      hasPermission,
+      getModulePermissions,
+      getVisibleModuleButtons,
+    };
+  }, [userProfile]);
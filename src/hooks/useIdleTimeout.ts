@@ -0,0 +1,44 @@
+import { useEffect, useRef } from 'react';
+
+// Shared by every open tab, so working in one tab keeps the others signed in
+const LAST_ACTIVITY_KEY = 'acu.lastActivity';
+const ACTIVITY_EVENTS = ['mousemove', 'mousedown', 'keydown', 'scroll', 'touchstart'] as const;
+// Activity is recorded at most this often; the deadline is checked on the same beat
+const TICK_MS = 15_000;
+
+const readLastActivity = () => Number(localStorage.getItem(LAST_ACTIVITY_KEY)) || 0;
+
+/**
+ * Call `onIdle` once nothing has happened in any tab for `timeoutMs`. Checks
+ * wall-clock time, so a laptop waking from sleep past the deadline signs out too.
+ */
+export const useIdleTimeout = (enabled: boolean, timeoutMs: number, onIdle: () => void) => {
+  const onIdleRef = useRef(onIdle);
+  useEffect(() => {
+    onIdleRef.current = onIdle;
+  }, [onIdle]);
+
+  useEffect(() => {
+    if (!enabled || timeoutMs <= 0) return;
+    let lastWrite = 0;
+    const touch = () => {
+      const now = Date.now();
+      if (now - lastWrite < TICK_MS) return;
+      lastWrite = now;
+      localStorage.setItem(LAST_ACTIVITY_KEY, String(now));
+    };
+    const check = () => {
+      if (Date.now() - Math.max(lastWrite, readLastActivity()) >= timeoutMs) onIdleRef.current();
+    };
+
+    touch();
+    ACTIVITY_EVENTS.forEach(e => window.addEventListener(e, touch, { passive: true }));
+    document.addEventListener('visibilitychange', check);
+    const timer = window.setInterval(check, TICK_MS);
+    return () => {
+      ACTIVITY_EVENTS.forEach(e => window.removeEventListener(e, touch));
+      document.removeEventListener('visibilitychange', check);
+      window.clearInterval(timer);
+    };
+  }, [enabled, timeoutMs]);
+};
@@ -0,0 +1,151 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { subscribeFirestoreDocs } from '../utils/firestoreSync';
+import { subscribeItemMaster, subscribePurchaseData, subscribeVendorDepts, subscribeVSIRRecords } from '../utils/firestoreServices';
+import { subscribePsirs } from '../utils/psirService';
+import { deriveNotifications, saveReadNotifications, subscribeReadNotifications } from '../utils/notifications';
+import type { OpenIndentItem, StockLevel } from '../utils/notifications';
+import type { Indent, ItemMasterRecord, PSIR, PurchaseEntry, VendorDeptOrder, VSRIRecord } from '../utils/recordSchemas';
+import { useStockLedger } from './useStockLedger';
+import { isActiveItem } from '../utils/units';
+import { logger } from '../utils/logger';
+
+// Re-derive this often even without data changes, so POs turn overdue on time
+const REFRESH_MS = 60 * 60 * 1000;
+
+/**
+ * The signed-in member's inbox: notifications derived from the collections
+ * they may view, with their read state. Pass a null orgId until the workspace
+ * is registered; nothing is subscribed before then.
+ */
+export const useNotifications = (uid: string | null, orgId: string | null, hasPermission: (permission: string) => boolean) => {
+  const active = !!uid && !!orgId;
+  // Only listen to collections the rules let this member read
+  const canView = (moduleId: string) => active && hasPermission(`${moduleId}:view`);
+  const viewIndent = canView('indent');
+  const viewPurchase = canView('purchase');
+  const viewPsir = canView('psir');
+  const viewVendorDept = canView('vendorDept');
+  const viewVsir = canView('vsir');
+  const viewStock = canView('stock');
+  const viewItemMaster = canView('itemMaster');
+
+  const [indents, setIndents] = useState<Indent[]>([]);
+  const [openIndentItems, setOpenIndentItems] = useState<OpenIndentItem[]>([]);
+  const [purchases, setPurchases] = useState<PurchaseEntry[]>([]);
+  const [psirs, setPsirs] = useState<PSIR[]>([]);
+  const [vendorDepts, setVendorDepts] = useState<VendorDeptOrder[]>([]);
+  const [vsirRecords, setVsirRecords] = useState<VSRIRecord[]>([]);
+  const [itemMaster, setItemMaster] = useState<ItemMasterRecord[]>([]);
+  const [readIds, setReadIds] = useState<Set<string>>(new Set());
+  const [now, setNow] = useState(() => Date.now());
+  const { balances } = useStockLedger(viewStock ? uid : null);
+
+  useEffect(() => {
+    if (!viewIndent || !uid) return;
+    const unsubIndents = subscribeFirestoreDocs(uid, 'indentData', docs => setIndents(docs as Indent[]));
+    const unsubOpen = subscribeFirestoreDocs(uid, 'openIndentItems', docs => setOpenIndentItems(docs as OpenIndentItem[]));
+    return () => {
+      unsubIndents();
+      unsubOpen();
+      setIndents([]);
+      setOpenIndentItems([]);
+    };
+  }, [uid, viewIndent]);
+
+  useEffect(() => {
+    if (!viewPurchase || !uid) return;
+    const unsub = subscribePurchaseData(uid, docs => setPurchases(docs));
+    return () => {
+      unsub();
+      setPurchases([]);
+    };
+  }, [uid, viewPurchase]);
+
+  useEffect(() => {
+    if (!viewPsir || !uid) return;
+    const unsub = subscribePsirs(uid, docs => setPsirs(docs));
+    return () => {
+      unsub();
+      setPsirs([]);
+    };
+  }, [uid, viewPsir]);
+
+  useEffect(() => {
+    if (!viewVendorDept || !uid) return;
+    const unsub = subscribeVendorDepts(uid, docs => setVendorDepts(docs));
+    return () => {
+      unsub();
+      setVendorDepts([]);
+    };
+  }, [uid, viewVendorDept]);
+
+  useEffect(() => {
+    if (!viewVsir || !uid) return;
+    const unsub = subscribeVSIRRecords(uid, docs => setVsirRecords(docs));
+    return () => {
+      unsub();
+      setVsirRecords([]);
+    };
+  }, [uid, viewVsir]);
+
+  // Reorder levels; without access to the item master there are no low-stock alerts
+  useEffect(() => {
+    if (!viewStock || !viewItemMaster || !uid) return;
+    const unsub = subscribeItemMaster(uid, docs => setItemMaster(docs));
+    return () => {
+      unsub();
+      setItemMaster([]);
+    };
+  }, [uid, viewStock, viewItemMaster]);
+
+  useEffect(() => {
+    if (!active || !uid) return;
+    const unsub = subscribeReadNotifications(uid, setReadIds);
+    return () => {
+      unsub();
+      setReadIds(new Set());
+    };
+  }, [uid, orgId, active]);
+
+  useEffect(() => {
+    const timer = window.setInterval(() => setNow(Date.now()), REFRESH_MS);
+    return () => window.clearInterval(timer);
+  }, []);
+
+  // Roll the per-batch ledger balances up to one closing stock per item; inactive items are left out
+  const stockLevels = useMemo(() => {
+    const reorderLevels = new Map(itemMaster.map(i => [i.itemCode || i.itemName, Number(i.reorderLevel) || 0]));
+    const inactive = new Set(itemMaster.filter(i => !isActiveItem(i)).map(i => i.itemCode || i.itemName));
+    const levels = new Map<string, StockLevel>();
+    balances.forEach(b => {
+      const key = b.itemCode || b.itemName;
+      if (inactive.has(key)) return;
+      const level = levels.get(key) || { itemCode: key, itemName: b.itemName, closingStock: 0, reorderLevel: reorderLevels.get(key) };
+      levels.set(key, { ...level, closingStock: level.closingStock + b.qty });
+    });
+    return [...levels.values()];
+  }, [balances, itemMaster]);
+
+  const notifications = useMemo(
+    () => active && uid
+      ? deriveNotifications({ indents, openIndentItems, purchases, psirs, vendorDepts, vsirRecords, stockLevels }, hasPermission, uid, now)
+      : [],
+    [active, uid, indents, openIndentItems, purchases, psirs, vendorDepts, vsirRecords, stockLevels, hasPermission, now]
+  );
+
+  const unreadCount = useMemo(() => notifications.filter(n => !readIds.has(n.id)).length, [notifications, readIds]);
+
+  // Stored read ids are limited to the notifications still shown, which prunes the rest
+  const markRead = useCallback((id: string) => {
+    if (!uid || readIds.has(id)) return;
+    const ids = notifications.filter(n => n.id === id || readIds.has(n.id)).map(n => n.id);
+    saveReadNotifications(uid, ids).catch(err => logger.error('[Notifications] Could not mark read:', err));
+  }, [uid, readIds, notifications]);
+
+  const markAllRead = useCallback(() => {
+    if (!uid) return;
+    saveReadNotifications(uid, notifications.map(n => n.id)).catch(err => logger.error('[Notifications] Could not mark all read:', err));
+  }, [uid, notifications]);
+
+  return { notifications, readIds, unreadCount, markRead, markAllRead };
+};
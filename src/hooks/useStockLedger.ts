@@ -0,0 +1,39 @@
+import { useState, useEffect, useMemo, useCallback } from 'react';
+import { subscribeStockLedger } from '../utils/firestoreServices';
+import { computeStockBalances, closingStockByItem } from '../utils/stockLedger';
+import { computeLots } from '../utils/lots';
+import type { StockMovement } from '../utils/recordSchemas';
+
+/**
+ * Live stock ledger for a user: raw movements, per item/batch balances, lots
+ * (FIFO order) and a closing-stock lookup. closingStockFor returns null for
+ * items the ledger has never seen, so callers can fall back to stock records
+ * until the ledger is backfilled. Pass `receivedDates` (see grnReceivedDates,
+ * memoised) to age lots by their GRNs' received dates.
+ */
+export const useStockLedger = (uid: string | null | undefined, receivedDates?: Map<string, number>) => {
+  const [movements, setMovements] = useState<StockMovement[]>([]);
+
+  useEffect(() => {
+    if (!uid) return;
+    const unsub = subscribeStockLedger(uid, docs => setMovements(docs));
+    return () => {
+      unsub();
+      setMovements([]);
+    };
+  }, [uid]);
+
+  const balances = useMemo(() => computeStockBalances(movements), [movements]);
+  const totals = useMemo(() => closingStockByItem(movements), [movements]);
+  const lots = useMemo(() => computeLots(movements, receivedDates), [movements, receivedDates]);
+
+  const closingStockFor = useCallback((itemCode?: string, itemName?: string): number | null => {
+    const code = String(itemCode ?? '').trim();
+    const name = String(itemName ?? '').trim();
+    if (code && totals.has(code)) return totals.get(code) ?? 0;
+    if (name && totals.has(name)) return totals.get(name) ?? 0;
+    return null;
+  }, [totals]);
+
+  return { movements, balances, lots, closingStockFor };
+};
@@ -0,0 +1,5 @@
+import { useSyncExternalStore } from 'react';
+import { getSyncState, subscribeSyncState } from '../utils/syncState';
+
+/** Current per-collection sync state; re-renders on every snapshot, error or queue change */
+export const useSyncState = () => useSyncExternalStore(subscribeSyncState, getSyncState);
@@ -1,31 +1,41 @@
 import { useEffect, useRef } from 'react';
 import bus from '../utils/eventBus';
-import { db } from '../firebase';
-import { collection, onSnapshot } from 'firebase/firestore';
+import { onSnapshot } from 'firebase/firestore';
+import type { Query } from 'firebase/firestore';
+import { workspaceCollection } from '../utils/workspace';
+import { beginSync, recordSnapshot, recordSyncError, resetSyncState } from '../utils/syncState';
+import { isDeleted } from '../utils/softDelete';
 
 // Global registry to prevent duplicate subscriptions
 const activeSubscriptions = new Map<string, Array<() => void>>();
 
-// Default collections to sync with Firestore - now under 'users/{uid}/' path
-const DEFAULT_COLLECTIONS = [
-  'psirData',
-  'vsirRecords',
-  'inHouseIssueData',
-  'vendorIssueData',
-  'purchaseData',
-  'itemMaster',
-  'vendorDepts',
-  'stockRecords',
-  'purchaseOrders'
-];
+// Default collections to sync with Firestore - under the organisation's 'orgs/{orgId}/' path -
+// with the module whose view permission firestore.rules requires to read each
+const DEFAULT_COLLECTIONS: Record<string, string> = {
+  vsirRecords: 'vsir',
+  inHouseIssues: 'inHouseIssue',
+  vendorIssues: 'vendorIssue',
+  purchaseData: 'purchase',
+  itemMaster: 'itemMaster',
+  vendorDepts: 'vendorDept',
+  stockRecords: 'stock',
+  purchaseOrders: 'purchase',
+  indentData: 'indent',
+  psirs: 'psir',
+};
 
-export const useUserDataSync = (user: any) => {
-  const componentMountedRef = useRef(true);
+// Waits for `orgId`: the workspace is only known once the user's membership has loaded.
+// Only collections the role can view are subscribed; the rest would be denied.
+export const useUserDataSync = (user: any, orgId: string | null | undefined, hasPermission: (permission: string) => boolean) => {
   const subscriptionKeyRef = useRef<string | null>(null);
+  const collectionsKey = Object.entries(DEFAULT_COLLECTIONS)
+    .filter(([, moduleId]) => hasPermission(`${moduleId}:view`))
+    .map(([name]) => name)
+    .join(',');
 
   useEffect(() => {
-    if (!user) {
-      // Clean up all subscriptions when user logs out
+    if (!user || !orgId) {
+      // Clean up all subscriptions when user logs out (or has no workspace)
       if (subscriptionKeyRef.current && activeSubscriptions.has(subscriptionKeyRef.current)) {
         const unsubs = activeSubscriptions.get(subscriptionKeyRef.current);
         unsubs?.forEach(unsub => {
@@ -33,11 +43,12 @@ export const useUserDataSync = (user: any) => {
         });
         activeSubscriptions.delete(subscriptionKeyRef.current);
       }
+      resetSyncState();
       return;
     }
 
     const uid = user.uid;
-    const subscriptionKey = `user_${uid}`;
+    const subscriptionKey = `user_${uid}_${orgId}_${collectionsKey}`;
 
     // Prevent duplicate subscriptions if already active for this user
     if (activeSubscriptions.has(subscriptionKey)) {
@@ -48,62 +59,58 @@ export const useUserDataSync = (user: any) => {
     const unsubs: Array<() => void> = [];
 
     try {
-      // Subscribe to each default collection in Firestore - now using 'users' path
-      DEFAULT_COLLECTIONS.forEach(collectionName => {
+      const sources = (collectionsKey ? collectionsKey.split(',') : []).map((name): [string, Query] => [name, workspaceCollection(uid, name)]);
+      beginSync(sources.map(([name]) => name));
+
+      // Subscribe to each collection; metadata changes are included so pending-write
+      // and from-cache transitions are reported, not just document changes
+      sources.forEach(([collectionName, source]) => {
         try {
-          const collRef = collection(db, 'users', uid, collectionName);
-          
           const unsub = onSnapshot(
-            collRef,
+            source,
+            { includeMetadataChanges: true },
             (snapshot) => {
-              if (!componentMountedRef.current) return;
-              
-              const data: any[] = [];
-              snapshot.forEach(doc => {
-                data.push({ id: doc.id, ...doc.data() });
+              // Records in the recycle bin are still in the collection but no longer count
+              const liveCount = snapshot.docs.filter(d => !isDeleted(d.data())).length;
+              recordSnapshot(collectionName, {
+                docCount: liveCount,
+                hasPendingWrites: snapshot.metadata.hasPendingWrites,
+                fromCache: snapshot.metadata.fromCache,
               });
 
               // Dispatch events for real-time updates
-              bus.dispatchEvent(new CustomEvent('userData.sync.remoteUpdate', { 
-                detail: { uid, collection: collectionName, count: data.length, ts: Date.now() } 
-              }));
+              bus.emit('userData.sync.remoteUpdate', { uid, collection: collectionName, count: snapshot.size, ts: Date.now() });
               
-              console.debug(`[useUserDataSync] Collection '${collectionName}' synced:`, data.length, 'documents');
+              console.debug(`[useUserDataSync] Collection '${collectionName}' synced:`, snapshot.size, 'documents');
             },
             (error) => {
-              if (!componentMountedRef.current) return;
               console.error(`[useUserDataSync] Error syncing '${collectionName}':`, error);
-              bus.dispatchEvent(new CustomEvent('userData.sync.error', { 
-                detail: { uid, collection: collectionName, error: String(error), ts: Date.now() } 
-              }));
+              recordSyncError(collectionName, error);
+              bus.emit('userData.sync.error', { uid, collection: collectionName, error: String(error), ts: Date.now() });
             }
           );
 
           unsubs.push(unsub);
         } catch (e) {
-          // Silently handle errors to prevent memory leaks
+          recordSyncError(collectionName, e);
         }
       });
 
       activeSubscriptions.set(subscriptionKey, unsubs);
       subscriptionKeyRef.current = subscriptionKey;
 
-      bus.dispatchEvent(new CustomEvent('userData.sync.started', { 
-        detail: { uid, collections: DEFAULT_COLLECTIONS.length, ts: Date.now() } 
-      }));
+      bus.emit('userData.sync.started', { uid, collections: sources.length, ts: Date.now() });
 
     } catch (e) {
-      bus.dispatchEvent(new CustomEvent('userData.sync.error', { 
-        detail: { uid, error: String(e), ts: Date.now() } 
-      }));
+      bus.emit('userData.sync.error', { uid, error: String(e), ts: Date.now() });
       // Clean up on error
       unsubs.forEach(unsub => {
         try { unsub(); } catch {}
       });
     }
 
+    // Unsubscribing stops the listeners, so nothing is recorded after unmount
     return () => {
-      componentMountedRef.current = false;
       // Only clean up if this component is the one that set up the subscription
       if (subscriptionKeyRef.current && activeSubscriptions.has(subscriptionKeyRef.current)) {
         const subs = activeSubscriptions.get(subscriptionKeyRef.current);
@@ -115,5 +122,5 @@ export const useUserDataSync = (user: any) => {
         }
       }
     };
-  }, [user?.uid]);
+  }, [user?.uid, orgId, collectionsKey]);
 };
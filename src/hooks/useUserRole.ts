@@ -1,26 +1,25 @@
-import { useState, useEffect, useRef } from 'react';
-import { doc, getDoc, setDoc } from 'firebase/firestore';
-import { db } from '../firebase';
+import { useState, useEffect, useRef, useCallback } from 'react';
 import { logger } from '../utils/logger';
+import { ensureUserProfile } from '../utils/userProfiles';
+import type { UserProfile } from '../utils/userProfiles';
+import { acceptInvite, clearInviteFromUrl, ensureInviteeVerified } from '../utils/invites';
+import type { InviteRef } from '../utils/invites';
+import { setActiveWorkspace } from '../utils/workspace';
 import type { User } from 'firebase/auth';
 
-interface UserProfile {
-  email: string;
-  role: string;
-  permissions: string[];
-  displayName?: string;
-  createdAt?: Date;
-}
-
-export const useUserRole = (user: User | null) => {
+export const useUserRole = (user: User | null, invite: InviteRef | null = null) => {
   const [userProfile, setUserProfile] = useState<UserProfile | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [inviteError, setInviteError] = useState<string | null>(null);
+  // Bumped to reload the profile after the user creates or joins an organisation
+  const [version, setVersion] = useState(0);
   const fetchInProgressRef = useRef(false);
 
   useEffect(() => {
     const fetchUserRole = async () => {
       if (!user) {
+        setActiveWorkspace('', null);
         setUserProfile(null);
         setLoading(false);
         return;
@@ -32,31 +31,27 @@ export const useUserRole = (user: User | null) => {
 
       try {
         setLoading(true);
-        const userDocRef = doc(db, 'users', user.uid);
-        const userDoc = await getDoc(userDocRef);
-
-        if (userDoc.exists()) {
-          setUserProfile(userDoc.data() as UserProfile);
-        } else {
-          // If user doc doesn't exist, create a default profile
-          const isSeededAdmin = user.uid === '4OzW9GTwokTOnza0A0e4DNclJ6H2';
-          const defaultProfile: UserProfile = {
-            email: user.email || '',
-            role: isSeededAdmin ? 'admin' : 'viewer',
-            permissions: isSeededAdmin ? [] : [],
-            displayName: user.displayName || 'User',
-            createdAt: new Date(),
-          };
-          
-          try {
-            await setDoc(userDocRef, defaultProfile);
-            setUserProfile(defaultProfile);
-          } catch (err) {
-            // Profile creation failed, but continue with default profile
-            logger.error('Failed to create user profile in Firestore:', err);
-            setUserProfile(defaultProfile);
+        // Creates the profile on first sign-in; role and permissions come from the membership
+        let profile = await ensureUserProfile(user);
+        // Opened from an invite link without an organisation yet: join with the invite's role.
+        // Until the email is verified the invite stays in the URL for the next load
+        if (!profile.orgId && invite) {
+          if (!(await ensureInviteeVerified(user))) {
+            setInviteError(`Verify your email address to accept the invite. We sent a link to ${user.email}; once you have followed it, reload this page.`);
+          } else {
+            try {
+              await acceptInvite(user, invite);
+              profile = await ensureUserProfile(user);
+            } catch (err) {
+              logger.warn('[useUserRole] Could not accept invite:', err);
+              setInviteError(err instanceof Error ? err.message : 'Could not accept the invite');
+            }
+            clearInviteFromUrl();
           }
         }
+        // Register the workspace before anything that reads shared data renders
+        setActiveWorkspace(user.uid, profile.orgId ?? null);
+        setUserProfile(profile);
         setError(null);
       } catch (err) {
         logger.error('Error fetching user role:', err);
@@ -70,7 +65,9 @@ export const useUserRole = (user: User | null) => {
     };
 
     fetchUserRole();
-  }, [user?.uid]);
+  }, [user?.uid, version]);
+
+  const reload = useCallback(() => setVersion(v => v + 1), []);
 
-  return { userProfile, loading, error };
+  return { userProfile, loading, error, inviteError, reload };
 };
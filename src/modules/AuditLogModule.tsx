@@ -0,0 +1,167 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { queryAuditLog } from '../utils/auditLog';
+import type { AuditEntry, AuditQuery } from '../utils/auditLog';
+
+const cellStyle: React.CSSProperties = { border: '1px solid #eee', padding: 6, textAlign: 'left', verticalAlign: 'top' };
+const headStyle: React.CSSProperties = { ...cellStyle, background: '#e3e6f3', fontWeight: 600 };
+
+const ACTION_COLORS: Record<string, string> = {
+  create: '#2e7d32',
+  update: '#1565c0',
+  delete: '#d32f2f',
+  restore: '#00897b',
+  purge: '#b71c1c',
+  replace: '#ef6c00',
+  reset: '#6a1b9a',
+};
+
+const formatTime = (entry: AuditEntry) => {
+  const ts = entry.timestamp && typeof (entry.timestamp as { toMillis?: unknown }).toMillis === 'function'
+    ? (entry.timestamp as { toMillis: () => number }).toMillis()
+    : Date.parse(entry.clientTime);
+  return Number.isFinite(ts) ? new Date(ts).toLocaleString() : '—';
+};
+
+const formatValue = (val: unknown) => {
+  if (val === null || val === undefined || val === '') return '—';
+  return typeof val === 'object' ? JSON.stringify(val) : String(val);
+};
+
+const emptyFilters = { record: '', user: '', from: '', to: '' };
+
+/** Admin screen: browse the audit trail by record, user or date range */
+const AuditLogModule: React.FC = () => {
+  const [filters, setFilters] = useState(emptyFilters);
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async (f: typeof emptyFilters) => {
+    const q: AuditQuery = {
+      record: f.record.trim() || undefined,
+      user: f.user.trim() || undefined,
+      from: f.from ? new Date(`${f.from}T00:00:00`) : undefined,
+      to: f.to ? new Date(`${f.to}T23:59:59.999`) : undefined,
+    };
+    setLoading(true);
+    setError(null);
+    try {
+      setEntries(await queryAuditLog(q));
+    } catch (err) {
+      console.error('[AuditLogModule] Query failed:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load audit log');
+      setEntries([]);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    void load(emptyFilters);
+  }, [load]);
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    setExpanded(null);
+    void load(filters);
+  };
+
+  const handleClear = () => {
+    setFilters(emptyFilters);
+    setExpanded(null);
+    void load(emptyFilters);
+  };
+
+  return (
+    <div>
+      <h2>Audit Log</h2>
+      <form onSubmit={handleSearch} style={{ display: 'flex', flexWrap: 'wrap', gap: 12, alignItems: 'flex-end', marginBottom: 16, padding: 12, background: '#f5f5f5', borderRadius: 6 }}>
+        <div>
+          <label style={{ display: 'block', marginBottom: 4 }}>Record (path or document id)</label>
+          <input value={filters.record} onChange={e => setFilters(f => ({ ...f, record: e.target.value }))} style={{ padding: 6, width: 280 }} />
+        </div>
+        <div>
+          <label style={{ display: 'block', marginBottom: 4 }}>User (id or email)</label>
+          <input value={filters.user} onChange={e => setFilters(f => ({ ...f, user: e.target.value }))} style={{ padding: 6, width: 220 }} />
+        </div>
+        <div>
+          <label style={{ display: 'block', marginBottom: 4 }}>From</label>
+          <input type="date" value={filters.from} onChange={e => setFilters(f => ({ ...f, from: e.target.value }))} style={{ padding: 6 }} />
+        </div>
+        <div>
+          <label style={{ display: 'block', marginBottom: 4 }}>To</label>
+          <input type="date" value={filters.to} onChange={e => setFilters(f => ({ ...f, to: e.target.value }))} style={{ padding: 6 }} />
+        </div>
+        <button type="submit" disabled={loading} style={{ padding: '8px 18px', background: '#1a237e', color: '#fff', border: 'none', borderRadius: 4, cursor: 'pointer' }}>
+          {loading ? 'Loading...' : 'Search'}
+        </button>
+        <button type="button" onClick={handleClear} style={{ padding: '8px 18px', background: '#fff', color: '#1a237e', border: '1px solid #1a237e', borderRadius: 4, cursor: 'pointer' }}>
+          Clear
+        </button>
+      </form>
+
+      {error && <div style={{ color: '#d32f2f', marginBottom: 12 }}>{error}</div>}
+
+      <table style={{ width: '100%', borderCollapse: 'collapse', background: '#fafbfc' }}>
+        <thead>
+          <tr>
+            <th style={headStyle}>Time</th>
+            <th style={headStyle}>User</th>
+            <th style={headStyle}>Module</th>
+            <th style={headStyle}>Action</th>
+            <th style={headStyle}>Document</th>
+            <th style={headStyle}>Changes</th>
+          </tr>
+        </thead>
+        <tbody>
+          {entries.length === 0 && (
+            <tr><td colSpan={6} style={{ ...cellStyle, color: '#888' }}>{loading ? 'Loading...' : 'No audit entries'}</td></tr>
+          )}
+          {entries.map(entry => {
+            const key = entry.id || `${entry.path}|${entry.clientTime}`;
+            const open = expanded === key;
+            return (
+              <React.Fragment key={key}>
+                <tr onClick={() => setExpanded(open ? null : key)} style={{ cursor: 'pointer', background: open ? '#e3f2fd' : undefined }}>
+                  <td style={cellStyle}>{formatTime(entry)}</td>
+                  <td style={cellStyle}>{entry.userEmail || entry.userId || '—'}</td>
+                  <td style={cellStyle}>{entry.module}</td>
+                  <td style={{ ...cellStyle, fontWeight: 600, color: ACTION_COLORS[entry.action] }}>{entry.action}</td>
+                  <td style={{ ...cellStyle, fontFamily: 'monospace', fontSize: 12 }}>{entry.path}</td>
+                  <td style={cellStyle}>{entry.changes.length} field{entry.changes.length === 1 ? '' : 's'}</td>
+                </tr>
+                {open && (
+                  <tr>
+                    <td colSpan={6} style={{ ...cellStyle, background: '#fff' }}>
+                      <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+                        <thead>
+                          <tr>
+                            <th style={headStyle}>Field</th>
+                            <th style={headStyle}>Before</th>
+                            <th style={headStyle}>After</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {entry.changes.map(c => (
+                            <tr key={c.field}>
+                              <td style={{ ...cellStyle, fontFamily: 'monospace', fontSize: 12 }}>{c.field}</td>
+                              <td style={{ ...cellStyle, color: '#d32f2f' }}>{formatValue(c.before)}</td>
+                              <td style={{ ...cellStyle, color: '#2e7d32' }}>{formatValue(c.after)}</td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </td>
+                  </tr>
+                )}
+              </React.Fragment>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+export default AuditLogModule;
@@ -0,0 +1,261 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  RESETTABLE_COLLECTIONS,
+  previewReset,
+  runReset,
+  restoreSnapshot,
+  listSnapshots,
+  discardSnapshot,
+  parseSnapshotFile,
+} from '../utils/dataReset';
+import type { ResetScope, ResetSnapshot } from '../utils/dataReset';
+
+interface DataResetModuleProps {
+  uid: string;
+}
+
+type Step = 'select' | 'confirm' | 'done';
+
+const cellStyle: React.CSSProperties = { border: '1px solid #eee', padding: 6, textAlign: 'left' };
+const headStyle: React.CSSProperties = { ...cellStyle, background: '#e3e6f3', fontWeight: 600 };
+const primaryButton: React.CSSProperties = { padding: '8px 18px', background: '#1a237e', color: '#fff', border: 'none', borderRadius: 4, cursor: 'pointer' };
+const secondaryButton: React.CSSProperties = { padding: '8px 18px', background: '#fff', color: '#1a237e', border: '1px solid #1a237e', borderRadius: 4, cursor: 'pointer' };
+const dangerButton: React.CSSProperties = { ...primaryButton, background: '#d32f2f' };
+
+const labelFor = (name: string) => RESETTABLE_COLLECTIONS.find(c => c.name === name)?.label || name;
+const totalOf = (counts: Record<string, number>) => Object.values(counts).reduce((sum, n) => sum + n, 0);
+
+const downloadSnapshot = (snapshot: ResetSnapshot) => {
+  const blob = new Blob([JSON.stringify(snapshot, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${snapshot.id}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+/** Admin reset wizard: choose what to delete, snapshot it, confirm, and restore snapshots later */
+const DataResetModule: React.FC<DataResetModuleProps> = ({ uid }) => {
+  const [step, setStep] = useState<Step>('select');
+  const [selected, setSelected] = useState<string[]>([]);
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [preview, setPreview] = useState<Record<string, number>>({});
+  const [phrase, setPhrase] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [lastSnapshot, setLastSnapshot] = useState<ResetSnapshot | null>(null);
+  const [snapshots, setSnapshots] = useState<ResetSnapshot[]>([]);
+
+  const scope: ResetScope = { collections: selected, from: from || undefined, to: to || undefined };
+  const total = totalOf(preview);
+  const requiredPhrase = `RESET ${total}`;
+
+  const loadSnapshots = useCallback(async () => {
+    try {
+      setSnapshots(await listSnapshots(uid));
+    } catch (err) {
+      console.error('[DataResetModule] Could not read snapshots:', err);
+    }
+  }, [uid]);
+
+  useEffect(() => {
+    void loadSnapshots();
+  }, [loadSnapshots]);
+
+  const toggle = (name: string) =>
+    setSelected(prev => (prev.includes(name) ? prev.filter(n => n !== name) : [...prev, name]));
+
+  const handlePreview = async () => {
+    if (selected.length === 0) {
+      alert('Select at least one collection to reset.');
+      return;
+    }
+    if (from && to && from > to) {
+      alert('The start date must be on or before the end date.');
+      return;
+    }
+    setBusy(true);
+    try {
+      setPreview(await previewReset(uid, scope));
+      setPhrase('');
+      setStep('confirm');
+    } catch (err) {
+      console.error('[DataResetModule] Preview failed:', err);
+      alert(err instanceof Error ? err.message : 'Could not count the documents to reset');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleReset = async () => {
+    if (phrase.trim() !== requiredPhrase) return;
+    setBusy(true);
+    try {
+      const snapshot = await runReset(uid, scope);
+      downloadSnapshot(snapshot);
+      setLastSnapshot(snapshot);
+      setStep('done');
+      await loadSnapshots();
+    } catch (err) {
+      console.error('[DataResetModule] Reset failed:', err);
+      alert(err instanceof Error ? err.message : 'Reset failed. Check console for details.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleRestore = async (snapshot: ResetSnapshot) => {
+    const count = totalOf(Object.fromEntries(Object.entries(snapshot.docs).map(([name, docs]) => [name, docs.length])));
+    if (!window.confirm(`Restore ${count} document(s) from the snapshot taken ${new Date(snapshot.takenAt).toLocaleString()}? Documents with the same id are overwritten.`)) return;
+    setBusy(true);
+    try {
+      const restored = await restoreSnapshot(uid, snapshot);
+      alert(`Restored ${totalOf(restored)} document(s).`);
+    } catch (err) {
+      console.error('[DataResetModule] Restore failed:', err);
+      alert(err instanceof Error ? err.message : 'Restore failed. Check console for details.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleDiscard = async (snapshot: ResetSnapshot) => {
+    if (!window.confirm('Discard this snapshot from this device? Downloaded copies are not affected.')) return;
+    await discardSnapshot(snapshot.id);
+    await loadSnapshots();
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      await handleRestore(parseSnapshotFile(await file.text()));
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Could not read snapshot file');
+    }
+  };
+
+  const startOver = () => {
+    setStep('select');
+    setPreview({});
+    setPhrase('');
+  };
+
+  return (
+    <div>
+      <h2>Data Reset</h2>
+
+      {step === 'select' && (
+        <div style={{ padding: 12, background: '#f5f5f5', borderRadius: 6 }}>
+          <p style={{ marginTop: 0 }}>Choose the collections to clear. A snapshot of everything deleted is saved on this device and downloaded before anything is removed.</p>
+          <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fill, minmax(200px, 1fr))', gap: 6, marginBottom: 12 }}>
+            {RESETTABLE_COLLECTIONS.map(c => (
+              <label key={c.name}>
+                <input type="checkbox" checked={selected.includes(c.name)} onChange={() => toggle(c.name)} /> {c.label}
+              </label>
+            ))}
+          </div>
+          <div style={{ display: 'flex', gap: 12, alignItems: 'flex-end', marginBottom: 12 }}>
+            <div>
+              <label style={{ display: 'block', marginBottom: 4 }}>Created from</label>
+              <input type="date" value={from} onChange={e => setFrom(e.target.value)} style={{ padding: 6 }} />
+            </div>
+            <div>
+              <label style={{ display: 'block', marginBottom: 4 }}>Created to</label>
+              <input type="date" value={to} onChange={e => setTo(e.target.value)} style={{ padding: 6 }} />
+            </div>
+            <span style={{ color: '#666', fontSize: 13 }}>Leave both empty to clear everything. Documents without a creation date are only cleared without a range.</span>
+          </div>
+          <button disabled={busy} onClick={handlePreview} style={primaryButton}>{busy ? 'Counting...' : 'Next'}</button>
+        </div>
+      )}
+
+      {step === 'confirm' && (
+        <div style={{ padding: 12, background: '#fff3e0', borderRadius: 6 }}>
+          <table style={{ borderCollapse: 'collapse', marginBottom: 12 }}>
+            <thead>
+              <tr>
+                <th style={headStyle}>Collection</th>
+                <th style={headStyle}>Documents to delete</th>
+              </tr>
+            </thead>
+            <tbody>
+              {Object.entries(preview).map(([name, count]) => (
+                <tr key={name}>
+                  <td style={cellStyle}>{labelFor(name)}</td>
+                  <td style={cellStyle}>{count}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <p style={{ marginTop: 0 }}>
+            Range: {from || 'beginning'} to {to || 'today'}. Stock balances are recalculated from the remaining records afterwards.
+          </p>
+          {total === 0 ? (
+            <p>Nothing matches this selection.</p>
+          ) : (
+            <div style={{ marginBottom: 12 }}>
+              <label style={{ display: 'block', marginBottom: 4 }}>Type <strong>{requiredPhrase}</strong> to confirm</label>
+              <input value={phrase} onChange={e => setPhrase(e.target.value)} style={{ padding: 6, width: 200 }} />
+            </div>
+          )}
+          <div style={{ display: 'flex', gap: 12 }}>
+            <button onClick={startOver} disabled={busy} style={secondaryButton}>Back</button>
+            {total > 0 && (
+              <button onClick={handleReset} disabled={busy || phrase.trim() !== requiredPhrase} style={{ ...dangerButton, opacity: phrase.trim() === requiredPhrase ? 1 : 0.5 }}>
+                {busy ? 'Resetting...' : `Delete ${total} document(s)`}
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+
+      {step === 'done' && lastSnapshot && (
+        <div style={{ padding: 12, background: '#e8f5e9', borderRadius: 6 }}>
+          <p style={{ marginTop: 0 }}>Reset complete. Snapshot <code>{lastSnapshot.id}</code> was saved and downloaded; it can be restored below.</p>
+          <button onClick={startOver} style={secondaryButton}>Start another reset</button>
+        </div>
+      )}
+
+      <h3 style={{ marginTop: 32 }}>Snapshots</h3>
+      <div style={{ marginBottom: 8 }}>
+        <label>
+          Restore from a downloaded file: <input type="file" accept="application/json,.json" onChange={handleFile} disabled={busy} />
+        </label>
+      </div>
+      <table style={{ width: '100%', borderCollapse: 'collapse', background: '#fafbfc' }}>
+        <thead>
+          <tr>
+            <th style={headStyle}>Taken</th>
+            <th style={headStyle}>By</th>
+            <th style={headStyle}>Contents</th>
+            <th style={headStyle}>Range</th>
+            <th style={headStyle}>Actions</th>
+          </tr>
+        </thead>
+        <tbody>
+          {snapshots.length === 0 && (
+            <tr><td colSpan={5} style={{ ...cellStyle, color: '#888' }}>No snapshots on this device</td></tr>
+          )}
+          {snapshots.map(s => (
+            <tr key={s.id}>
+              <td style={cellStyle}>{new Date(s.takenAt).toLocaleString()}</td>
+              <td style={cellStyle}>{s.takenBy || '—'}</td>
+              <td style={cellStyle}>{Object.entries(s.docs).map(([name, docs]) => `${labelFor(name)}: ${docs.length}`).join(', ')}</td>
+              <td style={cellStyle}>{s.scope.from || s.scope.to ? `${s.scope.from || '…'} to ${s.scope.to || '…'}` : 'All'}</td>
+              <td style={cellStyle}>
+                <button disabled={busy} onClick={() => handleRestore(s)} style={{ marginRight: 8, background: '#43a047', color: '#fff', border: 'none', borderRadius: 4, padding: '4px 12px', cursor: 'pointer' }}>Restore</button>
+                <button onClick={() => downloadSnapshot(s)} style={{ marginRight: 8, background: '#1976d2', color: '#fff', border: 'none', borderRadius: 4, padding: '4px 12px', cursor: 'pointer' }}>Download</button>
+                <button disabled={busy} onClick={() => handleDiscard(s)} style={{ background: '#e53935', color: '#fff', border: 'none', borderRadius: 4, padding: '4px 12px', cursor: 'pointer' }}>Discard</button>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+export default DataResetModule;
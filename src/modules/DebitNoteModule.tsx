@@ -0,0 +1,410 @@
+import React, { useEffect, useRef, useState } from 'react';
+import RecycleBin from '../components/RecycleBin';
+import { addDebitNote, debitNoteRepository, deleteDebitNote, getDebitNotes, subscribeDebitNotes, subscribeItemMaster, subscribeVSIRRecords, updateDebitNote } from '../utils/firestoreServices';
+import { subscribePsirs } from '../utils/psirService';
+import { backfillDebitNoteRefs, debitNoteTotals, lineAmount, nextDebitNoteNo, overDebitedLines, pendingDebitLines } from '../utils/debitNotes';
+import type { PendingDebitLine } from '../utils/debitNotes';
+import { escapeHtml, printDocument } from '../utils/print';
+import { formatQty, itemLookup } from '../utils/units';
+import type { DebitNote, DebitNoteItem, DebitNoteStatus, ItemMasterRecord, PSIR, VSRIRecord } from '../utils/recordSchemas';
+import type { ModulePermissions } from '../config/roleModuleConfig';
+
+interface DebitNoteModuleProps {
+  uid: string;
+  permissions: ModulePermissions;
+  /** Reading PSIR / VSIR and back-filling purchase / vendor rows depend on other modules' permissions */
+  hasPermission: (permission: string) => boolean;
+  /** Printed at the top of the document */
+  orgName?: string;
+}
+
+type NoteWithId = DebitNote & { id: string };
+
+const cellStyle: React.CSSProperties = { border: '1px solid #eee', padding: 6, textAlign: 'left' };
+const headStyle: React.CSSProperties = { ...cellStyle, background: '#e3e6f3', fontWeight: 600 };
+const primaryButton: React.CSSProperties = { padding: '8px 18px', background: '#1a237e', color: '#fff', border: 'none', borderRadius: 4, cursor: 'pointer' };
+const smallButton: React.CSSProperties = { padding: '4px 10px', border: 'none', borderRadius: 4, color: '#fff', cursor: 'pointer', marginRight: 4 };
+
+const statusColors: Record<DebitNoteStatus, string> = { raised: '#fb8c00', acknowledged: '#1976d2', credited: '#43a047' };
+
+const today = () => new Date().toISOString().slice(0, 10);
+const money = (n: number) => n.toFixed(2);
+const pendingKey = (line: PendingDebitLine) => `${line.source}|${line.sourceId}|${line.reason}|${line.itemCode}|${line.grnNo}`;
+
+/** Raise debit notes against rejected / rework quantities from PSIR and VSIR, and track them to credit */
+const DebitNoteModule: React.FC<DebitNoteModuleProps> = ({ uid, permissions, hasPermission, orgName }) => {
+  const [notes, setNotes] = useState<NoteWithId[]>([]);
+  const [binnedNotes, setBinnedNotes] = useState<DebitNote[]>([]);
+  const [psirs, setPsirs] = useState<Array<PSIR & { id: string }>>([]);
+  const [vsirRecords, setVsirRecords] = useState<Array<VSRIRecord & { id: string }>>([]);
+  const [itemMaster, setItemMaster] = useState<ItemMasterRecord[]>([]);
+  const [party, setParty] = useState('');
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [rates, setRates] = useState<Record<string, number>>({});
+  const [noteDate, setNoteDate] = useState(today());
+  const [remarks, setRemarks] = useState('');
+  const [statusFilter, setStatusFilter] = useState<DebitNoteStatus | ''>('');
+  const [busy, setBusy] = useState(false);
+  // Set before a write; the next snapshot of the notes is then pushed to the linked rows
+  const backfillDue = useRef(false);
+
+  const canViewPsir = hasPermission('psir:view');
+  const canViewVsir = hasPermission('vsir:view');
+  const canViewItems = hasPermission('itemMaster:view');
+
+  useEffect(() => {
+    if (!uid) return;
+    return subscribeDebitNotes(uid, docs => setNotes(docs));
+  }, [uid]);
+
+  // Binned notes keep their numbers, so restoring one never clashes with a newer note
+  useEffect(() => {
+    if (!uid) return;
+    return debitNoteRepository.subscribeDeleted(uid, docs => setBinnedNotes(docs));
+  }, [uid]);
+
+  useEffect(() => {
+    if (!uid || !canViewPsir) return;
+    return subscribePsirs(uid, docs => setPsirs(docs));
+  }, [uid, canViewPsir]);
+
+  useEffect(() => {
+    if (!uid || !canViewVsir) return;
+    return subscribeVSIRRecords(uid, docs => setVsirRecords(docs));
+  }, [uid, canViewVsir]);
+
+  useEffect(() => {
+    if (!uid || !canViewItems) return;
+    return subscribeItemMaster(uid, docs => setItemMaster(docs));
+  }, [uid, canViewItems]);
+
+  useEffect(() => {
+    if (!uid || !backfillDue.current) return;
+    backfillDue.current = false;
+    void backfillDebitNoteRefs(uid, notes, hasPermission);
+  }, [uid, notes, hasPermission]);
+
+  // A restored note must still fit within what its PSIR / VSIR lines have left to debit
+  const checkRestore = (note: DebitNote): string | null => {
+    if ((note.items.some(i => i.source === 'psir') && !canViewPsir) || (note.items.some(i => i.source === 'vsir') && !canViewVsir)) {
+      return `Restoring ${note.debitNoteNo} needs view access to its PSIR / VSIR records, to check the quantities.`;
+    }
+    const over = overDebitedLines(note, psirs, vsirRecords, notes);
+    return over.length > 0
+      ? `${note.debitNoteNo} cannot be restored; other notes now cover these quantities:\n${over.join('\n')}`
+      : null;
+  };
+
+  const findItem = itemLookup(itemMaster);
+  const numberedNotes = [...notes, ...binnedNotes];
+  const pending = pendingDebitLines(psirs, vsirRecords, notes);
+  const parties = Array.from(new Set(pending.map(l => l.partyName).filter(Boolean))).sort();
+  // A note needs a party; lines from a PSIR / VSIR without one wait until it is filled in there
+  const unnamedLines = pending.filter(l => !l.partyName).length;
+  const partyLines = pending.filter(l => l.partyName === party);
+  const chosen = partyLines.filter(l => selected.has(pendingKey(l)));
+
+  const chooseParty = (name: string) => {
+    setParty(name);
+    setSelected(new Set());
+  };
+
+  const toggleLine = (key: string) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      return next;
+    });
+  };
+
+  const handleRaise = async () => {
+    if (!permissions.create || chosen.length === 0) return;
+    const items: DebitNoteItem[] = chosen.map(line => ({
+      source: line.source,
+      sourceId: line.sourceId,
+      reason: line.reason,
+      poNo: line.poNo,
+      dcNo: line.dcNo,
+      grnNo: line.grnNo,
+      batchNo: line.batchNo,
+      itemName: line.itemName,
+      itemCode: line.itemCode,
+      qty: line.qty,
+      rate: Number(rates[pendingKey(line)]) || 0,
+      taxRate: Number(findItem(line.itemCode, line.itemName)?.taxRate) || 0,
+      remarks: '',
+    }));
+    const note: DebitNote = {
+      debitNoteNo: nextDebitNoteNo(numberedNotes, party),
+      date: noteDate || today(),
+      partyType: chosen[0].partyType,
+      partyName: party,
+      status: 'raised',
+      acknowledgedDate: '',
+      creditedDate: '',
+      creditNoteRef: '',
+      remarks: remarks.trim(),
+      items,
+    };
+    setBusy(true);
+    try {
+      backfillDue.current = true;
+      await addDebitNote(uid, note);
+      setSelected(new Set());
+      setRemarks('');
+    } catch (err) {
+      backfillDue.current = false;
+      console.error('[DebitNoteModule] Could not raise debit note:', err);
+      alert(err instanceof Error ? err.message : 'Could not raise the debit note');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const advanceStatus = async (note: NoteWithId) => {
+    if (!permissions.edit) return;
+    let update: Partial<DebitNote>;
+    if (note.status === 'raised') {
+      update = { status: 'acknowledged', acknowledgedDate: today() };
+    } else if (note.status === 'acknowledged') {
+      const ref = window.prompt(`Credit note number from ${note.partyName} for ${note.debitNoteNo}:`, note.creditNoteRef || '');
+      if (ref === null) return;
+      update = { status: 'credited', creditedDate: today(), creditNoteRef: ref.trim() };
+    } else {
+      return;
+    }
+    try {
+      backfillDue.current = true;
+      await updateDebitNote(uid, note.id, update);
+    } catch (err) {
+      backfillDue.current = false;
+      console.error('[DebitNoteModule] Status update failed:', err);
+      alert(err instanceof Error ? err.message : 'Could not update the debit note');
+    }
+  };
+
+  const handleDelete = async (note: NoteWithId) => {
+    if (!permissions.delete) return;
+    if (!window.confirm(`Delete ${note.debitNoteNo}? Its quantities go back to pending.`)) return;
+    try {
+      backfillDue.current = true;
+      await deleteDebitNote(uid, note.id);
+    } catch (err) {
+      backfillDue.current = false;
+      console.error('[DebitNoteModule] Delete failed:', err);
+      alert(err instanceof Error ? err.message : 'Could not delete the debit note');
+    }
+  };
+
+  const handlePrint = (note: DebitNote) => {
+    const totals = debitNoteTotals(note);
+    const rows = note.items.map((item, idx) => {
+      const amount = lineAmount(item);
+      const tax = amount * (Number(item.taxRate) || 0) / 100;
+      return `<tr>
+        <td>${idx + 1}</td>
+        <td>${escapeHtml(item.itemName)}<br/><small>${escapeHtml(item.itemCode)}</small></td>
+        <td>${escapeHtml(item.poNo)}</td>
+        <td>${escapeHtml(item.dcNo)}</td>
+        <td>${escapeHtml(item.grnNo)}</td>
+        <td>${escapeHtml(item.batchNo)}</td>
+        <td>${item.reason === 'rework' ? 'Rework' : 'Rejected'}</td>
+        <td class="num">${escapeHtml(formatQty(item.qty, findItem(item.itemCode, item.itemName)))}</td>
+        <td class="num">${money(Number(item.rate) || 0)}</td>
+        <td class="num">${money(amount)}</td>
+        <td class="num">${Number(item.taxRate) || 0}%</td>
+        <td class="num">${money(amount + tax)}</td>
+      </tr>`;
+    }).join('');
+    const html = `
+      <h1>${escapeHtml(orgName || 'Debit Note')}</h1>
+      <h2>DEBIT NOTE</h2>
+      <div class="meta">
+        <div><strong>To (${note.partyType === 'vendor' ? 'Vendor' : 'Supplier'}):</strong> ${escapeHtml(note.partyName)}</div>
+        <div><strong>No:</strong> ${escapeHtml(note.debitNoteNo)}<br/><strong>Date:</strong> ${escapeHtml(note.date)}</div>
+      </div>
+      <table>
+        <thead><tr>
+          <th>#</th><th>Item</th><th>PO No</th><th>DC No</th><th>GRN No</th><th>Batch</th><th>Reason</th>
+          <th class="num">Qty</th><th class="num">Rate</th><th class="num">Amount</th><th class="num">Tax</th><th class="num">Total</th>
+        </tr></thead>
+        <tbody>${rows}</tbody>
+        <tfoot><tr>
+          <th colspan="9">Total</th><th class="num">${money(totals.amount)}</th><th class="num">${money(totals.tax)}</th><th class="num">${money(totals.total)}</th>
+        </tr></tfoot>
+      </table>
+      ${note.remarks ? `<p><strong>Remarks:</strong> ${escapeHtml(note.remarks)}</p>` : ''}
+      <p>Please acknowledge this debit note and issue a credit note for the amount above.</p>
+      <div class="signatures"><div>Prepared by</div><div>Authorised signatory</div></div>`;
+    if (!printDocument(note.debitNoteNo, html)) alert('Allow pop-ups for this site to print the debit note.');
+  };
+
+  const shownNotes = statusFilter ? notes.filter(n => n.status === statusFilter) : notes;
+
+  return (
+    <div>
+      <h2>Debit Notes</h2>
+
+      {permissions.create && (
+        <section style={{ marginBottom: 32 }}>
+          <h3 style={{ marginBottom: 8 }}>Pending rejections</h3>
+          {!canViewPsir && !canViewVsir ? (
+            <p style={{ color: '#888' }}>You need PSIR or VSIR view access to raise debit notes.</p>
+          ) : pending.length === 0 ? (
+            <p style={{ color: '#888' }}>No rejected or rework quantities waiting for a debit note.</p>
+          ) : (
+            <>
+              <div style={{ display: 'flex', gap: 12, alignItems: 'center', flexWrap: 'wrap', marginBottom: 12 }}>
+                <label>Supplier / Vendor:</label>
+                <select value={party} onChange={e => chooseParty(e.target.value)} style={{ padding: 6, minWidth: 220 }}>
+                  <option value="">Select party ({parties.length} with pending lines)</option>
+                  {parties.map(p => (
+                    <option key={p} value={p}>{p} - {pending.filter(l => l.partyName === p).length} line(s)</option>
+                  ))}
+                </select>
+                {unnamedLines > 0 && (
+                  <span style={{ fontSize: 12, color: '#e65100' }}>{unnamedLines} line(s) have no supplier / vendor name on their PSIR / VSIR</span>
+                )}
+                <label>Date:</label>
+                <input type="date" value={noteDate} onChange={e => setNoteDate(e.target.value)} style={{ padding: 6 }} />
+              </div>
+              {party !== '' && (
+                <>
+                  <table style={{ width: '100%', borderCollapse: 'collapse', background: '#fafbfc' }}>
+                    <thead>
+                      <tr>
+                        <th style={headStyle}></th>
+                        <th style={headStyle}>From</th>
+                        <th style={headStyle}>Received</th>
+                        <th style={headStyle}>PO / DC</th>
+                        <th style={headStyle}>GRN No</th>
+                        <th style={headStyle}>Batch</th>
+                        <th style={headStyle}>Item</th>
+                        <th style={headStyle}>Reason</th>
+                        <th style={headStyle}>Qty</th>
+                        <th style={headStyle}>Rate</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {partyLines.map(line => {
+                        const key = pendingKey(line);
+                        return (
+                          <tr key={key}>
+                            <td style={cellStyle}><input type="checkbox" checked={selected.has(key)} onChange={() => toggleLine(key)} /></td>
+                            <td style={cellStyle}>{line.source === 'psir' ? 'PSIR' : 'VSIR'}</td>
+                            <td style={cellStyle}>{line.date}</td>
+                            <td style={cellStyle}>{[line.poNo, line.dcNo].filter(Boolean).join(' / ')}</td>
+                            <td style={cellStyle}>{line.grnNo}</td>
+                            <td style={cellStyle}>{line.batchNo}</td>
+                            <td style={cellStyle}>{line.itemName} ({line.itemCode})</td>
+                            <td style={cellStyle}>{line.reason === 'rework' ? 'Rework' : 'Rejected'}</td>
+                            <td style={cellStyle}>{formatQty(line.qty, findItem(line.itemCode, line.itemName))}</td>
+                            <td style={cellStyle}>
+                              <input
+                                type="number"
+                                min={0}
+                                step="any"
+                                value={rates[key] || ''}
+                                onChange={e => setRates(prev => ({ ...prev, [key]: Math.max(0, Number(e.target.value) || 0) }))}
+                                style={{ width: 90, padding: 4 }}
+                              />
+                            </td>
+                          </tr>
+                        );
+                      })}
+                    </tbody>
+                  </table>
+                  <div style={{ display: 'flex', gap: 12, alignItems: 'center', marginTop: 12 }}>
+                    <input
+                      placeholder="Remarks"
+                      value={remarks}
+                      onChange={e => setRemarks(e.target.value)}
+                      style={{ flex: 1, padding: 6 }}
+                    />
+                    <button
+                      onClick={handleRaise}
+                      disabled={busy || chosen.length === 0}
+                      style={{ ...primaryButton, opacity: busy || chosen.length === 0 ? 0.5 : 1 }}
+                    >
+                      Raise {nextDebitNoteNo(numberedNotes, party)} ({chosen.length} line(s))
+                    </button>
+                  </div>
+                </>
+              )}
+            </>
+          )}
+        </section>
+      )}
+
+      <div style={{ display: 'flex', gap: 12, alignItems: 'center', marginBottom: 8 }}>
+        <h3 style={{ margin: 0, flex: 1 }}>Raised debit notes</h3>
+        <select value={statusFilter} onChange={e => setStatusFilter(e.target.value as DebitNoteStatus | '')} style={{ padding: 6 }}>
+          <option value="">All statuses</option>
+          <option value="raised">Raised</option>
+          <option value="acknowledged">Acknowledged</option>
+          <option value="credited">Credited</option>
+        </select>
+      </div>
+      <div style={{ overflowX: 'auto' }}>
+        <table style={{ width: '100%', borderCollapse: 'collapse', background: '#fafbfc' }}>
+          <thead>
+            <tr>
+              <th style={headStyle}>Debit Note No</th>
+              <th style={headStyle}>Date</th>
+              <th style={headStyle}>Party</th>
+              <th style={headStyle}>Lines</th>
+              <th style={headStyle}>Total</th>
+              <th style={headStyle}>Status</th>
+              <th style={headStyle}>Credit Note</th>
+              <th style={headStyle}>Actions</th>
+            </tr>
+          </thead>
+          <tbody>
+            {shownNotes.length === 0 && (
+              <tr><td style={{ ...cellStyle, color: '#888', textAlign: 'center' }} colSpan={8}>No debit notes</td></tr>
+            )}
+            {shownNotes.map(note => (
+              <tr key={note.id}>
+                <td style={cellStyle}>{note.debitNoteNo}</td>
+                <td style={cellStyle}>{note.date}</td>
+                <td style={cellStyle}>{note.partyName} <span style={{ color: '#888', fontSize: 12 }}>({note.partyType})</span></td>
+                <td style={cellStyle} title={note.items.map(i => `${i.itemCode}: ${i.qty} (GRN ${i.grnNo || '-'})`).join('\n')}>{note.items.length}</td>
+                <td style={cellStyle}>{money(debitNoteTotals(note).total)}</td>
+                <td style={cellStyle}>
+                  <span style={{ background: statusColors[note.status] || '#757575', color: '#fff', fontWeight: 600, padding: '3px 10px', borderRadius: 6 }}>
+                    {note.status}
+                  </span>
+                </td>
+                <td style={cellStyle}>{note.creditNoteRef}{note.creditedDate ? ` (${note.creditedDate})` : ''}</td>
+                <td style={{ ...cellStyle, whiteSpace: 'nowrap' }}>
+                  <button onClick={() => handlePrint(note)} style={{ ...smallButton, background: '#546e7a' }}>Print</button>
+                  {permissions.edit && note.status !== 'credited' && (
+                    <button onClick={() => advanceStatus(note)} style={{ ...smallButton, background: note.status === 'raised' ? '#1976d2' : '#43a047' }}>
+                      {note.status === 'raised' ? 'Acknowledged' : 'Credited'}
+                    </button>
+                  )}
+                  {permissions.delete && (
+                    <button onClick={() => handleDelete(note)} style={{ ...smallButton, background: '#e53935' }}>Delete</button>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <RecycleBin
+        uid={uid}
+        source={debitNoteRepository}
+        describe={n => `${n.debitNoteNo} - ${n.partyName}`}
+        title="Debit Note Recycle Bin"
+        canRestore={permissions.edit}
+        canPurge={permissions.delete}
+        checkRestore={checkRestore}
+        onRestored={() => { getDebitNotes(uid).then(all => backfillDebitNoteRefs(uid, all, hasPermission)).catch(err => console.error('[DebitNoteModule] Back-fill after restore failed:', err)); }}
+      />
+    </div>
+  );
+};
+
+export default DebitNoteModule;
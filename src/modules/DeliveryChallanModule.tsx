@@ -0,0 +1,501 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import RecycleBin from '../components/RecycleBin';
+import { addDeliveryChallan, deleteDeliveryChallan, deliveryChallanRepository, subscribeDeliveryChallans, subscribeItemMaster, subscribeSalesOrders, subscribeVSIRRecords, updateDeliveryChallan } from '../utils/firestoreServices';
+import { subscribePsirs } from '../utils/psirService';
+import { useStockLedger } from '../hooks/useStockLedger';
+import { allocateFifo, grnReceivedDates, openLotsForItem } from '../utils/lots';
+import { CHALLAN_STATUS_LABELS, DC_TYPE_LABELS, challanStatus, isOverdue, nextDcNo, pendingReturnQty, recordReturn } from '../utils/deliveryChallans';
+import type { ChallanStatus } from '../utils/deliveryChallans';
+import { escapeHtml, printDocument } from '../utils/print';
+import { formatQty, isActiveItem, itemLookup } from '../utils/units';
+import type { DeliveryChallan, DeliveryChallanItem, DeliveryChallanType, ItemMasterRecord, PSIR, SalesOrder, VSRIRecord } from '../utils/recordSchemas';
+import type { ModulePermissions } from '../config/roleModuleConfig';
+
+interface DeliveryChallanModuleProps {
+  uid: string;
+  permissions: ModulePermissions;
+  /** The item master, sales orders and GRNs are read with their own modules' view permission */
+  hasPermission: (permission: string) => boolean;
+  /** Printed at the top of the challan */
+  orgName?: string;
+}
+
+type ChallanWithId = DeliveryChallan & { id: string };
+
+const cellStyle: React.CSSProperties = { border: '1px solid #eee', padding: 6, textAlign: 'left' };
+const headStyle: React.CSSProperties = { ...cellStyle, background: '#e3e6f3', fontWeight: 600 };
+const inputStyle: React.CSSProperties = { padding: 6, border: '1px solid #ccc', borderRadius: 4 };
+const primaryButton: React.CSSProperties = { padding: '8px 18px', background: '#1a237e', color: '#fff', border: 'none', borderRadius: 4, cursor: 'pointer' };
+const smallButton: React.CSSProperties = { padding: '4px 10px', border: 'none', borderRadius: 4, color: '#fff', cursor: 'pointer', marginRight: 4 };
+
+const statusColors: Record<ChallanStatus, string> = { dispatched: '#546e7a', awaitingReturn: '#fb8c00', partReturned: '#1976d2', returned: '#43a047' };
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+const emptyChallan = (): DeliveryChallan => ({
+  dcNo: '',
+  date: today(),
+  dcType: 'dispatch',
+  partyName: '',
+  partyAddress: '',
+  oaNo: '',
+  vehicleNo: '',
+  expectedReturnDate: '',
+  remarks: '',
+  items: [],
+});
+
+const emptyLine = { itemName: '', itemCode: '', batchNo: '', qty: 0, remarks: '' };
+
+/** Outward delivery challans: customer dispatches and returnable / non-returnable material, taken out of stock */
+const DeliveryChallanModule: React.FC<DeliveryChallanModuleProps> = ({ uid, permissions, hasPermission, orgName }) => {
+  const [challans, setChallans] = useState<ChallanWithId[]>([]);
+  const [binnedChallans, setBinnedChallans] = useState<ChallanWithId[]>([]);
+  const [itemMaster, setItemMaster] = useState<ItemMasterRecord[]>([]);
+  const [salesOrders, setSalesOrders] = useState<SalesOrder[]>([]);
+  const [form, setForm] = useState<DeliveryChallan>(emptyChallan());
+  const [line, setLine] = useState(emptyLine);
+  const [typeFilter, setTypeFilter] = useState<DeliveryChallanType | ''>('');
+  const [search, setSearch] = useState('');
+  const [returning, setReturning] = useState<string | null>(null);
+  const [returnQtys, setReturnQtys] = useState<Record<number, number>>({});
+  const [busy, setBusy] = useState(false);
+  const [psirs, setPsirs] = useState<PSIR[]>([]);
+  const [vsirs, setVsirs] = useState<VSRIRecord[]>([]);
+  const receivedDates = useMemo(() => grnReceivedDates(psirs, vsirs), [psirs, vsirs]);
+  const { lots } = useStockLedger(uid, receivedDates);
+
+  const canViewItems = hasPermission('itemMaster:view');
+  const canViewSales = hasPermission('sales:view');
+  const canViewPsir = hasPermission('psir:view');
+  const canViewVsir = hasPermission('vsir:view');
+
+  useEffect(() => {
+    if (!uid) return;
+    return subscribeDeliveryChallans(uid, docs => setChallans(docs));
+  }, [uid]);
+
+  // Binned challans keep their DC numbers, so restoring one never clashes with a newer challan
+  useEffect(() => {
+    if (!uid) return;
+    return deliveryChallanRepository.subscribeDeleted(uid, docs => setBinnedChallans(docs));
+  }, [uid]);
+
+  useEffect(() => {
+    if (!uid || !canViewItems) return;
+    return subscribeItemMaster(uid, docs => setItemMaster(docs));
+  }, [uid, canViewItems]);
+
+  useEffect(() => {
+    if (!uid || !canViewSales) return;
+    return subscribeSalesOrders(uid, docs => setSalesOrders(docs));
+  }, [uid, canViewSales]);
+
+  // GRN received dates age the lots; without access, lots fall back to their posting time
+  useEffect(() => {
+    if (!uid || !canViewPsir) return;
+    return subscribePsirs(uid, docs => setPsirs(docs));
+  }, [uid, canViewPsir]);
+
+  useEffect(() => {
+    if (!uid || !canViewVsir) return;
+    return subscribeVSIRRecords(uid, docs => setVsirs(docs));
+  }, [uid, canViewVsir]);
+
+  const findItem = itemLookup(itemMaster);
+  // Without item master access, offer whatever the ledger holds stock of
+  const itemOptions: Array<{ itemName: string; itemCode: string }> = canViewItems
+    ? itemMaster.filter(isActiveItem)
+    : Array.from(new Map(lots.filter(l => l.remainingQty > 0).map(l => [l.itemKey, { itemName: l.itemName, itemCode: l.itemCode }])).values());
+  const openOrders = salesOrders.filter(o => o.status === 'open');
+
+  // Quantities already on the draft, per batch of the selected item
+  const reservedFor = (itemCode: string) => form.items
+    .filter(i => i.itemCode === itemCode)
+    .reduce<Record<string, number>>((acc, i) => ({ ...acc, [i.batchNo]: (acc[i.batchNo] || 0) + i.qty }), {});
+
+  const lineLots = line.itemCode ? openLotsForItem(lots, line) : [];
+  const available = lineLots.reduce((sum, l) => sum + l.remainingQty, 0)
+    - Object.values(reservedFor(line.itemCode)).reduce((sum, q) => sum + q, 0);
+
+  const chooseItem = (name: string) => {
+    const item = itemOptions.find(i => i.itemName === name);
+    setLine({ ...emptyLine, itemName: name, itemCode: item?.itemCode || '' });
+  };
+
+  const chooseOrder = (oaNo: string) => {
+    const order = openOrders.find(o => o.oaNo === oaNo);
+    setForm(prev => ({ ...prev, oaNo, partyName: prev.partyName || order?.customerName || '' }));
+  };
+
+  const addLine = () => {
+    const qty = Number(line.qty) || 0;
+    if (!line.itemCode || !(qty > 0)) {
+      alert('Pick an item and enter a quantity above 0.');
+      return;
+    }
+    const reserved = reservedFor(line.itemCode);
+    let taken: Array<{ batchNo: string; qty: number }>;
+    if (line.batchNo) {
+      const lot = lineLots.find(l => l.batchNo === line.batchNo);
+      const free = (lot?.remainingQty || 0) - (reserved[line.batchNo] || 0);
+      if (qty > free) {
+        alert(`Only ${Math.max(0, free)} left in batch ${line.batchNo}.`);
+        return;
+      }
+      taken = [{ batchNo: line.batchNo, qty }];
+    } else {
+      const { allocations, shortfall } = allocateFifo(lots, line, qty, { reserved });
+      if (shortfall > 0) {
+        alert(`Only ${qty - shortfall} of ${line.itemName} in stock.`);
+        return;
+      }
+      taken = allocations;
+    }
+    setForm(prev => ({
+      ...prev,
+      items: [
+        ...prev.items,
+        ...taken.map(a => ({ itemName: line.itemName, itemCode: line.itemCode, batchNo: a.batchNo, qty: a.qty, returnedQty: 0, returnedDate: '', remarks: line.remarks.trim() })),
+      ],
+    }));
+    setLine(emptyLine);
+  };
+
+  const removeLine = (idx: number) => {
+    setForm(prev => ({ ...prev, items: prev.items.filter((_, i) => i !== idx) }));
+  };
+
+  const handleSave = async () => {
+    if (!permissions.create) return;
+    if (!form.partyName.trim()) {
+      alert('Enter who the material goes to.');
+      return;
+    }
+    if (form.items.length === 0) {
+      alert('Add at least one item to the challan.');
+      return;
+    }
+    const record: DeliveryChallan = {
+      ...form,
+      dcNo: nextDcNo([...challans, ...binnedChallans]),
+      partyName: form.partyName.trim(),
+      partyAddress: form.partyAddress.trim(),
+      oaNo: form.oaNo.trim(),
+      vehicleNo: form.vehicleNo.trim(),
+      expectedReturnDate: form.dcType === 'returnable' ? form.expectedReturnDate : '',
+      remarks: form.remarks.trim(),
+    };
+    setBusy(true);
+    try {
+      await addDeliveryChallan(uid, record);
+      setForm(emptyChallan());
+      setLine(emptyLine);
+    } catch (err) {
+      console.error('[DeliveryChallanModule] Could not save challan:', err);
+      alert(err instanceof Error ? err.message : 'Could not save the challan');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const openReturns = (dc: ChallanWithId) => {
+    setReturning(returning === dc.id ? null : dc.id);
+    setReturnQtys({});
+  };
+
+  const handleReturn = async (dc: ChallanWithId, idx: number) => {
+    if (!permissions.edit) return;
+    try {
+      const items = recordReturn(dc, idx, Number(returnQtys[idx]) || 0, today());
+      await updateDeliveryChallan(uid, dc.id, { items });
+      setReturnQtys(prev => ({ ...prev, [idx]: 0 }));
+    } catch (err) {
+      console.error('[DeliveryChallanModule] Return failed:', err);
+      alert(err instanceof Error ? err.message : 'Could not record the return');
+    }
+  };
+
+  const handleDelete = async (dc: ChallanWithId) => {
+    if (!permissions.delete) return;
+    if (!window.confirm(`Delete ${dc.dcNo}? Its quantities go back into stock.`)) return;
+    try {
+      await deleteDeliveryChallan(uid, dc.id);
+    } catch (err) {
+      console.error('[DeliveryChallanModule] Delete failed:', err);
+      alert(err instanceof Error ? err.message : 'Could not delete the challan');
+    }
+  };
+
+  const handlePrint = (dc: DeliveryChallan) => {
+    const returnable = dc.dcType === 'returnable';
+    const rows = dc.items.map((item, idx) => `<tr>
+        <td>${idx + 1}</td>
+        <td>${escapeHtml(item.itemName)}<br/><small>${escapeHtml(item.itemCode)}</small></td>
+        <td>${escapeHtml(item.batchNo)}</td>
+        <td class="num">${escapeHtml(formatQty(item.qty, findItem(item.itemCode, item.itemName)))}</td>
+        <td>${escapeHtml(item.remarks)}</td>
+      </tr>`).join('');
+    const html = `
+      <h1>${escapeHtml(orgName || 'Delivery Challan')}</h1>
+      <h2>DELIVERY CHALLAN - ${escapeHtml(DC_TYPE_LABELS[dc.dcType].toUpperCase())}</h2>
+      <div class="meta">
+        <div><strong>To:</strong> ${escapeHtml(dc.partyName)}<br/>${escapeHtml(dc.partyAddress).replace(/\n/g, '<br/>')}</div>
+        <div>
+          <strong>DC No:</strong> ${escapeHtml(dc.dcNo)}<br/><strong>Date:</strong> ${escapeHtml(dc.date)}
+          ${dc.oaNo ? `<br/><strong>OA No:</strong> ${escapeHtml(dc.oaNo)}` : ''}
+          ${dc.vehicleNo ? `<br/><strong>Vehicle:</strong> ${escapeHtml(dc.vehicleNo)}` : ''}
+          ${returnable && dc.expectedReturnDate ? `<br/><strong>Return by:</strong> ${escapeHtml(dc.expectedReturnDate)}` : ''}
+        </div>
+      </div>
+      <table>
+        <thead><tr><th>#</th><th>Item</th><th>Batch</th><th class="num">Qty</th><th>Remarks</th></tr></thead>
+        <tbody>${rows}</tbody>
+      </table>
+      ${dc.remarks ? `<p><strong>Remarks:</strong> ${escapeHtml(dc.remarks)}</p>` : ''}
+      <p>${returnable ? 'The material above is sent on a returnable basis and is to be returned in the same condition.' : 'Received the material above in good condition.'}</p>
+      <div class="signatures"><div>Receiver's signature</div><div>Authorised signatory</div></div>`;
+    if (!printDocument(dc.dcNo, html)) alert('Allow pop-ups for this site to print the challan.');
+  };
+
+  const outstanding = challans.filter(dc => dc.dcType === 'returnable' && challanStatus(dc) !== 'returned');
+  const term = search.trim().toUpperCase();
+  const shownChallans = challans.filter(dc =>
+    (!typeFilter || dc.dcType === typeFilter) &&
+    (!term || [dc.dcNo, dc.partyName, dc.oaNo, ...dc.items.map(i => i.itemName)].some(v => String(v || '').toUpperCase().includes(term))));
+
+  return (
+    <div>
+      <h2>Delivery Challans</h2>
+
+      {permissions.create && (
+        <section style={{ marginBottom: 32, padding: 16, border: '1px solid #e0e0e0', borderRadius: 6, background: '#fafbfc' }}>
+          <h3 style={{ marginTop: 0 }}>New challan - {nextDcNo([...challans, ...binnedChallans])}</h3>
+          <div style={{ display: 'flex', gap: 12, flexWrap: 'wrap', marginBottom: 12 }}>
+            <select value={form.dcType} onChange={e => setForm(prev => ({ ...prev, dcType: e.target.value as DeliveryChallanType }))} style={inputStyle}>
+              {(Object.keys(DC_TYPE_LABELS) as DeliveryChallanType[]).map(t => <option key={t} value={t}>{DC_TYPE_LABELS[t]}</option>)}
+            </select>
+            <input type="date" value={form.date} onChange={e => setForm(prev => ({ ...prev, date: e.target.value }))} style={inputStyle} />
+            <input placeholder={form.dcType === 'dispatch' ? 'Customer' : 'Party'} value={form.partyName} onChange={e => setForm(prev => ({ ...prev, partyName: e.target.value }))} style={{ ...inputStyle, minWidth: 220 }} />
+            <input list="dc-sales-orders" placeholder="OA No" value={form.oaNo} onChange={e => chooseOrder(e.target.value)} style={{ ...inputStyle, width: 120 }} />
+            <datalist id="dc-sales-orders">
+              {openOrders.map(o => <option key={o.oaNo} value={o.oaNo}>{o.customerName}</option>)}
+            </datalist>
+            <input placeholder="Vehicle No" value={form.vehicleNo} onChange={e => setForm(prev => ({ ...prev, vehicleNo: e.target.value }))} style={{ ...inputStyle, width: 130 }} />
+            {form.dcType === 'returnable' && (
+              <label style={{ display: 'flex', gap: 6, alignItems: 'center', fontSize: 13 }}>
+                Return by:
+                <input type="date" value={form.expectedReturnDate} onChange={e => setForm(prev => ({ ...prev, expectedReturnDate: e.target.value }))} style={inputStyle} />
+              </label>
+            )}
+          </div>
+          <div style={{ display: 'flex', gap: 12, flexWrap: 'wrap', marginBottom: 12 }}>
+            <textarea placeholder="Address" rows={2} value={form.partyAddress} onChange={e => setForm(prev => ({ ...prev, partyAddress: e.target.value }))} style={{ ...inputStyle, flex: 1, minWidth: 240 }} />
+            <textarea placeholder="Remarks" rows={2} value={form.remarks} onChange={e => setForm(prev => ({ ...prev, remarks: e.target.value }))} style={{ ...inputStyle, flex: 1, minWidth: 240 }} />
+          </div>
+
+          <div style={{ display: 'flex', gap: 12, alignItems: 'center', flexWrap: 'wrap', marginBottom: 12 }}>
+            <input list="dc-items" placeholder="Item" value={line.itemName} onChange={e => chooseItem(e.target.value)} style={{ ...inputStyle, minWidth: 240 }} />
+            <datalist id="dc-items">
+              {itemOptions.map(i => <option key={i.itemCode} value={i.itemName}>{i.itemCode}</option>)}
+            </datalist>
+            <select value={line.batchNo} onChange={e => setLine(prev => ({ ...prev, batchNo: e.target.value }))} style={inputStyle} disabled={!line.itemCode}>
+              <option value="">Oldest batches first (FIFO)</option>
+              {lineLots.map(l => <option key={l.batchNo} value={l.batchNo}>{l.batchNo || '(no batch)'} - {l.remainingQty} left</option>)}
+            </select>
+            <input
+              type="number"
+              min={0}
+              step="any"
+              placeholder={`Qty (${findItem(line.itemCode, line.itemName)?.baseUom || 'Nos'})`}
+              value={line.qty || ''}
+              onChange={e => setLine(prev => ({ ...prev, qty: Math.max(0, Number(e.target.value) || 0) }))}
+              style={{ ...inputStyle, width: 110 }}
+            />
+            {line.itemCode && <span style={{ fontSize: 12, color: available > 0 ? '#555' : '#e53935' }}>In stock: {Math.max(0, available)}</span>}
+            <input placeholder="Line remarks" value={line.remarks} onChange={e => setLine(prev => ({ ...prev, remarks: e.target.value }))} style={inputStyle} />
+            <button onClick={addLine} style={{ ...smallButton, background: '#546e7a', padding: '7px 14px' }}>Add item</button>
+          </div>
+
+          {form.items.length > 0 && (
+            <table style={{ width: '100%', borderCollapse: 'collapse', marginBottom: 12 }}>
+              <thead>
+                <tr>
+                  <th style={headStyle}>Item</th>
+                  <th style={headStyle}>Item Code</th>
+                  <th style={headStyle}>Batch</th>
+                  <th style={headStyle}>Qty</th>
+                  <th style={headStyle}>Remarks</th>
+                  <th style={headStyle}></th>
+                </tr>
+              </thead>
+              <tbody>
+                {form.items.map((item, idx) => (
+                  <tr key={`${item.itemCode}-${item.batchNo}-${idx}`}>
+                    <td style={cellStyle}>{item.itemName}</td>
+                    <td style={cellStyle}>{item.itemCode}</td>
+                    <td style={cellStyle}>{item.batchNo}</td>
+                    <td style={cellStyle}>{formatQty(item.qty, findItem(item.itemCode, item.itemName))}</td>
+                    <td style={cellStyle}>{item.remarks}</td>
+                    <td style={cellStyle}>
+                      <button onClick={() => removeLine(idx)} style={{ ...smallButton, background: '#e53935' }}>Remove</button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+
+          <button onClick={handleSave} disabled={busy} style={{ ...primaryButton, opacity: busy ? 0.5 : 1 }}>Save challan</button>
+        </section>
+      )}
+
+      {outstanding.length > 0 && (
+        <section style={{ marginBottom: 24 }}>
+          <h3 style={{ marginBottom: 8 }}>Returnable material still out</h3>
+          <table style={{ width: '100%', borderCollapse: 'collapse', background: '#fff8e1' }}>
+            <thead>
+              <tr>
+                <th style={headStyle}>DC No</th>
+                <th style={headStyle}>Party</th>
+                <th style={headStyle}>Sent</th>
+                <th style={headStyle}>Return By</th>
+                <th style={headStyle}>Items Out</th>
+              </tr>
+            </thead>
+            <tbody>
+              {outstanding.map(dc => (
+                <tr key={dc.id} style={isOverdue(dc) ? { color: '#c62828', fontWeight: 600 } : undefined}>
+                  <td style={cellStyle}>{dc.dcNo}</td>
+                  <td style={cellStyle}>{dc.partyName}</td>
+                  <td style={cellStyle}>{dc.date}</td>
+                  <td style={cellStyle}>{dc.expectedReturnDate || '-'}{isOverdue(dc) && ' (overdue)'}</td>
+                  <td style={cellStyle}>
+                    {dc.items.filter(i => pendingReturnQty(i) > 0).map(i => `${i.itemName}: ${formatQty(pendingReturnQty(i), findItem(i.itemCode, i.itemName))}`).join(', ')}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </section>
+      )}
+
+      <div style={{ display: 'flex', gap: 12, alignItems: 'center', marginBottom: 8 }}>
+        <h3 style={{ margin: 0, flex: 1 }}>Challans</h3>
+        <input placeholder="Search DC / party / OA / item" value={search} onChange={e => setSearch(e.target.value)} style={inputStyle} />
+        <select value={typeFilter} onChange={e => setTypeFilter(e.target.value as DeliveryChallanType | '')} style={{ padding: 6 }}>
+          <option value="">All types</option>
+          {(Object.keys(DC_TYPE_LABELS) as DeliveryChallanType[]).map(t => <option key={t} value={t}>{DC_TYPE_LABELS[t]}</option>)}
+        </select>
+      </div>
+      <div style={{ overflowX: 'auto' }}>
+        <table style={{ width: '100%', borderCollapse: 'collapse', background: '#fafbfc' }}>
+          <thead>
+            <tr>
+              <th style={headStyle}>DC No</th>
+              <th style={headStyle}>Date</th>
+              <th style={headStyle}>Type</th>
+              <th style={headStyle}>Party</th>
+              <th style={headStyle}>OA No</th>
+              <th style={headStyle}>Items</th>
+              <th style={headStyle}>Status</th>
+              <th style={headStyle}>Actions</th>
+            </tr>
+          </thead>
+          <tbody>
+            {shownChallans.length === 0 && (
+              <tr><td style={{ ...cellStyle, color: '#888', textAlign: 'center' }} colSpan={8}>No delivery challans</td></tr>
+            )}
+            {shownChallans.map(dc => {
+              const status = challanStatus(dc);
+              return (
+                <React.Fragment key={dc.id}>
+                  <tr>
+                    <td style={cellStyle}>{dc.dcNo}</td>
+                    <td style={cellStyle}>{dc.date}</td>
+                    <td style={cellStyle}>{DC_TYPE_LABELS[dc.dcType] || dc.dcType}</td>
+                    <td style={cellStyle}>{dc.partyName}</td>
+                    <td style={cellStyle}>{dc.oaNo}</td>
+                    <td style={cellStyle} title={dc.items.map(i => `${i.itemName} (${i.batchNo || '-'}): ${i.qty}`).join('\n')}>{dc.items.length}</td>
+                    <td style={cellStyle}>
+                      <span style={{ background: statusColors[status], color: '#fff', fontWeight: 600, padding: '3px 10px', borderRadius: 6 }}>
+                        {CHALLAN_STATUS_LABELS[status]}
+                      </span>
+                    </td>
+                    <td style={{ ...cellStyle, whiteSpace: 'nowrap' }}>
+                      <button onClick={() => handlePrint(dc)} style={{ ...smallButton, background: '#546e7a' }}>Print</button>
+                      {permissions.edit && dc.dcType === 'returnable' && (
+                        <button onClick={() => openReturns(dc)} style={{ ...smallButton, background: '#1976d2' }}>
+                          {returning === dc.id ? 'Hide returns' : 'Returns'}
+                        </button>
+                      )}
+                      {permissions.delete && (
+                        <button onClick={() => handleDelete(dc)} style={{ ...smallButton, background: '#e53935' }}>Delete</button>
+                      )}
+                    </td>
+                  </tr>
+                  {returning === dc.id && (
+                    <tr>
+                      <td colSpan={8} style={{ ...cellStyle, background: '#fff' }}>
+                        <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+                          <thead>
+                            <tr>
+                              <th style={headStyle}>Item</th>
+                              <th style={headStyle}>Batch</th>
+                              <th style={headStyle}>Sent</th>
+                              <th style={headStyle}>Returned</th>
+                              <th style={headStyle}>Last Return</th>
+                              <th style={headStyle}>Receive</th>
+                            </tr>
+                          </thead>
+                          <tbody>
+                            {dc.items.map((item: DeliveryChallanItem, idx) => (
+                              <tr key={`${item.itemCode}-${item.batchNo}-${idx}`}>
+                                <td style={cellStyle}>{item.itemName}</td>
+                                <td style={cellStyle}>{item.batchNo}</td>
+                                <td style={cellStyle}>{item.qty}</td>
+                                <td style={cellStyle}>{Number(item.returnedQty) || 0}</td>
+                                <td style={cellStyle}>{item.returnedDate}</td>
+                                <td style={cellStyle}>
+                                  {pendingReturnQty(item) > 0 ? (
+                                    <>
+                                      <input
+                                        type="number"
+                                        min={0}
+                                        max={pendingReturnQty(item)}
+                                        step="any"
+                                        placeholder={`up to ${pendingReturnQty(item)}`}
+                                        value={returnQtys[idx] || ''}
+                                        onChange={e => setReturnQtys(prev => ({ ...prev, [idx]: Math.max(0, Number(e.target.value) || 0) }))}
+                                        style={{ width: 90, padding: 4, marginRight: 6 }}
+                                      />
+                                      <button onClick={() => handleReturn(dc, idx)} style={{ ...smallButton, background: '#43a047' }}>Received back</button>
+                                    </>
+                                  ) : 'Back in stock'}
+                                </td>
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                      </td>
+                    </tr>
+                  )}
+                </React.Fragment>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+      <RecycleBin
+        uid={uid}
+        source={deliveryChallanRepository}
+        describe={dc => `${dc.dcNo} - ${dc.partyName}`}
+        title="Delivery Challan Recycle Bin"
+        canRestore={permissions.edit}
+        canPurge={permissions.delete}
+      />
+    </div>
+  );
+};
+
+export default DeliveryChallanModule;
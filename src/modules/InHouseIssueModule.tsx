@@ -1,6 +1,7 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { onAuthStateChanged } from 'firebase/auth';
 import { auth } from '../firebase';
+import RecycleBin from '../components/RecycleBin';
 import {
   getItemMaster,
   subscribeInHouseIssues,
@@ -8,34 +9,16 @@ import {
   updateInHouseIssue,
   deleteInHouseIssue,
   subscribeVSIRRecords,
+  subscribeVendorIssues,
+  inHouseIssueRepository,
 } from '../utils/firestoreServices';
 import { subscribePsirs } from '../utils/psirService';
-
-interface InHouseIssueItem {
-  itemName: string;
-  itemCode: string;
-  transactionType: string;
-  batchNo: string;
-  issueQty: number;
-  reqBy: string;
-  inStock: number;
-  reqClosed: boolean;
-  receivedDate?: string; // FIFO: Track when item was received
-}
-
-interface InHouseIssue {
-  id?: string;  // Firestore document ID
-  reqNo: string;
-  reqDate: string;
-  indentNo: string;
-  oaNo: string;
-  poNo: string;
-  vendor: string;
-  purchaseBatchNo: string;
-  vendorBatchNo: string;
-  issueNo: string;
-  items: InHouseIssueItem[];
-}
+import type { InHouseIssueItem, InHouseIssue, VendorIssue } from '../utils/recordSchemas';
+import { useStockLedger } from '../hooks/useStockLedger';
+import { allocateFifo, findLot, grnReceivedDates, openLotsForItem } from '../utils/lots';
+import type { LotSource } from '../utils/lots';
+import type { ModulePermissions } from '../config/roleModuleConfig';
+import { isActiveItem } from '../utils/units';
 
 const reqByOptions = ['HKG', 'NGR', 'MDD'];
 const transactionTypeOptions = ['Purchase', 'Vendor', 'Stock'];
@@ -66,20 +49,13 @@ function getNextIssueNo(issues: InHouseIssue[]) {
   return base + String(nextSerial).padStart(2, '0');
 }
 
-const InHouseIssueModule: React.FC = () => {
-  const [issues, setIssues] = useState<InHouseIssue[]>(() => {
-    const saved = localStorage.getItem('inHouseIssueData');
-    if (!saved) return [];
-    try {
-      const parsed = JSON.parse(saved);
-      return parsed.map((issue: any) => ({
-        ...issue,
-        items: Array.isArray(issue.items) ? issue.items : [],
-      }));
-    } catch {
-      return [];
-    }
-  });
+interface InHouseIssueModuleProps {
+  permissions: ModulePermissions;
+}
+
+const InHouseIssueModule: React.FC<InHouseIssueModuleProps> = ({ permissions }) => {
+  // Seeded by the Firestore subscription (served from the offline cache while disconnected)
+  const [issues, setIssues] = useState<InHouseIssue[]>([]);
 
   const [newIssue, setNewIssue] = useState<InHouseIssue>({
     reqNo: getNextReqNo([]),
@@ -117,8 +93,14 @@ const InHouseIssueModule: React.FC = () => {
   const [debugPanelOpen, setDebugPanelOpen] = useState(false);
   const [userUid, setUserUid] = useState<string | null>(null);
   const [editIssueIdx, setEditIssueIdx] = useState<number | null>(null);
+  const canSaveIssue = editIssueIdx !== null ? permissions.edit : permissions.create;
   const [psirData, setPsirData] = useState<any[]>([]);
   const [vsirData, setVsirData] = useState<any[]>([]);
+  const [vendorIssues, setVendorIssues] = useState<VendorIssue[]>([]);
+  const receivedDates = useMemo(() => grnReceivedDates(psirData, vsirData), [psirData, vsirData]);
+  const { lots } = useStockLedger(userUid, receivedDates);
+  // Batches are allocated FIFO from the item's lots unless the user picks one
+  const [manualBatch, setManualBatch] = useState(false);
 
   // Auth state
   useEffect(() => {
@@ -162,7 +144,7 @@ const InHouseIssueModule: React.FC = () => {
       try {
         const items = await getItemMaster(userUid);
         setItemMaster((items || []) as any[]);
-        setItemNames((items || []).map((i: any) => i.itemName).filter(Boolean));
+        setItemNames((items || []).filter(isActiveItem).map(i => i.itemName).filter(Boolean));
         console.log('[InHouseIssueModule] Loaded item master:', items?.length || 0, 'items');
       } catch (err) {
         console.error('[InHouseIssueModule] Failed to load item master:', err);
@@ -192,10 +174,17 @@ const InHouseIssueModule: React.FC = () => {
       setVsirData(docs || []);
     });
 
+    // Subscribe to Vendor Issues (stock issued through vendors counts against batches)
+    const unsubVendorIssues = subscribeVendorIssues(userUid, (docs) => {
+      console.log('[InHouseIssueModule] ✓ Received vendor issues from Firestore:', docs.length, 'items');
+      setVendorIssues(docs);
+    });
+
     return () => {
       unsub();
       unsubPsir();
       unsubVsir();
+      unsubVendorIssues();
     };
   }, [userUid]);
 
@@ -404,9 +393,8 @@ const InHouseIssueModule: React.FC = () => {
         
         // Check in-house issues
         let totalIssued = 0;
-        const issuesRaw = localStorage.getItem('inHouseIssueData');
-        if (issuesRaw) {
-          const issuesData = JSON.parse(issuesRaw);
+        if (issues.length > 0) {
+          const issuesData = issues;
           if (Array.isArray(issuesData)) {
             issuesData.forEach((issue: any) => {
               if (Array.isArray(issue.items)) {
@@ -421,9 +409,8 @@ const InHouseIssueModule: React.FC = () => {
         }
         
         // Check vendor issues (stock issued through vendor)
-        const vendorIssuesRaw = localStorage.getItem('vendorIssueData');
-        if (vendorIssuesRaw) {
-          const vendorIssuesData = JSON.parse(vendorIssuesRaw);
+        if (vendorIssues.length > 0) {
+          const vendorIssuesData = vendorIssues;
           if (Array.isArray(vendorIssuesData)) {
             vendorIssuesData.forEach((issue: any) => {
               if (Array.isArray(issue.items)) {
@@ -594,7 +581,6 @@ const InHouseIssueModule: React.FC = () => {
       if (updated) {
         console.log('[InHouse] Updating issues with auto-filled batch details');
         setIssues(updatedIssues);
-        localStorage.setItem('inHouseIssueData', JSON.stringify(updatedIssues));
       }
     } catch (e) {
       console.error('[InHouse] Error auto-filling batch details for saved issues:', e);
@@ -644,7 +630,6 @@ const InHouseIssueModule: React.FC = () => {
     });
     if (added) {
       setIssues(newIssues);
-      localStorage.setItem('inHouseIssueData', JSON.stringify(newIssues));
     }
     // eslint-disable-next-line
   }, []);
@@ -694,10 +679,57 @@ const InHouseIssueModule: React.FC = () => {
     }
   }, [newIssue.vendor]);
 
+  // Qty this unsaved issue takes from each batch of an item, beyond what the ledger already holds
+  const getDraftReserved = (itemCode: string): Record<string, number> => {
+    const reserved: Record<string, number> = {};
+    const add = (items: InHouseIssueItem[], sign: number) => items.forEach(it => {
+      if (it.itemCode !== itemCode) return;
+      reserved[it.batchNo] = (reserved[it.batchNo] || 0) + sign * (Number(it.issueQty) || 0);
+    });
+    add(newIssue.items.filter((_, idx) => idx !== editItemIdx), 1);
+    if (editIssueIdx !== null && issues[editIssueIdx]) add(issues[editIssueIdx].items || [], -1);
+    return reserved;
+  };
+
+  // Split the requested qty across the oldest lots of the selected transaction type
+  const getFifoAllocation = () => allocateFifo(lots, itemInput, Number(itemInput.issueQty) || 0, {
+    source: itemInput.transactionType as LotSource,
+    reserved: getDraftReserved(itemInput.itemCode),
+  });
+
   const handleAddItem = () => {
     if (!itemInput.itemName || !itemInput.itemCode || !itemInput.reqBy || itemInput.issueQty <= 0) return;
+    let lines: InHouseIssueItem[] = [itemInput];
+    if (!manualBatch) {
+      const { allocations, shortfall } = getFifoAllocation();
+      if (shortfall > 0) {
+        alert(`Only ${itemInput.issueQty - shortfall} of ${itemInput.issueQty} available in ${itemInput.transactionType} batches for ${itemInput.itemCode}.`);
+        return;
+      }
+      lines = allocations.map(a => ({
+        ...itemInput,
+        batchNo: a.batchNo,
+        issueQty: a.qty,
+        receivedDate: a.receivedAt ? new Date(a.receivedAt).toISOString().slice(0, 10) : itemInput.receivedDate,
+      }));
+    } else {
+      if (!itemInput.batchNo) {
+        alert('Select a batch, or switch back to FIFO allocation.');
+        return;
+      }
+      const lot = findLot(lots, itemInput, itemInput.batchNo);
+      if (!lot || lot.source !== itemInput.transactionType) {
+        alert(`Batch ${itemInput.batchNo} holds no ${itemInput.transactionType} stock of ${itemInput.itemCode}.`);
+        return;
+      }
+      const pending = getPendingOkQtyForBatch(itemInput.batchNo, itemInput.transactionType, itemInput.itemCode);
+      if (itemInput.issueQty > pending) {
+        alert(`Batch ${itemInput.batchNo} has only ${pending} remaining.`);
+        return;
+      }
+    }
     // Sort items by receivedDate (FIFO - oldest first)
-    const newItems = [...newIssue.items, itemInput];
+    const newItems = [...newIssue.items, ...lines];
     newItems.sort((a, b) => {
       const dateA = new Date(a.receivedDate || '').getTime();
       const dateB = new Date(b.receivedDate || '').getTime();
@@ -822,9 +854,8 @@ const InHouseIssueModule: React.FC = () => {
       let totalIssued = 0;
       
       // Check in-house issue data
-      const issuesRaw = localStorage.getItem('inHouseIssueData');
-      if (issuesRaw) {
-        const issuesData = JSON.parse(issuesRaw);
+      if (issues.length > 0) {
+        const issuesData = issues;
         if (Array.isArray(issuesData)) {
           issuesData.forEach((issue: any) => {
             if (Array.isArray(issue.items)) {
@@ -840,9 +871,8 @@ const InHouseIssueModule: React.FC = () => {
       }
       
       // Also check vendor issue data - items issued through Vendor Issues module
-      const vendorIssuesRaw = localStorage.getItem('vendorIssueData');
-      if (vendorIssuesRaw) {
-        const vendorIssuesData = JSON.parse(vendorIssuesRaw);
+      if (vendorIssues.length > 0) {
+        const vendorIssuesData = vendorIssues;
         console.log('[DEBUG] Vendor Issues Data (Full):', vendorIssuesData);
         if (Array.isArray(vendorIssuesData)) {
           vendorIssuesData.forEach((issue: any, issueIdx: number) => {
@@ -922,40 +952,20 @@ const InHouseIssueModule: React.FC = () => {
     }
   };
 
-  // Get pending OK Qty for a batch (OK Qty - Already Issued)
+  // Remaining qty of a lot of the transaction type (from the stock ledger), less what this unsaved issue already takes
   const getPendingOkQtyForBatch = (batchNo: string, transactionType: string, itemCode: string): number => {
-    let totalOkQty = 0;
-    
-    if (transactionType === 'Purchase') {
-      totalOkQty = getPsirOkQtyForBatch(batchNo, itemCode);
-    } else if (transactionType === 'Vendor') {
-      totalOkQty = getVsirOkQtyForBatch(batchNo, itemCode);
-    }
-    
-    const issuedQty = getIssuedQtyForBatch(batchNo, transactionType, itemCode);
-    const pending = Math.max(0, totalOkQty - issuedQty);
-    
-    console.log('[DEBUG] getPendingOkQtyForBatch:', { batchNo, transactionType, itemCode, totalOkQty, issuedQty, pending });
-    return pending;
+    const lot = findLot(lots, { itemCode }, batchNo);
+    if (!lot || lot.source !== transactionType) return 0;
+    return Math.max(0, lot.remainingQty - (getDraftReserved(itemCode)[batchNo] || 0));
   };
 
-  // Filter batch numbers to show only those with pending OK Qty
-  const getPsirBatchNosWithPending = (itemCode: string): string[] => {
-    const allBatches = getPsirBatchNosForItem(itemCode);
-    return allBatches.filter(batch => {
-      const pendingQty = getPendingOkQtyForBatch(batch, 'Purchase', itemCode);
-      return pendingQty > 0;
-    });
-  };
+  // Batches with stock remaining, oldest lot first
+  const getBatchNosWithPending = (itemCode: string, source: LotSource): string[] =>
+    openLotsForItem(lots, { itemCode }, source).map(l => l.batchNo).filter(b => getPendingOkQtyForBatch(b, source, itemCode) > 0);
 
-  // Filter batch numbers to show only those with pending OK Qty
-  const getVsirBatchNosWithPending = (itemCode: string): string[] => {
-    const allBatches = getVsirBatchNosForItem(itemCode);
-    return allBatches.filter(batch => {
-      const pendingQty = getPendingOkQtyForBatch(batch, 'Vendor', itemCode);
-      return pendingQty > 0;
-    });
-  };
+  const getPsirBatchNosWithPending = (itemCode: string): string[] => getBatchNosWithPending(itemCode, 'Purchase');
+
+  const getVsirBatchNosWithPending = (itemCode: string): string[] => getBatchNosWithPending(itemCode, 'Vendor');
 
   // Get batch details (OK Qty and Reject Qty) based on selected batch
   const getBatchDetailsText = (): string => {
@@ -964,29 +974,10 @@ const InHouseIssueModule: React.FC = () => {
     }
 
     try {
-      if (itemInput.transactionType === 'Purchase') {
-        const totalOkQty = getPsirOkQtyForBatch(itemInput.batchNo, itemInput.itemCode);
-        const pendingOkQty = getPendingOkQtyForBatch(itemInput.batchNo, 'Purchase', itemInput.itemCode);
-        return `${itemInput.batchNo} | OK: ${totalOkQty} | Pending: ${pendingOkQty}`;
-      } else if (itemInput.transactionType === 'Vendor') {
-        const totalOkQty = getVsirOkQtyForBatch(itemInput.batchNo, itemInput.itemCode);
-        const pendingOkQty = getPendingOkQtyForBatch(itemInput.batchNo, 'Vendor', itemInput.itemCode);
-        return `${itemInput.batchNo} | OK: ${totalOkQty} | Pending: ${pendingOkQty}`;
-      } else if (itemInput.transactionType === 'Stock') {
-        // Get from Stock Module
-        const stockDataRaw = localStorage.getItem('stock-records');
-        if (!stockDataRaw) return 'No Stock data';
-        
-        const stockData = JSON.parse(stockDataRaw);
-        if (!Array.isArray(stockData)) return 'Invalid Stock data';
-        
-        for (const stock of stockData) {
-          if (stock.itemCode === itemInput.itemCode && stock.closingStock.toString() === itemInput.batchNo) {
-            const qty = stock.closingStock || 0;
-            return `Stock Qty: ${qty}`;
-          }
-        }
-        return `No stock details found`;
+      if (itemInput.transactionType === 'Purchase' || itemInput.transactionType === 'Vendor' || itemInput.transactionType === 'Stock') {
+        const lot = findLot(lots, itemInput, itemInput.batchNo);
+        const pendingOkQty = getPendingOkQtyForBatch(itemInput.batchNo, itemInput.transactionType, itemInput.itemCode);
+        return `${itemInput.batchNo} | OK: ${lot?.receivedQty ?? 0} | Pending: ${pendingOkQty}`;
       }
       return '';
     } catch (e) {
@@ -1035,10 +1026,25 @@ const InHouseIssueModule: React.FC = () => {
           {transactionTypeOptions.map(opt => <option key={opt} value={opt}>{opt}</option>)}
         </select>
         <label>Batch No:</label>
+        <label style={{ fontSize: 12 }}>
+          <input type="checkbox" checked={manualBatch} onChange={e => { setManualBatch(e.target.checked); setItemInput({ ...itemInput, batchNo: '' }); }} />
+          Choose batch manually
+        </label>
+        {!manualBatch ? (
+          <span style={{ fontSize: 12, color: '#555', alignSelf: 'center' }}>
+            {itemInput.itemCode && itemInput.issueQty > 0
+              ? (() => {
+                  const { allocations, shortfall } = getFifoAllocation();
+                  const plan = allocations.map(a => `${a.batchNo} × ${a.qty}`).join(', ') || 'no open batches';
+                  return `FIFO: ${plan}${shortfall > 0 ? ` (short by ${shortfall})` : ''}`;
+                })()
+              : 'FIFO: oldest batch first'}
+          </span>
+        ) : (
         <select value={itemInput.batchNo} onChange={e => setItemInput({ ...itemInput, batchNo: e.target.value })}>
           <option value="">Select</option>
           {itemInput.transactionType === 'Purchase' ? (
-            psirBatchNos && psirBatchNos.length > 0 ? (
+            getPsirBatchNosWithPending(itemInput.itemCode).length > 0 ? (
               getPsirBatchNosWithPending(itemInput.itemCode).map(batchNo => {
                 const pendingQty = getPendingOkQtyForBatch(batchNo, 'Purchase', itemInput.itemCode);
                 return (
@@ -1051,7 +1057,7 @@ const InHouseIssueModule: React.FC = () => {
               <option disabled style={{ color: '#999' }}>No batch numbers available</option>
             )
           ) : itemInput.transactionType === 'Vendor' ? (
-            vsirBatchNos && vsirBatchNos.length > 0 ? (
+            getVsirBatchNosWithPending(itemInput.itemCode).length > 0 ? (
               getVsirBatchNosWithPending(itemInput.itemCode).map(batchNo => {
                 const pendingQty = getPendingOkQtyForBatch(batchNo, 'Vendor', itemInput.itemCode);
                 return (
@@ -1064,17 +1070,20 @@ const InHouseIssueModule: React.FC = () => {
               <option disabled style={{ color: '#999' }}>No vendor batch numbers available</option>
             )
           ) : itemInput.transactionType === 'Stock' ? (
-            stockQuantities && stockQuantities.length > 0 ? (
-              stockQuantities.map(qty => (
-                <option key={qty} value={qty}>Stock Quantity: {qty}</option>
+            getBatchNosWithPending(itemInput.itemCode, 'Stock').length > 0 ? (
+              getBatchNosWithPending(itemInput.itemCode, 'Stock').map(batchNo => (
+                <option key={batchNo} value={batchNo}>
+                  {batchNo} (Pending: {getPendingOkQtyForBatch(batchNo, 'Stock', itemInput.itemCode)})
+                </option>
               ))
             ) : (
-              <option disabled style={{ color: '#999' }}>No stock quantities available</option>
+              <option disabled style={{ color: '#999' }}>No stock batches available</option>
             )
           ) : (
             <option disabled style={{ color: '#999' }}>Select Transaction Type first</option>
           )}
         </select>
+        )}
         <select value={itemInput.reqBy} onChange={e => setItemInput({ ...itemInput, reqBy: e.target.value })}>
           <option value="">Req By</option>
           {reqByOptions.map(opt => <option key={opt} value={opt}>{opt}</option>)}
@@ -1104,7 +1113,7 @@ const InHouseIssueModule: React.FC = () => {
           <input type="checkbox" checked={itemInput.reqClosed} onChange={e => setItemInput({ ...itemInput, reqClosed: e.target.checked })} />
           Req Closed
         </label>
-  <button onClick={handleSaveItem}>{editItemIdx !== null ? 'Save' : 'Add Item'}</button>
+  {canSaveIssue && <button onClick={handleSaveItem}>{editItemIdx !== null ? 'Save' : 'Add Item'}</button>}
       </div>
       {newIssue.items.length > 0 && (
         <table border={1} cellPadding={6} style={{ width: '100%', marginBottom: 16 }}>
@@ -1134,7 +1143,7 @@ const InHouseIssueModule: React.FC = () => {
                 <td>{item.issueQty}</td>
                 <td>{item.reqClosed ? 'Yes' : 'No'}</td>
                 <td><button style={{ background: '#1976d2', color: '#fff', border: 'none', borderRadius: 4, padding: '4px 12px', cursor: 'pointer' }} onClick={() => handleEditItem(idx)}>Edit</button></td>
-                <td><button onClick={(e) => {
+                <td>{permissions.delete && <button onClick={(e) => {
                   e.preventDefault();
                   const toDelete = issues[idx];
                   if (!toDelete?.id || !userUid) return;
@@ -1146,20 +1155,22 @@ const InHouseIssueModule: React.FC = () => {
                       console.error('[InHouseIssueModule] Failed to delete issue:', err);
                     }
                   })();
-                }} style={{ background: '#e53935', color: '#fff', border: 'none', borderRadius: 4, padding: '4px 12px', cursor: 'pointer' }}>Delete</button></td>
+                }} style={{ background: '#e53935', color: '#fff', border: 'none', borderRadius: 4, padding: '4px 12px', cursor: 'pointer' }}>Delete</button>}</td>
               </tr>
             ))}
           </tbody>
         </table>
       )}
-      <button 
-        onClick={editIssueIdx !== null ? handleUpdateIssue : handleAddIssue} 
-        style={{marginBottom: 16}}
-        disabled={!userUid}
-        title={!userUid ? 'Please sign in to add/update issues' : ''}
-      >
-        {editIssueIdx !== null ? 'Update In House Issue' : 'Add In House Issue'}
-      </button>
+      {canSaveIssue && (
+        <button 
+          onClick={editIssueIdx !== null ? handleUpdateIssue : handleAddIssue} 
+          style={{marginBottom: 16}}
+          disabled={!userUid}
+          title={!userUid ? 'Please sign in to add/update issues' : ''}
+        >
+          {editIssueIdx !== null ? 'Update In House Issue' : 'Add In House Issue'}
+        </button>
+      )}
       <h3>In House Issues</h3>
       <table border={1} cellPadding={6} style={{ width: '100%', marginBottom: 16 }}>
         <thead>
@@ -1202,8 +1213,8 @@ const InHouseIssueModule: React.FC = () => {
                 <td>{item.receivedDate}</td>
                 <td>{item.issueQty}</td>
                 <td>{item.reqClosed ? 'Yes' : 'No'}</td>
-                <td><button style={{ background: '#1976d2', color: '#fff', border: 'none', borderRadius: 4, padding: '4px 12px', cursor: 'pointer' }} onClick={() => handleEditIssue(idx)}>Edit</button></td>
-                <td><button onClick={() => handleDeleteItem(idx, i)} style={{ background: '#e53935', color: '#fff', border: 'none', borderRadius: 4, padding: '4px 12px', cursor: 'pointer' }}>Delete</button></td>
+                <td>{permissions.edit && <button style={{ background: '#1976d2', color: '#fff', border: 'none', borderRadius: 4, padding: '4px 12px', cursor: 'pointer' }} onClick={() => handleEditIssue(idx)}>Edit</button>}</td>
+                <td>{permissions.delete && <button onClick={() => handleDeleteItem(idx, i)} style={{ background: '#e53935', color: '#fff', border: 'none', borderRadius: 4, padding: '4px 12px', cursor: 'pointer' }}>Delete</button>}</td>
               </tr>
             ))
          )}
@@ -1359,9 +1370,8 @@ const InHouseIssueModule: React.FC = () => {
                           let totalIssued = 0;
                           
                           // Check in-house issues
-                          const issuesRaw = localStorage.getItem('inHouseIssueData');
-                          if (issuesRaw) {
-                            const issuesData = JSON.parse(issuesRaw);
+                          if (issues.length > 0) {
+                            const issuesData = issues;
                             if (Array.isArray(issuesData)) {
                               issuesData.forEach((issue: any) => {
                                 if (Array.isArray(issue.items)) {
@@ -1376,9 +1386,8 @@ const InHouseIssueModule: React.FC = () => {
                           }
                           
                           // Check vendor issues
-                          const vendorIssuesRaw = localStorage.getItem('vendorIssueData');
-                          if (vendorIssuesRaw) {
-                            const vendorIssuesData = JSON.parse(vendorIssuesRaw);
+                          if (vendorIssues.length > 0) {
+                            const vendorIssuesData = vendorIssues;
                             if (Array.isArray(vendorIssuesData)) {
                               vendorIssuesData.forEach((issue: any) => {
                                 if (Array.isArray(issue.items)) {
@@ -1440,6 +1449,7 @@ const InHouseIssueModule: React.FC = () => {
           </div>
         )}
       </div>
+      <RecycleBin uid={userUid} source={inHouseIssueRepository} describe={i => `Req ${i.reqNo || '—'}${i.issueNo ? ` / Issue ${i.issueNo}` : ''}${i.poNo ? ` - PO ${i.poNo}` : ''}`} title="In-House Issue Recycle Bin" canRestore={permissions.edit} canPurge={permissions.delete} />
     </div>
   );
 };
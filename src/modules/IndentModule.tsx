@@ -1,39 +1,51 @@
 import React, { useState, useEffect } from 'react';
 import bus from '../utils/eventBus';
 import * as XLSX from 'xlsx';
-import { subscribeFirestoreDocs, replaceFirestoreCollection, getFirestoreDocs } from '../utils/firestoreSync';
-import { getItemMaster, subscribeStockRecords, subscribePurchaseOrders } from '../utils/firestoreServices';
+import { subscribeFirestoreDocs, replaceFirestoreCollection, addFirestoreDoc, updateFirestoreDoc, deleteFirestoreDoc } from '../utils/firestoreSync';
+import { getItemMaster, getStockRecords, subscribeStockRecords, subscribePurchaseOrders, subscribeSalesOrders } from '../utils/firestoreServices';
 import { onAuthStateChanged } from 'firebase/auth';
 import { auth } from '../firebase';
-
-interface IndentItem {
-  model: string;
-  itemCode: string;
-  qty: number;
-  indentClosed: boolean;
-}
-
-interface Indent {
-  indentNo: string;
-  date: string;
-  indentBy: string;
-  oaNo: string;
-  items: IndentItem[];
-}
+import type { IndentItem, Indent, ItemMasterRecord, SalesOrder, StockRecord } from '../utils/recordSchemas';
+import { useStockLedger } from '../hooks/useStockLedger';
+import type { ModulePermissions } from '../config/roleModuleConfig';
+import { findShortItems, onOrderByItem } from '../utils/reorder';
+import { baseUomOf, formatQty, isActiveItem, itemLookup } from '../utils/units';
+import { unindentedItems } from '../utils/salesOrders';
+import { approvalFields, approvalHistory, approvalLabel, approvalStatusOf, canDecide, decide, startApproval } from '../utils/approvals';
 
 interface IndentModuleProps {
   user?: any;
+  permissions: ModulePermissions;
+  /** Approval steps may need a permission from another module */
+  hasPermission: (permission: string) => boolean;
 }
 
-const IndentModule: React.FC<IndentModuleProps> = ({ user }) => {
+const approvalColors = { pending: '#fb8c00', approved: '#43a047', rejected: '#e53935' };
+
+const IndentModule: React.FC<IndentModuleProps> = ({ user, permissions, hasPermission }) => {
   // Get uid from user prop or use a default
   const [uid] = useState<string>(user?.uid || 'default-user');
 
   const [indents, setIndents] = useState<Indent[]>([]);
 
-  const [itemMaster, setItemMaster] = useState<{ itemName: string; itemCode: string }[]>([]);
-  const [stockRecords, setStockRecords] = useState<any[]>([]);
+  const [itemMaster, setItemMaster] = useState<ItemMasterRecord[]>([]);
+  const [stockRecords, setStockRecords] = useState<StockRecord[]>([]);
   const [purchaseOrders, setPurchaseOrders] = useState<any[]>([]);
+  const [salesOrders, setSalesOrders] = useState<SalesOrder[]>([]);
+  const { closingStockFor } = useStockLedger(user?.uid);
+  const canViewSales = hasPermission('sales:view');
+  // Stock and PO figures come from other modules, read only where the role can view them
+  const canViewStock = hasPermission('stock:view');
+  const canViewPurchase = hasPermission('purchase:view');
+  const canViewItemMaster = hasPermission('itemMaster:view');
+  // Publishing the open/closed item lists adds, rewrites and bins list documents
+  const canPublishItems = permissions.create && permissions.edit && permissions.delete;
+
+  // Open sales orders are offered as OA numbers; without sales access the OA is typed in as before
+  useEffect(() => {
+    if (!user?.uid || !canViewSales) return;
+    return subscribeSalesOrders(user.uid, docs => setSalesOrders(docs));
+  }, [user?.uid, canViewSales]);
 
   // Subscribe to Firestore collections and load itemMaster on mount
   useEffect(() => {
@@ -44,11 +56,11 @@ const IndentModule: React.FC<IndentModuleProps> = ({ user }) => {
     const unsub = onAuthStateChanged(auth, (u) => {
       if (u) {
         // Load itemMaster using one-time fetch (same pattern as StockModule/VSIR)
-        (async () => {
+        if (canViewItemMaster) (async () => {
           try {
             const items = await getItemMaster(u.uid);
             console.log('[IndentModule] ✅ getItemMaster returned:', items?.length || 0, 'items');
-            setItemMaster((items || []) as any[]);
+            setItemMaster(items || []);
           } catch (e) {
             console.error('[IndentModule] ❌ getItemMaster failed', e);
             setItemMaster([]);
@@ -58,16 +70,20 @@ const IndentModule: React.FC<IndentModuleProps> = ({ user }) => {
         // Subscribe to collections
         unsubIndents = subscribeFirestoreDocs(u.uid, 'indentData', (docs) => {
           const formattedIndents = docs.map(doc => ({
+            id: doc.id,
             indentNo: doc.indentNo,
             date: doc.date,
             indentBy: doc.indentBy,
             oaNo: doc.oaNo,
             items: Array.isArray(doc.items) ? doc.items : [],
+            approvalStatus: doc.approvalStatus,
+            approvals: Array.isArray(doc.approvals) ? doc.approvals : [],
+            raisedBy: doc.raisedBy,
           }));
           setIndents(formattedIndents);
         });
 
-        unsubStock = subscribeStockRecords(u.uid, (docs) => {
+        if (canViewStock) unsubStock = subscribeStockRecords(u.uid, (docs) => {
           console.log('[IndentModule] 📦 Stock records received:', docs?.length || 0, 'records');
           if (docs?.length > 0) {
             console.log('[IndentModule] Sample stock record:', docs[0]);
@@ -75,7 +91,7 @@ const IndentModule: React.FC<IndentModuleProps> = ({ user }) => {
           setStockRecords(docs || []);
         });
 
-        unsubPO = subscribePurchaseOrders(u.uid, (docs) => {
+        if (canViewPurchase) unsubPO = subscribePurchaseOrders(u.uid, (docs) => {
           console.log('[IndentModule] 🛒 Purchase orders received:', docs?.length || 0, 'records');
           setPurchaseOrders(docs || []);
         });
@@ -93,7 +109,7 @@ const IndentModule: React.FC<IndentModuleProps> = ({ user }) => {
       try { unsubStock(); } catch {}
       try { unsubPO(); } catch {}
     };
-  }, []);
+  }, [canViewStock, canViewPurchase, canViewItemMaster]);
 
   function getNextIndentNo() {
     const base = 'S-8/25-';
@@ -193,19 +209,23 @@ const IndentModule: React.FC<IndentModuleProps> = ({ user }) => {
       console.warn('[IndentModule] getStock called with empty itemCode');
       return 0;
     }
+
+    // The stock ledger is authoritative; stock records only cover items it has not seen yet
+    const ledgerStock = closingStockFor(itemCode);
+    if (ledgerStock !== null) return ledgerStock;
     
     const normalizedSearchCode = normalizeCode(itemCode);
     // Try multiple candidate fields and matching strategies (code exact, name exact, alpha match)
     const norm = (v: any) => (v === undefined || v === null) ? '' : String(v).trim().toUpperCase();
     const alpha = (v: any) => norm(v).replace(/[^A-Z0-9]/g, '');
 
-    let matched: any = null;
+    let matched: StockRecord | null = null;
     const codeNorm = norm(itemCode || '');
     const targetAlpha = alpha(itemCode || '');
 
     for (const s of stockRecords || []) {
       try {
-        const candidates = [s.itemCode, s.ItemCode, s.code, s.Code, s.item_code, s.itemName, s.ItemName, s.name, s.Name, s.sku, s.SKU];
+        const candidates = [s.itemCode, s.itemName];
         // exact code match first
         if (codeNorm && candidates.some(c => norm(c) === codeNorm)) { matched = s; break; }
         // alpha/exact across fields
@@ -218,23 +238,12 @@ const IndentModule: React.FC<IndentModuleProps> = ({ user }) => {
     }
 
     if (!matched) {
-      console.debug('[IndentModule] Stock not found for itemCode:', itemCode, '(normalized:', normalizedSearchCode, ')', 'Available sample codes:', stockRecords.map((s: any) => s.itemCode || s.ItemCode || s.Item_name).slice(0,10));
+      console.debug('[IndentModule] Stock not found for itemCode:', itemCode, '(normalized:', normalizedSearchCode, ')', 'Available sample codes:', stockRecords.map(s => s.itemCode).slice(0,10));
       return 0;
     }
 
-    const closingKeys = ['closingStock','closing_stock','ClosingStock','closing','closingQty','closing_qty','Closing','closing stock','Closing Stock','closingstock','closingStockQty','closing_stock_qty','ClosingStockQty','closingstockqty'];
-    let closingStock: number | null = null;
-    for (const k of closingKeys) {
-      if (matched[k] != null && !isNaN(Number(matched[k]))) { closingStock = Number(matched[k]); break; }
-    }
-    if (closingStock === null) {
-      // fallback to match Stock Module calculation: stockQty + purStoreOkQty + vendorOkQty - inHouseIssuedQty
-      const stockQty = (matched.stockQty || matched.stock_qty || matched.stock || matched.StockQty || matched.currentStock) || 0;
-      const purStoreOkQty = (matched.purStoreOkQty || matched.pur_store_ok_qty || matched.PurStoreOkQty) || 0;
-      const vendorOkQty = (matched.vendorOkQty || matched.vendor_ok_qty || matched.VendorOkQty) || 0;
-      const inHouseIssuedQty = (matched.inHouseIssuedQty || matched.in_house_issued_qty || matched.InHouseIssuedQty) || 0;
-      closingStock = Number(stockQty) + Number(purStoreOkQty) + Number(vendorOkQty) - Number(inHouseIssuedQty) || 0;
-    }
+    // Stock records are migrated to the canonical shape on read, so closingStock is always populated
+    const closingStock = Number(matched.closingStock) || 0;
 
     console.debug('[IndentModule] Stock found for', itemCode, ':', closingStock, 'matchedBy:', matched);
     return closingStock;
@@ -370,6 +379,10 @@ const IndentModule: React.FC<IndentModuleProps> = ({ user }) => {
     };
   };
 
+  // Quantities are in each item's base UOM
+  const findItem = itemLookup(itemMaster);
+  const qtyWithUom = (qty: number, itemCode: string, model?: string) => formatQty(qty, findItem(itemCode, model));
+
   const handleChange = (e: React.ChangeEvent<HTMLSelectElement | HTMLInputElement>) => {
     const { name, value } = e.target;
     if (name === 'itemName') {
@@ -404,6 +417,48 @@ const IndentModule: React.FC<IndentModuleProps> = ({ user }) => {
     setItemInput({ model: '', itemCode: '', qty: 0, indentClosed: false });
   };
 
+  // Fill the draft with every item below its reorder level, at the suggested quantity,
+  // counting what saved indents and open POs already bring in
+  const handleSuggestIndent = () => {
+    const short = findShortItems(itemMaster, code => getStock(code), onOrderByItem(indents, purchaseOrders))
+      .filter(s => !newIndent.items.some(item => normalizeCode(item.itemCode) === normalizeCode(s.itemCode)));
+    if (short.length === 0) {
+      alert('No items are below their reorder level once open indents and POs are counted (or they are already in this draft). Set reorder levels in Item Master.');
+      return;
+    }
+    setNewIndent(prev => ({
+      ...prev,
+      items: [
+        ...prev.items,
+        ...short.map(s => ({ model: s.itemName, itemCode: s.itemCode, qty: s.suggestedQty, indentClosed: false })),
+      ],
+    }));
+    setEditIdx(null);
+  };
+
+  const openSalesOrders = salesOrders.filter(order => order.status === 'open');
+  const selectedSalesOrder = openSalesOrders.find(order => normalizeCode(order.oaNo) === normalizeCode(newIndent.oaNo));
+
+  // Fill the draft with the OA's ordered models that earlier indents have not covered
+  const handleFillFromOA = () => {
+    if (!selectedSalesOrder) return;
+    const outstanding = unindentedItems(selectedSalesOrder, indents)
+      .filter(line => !newIndent.items.some(item => normalizeCode(item.itemCode) === normalizeCode(line.itemCode)));
+    if (outstanding.length === 0) {
+      alert(`Everything on ${selectedSalesOrder.oaNo} is already indented (or in this draft).`);
+      return;
+    }
+    setNewIndent(prev => ({
+      ...prev,
+      oaNo: selectedSalesOrder.oaNo,
+      items: [
+        ...prev.items,
+        ...outstanding.map(line => ({ model: line.itemName, itemCode: line.itemCode, qty: line.qty, indentClosed: false })),
+      ],
+    }));
+    setEditIdx(null);
+  };
+
   const handleEditItem = (idx: number) => {
     setItemInput(newIndent.items[idx]);
     setEditIdx(idx);
@@ -452,11 +507,11 @@ const IndentModule: React.FC<IndentModuleProps> = ({ user }) => {
     }
 
     const indentNo = getNextIndentNo();
-    const updated = [...indents, { ...newIndent, indentNo }];
-    setIndents(updated);
-    
-    // Save to Firestore instead of localStorage
-    replaceFirestoreCollection(uid, 'indentData', updated).catch(err => {
+    const raised: Indent = { ...newIndent, indentNo, ...startApproval('indent', uid) };
+    setIndents([...indents, raised]);
+
+    // Only the new indent is written; the subscription brings back its id
+    addFirestoreDoc(uid, 'indentData', raised).catch(err => {
       console.error('Failed to save indent data to Firestore:', err);
       alert('Failed to save indent. Please try again.');
     });
@@ -466,6 +521,38 @@ const IndentModule: React.FC<IndentModuleProps> = ({ user }) => {
     setItemInput({ model: '', itemCode: '', qty: 0, indentClosed: false });
   };
 
+  // Approve or reject the step of the indent's approval chain that is waiting on this user
+  const handleDecision = (indentIndex: number, decision: 'approved' | 'rejected') => {
+    const indent = indents[indentIndex];
+    const comment = window.prompt(
+      decision === 'rejected' ? `Reason for rejecting indent ${indent.indentNo}:` : `Comment for approving indent ${indent.indentNo} (optional):`,
+      ''
+    );
+    if (comment === null) return;
+    if (decision === 'rejected' && !comment.trim()) {
+      alert('Please give a reason for the rejection');
+      return;
+    }
+    const approver = { uid, name: user?.displayName || user?.email || uid };
+    let decided: Indent;
+    try {
+      decided = decide('indent', indent, decision, approver, comment);
+    } catch (err) {
+      alert(err instanceof Error ? err.message : String(err));
+      return;
+    }
+    if (!indent.id) {
+      alert('This indent has not finished saving yet. Please try again in a moment.');
+      return;
+    }
+    setIndents(indents.map((ind, idx) => (idx === indentIndex ? decided : ind)));
+    // Only the decision is written, to this indent alone, so concurrent edits to other indents survive
+    updateFirestoreDoc(uid, 'indentData', indent.id, approvalFields(decided)).catch(err => {
+      console.error('Failed to save indent approval:', err);
+      alert('Failed to save the approval. Please try again.');
+    });
+  };
+
   function exportToExcel() {
     const rows = indents.flatMap((indent, indentIndex) =>
         indent.items.map(item => {
@@ -479,6 +566,7 @@ const IndentModule: React.FC<IndentModuleProps> = ({ user }) => {
           Model: item.model,
           'Item Code': item.itemCode,
           Qty: item.qty,
+          UOM: baseUomOf(findItem(item.itemCode, item.model)),
           'Indent By': indent.indentBy,
           'OA NO': indent.oaNo,
           'Total Stock': analysis.totalStock,
@@ -489,6 +577,7 @@ const IndentModule: React.FC<IndentModuleProps> = ({ user }) => {
           'Remaining Stock': remainingStock,
           'Allocated Stock': allocatedStock,
           'Indent Closed': analysis.isClosed ? 'Yes' : 'No',
+          Approval: approvalLabel('indent', indent),
           'Calculation': analysis.calculation,
         };
       })
@@ -527,11 +616,14 @@ const IndentModule: React.FC<IndentModuleProps> = ({ user }) => {
   // One-shot fetch from Firestore for stock-records (useful to force-refresh)
   const fetchStockOnce = async () => {
     try {
-      const docs = await getFirestoreDocs(uid, 'stock-records');
+      const docs = await getStockRecords(uid);
       setStockRecords(docs || []);
       console.log('[IndentModule] fetchStockOnce: fetched', docs?.length || 0, 'stock records');
       // Trigger recompute
-      try { bus.dispatchEvent(new CustomEvent('stock.updated')); } catch (err) { }
+      setIndents(prev => {
+        computeAndPublishIndentItems(prev);
+        return [...prev];
+      });
       alert('Fetched stock-records from Firestore (' + (docs?.length || 0) + ')');
     } catch (err) {
       console.error('[IndentModule] fetchStockOnce error', err);
@@ -546,15 +638,20 @@ const IndentModule: React.FC<IndentModuleProps> = ({ user }) => {
       const closedItems: any[] = [];
 
       (sourceIndents || []).forEach((indent: any, indentIndex: number) => {
+        // The lists name their indent (indentId), whose approval status firestore.rules checks
+        // they copy; an indent still being saved is published once its id comes back
+        if (!indent.id) return;
         (indent.items || []).forEach((item: any) => {
           const analysis = getIndentAnalysis(item.itemCode, indentIndex, item.qty);
 
           const payload = {
             ...item,
+            indentId: indent.id,
             indentNo: indent.indentNo,
             date: indent.date,
             indentBy: indent.indentBy,
             oaNo: indent.oaNo,
+            approvalStatus: approvalStatusOf(indent),
             stock: analysis.totalStock,
             availableForThisIndent: analysis.availableForThisIndent,
             qty1: analysis.allocatedAvailable,
@@ -569,16 +666,20 @@ const IndentModule: React.FC<IndentModuleProps> = ({ user }) => {
 
       console.log('[IndentModule] Saving indent items:', { openItemsCount: openItems.length, closedItemsCount: closedItems.length });
       
-      // Save to Firestore instead of localStorage
-      replaceFirestoreCollection(uid, 'openIndentItems', openItems).catch(err => {
-        console.error('Failed to save open indent items:', err);
-      });
-      replaceFirestoreCollection(uid, 'closedIndentItems', closedItems).catch(err => {
-        console.error('Failed to save closed indent items:', err);
-      });
+      // Save to Firestore instead of localStorage; only items whose figures moved are rewritten.
+      // Roles that only view indents still get the local event
+      const indentItemKey = (item: { indentNo: string; itemCode: string }) => `${normalizeCode(item.indentNo)}|${normalizeCode(item.itemCode)}`;
+      if (canPublishItems) {
+        replaceFirestoreCollection(uid, 'openIndentItems', openItems, { keyOf: indentItemKey }).catch(err => {
+          console.error('Failed to save open indent items:', err);
+        });
+        replaceFirestoreCollection(uid, 'closedIndentItems', closedItems, { keyOf: indentItemKey }).catch(err => {
+          console.error('Failed to save closed indent items:', err);
+        });
+      }
 
       try {
-        bus.dispatchEvent(new CustomEvent('indents.updated', { detail: { openItems, closedItems } }));
+        bus.emit('indents.updated', { openItems, closedItems });
       } catch (err) {
         console.error('[IndentModule] Error dispatching indents.updated:', err);
       }
@@ -588,9 +689,10 @@ const IndentModule: React.FC<IndentModuleProps> = ({ user }) => {
   };
 
   // Auto-save OPEN and CLOSED indent items for Purchase module and notify via event bus
+  // (re-run when ledger balances move, since open/closed depends on available stock)
   useEffect(() => {
     computeAndPublishIndentItems(indents);
-  }, [indents]);
+  }, [indents, closingStockFor]);
 
   // Listen for stock updates elsewhere in the app and force a recompute
   useEffect(() => {
@@ -602,14 +704,14 @@ const IndentModule: React.FC<IndentModuleProps> = ({ user }) => {
     };
 
     try {
-      bus.addEventListener('stock.updated', handler as EventListener);
+      bus.on('stock.updated', handler);
     } catch (err) {
       console.error('[IndentModule] Error registering stock.updated listener:', err);
     }
 
     return () => {
       try {
-        bus.removeEventListener('stock.updated', handler as EventListener);
+        bus.off('stock.updated', handler);
       } catch (err) {
         console.error('[IndentModule] Error removing stock.updated listener:', err);
       }
@@ -690,8 +792,31 @@ const IndentModule: React.FC<IndentModuleProps> = ({ user }) => {
               }
             }
           }}
+          list="indent-sales-orders"
           style={{ padding: 8, borderRadius: 4, border: '1px solid #ccc' }}
         />
+        <datalist id="indent-sales-orders">
+          {openSalesOrders.map(order => (
+            <option key={order.oaNo} value={order.oaNo}>{order.customerName}</option>
+          ))}
+        </datalist>
+        {selectedSalesOrder && (
+          <button
+            onClick={handleFillFromOA}
+            title={`Add the models on ${selectedSalesOrder.oaNo} (${selectedSalesOrder.customerName}) not indented yet`}
+            style={{
+              background: '#00897b',
+              color: '#fff',
+              border: 'none',
+              borderRadius: 4,
+              padding: '8px 12px',
+              cursor: 'pointer',
+              fontSize: '12px',
+            }}
+          >
+            Fill from OA
+          </button>
+        )}
         <button 
           onClick={() => {
             if (!newIndent.indentBy) {
@@ -734,7 +859,7 @@ const IndentModule: React.FC<IndentModuleProps> = ({ user }) => {
           <option value="">
             {itemMaster.length === 0 ? "No items in Item Master" : "Select Item Name"}
           </option>
-          {itemMaster.map(item => (
+          {itemMaster.filter(item => isActiveItem(item) || item.itemName === itemInput.model).map(item => (
             <option key={item.itemCode} value={item.itemName}>
               {item.itemName} - {item.itemCode}
             </option>
@@ -754,24 +879,42 @@ const IndentModule: React.FC<IndentModuleProps> = ({ user }) => {
         />
         <input
           type="number"
-          placeholder="Qty"
+          placeholder={`Qty (${baseUomOf(findItem(itemInput.itemCode, itemInput.model))})`}
           value={itemInput.qty === 0 ? '' : itemInput.qty}
           onChange={e => setItemInput({ ...itemInput, qty: e.target.value === '' ? 0 : Number(e.target.value) })}
           style={{ padding: 8, borderRadius: 4, border: '1px solid #ccc', width: 100 }}
         />
-        <button 
-          onClick={handleAddItem}
-          style={{
-            background: '#1976d2',
-            color: '#fff',
-            border: 'none',
-            borderRadius: 4,
-            padding: '8px 16px',
-            cursor: 'pointer',
-          }}
-        >
-          {editIdx !== null ? 'Update Item' : 'Add Item'}
-        </button>
+        {permissions.create && (
+          <button 
+            onClick={handleAddItem}
+            style={{
+              background: '#1976d2',
+              color: '#fff',
+              border: 'none',
+              borderRadius: 4,
+              padding: '8px 16px',
+              cursor: 'pointer',
+            }}
+          >
+            {editIdx !== null ? 'Update Item' : 'Add Item'}
+          </button>
+        )}
+        {permissions.create && (
+          <button
+            onClick={handleSuggestIndent}
+            title="Add every item below its reorder level (Item Master) to this draft"
+            style={{
+              background: '#fb8c00',
+              color: '#fff',
+              border: 'none',
+              borderRadius: 4,
+              padding: '8px 16px',
+              cursor: 'pointer',
+            }}
+          >
+            Suggest indent
+          </button>
+        )}
       </div>
 
       {newIndent.items.length > 0 && (
@@ -819,7 +962,7 @@ const IndentModule: React.FC<IndentModuleProps> = ({ user }) => {
                 }}>
                   <td>{item.model}</td>
                   <td>{item.itemCode}</td>
-                  <td>{item.qty}</td>
+                  <td>{qtyWithUom(item.qty, item.itemCode, item.model)}</td>
                   <td style={{
                     fontWeight: 600,
                     color: hasInsufficientStock ? '#e53935' : '#43a047'
@@ -839,38 +982,42 @@ const IndentModule: React.FC<IndentModuleProps> = ({ user }) => {
                     {hasInsufficientStock ? '⚠️ INSUFFICIENT' : '✓ OK'}
                   </td>
                   <td>
-                    <button
-                      style={{
-                        background: '#1976d2',
-                        color: '#fff',
-                        border: 'none',
-                        borderRadius: 4,
-                        padding: '4px 12px',
-                        cursor: 'pointer',
-                        marginRight: 4,
-                      }}
-                      onClick={() => handleEditItem(idx)}
-                    >
-                      Edit
-                    </button>
-                    <button
-                      onClick={() => {
-                        setNewIndent(prev => ({
-                          ...prev,
-                          items: prev.items.filter((_, i) => i !== idx),
-                        }));
-                      }}
-                      style={{
-                        background: '#e53935',
-                        color: '#fff',
-                        border: 'none',
-                        borderRadius: 4,
-                        padding: '4px 12px',
-                        cursor: 'pointer',
-                      }}
-                    >
-                      Delete
-                    </button>
+                    {permissions.create && (
+                      <button
+                        style={{
+                          background: '#1976d2',
+                          color: '#fff',
+                          border: 'none',
+                          borderRadius: 4,
+                          padding: '4px 12px',
+                          cursor: 'pointer',
+                          marginRight: 4,
+                        }}
+                        onClick={() => handleEditItem(idx)}
+                      >
+                        Edit
+                      </button>
+                    )}
+                    {permissions.create && (
+                      <button
+                        onClick={() => {
+                          setNewIndent(prev => ({
+                            ...prev,
+                            items: prev.items.filter((_, i) => i !== idx),
+                          }));
+                        }}
+                        style={{
+                          background: '#e53935',
+                          color: '#fff',
+                          border: 'none',
+                          borderRadius: 4,
+                          padding: '4px 12px',
+                          cursor: 'pointer',
+                        }}
+                      >
+                        Delete
+                      </button>
+                    )}
                   </td>
                 </tr>
               );
@@ -922,21 +1069,23 @@ const IndentModule: React.FC<IndentModuleProps> = ({ user }) => {
       })()}
 
       <div style={{ marginBottom: 24, display: 'flex', gap: 8 }}>
-        <button 
-          onClick={handleAddIndent} 
-          disabled={newIndent.items.length === 0}
-          style={{
-            background: newIndent.items.length === 0 ? '#ccc' : '#43a047',
-            color: '#fff',
-            border: 'none',
-            borderRadius: 4,
-            padding: '10px 20px',
-            fontWeight: 500,
-            cursor: newIndent.items.length === 0 ? 'not-allowed' : 'pointer',
-          }}
-        >
-          Add Indent
-        </button>
+        {permissions.create && (
+          <button 
+            onClick={handleAddIndent} 
+            disabled={newIndent.items.length === 0}
+            style={{
+              background: newIndent.items.length === 0 ? '#ccc' : '#43a047',
+              color: '#fff',
+              border: 'none',
+              borderRadius: 4,
+              padding: '10px 20px',
+              fontWeight: 500,
+              cursor: newIndent.items.length === 0 ? 'not-allowed' : 'pointer',
+            }}
+          >
+            Add Indent
+          </button>
+        )}
         <button
           onClick={exportToExcel}
           style={{
@@ -970,6 +1119,7 @@ const IndentModule: React.FC<IndentModuleProps> = ({ user }) => {
               <th>PO Quantity</th>
               <th>Available for Indent</th>
               <th>Status</th>
+              <th>Approval</th>
               <th>Actions</th>
             </tr>
           </thead>
@@ -991,7 +1141,7 @@ const IndentModule: React.FC<IndentModuleProps> = ({ user }) => {
                     <td>{indent.indentNo}</td>
                     <td>{item.model}</td>
                     <td>{item.itemCode}</td>
-                    <td>{item.qty}</td>
+                    <td>{qtyWithUom(item.qty, item.itemCode, item.model)}</td>
                     <td>{indent.indentBy}</td>
                     <td>{indent.oaNo}</td>
                     <td>{analysis.totalStock}</td>
@@ -1036,32 +1186,65 @@ const IndentModule: React.FC<IndentModuleProps> = ({ user }) => {
                         </span>
                       )}
                     </td>
+                    <td title={approvalHistory('indent', indent) || undefined}>
+                      <span style={{
+                        background: approvalColors[approvalStatusOf(indent)],
+                        color: '#fff',
+                        fontWeight: 600,
+                        padding: '4px 12px',
+                        borderRadius: 6,
+                        display: 'inline-block',
+                        whiteSpace: 'nowrap',
+                      }}>
+                        {approvalLabel('indent', indent)}
+                      </span>
+                    </td>
                     <td>
-                      <button
-                        onClick={() => {
-                          const updatedIndents = indents.map((ind, idx) => {
-                            if (idx !== indentIndex) return ind;
-                            return {
-                              ...ind,
-                              items: ind.items.filter((_, i) => i !== itemIdx),
-                            };
-                          }).filter(ind => ind.items.length > 0);
-                          setIndents(updatedIndents);
-                          replaceFirestoreCollection(uid, 'indentData', updatedIndents).catch(err => {
-                            console.error('Failed to update indent data:', err);
-                          });
-                        }}
-                        style={{
-                          background: '#e53935',
-                          color: '#fff',
-                          border: 'none',
-                          borderRadius: 4,
-                          padding: '4px 12px',
-                          cursor: 'pointer',
-                        }}
-                      >
-                        Delete
-                      </button>
+                      {itemIdx === 0 && canDecide('indent', indent, hasPermission, uid) && (
+                        <span style={{ display: 'inline-flex', gap: 6, marginRight: 6 }}>
+                          <button
+                            onClick={() => handleDecision(indentIndex, 'approved')}
+                            style={{ background: '#43a047', color: '#fff', border: 'none', borderRadius: 4, padding: '4px 12px', cursor: 'pointer' }}
+                          >
+                            Approve
+                          </button>
+                          <button
+                            onClick={() => handleDecision(indentIndex, 'rejected')}
+                            style={{ background: '#fb8c00', color: '#fff', border: 'none', borderRadius: 4, padding: '4px 12px', cursor: 'pointer' }}
+                          >
+                            Reject
+                          </button>
+                        </span>
+                      )}
+                      {permissions.delete && (
+                        <button
+                          onClick={() => {
+                            const items = indent.items.filter((_, i) => i !== itemIdx);
+                            const updatedIndents = indents
+                              .map((ind, idx) => (idx === indentIndex ? { ...ind, items } : ind))
+                              .filter(ind => ind.items.length > 0);
+                            setIndents(updatedIndents);
+                            if (!indent.id) return;
+                            // The indent goes once its last item does
+                            const write = items.length > 0
+                              ? updateFirestoreDoc(uid, 'indentData', indent.id, { items })
+                              : deleteFirestoreDoc(uid, 'indentData', indent.id);
+                            write.catch(err => {
+                              console.error('Failed to update indent data:', err);
+                            });
+                          }}
+                          style={{
+                            background: '#e53935',
+                            color: '#fff',
+                            border: 'none',
+                            borderRadius: 4,
+                            padding: '4px 12px',
+                            cursor: 'pointer',
+                          }}
+                        >
+                          Delete
+                        </button>
+                      )}
                     </td>
                   </tr>
                 );
@@ -0,0 +1,243 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Chart as ChartJS, CategoryScale, LinearScale, BarElement, LineElement, PointElement, Tooltip, Legend } from 'chart.js';
+import { Bar, Line } from 'react-chartjs-2';
+import { subscribeDeliveryChallans, subscribeInHouseIssues, subscribeItemMaster, subscribePurchaseData, subscribeVendorIssues, subscribeVSIRRecords } from '../utils/firestoreServices';
+import { subscribeFirestoreDocs } from '../utils/firestoreSync';
+import { subscribePsirs } from '../utils/psirService';
+import { useStockLedger } from '../hooks/useStockLedger';
+import { closingStockByItem } from '../utils/stockLedger';
+import { ageing, rejectionRates, stockByCategory, toIsoDate, topConsumedItems, weeklyFlows } from '../utils/inventoryDashboard';
+import type { DashboardFilter, DashboardSources } from '../utils/inventoryDashboard';
+import type { DeliveryChallan, InHouseIssue, Indent, ItemMasterRecord, PSIR, PurchaseEntry, VendorIssue, VSRIRecord } from '../utils/recordSchemas';
+
+ChartJS.register(CategoryScale, LinearScale, BarElement, LineElement, PointElement, Tooltip, Legend);
+
+interface InventoryDashboardModuleProps {
+  uid: string;
+  /** Each panel reads the collections the user can view; the rest show as empty */
+  hasPermission: (permission: string) => boolean;
+}
+
+const cardStyle: React.CSSProperties = { background: '#fff', border: '1px solid #e0e0e0', borderRadius: 8, padding: 16 };
+const panelStyle: React.CSSProperties = { ...cardStyle, minWidth: 0 };
+const inputStyle: React.CSSProperties = { padding: 6, border: '1px solid #ccc', borderRadius: 4 };
+const chartHeight = 260;
+
+const money = (n: number) => n.toLocaleString(undefined, { maximumFractionDigits: 0 });
+const DEFAULT_WEEKS = 12;
+
+const Panel: React.FC<{ title: string; note?: string; empty: boolean; children: React.ReactNode }> = ({ title, note, empty, children }) => (
+  <div style={panelStyle}>
+    <h3 style={{ margin: '0 0 4px', fontSize: 16 }}>{title}</h3>
+    {note && <div style={{ fontSize: 12, color: '#888', marginBottom: 8 }}>{note}</div>}
+    {empty ? <p style={{ color: '#888', textAlign: 'center', padding: 40 }}>No data for this filter</p> : <div style={{ height: chartHeight }}>{children}</div>}
+  </div>
+);
+
+/** Stock value, consumption, inward / outward trend, ageing and rejection charts */
+const InventoryDashboardModule: React.FC<InventoryDashboardModuleProps> = ({ uid, hasPermission }) => {
+  const [itemMaster, setItemMaster] = useState<ItemMasterRecord[]>([]);
+  const [psirs, setPsirs] = useState<PSIR[]>([]);
+  const [vsirRecords, setVsirRecords] = useState<VSRIRecord[]>([]);
+  const [inHouseIssues, setInHouseIssues] = useState<InHouseIssue[]>([]);
+  const [vendorIssues, setVendorIssues] = useState<VendorIssue[]>([]);
+  const [deliveryChallans, setDeliveryChallans] = useState<DeliveryChallan[]>([]);
+  const [indents, setIndents] = useState<Indent[]>([]);
+  const [purchases, setPurchases] = useState<PurchaseEntry[]>([]);
+  const [filter, setFilter] = useState<DashboardFilter>(() => ({
+    from: toIsoDate(Date.now() - DEFAULT_WEEKS * 7 * 24 * 60 * 60 * 1000),
+    to: toIsoDate(Date.now()),
+    itemCode: '',
+  }));
+
+  const canViewStock = hasPermission('stock:view');
+  const canViewItems = hasPermission('itemMaster:view');
+  const canViewPsir = hasPermission('psir:view');
+  const canViewVsir = hasPermission('vsir:view');
+  const canViewIssues = hasPermission('inHouseIssue:view');
+  const canViewVendorIssues = hasPermission('vendorIssue:view');
+  const canViewChallans = hasPermission('dc:view');
+  const canViewIndents = hasPermission('indent:view');
+  const canViewPurchase = hasPermission('purchase:view');
+
+  const { movements } = useStockLedger(canViewStock ? uid : null);
+
+  useEffect(() => {
+    if (!uid || !canViewItems) return;
+    return subscribeItemMaster(uid, docs => setItemMaster(docs));
+  }, [uid, canViewItems]);
+
+  useEffect(() => {
+    if (!uid || !canViewPsir) return;
+    return subscribePsirs(uid, docs => setPsirs(docs));
+  }, [uid, canViewPsir]);
+
+  useEffect(() => {
+    if (!uid || !canViewVsir) return;
+    return subscribeVSIRRecords(uid, docs => setVsirRecords(docs));
+  }, [uid, canViewVsir]);
+
+  useEffect(() => {
+    if (!uid || !canViewIssues) return;
+    return subscribeInHouseIssues(uid, docs => setInHouseIssues(docs));
+  }, [uid, canViewIssues]);
+
+  useEffect(() => {
+    if (!uid || !canViewVendorIssues) return;
+    return subscribeVendorIssues(uid, docs => setVendorIssues(docs));
+  }, [uid, canViewVendorIssues]);
+
+  useEffect(() => {
+    if (!uid || !canViewChallans) return;
+    return subscribeDeliveryChallans(uid, docs => setDeliveryChallans(docs));
+  }, [uid, canViewChallans]);
+
+  useEffect(() => {
+    if (!uid || !canViewIndents) return;
+    return subscribeFirestoreDocs(uid, 'indentData', docs => setIndents(docs as Indent[]));
+  }, [uid, canViewIndents]);
+
+  useEffect(() => {
+    if (!uid || !canViewPurchase) return;
+    return subscribePurchaseData(uid, docs => setPurchases(docs));
+  }, [uid, canViewPurchase]);
+
+  const closingStock = useMemo(() => closingStockByItem(movements), [movements]);
+  const sources: DashboardSources = { itemMaster, closingStock, psirs, vsirRecords, inHouseIssues, vendorIssues, deliveryChallans, indents, purchases };
+
+  const categories = stockByCategory(sources, filter);
+  const consumed = topConsumedItems(sources, filter);
+  const weekly = weeklyFlows(sources, filter);
+  const ageingRows = ageing(sources, filter);
+  const rejections = rejectionRates(sources, filter);
+
+  const totalValue = categories.reduce((sum, c) => sum + c.value, 0);
+  const unrated = categories.reduce((sum, c) => sum + c.unrated, 0);
+  const openIndentLines = ageingRows.reduce((sum, r) => sum + r.indents, 0);
+  const openPoLines = ageingRows.reduce((sum, r) => sum + r.pos, 0);
+  const itemOptions = [...itemMaster].sort((a, b) => a.itemName.localeCompare(b.itemName));
+
+  const horizontal = { indexAxis: 'y' as const, maintainAspectRatio: false, plugins: { legend: { display: false } } };
+
+  return (
+    <div>
+      <h2>Inventory Dashboard</h2>
+
+      <div style={{ display: 'flex', gap: 12, alignItems: 'center', flexWrap: 'wrap', marginBottom: 16 }}>
+        <label>From:</label>
+        <input type="date" value={filter.from} onChange={e => setFilter(prev => ({ ...prev, from: e.target.value }))} style={inputStyle} />
+        <label>To:</label>
+        <input type="date" value={filter.to} onChange={e => setFilter(prev => ({ ...prev, to: e.target.value }))} style={inputStyle} />
+        <label>Item:</label>
+        <select value={filter.itemCode} onChange={e => setFilter(prev => ({ ...prev, itemCode: e.target.value }))} style={{ ...inputStyle, minWidth: 220 }}>
+          <option value="">All items</option>
+          {itemOptions.map(i => <option key={i.itemCode} value={i.itemCode}>{i.itemName} ({i.itemCode})</option>)}
+        </select>
+        <span style={{ fontSize: 12, color: '#888' }}>Stock by category is current stock; the date range applies to the other panels.</span>
+      </div>
+
+      <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fit, minmax(180px, 1fr))', gap: 12, marginBottom: 16 }}>
+        <div style={cardStyle}>
+          <div style={{ fontSize: 12, color: '#888' }}>Stock value</div>
+          <div style={{ fontSize: 24, fontWeight: 600 }}>{money(totalValue)}</div>
+          {unrated > 0 && <div style={{ fontSize: 12, color: '#e65100' }}>{unrated} item(s) in stock have no standard rate</div>}
+        </div>
+        <div style={cardStyle}>
+          <div style={{ fontSize: 12, color: '#888' }}>Items in stock</div>
+          <div style={{ fontSize: 24, fontWeight: 600 }}>{categories.reduce((sum, c) => sum + c.items, 0)}</div>
+        </div>
+        <div style={cardStyle}>
+          <div style={{ fontSize: 12, color: '#888' }}>Open indent lines</div>
+          <div style={{ fontSize: 24, fontWeight: 600 }}>{openIndentLines}</div>
+        </div>
+        <div style={cardStyle}>
+          <div style={{ fontSize: 12, color: '#888' }}>Open PO lines</div>
+          <div style={{ fontSize: 24, fontWeight: 600 }}>{openPoLines}</div>
+        </div>
+      </div>
+
+      <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fit, minmax(420px, 1fr))', gap: 16 }}>
+        <Panel
+          title="Stock by category"
+          note={canViewStock && canViewItems ? 'Value is closing stock x the Item Master standard rate' : 'Needs Stock and Item Master view access'}
+          empty={categories.length === 0}
+        >
+          <Bar
+            data={{
+              labels: categories.map(c => c.category),
+              datasets: [
+                { label: 'Value', data: categories.map(c => Math.round(c.value)), backgroundColor: '#3949ab', yAxisID: 'value' },
+                { label: 'Quantity', data: categories.map(c => c.qty), backgroundColor: '#90caf9', yAxisID: 'qty' },
+              ],
+            }}
+            options={{
+              maintainAspectRatio: false,
+              scales: {
+                value: { type: 'linear', position: 'left', title: { display: true, text: 'Value' } },
+                qty: { type: 'linear', position: 'right', grid: { drawOnChartArea: false }, title: { display: true, text: 'Qty' } },
+              },
+            }}
+          />
+        </Panel>
+
+        <Panel title="Top consumed items" note="In-house issues, vendor issues and delivery challans" empty={consumed.length === 0}>
+          <Bar
+            data={{
+              labels: consumed.map(c => c.itemName || c.itemCode),
+              datasets: [{ label: 'Issued', data: consumed.map(c => c.qty), backgroundColor: '#fb8c00' }],
+            }}
+            options={horizontal}
+          />
+        </Panel>
+
+        <Panel title="Inward vs outward per week" note="Inward: accepted PSIR / VSIR quantities and challan returns" empty={weekly.length === 0}>
+          <Line
+            data={{
+              labels: weekly.map(w => w.week),
+              datasets: [
+                { label: 'Inward', data: weekly.map(w => w.inward), borderColor: '#43a047', backgroundColor: '#43a047', tension: 0.2 },
+                { label: 'Outward', data: weekly.map(w => w.outward), borderColor: '#e53935', backgroundColor: '#e53935', tension: 0.2 },
+              ],
+            }}
+            options={{ maintainAspectRatio: false }}
+          />
+        </Panel>
+
+        <Panel
+          title="Ageing of open indents and POs"
+          note="Indent lines without a PO, by indent date; PO lines not fully received, by order date"
+          empty={openIndentLines + openPoLines === 0}
+        >
+          <Bar
+            data={{
+              labels: ageingRows.map(r => r.bucket),
+              datasets: [
+                { label: 'Indent lines', data: ageingRows.map(r => r.indents), backgroundColor: '#8e24aa' },
+                { label: 'PO lines', data: ageingRows.map(r => r.pos), backgroundColor: '#00897b' },
+              ],
+            }}
+            options={{ maintainAspectRatio: false, scales: { y: { ticks: { precision: 0 } } } }}
+          />
+        </Panel>
+
+        <Panel title="Rejection rate by supplier / vendor" note="Rejected (and rework, for vendors) as a % of received" empty={rejections.length === 0}>
+          <Bar
+            data={{
+              labels: rejections.map(r => `${r.party} (${r.partyType})`),
+              datasets: [{ label: 'Rejection %', data: rejections.map(r => r.rate), backgroundColor: '#c62828' }],
+            }}
+            options={{
+              ...horizontal,
+              plugins: {
+                ...horizontal.plugins,
+                tooltip: { callbacks: { afterLabel: ctx => `${rejections[ctx.dataIndex].rejected} of ${rejections[ctx.dataIndex].received} received` } },
+              },
+            }}
+          />
+        </Panel>
+      </div>
+    </div>
+  );
+};
+
+export default InventoryDashboardModule;
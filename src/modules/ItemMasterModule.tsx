@@ -1,27 +1,109 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { onAuthStateChanged } from 'firebase/auth';
 import { auth } from '../firebase';
-import { getItemMaster, subscribeItemMaster, addItemMaster, updateItemMaster, deleteItemMaster } from '../utils/firestoreServices';
+import RecycleBin from '../components/RecycleBin';
+import { getItemMaster, subscribeItemMaster, addItemMaster, updateItemMaster, deleteItemMaster, itemMasterRepository } from '../utils/firestoreServices';
+import type { ItemMasterRecord } from '../utils/recordSchemas';
+import type { ModulePermissions } from '../config/roleModuleConfig';
+import { DEFAULT_UOM, UOM_OPTIONS, baseUomOf, describeConversion, isActiveItem, purchaseUomOf } from '../utils/units';
 
-interface ItemMasterRecord {
-  id?: string | number;
-  itemName: string;
-  itemCode: string;
+type FieldType = 'text' | 'number' | 'uom' | 'list' | 'textarea' | 'checkbox';
+
+interface ItemMasterField {
+  key: keyof ItemMasterRecord;
+  label: string;
+  type: FieldType;
+  required?: boolean;
+  placeholder?: string;
+  /** Shown as a column in the records table */
+  inTable?: boolean;
 }
 
-const ITEM_MASTER_FIELDS = [
-  { key: 'itemName', label: 'Item Name', type: 'text' },
-  { key: 'itemCode', label: 'Item Code', type: 'text' },
+const ITEM_MASTER_FIELDS: ItemMasterField[] = [
+  { key: 'itemName', label: 'Item Name', type: 'text', required: true, inTable: true },
+  { key: 'itemCode', label: 'Item Code', type: 'text', required: true, inTable: true },
+  { key: 'category', label: 'Category', type: 'text', inTable: true },
+  { key: 'subCategory', label: 'Sub-category', type: 'text', inTable: true },
+  // Quantities everywhere are stored in the base UOM; see utils/units.ts
+  { key: 'baseUom', label: 'Base UOM', type: 'uom', placeholder: DEFAULT_UOM, inTable: true },
+  { key: 'purchaseUom', label: 'Purchase UOM', type: 'uom', placeholder: 'Same as base' },
+  { key: 'purchaseFactor', label: 'Base Units per Purchase Unit', type: 'number' },
+  { key: 'hsnCode', label: 'HSN/SAC Code', type: 'text', inTable: true },
+  { key: 'taxRate', label: 'Tax Rate (%)', type: 'number', inTable: true },
+  { key: 'standardRate', label: 'Standard Rate (per base unit)', type: 'number', inTable: true },
+  { key: 'preferredVendors', label: 'Preferred Vendors', type: 'list', placeholder: 'Comma separated', inTable: true },
+  // Reorder planning; 0 leaves a value unset
+  { key: 'minStock', label: 'Min Stock', type: 'number', inTable: true },
+  { key: 'reorderLevel', label: 'Reorder Level', type: 'number', inTable: true },
+  { key: 'reorderQty', label: 'Reorder Qty', type: 'number', inTable: true },
+  { key: 'leadTimeDays', label: 'Lead Time (days)', type: 'number', inTable: true },
+  { key: 'specifications', label: 'Specifications', type: 'textarea' },
+  { key: 'active', label: 'Active', type: 'checkbox', inTable: true },
 ];
 
-const ItemMasterModule: React.FC = () => {
+const EMPTY_FORM: ItemMasterRecord = {
+  itemName: '',
+  itemCode: '',
+  category: '',
+  subCategory: '',
+  baseUom: DEFAULT_UOM,
+  purchaseUom: '',
+  purchaseFactor: 0,
+  hsnCode: '',
+  taxRate: 0,
+  standardRate: 0,
+  preferredVendors: [],
+  minStock: 0,
+  reorderLevel: 0,
+  reorderQty: 0,
+  leadTimeDays: 0,
+  specifications: '',
+  active: true,
+};
+
+// The stored fields of a record (or the form), with blanks as 0 / '' and items active unless switched off
+const toRecord = (d: ItemMasterRecord): ItemMasterRecord => ({
+  itemName: d.itemName,
+  itemCode: d.itemCode,
+  category: (d.category || '').trim(),
+  subCategory: (d.subCategory || '').trim(),
+  baseUom: (d.baseUom || '').trim() || DEFAULT_UOM,
+  purchaseUom: (d.purchaseUom || '').trim(),
+  purchaseFactor: Number(d.purchaseFactor) || 0,
+  hsnCode: (d.hsnCode || '').trim(),
+  taxRate: Number(d.taxRate) || 0,
+  standardRate: Number(d.standardRate) || 0,
+  preferredVendors: Array.isArray(d.preferredVendors) ? d.preferredVendors.map(v => String(v).trim()).filter(Boolean) : [],
+  minStock: Number(d.minStock) || 0,
+  reorderLevel: Number(d.reorderLevel) || 0,
+  reorderQty: Number(d.reorderQty) || 0,
+  leadTimeDays: Number(d.leadTimeDays) || 0,
+  specifications: d.specifications || '',
+  active: isActiveItem(d),
+});
+
+const formatCell = (field: ItemMasterField, rec: ItemMasterRecord) => {
+  const value = rec[field.key];
+  switch (field.type) {
+    case 'checkbox': return value === false ? 'No' : 'Yes';
+    case 'list': return (rec.preferredVendors || []).join(', ');
+    case 'number': return Number(value) ? String(value) : '';
+    default: return field.key === 'baseUom' ? [baseUomOf(rec), describeConversion(rec)].filter(Boolean).join(' · ') : String(value ?? '');
+  }
+};
+
+interface ItemMasterModuleProps {
+  permissions: ModulePermissions;
+}
+
+const ItemMasterModule: React.FC<ItemMasterModuleProps> = ({ permissions }) => {
   const [records, setRecords] = useState<ItemMasterRecord[]>([]);
   const [userUid, setUserUid] = useState<string | null>(null);
-  const [form, setForm] = useState<ItemMasterRecord>({
-    itemName: '',
-    itemCode: '',
-  });
+  const [form, setForm] = useState<ItemMasterRecord>(EMPTY_FORM);
   const [editIdx, setEditIdx] = useState<number | null>(null);
+  const [search, setSearch] = useState('');
+  const [categoryFilter, setCategoryFilter] = useState('');
+  const [showInactive, setShowInactive] = useState(false);
   const firestoreUnsubRef = useRef<(() => void) | null>(null);
 
   // Handle auth state changes and Firestore subscription lifecycle (Firestore-only)
@@ -53,13 +135,13 @@ const ItemMasterModule: React.FC = () => {
       setTimeout(() => {
         try {
           firestoreUnsubRef.current = subscribeItemMaster(uid, (docs) => {
-            const firestoreRecords = docs.map(d => ({ id: d.id, itemName: d.itemName, itemCode: d.itemCode }));
+            const firestoreRecords = docs.map(d => ({ ...toRecord(d), id: d.id }));
             setRecords(firestoreRecords);
           });
         } catch (e) {
           console.error('[ItemMaster] subscribeItemMaster failed', e);
           // fallback one-time fetch
-          getItemMaster(uid).then(items => setRecords(items.map((d: any) => ({ id: d.id, itemName: d.itemName, itemCode: d.itemCode })))).catch(() => setRecords([]));
+          getItemMaster(uid).then(items => setRecords(items.map(d => ({ ...toRecord(d), id: d.id })))).catch(() => setRecords([]));
         }
       }, 100);
     });
@@ -75,16 +157,34 @@ const ItemMasterModule: React.FC = () => {
 
   // Firestore-only: no localStorage persistence
 
-  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const { name, value } = e.target;
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+    const { name, value, type } = e.target;
     setForm((prev) => ({
       ...prev,
-      [name]: value,
+      [name]: type === 'number'
+        ? Math.max(0, Number(value) || 0)
+        : type === 'checkbox'
+          ? (e.target as HTMLInputElement).checked
+          : name === 'preferredVendors'
+            ? value.split(',')
+            : value,
     }));
   };
 
+  const categories = Array.from(new Set(records.map(r => r.category || '').filter(Boolean))).sort();
+  const isShown = (rec: ItemMasterRecord) =>
+    (showInactive || isActiveItem(rec))
+    && (!categoryFilter || rec.category === categoryFilter)
+    && (!search || `${rec.itemName} ${rec.itemCode} ${rec.subCategory || ''}`.toLowerCase().includes(search.toLowerCase()));
+  const tableFields = ITEM_MASTER_FIELDS.filter(f => f.inTable);
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
+    if (editIdx !== null ? !permissions.edit : !permissions.create) return;
+    if ((form.purchaseUom || '').trim() && (form.purchaseUom || '').trim() !== baseUomOf(form) && !(Number(form.purchaseFactor) > 0)) {
+      alert('Enter how many base units make one purchase unit.');
+      return;
+    }
     
     (async () => {
       if (userUid) {
@@ -93,16 +193,10 @@ const ItemMasterModule: React.FC = () => {
           if (editIdx !== null) {
             const existing = records[editIdx];
             if (existing && existing.id) {
-              await updateItemMaster(userUid, String(existing.id), { 
-                itemName: form.itemName, 
-                itemCode: form.itemCode 
-              });
+              await updateItemMaster(userUid, String(existing.id), toRecord(form));
             }
           } else {
-            await addItemMaster(userUid, { 
-              itemName: form.itemName, 
-              itemCode: form.itemCode 
-            });
+            await addItemMaster(userUid, toRecord(form));
           }
         } catch (e) {
           console.error('[ItemMaster] Firestore save failed', e);
@@ -111,23 +205,23 @@ const ItemMasterModule: React.FC = () => {
         // Logged out - save to localStorage
         if (editIdx !== null) {
           setRecords((prev) => prev.map((rec, idx) => 
-            idx === editIdx ? { ...rec, itemName: form.itemName, itemCode: form.itemCode } : rec
+            idx === editIdx ? { ...rec, ...toRecord(form) } : rec
           ));
           setEditIdx(null);
         } else {
           setRecords((prev) => [
             ...prev,
-            { ...form, id: Date.now() },
+            { ...toRecord(form), id: String(Date.now()) },
           ]);
         }
       }
       
-      setForm({ itemName: '', itemCode: '' });
+      setForm(EMPTY_FORM);
     })();
   };
 
   const handleEdit = (idx: number) => {
-    setForm(records[idx]);
+    setForm(toRecord(records[idx]));
     setEditIdx(idx);
   };
 
@@ -154,26 +248,50 @@ const ItemMasterModule: React.FC = () => {
       <h2>Item Master Module</h2>
       <form onSubmit={handleSubmit} style={{ display: 'flex', flexWrap: 'wrap', gap: 16, marginBottom: 24 }}>
         {ITEM_MASTER_FIELDS.map((field) => (
-          <div key={field.key} style={{ flex: '1 1 200px', minWidth: 180 }}>
+          <div key={field.key} style={{ flex: field.type === 'textarea' ? '1 1 100%' : '1 1 200px', minWidth: 180 }}>
             <label style={{ display: 'block', marginBottom: 4 }}>{field.label}</label>
-            <input
-              type={field.type}
-              name={field.key}
-              value={(form as any)[field.key]}
-              onChange={handleChange}
-              required
-              style={{ width: '100%', padding: 6, borderRadius: 4, border: '1px solid #bbb' }}
-            />
+            {field.type === 'textarea' ? (
+              <textarea
+                name={field.key}
+                value={form.specifications ?? ''}
+                onChange={handleChange}
+                rows={3}
+                style={{ width: '100%', padding: 6, borderRadius: 4, border: '1px solid #bbb' }}
+              />
+            ) : field.type === 'checkbox' ? (
+              <input type="checkbox" name={field.key} checked={isActiveItem(form)} onChange={handleChange} />
+            ) : (
+              <input
+                type={field.type === 'number' ? 'number' : 'text'}
+                name={field.key}
+                value={field.type === 'list' ? (form.preferredVendors || []).join(',') : String(form[field.key] ?? '')}
+                onChange={handleChange}
+                required={field.required}
+                placeholder={field.placeholder}
+                list={field.type === 'uom' ? 'item-master-uoms' : undefined}
+                min={field.type === 'number' ? 0 : undefined}
+                step={field.type === 'number' ? 'any' : undefined}
+                style={{ width: '100%', padding: 6, borderRadius: 4, border: '1px solid #bbb' }}
+              />
+            )}
+            {field.key === 'purchaseFactor' && purchaseUomOf(form) && (
+              <div style={{ fontSize: 12, color: '#555', marginTop: 2 }}>{describeConversion(form)}</div>
+            )}
           </div>
         ))}
-        <button type="submit" style={{ padding: '10px 24px', background: '#1a237e', color: '#fff', border: 'none', borderRadius: 4, fontWeight: 500, marginTop: 24 }}>
-          {editIdx !== null ? 'Update' : 'Add'}
-        </button>
+        <datalist id="item-master-uoms">
+          {UOM_OPTIONS.map(uom => <option key={uom} value={uom} />)}
+        </datalist>
+        {(editIdx !== null ? permissions.edit : permissions.create) && (
+          <button type="submit" style={{ padding: '10px 24px', background: '#1a237e', color: '#fff', border: 'none', borderRadius: 4, fontWeight: 500, marginTop: 24 }}>
+            {editIdx !== null ? 'Update' : 'Add'}
+          </button>
+        )}
         {editIdx !== null && (
           <button 
             type="button" 
             onClick={() => {
-              setForm({ itemName: '', itemCode: '' });
+              setForm(EMPTY_FORM);
               setEditIdx(null);
             }}
             style={{ padding: '10px 24px', background: '#757575', color: '#fff', border: 'none', borderRadius: 4, fontWeight: 500, marginTop: 24 }}
@@ -182,24 +300,40 @@ const ItemMasterModule: React.FC = () => {
           </button>
         )}
       </form>
+      <div style={{ display: 'flex', gap: 12, alignItems: 'center', marginBottom: 12, flexWrap: 'wrap' }}>
+        <input
+          placeholder="Search name, code or sub-category"
+          value={search}
+          onChange={e => setSearch(e.target.value)}
+          style={{ padding: 6, borderRadius: 4, border: '1px solid #bbb', minWidth: 240 }}
+        />
+        <select value={categoryFilter} onChange={e => setCategoryFilter(e.target.value)} style={{ padding: 6, borderRadius: 4, border: '1px solid #bbb' }}>
+          <option value="">All categories</option>
+          {categories.map(c => <option key={c} value={c}>{c}</option>)}
+        </select>
+        <label style={{ display: 'flex', alignItems: 'center', gap: 4 }}>
+          <input type="checkbox" checked={showInactive} onChange={e => setShowInactive(e.target.checked)} />
+          Show inactive items
+        </label>
+      </div>
       <div style={{ overflowX: 'auto' }}>
         <table style={{ width: '100%', borderCollapse: 'collapse', background: '#fafbfc' }}>
           <thead>
             <tr>
-              {ITEM_MASTER_FIELDS.map((field) => (
+              {tableFields.map((field) => (
                 <th key={field.key} style={{ border: '1px solid #ddd', padding: 8, background: '#e3e6f3', fontWeight: 600 }}>{field.label}</th>
               ))}
               <th style={{ border: '1px solid #ddd', padding: 8, background: '#e3e6f3', fontWeight: 600 }}>Actions</th>
             </tr>
           </thead>
           <tbody>
-            {records.map((rec, idx) => (
-              <tr key={rec.id || idx}>
-                {ITEM_MASTER_FIELDS.map((field) => (
-                  <td key={field.key} style={{ border: '1px solid #eee', padding: 8 }}>{(rec as any)[field.key]}</td>
+            {records.map((rec, idx) => isShown(rec) && (
+              <tr key={rec.id || idx} style={{ color: isActiveItem(rec) ? undefined : '#999' }} title={rec.specifications || undefined}>
+                {tableFields.map((field) => (
+                  <td key={field.key} style={{ border: '1px solid #eee', padding: 8 }}>{formatCell(field, rec)}</td>
                 ))}
                 <td style={{ border: '1px solid #eee', padding: 8 }}>
-                  <button 
+                  {permissions.edit && <button 
                     onClick={() => handleEdit(idx)}
                     style={{ 
                       background: '#1976d2', 
@@ -212,8 +346,8 @@ const ItemMasterModule: React.FC = () => {
                     }}
                   >
                     Edit
-                  </button>
-                  <button 
+                  </button>}
+                  {permissions.delete && <button 
                     onClick={() => handleDelete(idx)}
                     style={{ 
                       background: '#e53935', 
@@ -225,13 +359,14 @@ const ItemMasterModule: React.FC = () => {
                     }}
                   >
                     Delete
-                  </button>
+                  </button>}
                 </td>
               </tr>
             ))}
           </tbody>
         </table>
       </div>
+      <RecycleBin uid={userUid} source={itemMasterRepository} describe={i => `${i.itemName} - ${i.itemCode}`} title="Item Master Recycle Bin" canRestore={permissions.edit} canPurge={permissions.delete} />
     </div>
   );
 };
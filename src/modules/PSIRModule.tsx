@@ -1,35 +1,13 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
 import bus from '../utils/eventBus';
 import { onAuthStateChanged } from 'firebase/auth';
 import { auth } from '../firebase';
-import { addPsir, updatePsir, subscribePsirs, deletePsir } from '../utils/psirService';
+import RecycleBin from '../components/RecycleBin';
+import { addPsir, updatePsir, subscribePsirs, subscribeDeletedPsirs, deletePsir, psirRecycleSource } from '../utils/psirService';
 import { getItemMaster, getPurchaseData, getIndentData, getStockRecords, getPurchaseOrders, updatePurchaseData, updatePurchaseOrder } from '../utils/firestoreServices';
-
-interface PSIRItem {
-  itemName: string;
-  itemCode: string;
-  qtyReceived: number;
-  okQty: number;
-  rejectQty: number;
-  grnNo: string;
-  remarks: string;
-  poQty?: number;
-}
-
-interface PSIR {
-  id?: string;
-  userId?: string;
-  receivedDate: string;
-  indentNo: string;
-  poNo: string;
-  oaNo: string;
-  batchNo: string;
-  invoiceNo: string;
-  supplierName: string;
-  items: PSIRItem[];
-  createdAt?: any;
-  updatedAt?: any;
-}
+import type { ItemMasterRecord, PSIRItem, PSIR } from '../utils/recordSchemas';
+import type { ModulePermissions } from '../config/roleModuleConfig';
+import { baseUomOf, formatPurchaseQty, formatQty, isActiveItem, itemLookup } from '../utils/units';
 
 interface PurchaseOrder {
   poNo: string;
@@ -39,7 +17,11 @@ interface PurchaseOrder {
   items?: { poNo?: string; indentNo?: string; itemName?: string; itemCode?: string }[];
 }
 
-const PSIRModule: React.FC = () => {
+interface PSIRModuleProps {
+  permissions: ModulePermissions;
+}
+
+const PSIRModule: React.FC<PSIRModuleProps> = ({ permissions }) => {
   const [psirs, setPsirs] = useState<PSIR[]>([]);
 
   const [newPSIR, setNewPSIR] = useState<PSIR>({
@@ -66,14 +48,15 @@ const PSIRModule: React.FC = () => {
   const [editItemIdx, setEditItemIdx] = useState<number | null>(null);
   
   const [itemNames, setItemNames] = useState<string[]>([]);
-  const [itemMaster, setItemMaster] = useState<{ itemName: string; itemCode: string }[]>([]);
+  const [itemMaster, setItemMaster] = useState<ItemMasterRecord[]>([]);
   const [purchaseOrders, setPurchaseOrders] = useState<PurchaseOrder[]>([]);
   const [purchaseData, setPurchaseData] = useState<any[]>([]);
   const [indentData, setIndentData] = useState<any[]>([]);
   const [stockRecords, setStockRecords] = useState<any[]>([]);
   const [editPSIRIdx, setEditPSIRIdx] = useState<number | null>(null);
+  const canSavePsir = editPSIRIdx !== null ? permissions.edit : permissions.create;
   const [processedPOs, setProcessedPOs] = useState<Set<string>>(new Set());
-  const [deletedPOKeys, setDeletedPOKeys] = useState<Set<string>>(new Set());
+  const [deletedPsirs, setDeletedPsirs] = useState<PSIR[]>([]);
   const [psirDebugOpen, setPsirDebugOpen] = useState<boolean>(false);
   const [psirDebugOutput, setPsirDebugOutput] = useState<string>('');
   const [psirDebugExtra, setPsirDebugExtra] = useState<string>('');
@@ -126,6 +109,18 @@ const PSIRModule: React.FC = () => {
     };
   }, [userUid]);
 
+  // PSIRs in the recycle bin are tombstones: their POs must not be imported again
+  useEffect(() => {
+    if (!userUid) return;
+    const unsub = subscribeDeletedPsirs(userUid, docs => setDeletedPsirs(docs));
+    return () => unsub();
+  }, [userUid]);
+
+  const deletedPOKeys = useMemo(
+    () => new Set(deletedPsirs.map(p => String(p.poNo || '').trim()).filter(Boolean)),
+    [deletedPsirs],
+  );
+
   useEffect(() => {
     const loadPurchaseOrders = async () => {
       try {
@@ -265,8 +260,8 @@ const PSIRModule: React.FC = () => {
         });
         
         if (Array.isArray(itemMasterData)) {
-          setItemMaster(itemMasterData as any as { itemName: string; itemCode: string }[]);
-          setItemNames((itemMasterData as any[]).map((item: any) => item.itemName).filter(Boolean));
+          setItemMaster(itemMasterData);
+          setItemNames(itemMasterData.filter(isActiveItem).map(item => item.itemName).filter(Boolean));
           console.debug('[PSIRModule][Init] Loaded itemMaster from Firestore:', itemMasterData);
         } else {
           console.warn('[PSIRModule][Init] itemMasterData is not an array:', typeof itemMasterData);
@@ -485,7 +480,7 @@ const PSIRModule: React.FC = () => {
                 }
               })();
             }
-            try { bus.dispatchEvent(new CustomEvent('psir.updated', { detail: { psirs: updatedPsirs } })); } catch (err) {}
+            try { bus.emit('psir.updated', { psirs: updatedPsirs }); } catch (err) {}
             importedCount++;
             setProcessedPOs(prev => new Set([...prev, orderKey]));
           } else {
@@ -529,7 +524,7 @@ const PSIRModule: React.FC = () => {
               console.warn('[PSIRModule] Cannot save PSIR - no userUid');
             }
           });
-          try { bus.dispatchEvent(new CustomEvent('psir.updated', { detail: { psirs: updated } })); } catch (err) {}
+          try { bus.emit('psir.updated', { psirs: updated }); } catch (err) {}
           return updated;
         });
         alert(`✅ Successfully imported ${importedCount} purchase orders/indents to PSIR`);
@@ -630,7 +625,7 @@ const PSIRModule: React.FC = () => {
     setItemInput({ itemName: '', itemCode: '', qtyReceived: 0, okQty: 0, rejectQty: 0, grnNo: '', remarks: '' });
     setEditItemIdx(null);
     try {
-      bus.dispatchEvent(new CustomEvent('psir.updated', { detail: { draftItem: addedItem } }));
+      bus.emit('psir.updated', { draftItem: addedItem });
     } catch (err) {}
   };
 
@@ -738,7 +733,7 @@ const PSIRModule: React.FC = () => {
       })();
     } else {
       setPsirs(updatedLocal);
-      try { bus.dispatchEvent(new CustomEvent('psir.updated', { detail: { psirs: updatedLocal } })); } catch (err) {}
+      try { bus.emit('psir.updated', { psirs: updatedLocal }); } catch (err) {}
     }
 
     setNewPSIR({ receivedDate: '', indentNo: '', poNo: '', oaNo: '', batchNo: '', invoiceNo: '', supplierName: '', items: [] });
@@ -746,6 +741,19 @@ const PSIRModule: React.FC = () => {
     setEditPSIRIdx(null);
   };
 
+  // Quantities are in the item's base UOM, with the purchase UOM equivalent underneath
+  const findItem = itemLookup(itemMaster);
+  const renderQty = (qty: number | undefined, item: Pick<PSIRItem, 'itemCode' | 'itemName'>) => {
+    const master = findItem(item.itemCode, item.itemName);
+    const inPurchaseUom = formatPurchaseQty(Number(qty) || 0, master);
+    return (
+      <>
+        {formatQty(Number(qty) || 0, master)}
+        {inPurchaseUom && <div style={{ fontSize: 11, color: '#555' }}>= {inPurchaseUom}</div>}
+      </>
+    );
+  };
+
   const handleItemInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
     const { name, value, type } = e.target;
     const newValue = type === 'number' ? (value === '' ? '' : Number(value)) : value;
@@ -859,13 +867,7 @@ const PSIRModule: React.FC = () => {
       if (isDeleting) {
         console.log('   Calling deletePsir with ID:', psirId);
         await deletePsir(psirId);
-        console.log('✅ Trace Step 6a: deletePsir completed successfully');
-        
-        const poNo = String(target.poNo || '').trim();
-        const indentNo = String(target.indentNo || '').trim();
-        const deletedKey = poNo ? poNo : `INDENT::${indentNo}`;
-        setDeletedPOKeys(prev => new Set([...prev, deletedKey]));
-        console.log('🚫 Marked as deleted to prevent re-import:', deletedKey);
+        console.log('✅ Trace Step 6a: deletePsir completed successfully - moved to recycle bin, PO will not be re-imported');
       } else {
         console.log('   Calling updatePsir with ID:', psirId);
         await updatePsir(psirId, updatedTarget);
@@ -880,7 +882,7 @@ const PSIRModule: React.FC = () => {
         });
         const filtered = updated.filter(p => p.items.length > 0);
         console.log('✅ Trace Step 6c: Local state updated - remaining PSIRs:', filtered.length);
-        try { bus.dispatchEvent(new CustomEvent('psir.updated', { detail: { psirs: filtered } })); } catch (err) {}
+        try { bus.emit('psir.updated', { psirs: filtered }); } catch (err) {}
         return filtered;
       });
 
@@ -978,7 +980,7 @@ const PSIRModule: React.FC = () => {
 
   const manualDispatchPSIRUpdated = () => {
     try {
-      bus.dispatchEvent(new CustomEvent('psir.updated', { detail: { psirs } }));
+      bus.emit('psir.updated', { psirs });
       alert('Dispatched psir.updated with current psirData');
     } catch (err) {
       alert('Failed to dispatch psir.updated: ' + String(err));
@@ -1149,8 +1151,8 @@ const PSIRModule: React.FC = () => {
     };
 
     try {
-      bus.addEventListener('purchaseOrders.updated', handler as EventListener);
-      bus.addEventListener('purchaseData.updated', handlerPurchaseData as EventListener);
+      bus.on('purchaseOrders.updated', handler);
+      bus.on('purchaseData.updated', handlerPurchaseData);
       console.debug('[PSIRModule] Registered event listeners for purchaseOrders.updated and purchaseData.updated');
     } catch (err) {
       console.error('[PSIRModule] Failed to register event listeners:', err);
@@ -1158,8 +1160,8 @@ const PSIRModule: React.FC = () => {
 
     return () => {
       try {
-        bus.removeEventListener('purchaseOrders.updated', handler as EventListener);
-        bus.removeEventListener('purchaseData.updated', handlerPurchaseData as EventListener);
+        bus.off('purchaseOrders.updated', handler);
+        bus.off('purchaseData.updated', handlerPurchaseData);
       } catch (err) {}
     };
   }, []);
@@ -1221,7 +1223,7 @@ const PSIRModule: React.FC = () => {
         } catch (err) {
           console.error('[PSIRModule] Error scheduling PSIR persistence:', err);
         }
-        try { bus.dispatchEvent(new CustomEvent('psir.updated', { detail: { psirs: repaired } })); } catch (err) {}
+        try { bus.emit('psir.updated', { psirs: repaired }); } catch (err) {}
         console.info(`[PSIRModule] Repair restored qtyReceived for ${restoredCount} items from originalIndentQty.`);
       } else {
         console.debug('[PSIRModule] Repair found no overwritten items to restore.');
@@ -1259,20 +1261,22 @@ const PSIRModule: React.FC = () => {
         <p style={{ marginBottom: 8, fontSize: '13px', color: '#666' }}>
           {purchaseOrders.length === 0 && purchaseData.length === 0 ? '⚠️ No purchase orders or data loaded yet' : `Ready to import ${Math.max(purchaseOrders.length, purchaseData.length)} records`}
         </p>
-        <button 
-          onClick={() => importAllPurchaseOrdersToPSIR(true)}
-          disabled={purchaseOrders.length === 0 && purchaseData.length === 0 || !userUid}
-          style={{ 
-            padding: '8px 16px', 
-            backgroundColor: (purchaseOrders.length === 0 && purchaseData.length === 0) || !userUid ? '#ccc' : '#4caf50', 
-            color: 'white', 
-            border: 'none', 
-            borderRadius: 4, 
-            cursor: (purchaseOrders.length === 0 && purchaseData.length === 0) || !userUid ? 'not-allowed' : 'pointer' 
-          }}
-        >
-          Import All Purchase Orders to PSIR
-        </button>
+        {permissions.create && (
+          <button 
+            onClick={() => importAllPurchaseOrdersToPSIR(true)}
+            disabled={purchaseOrders.length === 0 && purchaseData.length === 0 || !userUid}
+            style={{ 
+              padding: '8px 16px', 
+              backgroundColor: (purchaseOrders.length === 0 && purchaseData.length === 0) || !userUid ? '#ccc' : '#4caf50', 
+              color: 'white', 
+              border: 'none', 
+              borderRadius: 4, 
+              cursor: (purchaseOrders.length === 0 && purchaseData.length === 0) || !userUid ? 'not-allowed' : 'pointer' 
+            }}
+          >
+            Import All Purchase Orders to PSIR
+          </button>
+        )}
       </div>
 
       <div style={{ marginBottom: 12, display: 'flex', gap: 8, flexWrap: 'wrap', alignItems: 'center' }}>
@@ -1364,148 +1368,154 @@ const PSIRModule: React.FC = () => {
             >
               Debug PO Qty (current items)
             </button>
-            <button
-              onClick={async () => {
-                try {
-                  if (psirs.length === 0) { alert('No PSIR data found'); return; }
-                  let changed = false;
-                  let count = 0;
-                  for (const psir of psirs) {
-                    const newItems = (psir.items || []).map((item: any) => {
-                      const existing = Number(item.qtyReceived || 0) || 0;
-                      const poQty = getPOQtyFor(psir.poNo, psir.indentNo, item.itemCode) || 0;
-                      // Allow filling qtyReceived from PO even if PO qty is zero
-                      if (existing === 0) {
-                        changed = true; count++; return { ...item, qtyReceived: poQty };
+            {permissions.edit && (
+              <button
+                onClick={async () => {
+                  try {
+                    if (psirs.length === 0) { alert('No PSIR data found'); return; }
+                    let changed = false;
+                    let count = 0;
+                    for (const psir of psirs) {
+                      const newItems = (psir.items || []).map((item: any) => {
+                        const existing = Number(item.qtyReceived || 0) || 0;
+                        const poQty = getPOQtyFor(psir.poNo, psir.indentNo, item.itemCode) || 0;
+                        // Allow filling qtyReceived from PO even if PO qty is zero
+                        if (existing === 0) {
+                          changed = true; count++; return { ...item, qtyReceived: poQty };
+                        }
+                        return item;
+                      });
+                      if (changed && psir.id && userUid) {
+                        await updatePsir(psir.id, { items: newItems });
                       }
-                      return item;
-                    });
-                    if (changed && psir.id && userUid) {
-                      await updatePsir(psir.id, { items: newItems });
                     }
-                  }
-                  if (changed) {
-                    try { bus.dispatchEvent(new CustomEvent('psir.updated', { detail: { psirs } })); } catch (err) {}
-                    alert(`Sync applied: filled ${count} items' PO into PSIR.qtyReceived`);
-                  } else {
-                    alert('No empty PSIR.qtyReceived items found to sync');
-                  }
-                } catch (err) {
-                  alert('Error running manual sync: ' + String(err));
-                }
-              }}
-              style={{ padding: '6px 8px' }}
-            >
-              Sync Empty PO into PSIR
-            </button>
-
-            <button
-              onClick={async () => {
-                try {
-                  if (psirs.length === 0) { alert('No PSIR data found'); return; }
-                  let changed = 0;
-                  for (const psir of psirs) {
-                    const newItems = (psir.items || []).map((it: any) => {
-                      try {
-                        const newPo = getPOQtyFor(psir.poNo, psir.indentNo, it.itemCode) || 0;
-                        if ((Number(it.poQty || 0) || 0) !== newPo) { changed++; return { ...it, poQty: newPo }; }
-                        return it;
-                      } catch (err) { return it; }
-                    });
-                    if (changed > 0 && psir.id && userUid) {
-                      await updatePsir(psir.id, { items: newItems });
+                    if (changed) {
+                      try { bus.emit('psir.updated', { psirs }); } catch (err) {}
+                      alert(`Sync applied: filled ${count} items' PO into PSIR.qtyReceived`);
+                    } else {
+                      alert('No empty PSIR.qtyReceived items found to sync');
                     }
+                  } catch (err) {
+                    alert('Error running manual sync: ' + String(err));
                   }
-                  if (changed > 0) {
-                    try { bus.dispatchEvent(new CustomEvent('psir.updated', { detail: { psirs } })); } catch (err) {}
-                    alert(`Synced PO Qty into PSIR for ${changed} items`);
-                  } else {
-                    alert('All PSIR poQty values are already up-to-date');
-                  }
-                } catch (err) { alert('Error during PO Qty sync: ' + String(err)); }
-              }}
-              style={{ padding: '6px 8px' }}
-            >
-              Sync PO Qty into PSIR
-            </button>
-
-            <button
-              onClick={() => {
-                if (!confirm('This will move PSIR.qtyReceived into purchase records where purchaseQty is empty and clear PSIR.qtyReceived. Proceed?')) return;
-                try {
-                  const arrA = Array.isArray(purchaseData) ? JSON.parse(JSON.stringify(purchaseData)) : [];
-                  const arrB = Array.isArray(purchaseOrders) ? JSON.parse(JSON.stringify(purchaseOrders)) : [];
-                  const psirArr = Array.isArray(psirs) ? JSON.parse(JSON.stringify(psirs)) : [];
-                  if (!psirArr || psirArr.length === 0) { alert('No PSIR data found'); return; }
-                  let shiftedCount = 0;
-                  const norm = (v: any) => (v === undefined || v === null) ? '' : String(v).trim().toUpperCase();
-                  const newPsirs = psirArr.map((psir: any) => ({
-                    ...psir,
-                    items: (psir.items || []).map((item: any) => {
-                      try {
-                        const existingQty = Number(item.qtyReceived || 0);
-                        if (!(existingQty > 0)) return item;
-                        const targetPo = norm(psir.poNo);
-                        const targetCode = norm(item.itemCode);
-                        let foundInA = -1;
-                        if (Array.isArray(arrA)) {
-                          foundInA = arrA.findIndex((e: any) => targetPo && norm(e.poNo) === targetPo && [e.itemCode, e.Code, e.CodeNo, e.Item].map((c:any)=>norm(c)).includes(targetCode));
-                        }
-                        if (foundInA !== -1) {
-                          const entry = arrA[foundInA];
-                          const existingPurchaseQty = Number(entry.purchaseQty ?? entry.poQty ?? entry.originalIndentQty ?? 0) || 0;
-                          if (existingPurchaseQty === 0) { entry.purchaseQty = existingQty; shiftedCount++; return { ...item, qtyReceived: 0 }; }
-                          return item;
-                        }
-                        let foundInB = -1;
-                        if (Array.isArray(arrB)) {
-                          foundInB = arrB.findIndex((e: any) => targetPo && norm(e.poNo) === targetPo && [e.itemCode, e.Code, e.CodeNo, e.Item].map((c:any)=>norm(c)).includes(targetCode));
-                        }
-                        if (foundInB !== -1) {
-                          const entry = arrB[foundInB];
-                          const existingPurchaseQty = Number(entry.purchaseQty ?? entry.poQty ?? entry.originalIndentQty ?? 0) || 0;
-                          if (existingPurchaseQty === 0) { entry.purchaseQty = existingQty; shiftedCount++; return { ...item, qtyReceived: 0 }; }
-                          return item;
-                        }
-                        return item;
-                      } catch (err) { return item; }
-                    })
-                  }));
-                  if (shiftedCount > 0) {
-                    if (userUid) {
-                      (async () => {
+                }}
+                style={{ padding: '6px 8px' }}
+              >
+                Sync Empty PO into PSIR
+              </button>
+            )}
+
+            {permissions.edit && (
+              <button
+                onClick={async () => {
+                  try {
+                    if (psirs.length === 0) { alert('No PSIR data found'); return; }
+                    let changed = 0;
+                    for (const psir of psirs) {
+                      const newItems = (psir.items || []).map((it: any) => {
                         try {
+                          const newPo = getPOQtyFor(psir.poNo, psir.indentNo, it.itemCode) || 0;
+                          if ((Number(it.poQty || 0) || 0) !== newPo) { changed++; return { ...it, poQty: newPo }; }
+                          return it;
+                        } catch (err) { return it; }
+                      });
+                      if (changed > 0 && psir.id && userUid) {
+                        await updatePsir(psir.id, { items: newItems });
+                      }
+                    }
+                    if (changed > 0) {
+                      try { bus.emit('psir.updated', { psirs }); } catch (err) {}
+                      alert(`Synced PO Qty into PSIR for ${changed} items`);
+                    } else {
+                      alert('All PSIR poQty values are already up-to-date');
+                    }
+                  } catch (err) { alert('Error during PO Qty sync: ' + String(err)); }
+                }}
+                style={{ padding: '6px 8px' }}
+              >
+                Sync PO Qty into PSIR
+              </button>
+            )}
+
+            {permissions.edit && (
+              <button
+                onClick={() => {
+                  if (!confirm('This will move PSIR.qtyReceived into purchase records where purchaseQty is empty and clear PSIR.qtyReceived. Proceed?')) return;
+                  try {
+                    const arrA = Array.isArray(purchaseData) ? JSON.parse(JSON.stringify(purchaseData)) : [];
+                    const arrB = Array.isArray(purchaseOrders) ? JSON.parse(JSON.stringify(purchaseOrders)) : [];
+                    const psirArr = Array.isArray(psirs) ? JSON.parse(JSON.stringify(psirs)) : [];
+                    if (!psirArr || psirArr.length === 0) { alert('No PSIR data found'); return; }
+                    let shiftedCount = 0;
+                    const norm = (v: any) => (v === undefined || v === null) ? '' : String(v).trim().toUpperCase();
+                    const newPsirs = psirArr.map((psir: any) => ({
+                      ...psir,
+                      items: (psir.items || []).map((item: any) => {
+                        try {
+                          const existingQty = Number(item.qtyReceived || 0);
+                          if (!(existingQty > 0)) return item;
+                          const targetPo = norm(psir.poNo);
+                          const targetCode = norm(item.itemCode);
+                          let foundInA = -1;
                           if (Array.isArray(arrA)) {
-                            await Promise.all(arrA.map(async (e: any) => { if (e && e.id) await updatePurchaseData(userUid, e.id, e); }));
-                            try { bus.dispatchEvent(new CustomEvent('purchaseData.updated', { detail: { purchaseData: arrA } })); } catch (err) {}
+                            foundInA = arrA.findIndex((e: any) => targetPo && norm(e.poNo) === targetPo && [e.itemCode, e.Code, e.CodeNo, e.Item].map((c:any)=>norm(c)).includes(targetCode));
+                          }
+                          if (foundInA !== -1) {
+                            const entry = arrA[foundInA];
+                            const existingPurchaseQty = Number(entry.purchaseQty ?? entry.poQty ?? entry.originalIndentQty ?? 0) || 0;
+                            if (existingPurchaseQty === 0) { entry.purchaseQty = existingQty; shiftedCount++; return { ...item, qtyReceived: 0 }; }
+                            return item;
                           }
+                          let foundInB = -1;
                           if (Array.isArray(arrB)) {
-                            await Promise.all(arrB.map(async (e: any) => { if (e && e.id) await updatePurchaseOrder(userUid, e.id, e); }));
-                            try { bus.dispatchEvent(new CustomEvent('purchaseOrders.updated', { detail: arrB })); } catch (err) {}
+                            foundInB = arrB.findIndex((e: any) => targetPo && norm(e.poNo) === targetPo && [e.itemCode, e.Code, e.CodeNo, e.Item].map((c:any)=>norm(c)).includes(targetCode));
                           }
-                          await Promise.all(newPsirs.map(async (p: any) => { if (p && p.id) await updatePsir(p.id, { items: p.items }); }));
-                          try { bus.dispatchEvent(new CustomEvent('psir.updated', { detail: { psirs: newPsirs } })); } catch (err) {}
-                          setPsirs(newPsirs);
-                          alert(`Shift applied: moved ${shiftedCount} qtyReceived values into purchase records and cleared them in PSIR`);
-                        } catch (err) {
-                          console.error('[PSIRModule] Error persisting shifted data to Firestore:', err);
-                          alert('Shift completed locally but failed to persist some changes: ' + String(err));
-                        }
-                      })();
+                          if (foundInB !== -1) {
+                            const entry = arrB[foundInB];
+                            const existingPurchaseQty = Number(entry.purchaseQty ?? entry.poQty ?? entry.originalIndentQty ?? 0) || 0;
+                            if (existingPurchaseQty === 0) { entry.purchaseQty = existingQty; shiftedCount++; return { ...item, qtyReceived: 0 }; }
+                            return item;
+                          }
+                          return item;
+                        } catch (err) { return item; }
+                      })
+                    }));
+                    if (shiftedCount > 0) {
+                      if (userUid) {
+                        (async () => {
+                          try {
+                            if (Array.isArray(arrA)) {
+                              await Promise.all(arrA.map(async (e: any) => { if (e && e.id) await updatePurchaseData(userUid, e.id, e); }));
+                              try { bus.emit('purchaseData.updated', { purchaseData: arrA }); } catch (err) {}
+                            }
+                            if (Array.isArray(arrB)) {
+                              await Promise.all(arrB.map(async (e: any) => { if (e && e.id) await updatePurchaseOrder(userUid, e.id, e); }));
+                              try { bus.emit('purchaseOrders.updated', arrB); } catch (err) {}
+                            }
+                            await Promise.all(newPsirs.map(async (p: any) => { if (p && p.id) await updatePsir(p.id, { items: p.items }); }));
+                            try { bus.emit('psir.updated', { psirs: newPsirs }); } catch (err) {}
+                            setPsirs(newPsirs);
+                            alert(`Shift applied: moved ${shiftedCount} qtyReceived values into purchase records and cleared them in PSIR`);
+                          } catch (err) {
+                            console.error('[PSIRModule] Error persisting shifted data to Firestore:', err);
+                            alert('Shift completed locally but failed to persist some changes: ' + String(err));
+                          }
+                        })();
+                      } else {
+                        setPsirs(newPsirs);
+                        try { bus.emit('psir.updated', { psirs: newPsirs }); } catch (err) {}
+                        alert(`Shift applied: moved ${shiftedCount} qtyReceived values into purchase records and cleared them in PSIR`);
+                      }
                     } else {
-                      setPsirs(newPsirs);
-                      try { bus.dispatchEvent(new CustomEvent('psir.updated', { detail: { psirs: newPsirs } })); } catch (err) {}
-                      alert(`Shift applied: moved ${shiftedCount} qtyReceived values into purchase records and cleared them in PSIR`);
+                      alert('No eligible qtyReceived values found to shift');
                     }
-                  } else {
-                    alert('No eligible qtyReceived values found to shift');
-                  }
-                } catch (err) { alert('Error during shift: ' + String(err)); }
-              }}
-              style={{ padding: '6px 8px' }}
-            >
-              Shift PO from PSIR to Purchase
-            </button>
+                  } catch (err) { alert('Error during shift: ' + String(err)); }
+                }}
+                style={{ padding: '6px 8px' }}
+              >
+                Shift PO from PSIR to Purchase
+              </button>
+            )}
             <button
               onClick={() => {
                 try {
@@ -1727,7 +1737,7 @@ const PSIRModule: React.FC = () => {
         />
         <input
           type="number"
-          placeholder="Qty Received"
+          placeholder={`Qty Received (${baseUomOf(findItem(itemInput.itemCode, itemInput.itemName))})`}
           name="qtyReceived"
           value={itemInput.qtyReceived ?? ''}
           onChange={handleItemInputChange}
@@ -1761,12 +1771,16 @@ const PSIRModule: React.FC = () => {
           onChange={handleItemInputChange}
         />
         <div style={{ display: 'flex', gap: 8 }}>
-          <button onClick={handleAddItem} disabled={editItemIdx !== null}>
-            Add Item
-          </button>
-          <button onClick={handleUpdateItem} disabled={editItemIdx === null}>
-            Update Item
-          </button>
+          {canSavePsir && (
+            <button onClick={handleAddItem} disabled={editItemIdx !== null}>
+              Add Item
+            </button>
+          )}
+          {canSavePsir && (
+            <button onClick={handleUpdateItem} disabled={editItemIdx === null}>
+              Update Item
+            </button>
+          )}
         </div>
       </div>
       
@@ -1794,10 +1808,10 @@ const PSIRModule: React.FC = () => {
                 <tr key={idx}>
                   <td>{item.itemName}</td>
                   <td>{item.itemCode}</td>
-                  <td>{Math.abs(poQty)}</td>
-                  <td>{item.qtyReceived}</td>
-                  <td>{item.okQty}</td>
-                  <td>{item.rejectQty}</td>
+                  <td>{renderQty(Math.abs(poQty), item)}</td>
+                  <td>{renderQty(item.qtyReceived, item)}</td>
+                  <td>{renderQty(item.okQty, item)}</td>
+                  <td>{renderQty(item.rejectQty, item)}</td>
                   <td>{item.grnNo}</td>
                   <td>{item.remarks}</td>
                   <td>
@@ -1812,11 +1826,11 @@ const PSIRModule: React.FC = () => {
       )}
 
       <div style={{ marginBottom: 16 }}>
-        {editPSIRIdx === null ? (
+        {canSavePsir && (editPSIRIdx === null ? (
           <button onClick={handleAddPSIR}>Add PSIR</button>
         ) : (
           <button onClick={handleUpdatePSIR}>Update PSIR</button>
-        )}
+        ))}
       </div>
 
       <h3>PSIR Records ({psirs.length})</h3>
@@ -1863,36 +1877,38 @@ const PSIRModule: React.FC = () => {
                   <td>{psir.supplierName}</td>
                   <td>{item.itemName}</td>
                   <td>{item.itemCode}</td>
-                  <td>{Math.abs(poQty)}</td>
-                  <td>{item.qtyReceived}</td>
-                  <td>{item.okQty}</td>
-                  <td>{item.rejectQty}</td>
+                  <td>{renderQty(Math.abs(poQty), item)}</td>
+                  <td>{renderQty(item.qtyReceived, item)}</td>
+                  <td>{renderQty(item.okQty, item)}</td>
+                  <td>{renderQty(item.rejectQty, item)}</td>
                   <td>{item.grnNo}</td>
                   <td>{item.remarks}</td>
                   <td>
-                    <button onClick={() => handleEditPSIR(psirIdx)}>Edit</button>
-                    <button onClick={async () => {
-                      console.group('🗑️ DELETE BUTTON CLICKED');
-                      console.log('Step 1: Button click handler started');
-                      console.log('Indices:', { psirIdx, itemIdx });
-                      console.log('PSIR ID:', psir.id);
-                      console.log('Current user UID:', userUid);
-                      console.log('Total PSIRs in state:', psirs.length);
-                      console.groupEnd();
+                    {permissions.edit && <button onClick={() => handleEditPSIR(psirIdx)}>Edit</button>}
+                    {permissions.delete && (
+                      <button onClick={async () => {
+                        console.group('🗑️ DELETE BUTTON CLICKED');
+                        console.log('Step 1: Button click handler started');
+                        console.log('Indices:', { psirIdx, itemIdx });
+                        console.log('PSIR ID:', psir.id);
+                        console.log('Current user UID:', userUid);
+                        console.log('Total PSIRs in state:', psirs.length);
+                        console.groupEnd();
                       
-                      try {
-                        console.log('Step 2: Calling handleDeleteItem...');
-                        await handleDeleteItem(psirIdx, itemIdx);
-                        console.log('Step 3: handleDeleteItem completed successfully');
-                      } catch (err) {
-                        console.error('Step 3: ERROR in handleDeleteItem:', err);
-                        console.error('Error details:', {
-                          message: (err as any).message,
-                          code: (err as any).code,
-                          stack: (err as any).stack
-                        });
-                      }
-                    }}>Delete</button>
+                        try {
+                          console.log('Step 2: Calling handleDeleteItem...');
+                          await handleDeleteItem(psirIdx, itemIdx);
+                          console.log('Step 3: handleDeleteItem completed successfully');
+                        } catch (err) {
+                          console.error('Step 3: ERROR in handleDeleteItem:', err);
+                          console.error('Error details:', {
+                            message: (err as any).message,
+                            code: (err as any).code,
+                            stack: (err as any).stack
+                          });
+                        }
+                      }}>Delete</button>
+                    )}
                     <button 
                       onClick={() => {
                         console.log('[PSIRModule] PSIR Record Debug:', {
@@ -1931,6 +1947,7 @@ const PSIRModule: React.FC = () => {
           )}
         </tbody>
       </table>
+      <RecycleBin uid={userUid} source={psirRecycleSource} describe={p => `PO ${p.poNo || '—'} / Indent ${p.indentNo || '—'}${p.supplierName ? ` - ${p.supplierName}` : ''}`} title="PSIR Recycle Bin" canRestore={permissions.edit} canPurge={permissions.delete} />
     </div>
   );
 };
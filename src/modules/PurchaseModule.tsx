@@ -1,40 +1,32 @@
 import React, { useEffect, useState } from "react";
 import bus from '../utils/eventBus';
-import { subscribeFirestoreDocs, replaceFirestoreCollection } from '../utils/firestoreSync';
-
-interface PurchaseEntry {
-  orderPlaceDate: string;
-  poNo: string;
-  supplierName: string;
-  itemName: string;
-  itemCode: string;
-  indentNo: string;
-  indentDate?: string;
-  indentBy: string;
-  oaNo: string;
-  originalIndentQty: number;
-  purchaseQty: number;
-  currentStock: number;
-  indentStatus: string;
-  receivedQty: number;
-  okQty: number;
-  rejectedQty: number;
-  grnNo: string;
-  debitNoteOrQtyReturned: string;
-  remarks: string;
-}
+import { subscribeFirestoreDocs, replaceFirestoreCollection, getFirestoreDocs, updateFirestoreDoc } from '../utils/firestoreSync';
+import { purchaseDataRepository } from '../utils/firestoreServices';
+import RecycleBin from '../components/RecycleBin';
+import type { ItemMasterRecord, PurchaseEntry } from "../utils/recordSchemas";
+import { useStockLedger } from '../hooks/useStockLedger';
+import type { ModulePermissions } from '../config/roleModuleConfig';
+import { approvalFields, approvalHistory, approvalLabel, approvalStatusOf, canDecide, decide, isApproved, startApproval } from '../utils/approvals';
+import { describeConversion, formatPurchaseQty, formatQty, isActiveItem, itemLookup } from '../utils/units';
 
 interface PurchaseModuleProps {
   user?: any;
+  permissions: ModulePermissions;
+  /** Approval steps may need a permission from another module */
+  hasPermission: (permission: string) => boolean;
 }
 
 const indentStatusOptions = ["Open", "Closed", "Partial"];
 
-const PurchaseModule: React.FC<PurchaseModuleProps> = ({ user }) => {
+const approvalColors = { pending: '#fb8c00', approved: '#43a047', rejected: '#e53935' };
+
+const PurchaseModule: React.FC<PurchaseModuleProps> = ({ user, permissions, hasPermission }) => {
   // Get uid from user prop or use a default
   const [uid] = useState<string>(user?.uid || 'default-user');
 
   const [entries, setEntries] = useState<PurchaseEntry[]>([]);
+  // Recycle bin entries; the indent import does not recreate them
+  const [binnedEntries, setBinnedEntries] = useState<PurchaseEntry[]>([]);
   const [itemNames, setItemNames] = useState<string[]>([]);
   const [lastImport, setLastImport] = useState<number>(0);
   
@@ -43,8 +35,16 @@ const PurchaseModule: React.FC<PurchaseModuleProps> = ({ user }) => {
   const [closedIndentItems, setClosedIndentItems] = useState<any[]>([]);
   const [_stockRecords, setStockRecords] = useState<any[]>([]);
   const [indentData, setIndentData] = useState<any[]>([]);
-  const [_itemMasterData, setItemMasterData] = useState<any[]>([]);
+  const [itemMasterData, setItemMasterData] = useState<ItemMasterRecord[]>([]);
   const [_psirData, setPsirData] = useState<any[]>([]);
+  const { closingStockFor } = useStockLedger(user?.uid);
+
+  // Ledger balance when the ledger knows the item, else the stock record's stored closing stock
+  const getClosingStock = (itemCode: string, stockRec: { closingStock?: unknown } | undefined) => {
+    const ledgerStock = closingStockFor(itemCode);
+    if (ledgerStock !== null) return ledgerStock;
+    return stockRec && !isNaN(Number(stockRec.closingStock)) ? Number(stockRec.closingStock) : 0;
+  };
 
   const [newEntry, setNewEntry] = useState<PurchaseEntry>({
     orderPlaceDate: "",
@@ -368,7 +368,7 @@ const PurchaseModule: React.FC<PurchaseModuleProps> = ({ user }) => {
             // Get closing stock from stock-records (same as IndentModule.getStock)
             const stocks = _stockRecords;
             const stockRec = stocks.find((s: any) => normalizeField(s.itemCode) === normCode);
-            const closingStock = stockRec && !isNaN(Number(stockRec.closingStock)) ? Number(stockRec.closingStock) : 0;
+            const closingStock = getClosingStock(String(indentItem.itemCode || indentItem.Code || ''), stockRec);
 
             let display: number;
             if (cumulativeQty > 0) {
@@ -448,7 +448,7 @@ const PurchaseModule: React.FC<PurchaseModuleProps> = ({ user }) => {
 
             const stocks = _stockRecords;
             const stockRec = stocks.find((s: any) => normalizeField(s.itemCode) === normalizeField(indentItem.itemCode || indentItem.Code || ''));
-            const closingStock = stockRec && !isNaN(Number(stockRec.closingStock)) ? Number(stockRec.closingStock) : 0;
+            const closingStock = getClosingStock(String(indentItem.itemCode || indentItem.Code || ''), stockRec);
 
             let display: number;
             if (cumulativeQty > 0) {
@@ -563,7 +563,7 @@ const PurchaseModule: React.FC<PurchaseModuleProps> = ({ user }) => {
 
             const stocks = _stockRecords;
             const stockRec = stocks.find((s: any) => normalizeField(s.itemCode) === normCode);
-            const closingStock = stockRec && !isNaN(Number(stockRec.closingStock)) ? Number(stockRec.closingStock) : 0;
+            const closingStock = getClosingStock(String(indentItem.itemCode || indentItem.Code || ''), stockRec);
 
             let display: number;
             if (cumulativeQty > 0) {
@@ -641,7 +641,7 @@ const PurchaseModule: React.FC<PurchaseModuleProps> = ({ user }) => {
 
             const stocks = _stockRecords;
             const stockRec = stocks.find((s: any) => normalizeField(s.itemCode) === normalizeField(indentItem.itemCode || indentItem.Code || ''));
-            const closingStock = stockRec && !isNaN(Number(stockRec.closingStock)) ? Number(stockRec.closingStock) : 0;
+            const closingStock = getClosingStock(String(indentItem.itemCode || indentItem.Code || ''), stockRec);
 
             let display: number;
             if (cumulativeQty > 0) {
@@ -801,8 +801,9 @@ const PurchaseModule: React.FC<PurchaseModuleProps> = ({ user }) => {
         date: '2025-11-20' 
       }
     ];
-    replaceFirestoreCollection(uid, 'openIndentItems', sampleOpen).catch(err => console.error(err));
-    replaceFirestoreCollection(uid, 'closedIndentItems', sampleClosed).catch(err => console.error(err));
+    const indentItemKey = (item: { indentNo: string; itemCode: string }) => makeKey(item.indentNo, item.itemCode);
+    replaceFirestoreCollection(uid, 'openIndentItems', sampleOpen, { keyOf: indentItemKey }).catch(err => console.error(err));
+    replaceFirestoreCollection(uid, 'closedIndentItems', sampleClosed, { keyOf: indentItemKey }).catch(err => console.error(err));
     setDebugOutput(prev => prev + '\n\n✅ Seeded sample indent items into Firestore.');
   };
 
@@ -813,11 +814,15 @@ const PurchaseModule: React.FC<PurchaseModuleProps> = ({ user }) => {
     console.log('[PurchaseModule] Saving data:', data.length, 'entries');
     // Always deduplicate before saving to prevent duplicates from reaching Firestore
     const dedupedData = deduplicateEntries(data);
-    replaceFirestoreCollection(uid, 'purchaseData', dedupedData).catch(err => console.error(err));
-    replaceFirestoreCollection(uid, 'purchaseOrders', dedupedData).catch(err => console.error(err));
+    // Matched by indent and item, as purchaseData and its purchaseOrders mirror get separate ids.
+    // Saved entries keep their approval fields (only saveDecision changes those) and the debit
+    // note refs the Debit Notes module back-fills, which a stale list here would otherwise revert
+    const options = { keyOf: (entry: PurchaseEntry) => makeKey(entry.indentNo, entry.itemCode), keep: ['approvalStatus', 'approvals', 'raisedBy', 'debitNoteOrQtyReturned'] };
+    replaceFirestoreCollection(uid, 'purchaseData', dedupedData, options).catch(err => console.error(err));
+    replaceFirestoreCollection(uid, 'purchaseOrders', dedupedData, options).catch(err => console.error(err));
     
     try {
-      bus.dispatchEvent(new CustomEvent('purchaseOrders.updated', { detail: dedupedData }));
+      bus.emit('purchaseOrders.updated', dedupedData);
     } catch (err) {
       console.error('[PurchaseModule] Error dispatching event:', err);
     }
@@ -829,10 +834,17 @@ const PurchaseModule: React.FC<PurchaseModuleProps> = ({ user }) => {
   const manuallyImportAndOverwrite = () => {
     console.log('[PurchaseModule] Manual import triggered');
     
-    const allIndentItems = [...openIndentItems, ...closedIndentItems];
+    // Only indents that have been through their approval chain become purchase orders. The
+    // approval is read from the indent itself; the item lists are a cache anyone publishing them writes
+    const approvedIndentNos = new Set(indentData.filter(isApproved).map(indent => normalizeField(indent.indentNo)));
+    const indentItems = [...openIndentItems, ...closedIndentItems];
+    const allIndentItems = indentItems.filter(item => approvedIndentNos.has(normalizeField(item.indentNo)));
+    const awaitingApproval = new Set(indentItems.filter(item => !approvedIndentNos.has(normalizeField(item.indentNo))).map(item => item.indentNo)).size;
 
     if (allIndentItems.length === 0) {
-      alert('No indent items found in storage');
+      alert(awaitingApproval > 0
+        ? `No approved indent items to import (${awaitingApproval} indent(s) pending approval or rejected)`
+        : 'No indent items found in storage');
       return;
     }
 
@@ -846,11 +858,17 @@ const PurchaseModule: React.FC<PurchaseModuleProps> = ({ user }) => {
       });
 
       const updatedEntries = [...entries];
+      const binnedKeys = new Set(binnedEntries.map(entry => makeKey(entry.indentNo, entry.itemCode)));
+      let binnedCount = 0;
 
       allIndentItems.forEach((item: any) => {
         if (!item.indentNo) return;
         
         const key = makeKey(item.indentNo, item.itemCode || '');
+        if (!existingEntriesMap.has(key) && binnedKeys.has(key)) {
+          binnedCount++;
+          return;
+        }
         const stock = getStockFromIndent(item); // Get actual stock from indent
         const indentQty = getIndentQtyFromIndent(item);
         
@@ -901,6 +919,7 @@ const PurchaseModule: React.FC<PurchaseModuleProps> = ({ user }) => {
             grnNo: '',
             debitNoteOrQtyReturned: '',
             remarks: `Imported from indent: ${indentStatus}, Stock: ${stock}`,
+            ...startApproval('purchase', uid),
           };
           updatedEntries.push(newEntryObj);
           createdCount++;
@@ -912,7 +931,9 @@ const PurchaseModule: React.FC<PurchaseModuleProps> = ({ user }) => {
       setEntries(dedupedEntries);
       setLastImport(Date.now());
 
-      alert(`✅ Import completed: Updated ${updatedCount}, Created ${createdCount}. Duplicates removed. Status and Stock synced from indent module.`);
+      const skipped = (awaitingApproval > 0 ? ` Skipped ${awaitingApproval} indent(s) that are not approved.` : '')
+        + (binnedCount > 0 ? ` Skipped ${binnedCount} item(s) in the recycle bin.` : '');
+      alert(`✅ Import completed: Updated ${updatedCount}, Created ${createdCount}. Duplicates removed. Status and Stock synced from indent module.${skipped}`);
     } catch (error) {
       console.error('[PurchaseModule] Import error:', error);
       alert('❌ Error during import');
@@ -950,6 +971,14 @@ const PurchaseModule: React.FC<PurchaseModuleProps> = ({ user }) => {
     return unsub;
   }, [uid]);
 
+  useEffect(() => purchaseDataRepository.subscribeDeleted(uid, docs => setBinnedEntries(docs)), [uid]);
+
+  // A restored entry is saved again so its purchaseOrders mirror comes back out of the recycle bin too
+  const restoreMirror = (id: string) => {
+    const restored = binnedEntries.find(entry => entry.id === id);
+    if (restored) saveEntries([...entries, restored]);
+  };
+
   // 🎯 FIXED: Real-time updates - SYNC STATUS AND STOCK FROM INDENT MODULE
   useEffect(() => {
     const handler = (e: any) => {
@@ -1041,14 +1070,14 @@ const PurchaseModule: React.FC<PurchaseModuleProps> = ({ user }) => {
     };
 
     try {
-      bus.addEventListener('indents.updated', handler as EventListener);
+      bus.on('indents.updated', handler);
     } catch (err) {
       console.error('[PurchaseModule] Error registering indents.updated listener:', err);
     }
 
     return () => {
       try {
-        bus.removeEventListener('indents.updated', handler as EventListener);
+        bus.off('indents.updated', handler);
       } catch (err) {
         console.error('[PurchaseModule] Error removing indents.updated listener:', err);
       }
@@ -1155,21 +1184,35 @@ const PurchaseModule: React.FC<PurchaseModuleProps> = ({ user }) => {
       setEntries(prev => [...prev]);
     };
 
-    bus.addEventListener('psir.updated', handlePSIRUpdate as EventListener);
+    bus.on('psir.updated', handlePSIRUpdate);
     console.log('[PurchaseModule] Listeners registered for PSIR updates');
 
     return () => {
-      bus.removeEventListener('psir.updated', handlePSIRUpdate as EventListener);
+      bus.off('psir.updated', handlePSIRUpdate);
       console.log('[PurchaseModule] Listeners removed for PSIR updates');
     };
   }, []);
 
-  // Load item master names
+  // Load item master names; inactive items are not offered for new entries
   useEffect(() => {
-    if (Array.isArray(_itemMasterData)) {
-      setItemNames(_itemMasterData.map((i: any) => i.itemName).filter(Boolean));
+    if (Array.isArray(itemMasterData)) {
+      setItemNames(itemMasterData.filter(isActiveItem).map(i => i.itemName).filter(Boolean));
     }
-  }, [_itemMasterData]);
+  }, [itemMasterData]);
+
+  // Quantities are stored in the item's base UOM; the purchase UOM equivalent is shown alongside
+  const findItem = itemLookup(itemMasterData);
+  const renderQty = (qty: number, e: Pick<PurchaseEntry, 'itemCode' | 'itemName'>) => {
+    const item = findItem(e.itemCode, e.itemName);
+    const inPurchaseUom = formatPurchaseQty(qty, item);
+    return (
+      <>
+        {formatQty(qty, item)}
+        {inPurchaseUom && <div style={{ fontSize: 11, color: '#555' }}>= {inPurchaseUom}</div>}
+      </>
+    );
+  };
+  const preferredVendorsFor = (e: Pick<PurchaseEntry, 'itemCode' | 'itemName'>) => findItem(e.itemCode, e.itemName)?.preferredVendors || [];
 
   // One-time sync at startup: refresh purchaseData from indent storage so Stock reflects current indent values
   useEffect(() => {
@@ -1356,7 +1399,7 @@ const PurchaseModule: React.FC<PurchaseModuleProps> = ({ user }) => {
     // Ensure purchaseQty follows status rule: when status is 'Open' => PO Qty = live stock, else (Closed) => PO Qty = 0
     const computedLive = getLiveStockForEntry(newEntry as any) || newEntry.purchaseQty || 0;
     const computedPurchaseQty = (newEntry.indentStatus === 'Open') ? computedLive : 0;
-    const entryToSave = { ...newEntry, purchaseQty: computedPurchaseQty };
+    const entryToSave = { ...newEntry, purchaseQty: computedPurchaseQty, ...startApproval('purchase', uid) };
     const updatedEntries = [...entries, entryToSave];
     const savedEntries = saveEntries(updatedEntries);
     setEntries(savedEntries);
@@ -1424,6 +1467,48 @@ const PurchaseModule: React.FC<PurchaseModuleProps> = ({ user }) => {
     setEditEntry(null);
   };
 
+  // Approve or reject the step of the PO's approval chain that is waiting on this user
+  const handleDecision = (index: number, decision: 'approved' | 'rejected') => {
+    const entry = entries[index];
+    const comment = window.prompt(
+      decision === 'rejected' ? `Reason for rejecting PO ${entry.poNo || entry.indentNo}:` : `Comment for approving PO ${entry.poNo || entry.indentNo} (optional):`,
+      ''
+    );
+    if (comment === null) return;
+    if (decision === 'rejected' && !comment.trim()) {
+      alert('Please give a reason for the rejection');
+      return;
+    }
+    const approver = { uid, name: user?.displayName || user?.email || uid };
+    let decided: PurchaseEntry;
+    try {
+      decided = decide('purchase', entry, decision, approver, comment);
+    } catch (err) {
+      alert(err instanceof Error ? err.message : String(err));
+      return;
+    }
+    setEntries(entries.map((e, i) => (i === index ? decided : e)));
+    saveDecision(entry, decided).catch(err => {
+      console.error('[PurchaseModule] Failed to save approval:', err);
+      alert('Failed to save the approval. Please try again.');
+    });
+  };
+
+  // A decision updates just this entry's approval fields, in purchaseData and its
+  // purchaseOrders mirror (matched by indent and item, as the two get separate ids),
+  // rather than rewriting both collections over other users' edits
+  const saveDecision = async (entry: PurchaseEntry, decided: PurchaseEntry) => {
+    const key = makeKey(entry.indentNo, entry.itemCode);
+    const [data, orders] = await Promise.all([getFirestoreDocs(uid, 'purchaseData'), getFirestoreDocs(uid, 'purchaseOrders')]);
+    const targets = [
+      ...data.filter(d => makeKey(d.indentNo, d.itemCode) === key).map(d => ['purchaseData', d.id] as const),
+      ...orders.filter(d => makeKey(d.indentNo, d.itemCode) === key).map(d => ['purchaseOrders', d.id] as const),
+    ];
+    if (targets.length === 0) throw new Error(`PO ${entry.poNo || entry.indentNo} is not saved yet`);
+    await Promise.all(targets.map(([collectionName, docId]) => updateFirestoreDoc(uid, collectionName, docId, approvalFields(decided))));
+    bus.emit('purchaseOrders.updated', entries.map(e => (e === entry ? decided : e)));
+  };
+
   const handleDelete = (index: number) => {
     const updated = entries.filter((_, i) => i !== index);
     setEntries(updated);
@@ -1452,19 +1537,21 @@ const PurchaseModule: React.FC<PurchaseModuleProps> = ({ user }) => {
             <strong>Entries: {entries.length}</strong> | 
             <strong> Last Import: {lastImport ? new Date(lastImport).toLocaleTimeString() : 'Never'}</strong>
           </div>
-          <button 
-            onClick={manuallyImportAndOverwrite}
-            style={{
-              padding: '6px 12px',
-              background: '#2196f3',
-              color: 'white',
-              border: 'none',
-              borderRadius: '4px',
-              cursor: 'pointer'
-            }}
-          >
-            Import All Indents
-          </button>
+          {permissions.create && (
+            <button 
+              onClick={manuallyImportAndOverwrite}
+              style={{
+                padding: '6px 12px',
+                background: '#2196f3',
+                color: 'white',
+                border: 'none',
+                borderRadius: '4px',
+                cursor: 'pointer'
+              }}
+            >
+              Import All Indents
+            </button>
+          )}
           <button 
             onClick={refreshData}
             style={{
@@ -1525,8 +1612,8 @@ const PurchaseModule: React.FC<PurchaseModuleProps> = ({ user }) => {
           <div style={{ marginTop: 12, padding: 12, background: '#fff3e0', border: '1px solid #ffb74d', borderRadius: 6 }}>
             <div style={{ display: 'flex', gap: 8, alignItems: 'center', flexWrap: 'wrap' }}>
               <button onClick={generateDebugReport} style={{ padding: '6px 10px', cursor: 'pointer' }}>Generate Report</button>
-              <button onClick={persistIndentStockToPurchaseData} style={{ padding: '6px 10px', cursor: 'pointer' }}>Persist Stock</button>
-              <button onClick={seedSampleIndents} style={{ padding: '6px 10px', cursor: 'pointer' }}>Seed Sample</button>
+              {permissions.edit && <button onClick={persistIndentStockToPurchaseData} style={{ padding: '6px 10px', cursor: 'pointer' }}>Persist Stock</button>}
+              {permissions.create && <button onClick={seedSampleIndents} style={{ padding: '6px 10px', cursor: 'pointer' }}>Seed Sample</button>}
               <button onClick={clearDebugOutput} style={{ padding: '6px 10px', cursor: 'pointer' }}>Clear Output</button>
             </div>
             <div style={{ marginTop: 8 }}>
@@ -1570,11 +1657,15 @@ const PurchaseModule: React.FC<PurchaseModuleProps> = ({ user }) => {
             placeholder="Supplier Name *"
             value={newEntry.supplierName}
             onChange={handleNewChange}
+            list="purchase-new-preferred-vendors"
             style={{ 
               border: !newEntry.supplierName ? '2px solid red' : '1px solid #ccc',
               padding: '6px'
             }}
           />
+          <datalist id="purchase-new-preferred-vendors">
+            {preferredVendorsFor(newEntry).map(v => <option key={v} value={v} />)}
+          </datalist>
           <select
             name="itemName"
             value={newEntry.itemName}
@@ -1626,19 +1717,21 @@ const PurchaseModule: React.FC<PurchaseModuleProps> = ({ user }) => {
             onChange={handleNewChange}
             style={{ padding: '6px', width: '100px' }}
           />
-          <button 
-            onClick={handleAddEntry} 
-            style={{ 
-              background: '#4caf50', 
-              color: 'white', 
-              border: 'none',
-              padding: '6px 12px',
-              borderRadius: '4px',
-              cursor: 'pointer'
-            }}
-          >
-            Add Entry
-          </button>
+          {permissions.create && (
+            <button 
+              onClick={handleAddEntry} 
+              style={{ 
+                background: '#4caf50', 
+                color: 'white', 
+                border: 'none',
+                padding: '6px 12px',
+                borderRadius: '4px',
+                cursor: 'pointer'
+              }}
+            >
+              Add Entry
+            </button>
+          )}
         </div>
       </div>
 
@@ -1646,7 +1739,7 @@ const PurchaseModule: React.FC<PurchaseModuleProps> = ({ user }) => {
       <h3>Purchase Orders ({entries.length})</h3>
       {entries.length === 0 ? (
         <div style={{ padding: 20, textAlign: 'center', background: '#f5f5f5' }}>
-          No purchase orders found. Click "Import All Indents" to import from open and closed indent items.
+          No purchase orders found. Click "Import All Indents" to import the items of approved indents.
         </div>
       ) : (
         <div style={{ overflowX: 'auto' }}>
@@ -1665,10 +1758,12 @@ const PurchaseModule: React.FC<PurchaseModuleProps> = ({ user }) => {
                   <th>PO Qty</th>
                 <th style={{ background: '#e3f2fd' }}>🎯 Stock</th>
                 <th>Status</th>
+                <th>Approval</th>
                 <th>Received</th>
                 <th>OK</th>
                 <th>Rejected</th>
                 <th>GRN No</th>
+                <th>Debit Note</th>
                 <th>Remarks</th>
                 <th>Actions</th>
               </tr>
@@ -1708,8 +1803,8 @@ const PurchaseModule: React.FC<PurchaseModuleProps> = ({ user }) => {
                     }}>
                       {e.supplierName || 'Not set'}
                     </td>
-                    <td>{e.originalIndentQty}</td>
-                    <td>{e.indentStatus === 'Open' ? Math.abs(liveStock) : 0}</td>
+                    <td>{renderQty(e.originalIndentQty, e)}</td>
+                    <td>{renderQty(e.indentStatus === 'Open' ? Math.abs(liveStock) : 0, e)}</td>
                     <td>
                       {(() => {
                         const displayValNum = liveStock;
@@ -1745,39 +1840,73 @@ const PurchaseModule: React.FC<PurchaseModuleProps> = ({ user }) => {
                     }}>
                       {e.indentStatus}
                     </td>
-                    <td>{e.receivedQty}</td>
-                    <td>{e.okQty}</td>
-                    <td>{e.rejectedQty}</td>
+                    <td title={approvalHistory('purchase', e) || undefined}>
+                      <span style={{
+                        background: approvalColors[approvalStatusOf(e)],
+                        color: '#fff',
+                        fontWeight: 600,
+                        padding: '4px 10px',
+                        borderRadius: 6,
+                        display: 'inline-block',
+                        whiteSpace: 'nowrap',
+                      }}>
+                        {approvalLabel('purchase', e)}
+                      </span>
+                    </td>
+                    <td>{renderQty(e.receivedQty, e)}</td>
+                    <td>{renderQty(e.okQty, e)}</td>
+                    <td>{renderQty(e.rejectedQty, e)}</td>
                     <td>{e.grnNo || 'N/A'}</td>
+                    <td style={{ fontSize: '12px' }}>{e.debitNoteOrQtyReturned}</td>
                     <td style={{ fontSize: '12px' }}>{e.remarks}</td>
                     <td>
-                      <button 
-                        onClick={() => handleEditAll(i)}
-                        style={{ 
-                          marginRight: '4px',
-                          background: '#2196f3',
-                          color: 'white',
-                          border: 'none',
-                          padding: '4px 8px',
-                          borderRadius: '3px',
-                          cursor: 'pointer'
-                        }}
-                      >
-                        Edit
-                      </button>
-                      <button 
-                        onClick={() => handleDelete(i)}
-                        style={{
-                          background: '#f44336',
-                          color: 'white',
-                          border: 'none',
-                          padding: '4px 8px',
-                          borderRadius: '3px',
-                          cursor: 'pointer'
-                        }}
-                      >
-                        Delete
-                      </button>
+                      {canDecide('purchase', e, hasPermission, uid) && (
+                        <>
+                          <button
+                            onClick={() => handleDecision(i, 'approved')}
+                            style={{ marginRight: '4px', background: '#43a047', color: 'white', border: 'none', padding: '4px 8px', borderRadius: '3px', cursor: 'pointer' }}
+                          >
+                            Approve
+                          </button>
+                          <button
+                            onClick={() => handleDecision(i, 'rejected')}
+                            style={{ marginRight: '4px', background: '#fb8c00', color: 'white', border: 'none', padding: '4px 8px', borderRadius: '3px', cursor: 'pointer' }}
+                          >
+                            Reject
+                          </button>
+                        </>
+                      )}
+                      {permissions.edit && (
+                        <button 
+                          onClick={() => handleEditAll(i)}
+                          style={{ 
+                            marginRight: '4px',
+                            background: '#2196f3',
+                            color: 'white',
+                            border: 'none',
+                            padding: '4px 8px',
+                            borderRadius: '3px',
+                            cursor: 'pointer'
+                          }}
+                        >
+                          Edit
+                        </button>
+                      )}
+                      {permissions.delete && (
+                        <button 
+                          onClick={() => handleDelete(i)}
+                          style={{
+                            background: '#f44336',
+                            color: 'white',
+                            border: 'none',
+                            padding: '4px 8px',
+                            borderRadius: '3px',
+                            cursor: 'pointer'
+                          }}
+                        >
+                          Delete
+                        </button>
+                      )}
                     </td>
                   </tr>
                 );
@@ -1835,6 +1964,7 @@ const PurchaseModule: React.FC<PurchaseModuleProps> = ({ user }) => {
                 name="supplierName"
                 value={editEntry.supplierName}
                 onChange={handleEditChange}
+                list="purchase-edit-preferred-vendors"
                 style={{ 
                   width: '100%', 
                   padding: '8px',
@@ -1842,6 +1972,9 @@ const PurchaseModule: React.FC<PurchaseModuleProps> = ({ user }) => {
                   border: !editEntry.supplierName ? '2px solid red' : '1px solid #ccc'
                 }}
               />
+              <datalist id="purchase-edit-preferred-vendors">
+                {preferredVendorsFor(editEntry).map(v => <option key={v} value={v} />)}
+              </datalist>
             </div>
             <div>
               <label><strong>Item Name</strong></label>
@@ -1876,6 +2009,16 @@ const PurchaseModule: React.FC<PurchaseModuleProps> = ({ user }) => {
                 onChange={handleEditChange}
                 style={{ width: '100%', padding: '8px', marginTop: '4px' }}
               />
+              {(() => {
+                const item = findItem(editEntry.itemCode, editEntry.itemName);
+                const inPurchaseUom = formatPurchaseQty(editEntry.purchaseQty || 0, item);
+                return (
+                  <div style={{ fontSize: 12, color: '#555', marginTop: 2 }}>
+                    {formatQty(editEntry.purchaseQty || 0, item)}
+                    {inPurchaseUom && ` = ${inPurchaseUom} (${describeConversion(item)})`}
+                  </div>
+                );
+              })()}
             </div>
             <div>
               <label><strong>Stock</strong></label>
@@ -1903,21 +2046,23 @@ const PurchaseModule: React.FC<PurchaseModuleProps> = ({ user }) => {
             </div>
           </div>
           <div>
-            <button 
-              onClick={handleSaveEdit}
-              disabled={!editEntry.poNo || !editEntry.supplierName}
-              style={{
-                background: (!editEntry.poNo || !editEntry.supplierName) ? '#ccc' : '#4caf50',
-                color: 'white',
-                border: 'none',
-                padding: '10px 20px',
-                borderRadius: '4px',
-                cursor: (!editEntry.poNo || !editEntry.supplierName) ? 'not-allowed' : 'pointer',
-                marginRight: '8px'
-              }}
-            >
-              Save Changes
-            </button>
+            {permissions.edit && (
+              <button 
+                onClick={handleSaveEdit}
+                disabled={!editEntry.poNo || !editEntry.supplierName}
+                style={{
+                  background: (!editEntry.poNo || !editEntry.supplierName) ? '#ccc' : '#4caf50',
+                  color: 'white',
+                  border: 'none',
+                  padding: '10px 20px',
+                  borderRadius: '4px',
+                  cursor: (!editEntry.poNo || !editEntry.supplierName) ? 'not-allowed' : 'pointer',
+                  marginRight: '8px'
+                }}
+              >
+                Save Changes
+              </button>
+            )}
             <button 
               onClick={cancelEdit}
               style={{
@@ -1939,6 +2084,16 @@ const PurchaseModule: React.FC<PurchaseModuleProps> = ({ user }) => {
           )}
         </div>
       )}
+
+      <RecycleBin
+        uid={uid}
+        source={purchaseDataRepository}
+        describe={entry => `${entry.poNo || 'No PO'} - ${entry.indentNo} / ${entry.itemCode || entry.itemName}`}
+        title="Purchase Recycle Bin"
+        canRestore={permissions.edit}
+        canPurge={permissions.delete}
+        onRestored={restoreMirror}
+      />
     </div>
   );
 };
@@ -0,0 +1,251 @@
+import React, { useEffect, useState } from 'react';
+import { Chart as ChartJS, CategoryScale, LinearScale, BarElement, Tooltip, Legend } from 'chart.js';
+import { Bar } from 'react-chartjs-2';
+import { subscribeInHouseIssues, subscribeItemMaster, subscribePurchaseData, subscribeSalesOrders, subscribeVendorDepts, subscribeVSIRRecords } from '../utils/firestoreServices';
+import { subscribeFirestoreDocs } from '../utils/firestoreSync';
+import { subscribePsirs } from '../utils/psirService';
+import { oaFulfilment, SHORTAGE_LABELS } from '../utils/salesDashboard';
+import type { OaFulfilment } from '../utils/salesDashboard';
+import type { ReadinessSources } from '../utils/salesOrders';
+import type { InHouseIssue, Indent, ItemMasterRecord, PSIR, PurchaseEntry, SalesOrder, SalesOrderStatus, VendorDeptOrder, VSRIRecord } from '../utils/recordSchemas';
+
+ChartJS.register(CategoryScale, LinearScale, BarElement, Tooltip, Legend);
+
+interface SalesDashboardModuleProps {
+  uid: string;
+  /** Fulfilment is rolled up from the indent, purchase, PSIR, vendor and issue records the user can read */
+  hasPermission: (permission: string) => boolean;
+}
+
+const cardStyle: React.CSSProperties = { background: '#fff', border: '1px solid #e0e0e0', borderRadius: 8, padding: 16 };
+const cellStyle: React.CSSProperties = { border: '1px solid #eee', padding: 6, textAlign: 'left', verticalAlign: 'top' };
+const headStyle: React.CSSProperties = { ...cellStyle, background: '#e3e6f3', fontWeight: 600 };
+const inputStyle: React.CSSProperties = { padding: 6, border: '1px solid #ccc', borderRadius: 4 };
+
+// Bars in the completion chart; the table below lists every OA
+const CHART_LIMIT = 20;
+
+const completionColor = (f: OaFulfilment) => (f.completion >= 100 ? '#43a047' : f.late ? '#e53935' : f.blocked ? '#fb8c00' : '#1976d2');
+
+/** Fulfilment of customer orders (OA): completion, what is short and when it should arrive */
+const SalesDashboardModule: React.FC<SalesDashboardModuleProps> = ({ uid, hasPermission }) => {
+  const [orders, setOrders] = useState<Array<SalesOrder & { id: string }>>([]);
+  const [itemMaster, setItemMaster] = useState<ItemMasterRecord[]>([]);
+  const [indents, setIndents] = useState<Indent[]>([]);
+  const [purchases, setPurchases] = useState<PurchaseEntry[]>([]);
+  const [psirs, setPsirs] = useState<PSIR[]>([]);
+  const [vendorOrders, setVendorOrders] = useState<VendorDeptOrder[]>([]);
+  const [vsirRecords, setVsirRecords] = useState<VSRIRecord[]>([]);
+  const [inHouseIssues, setInHouseIssues] = useState<InHouseIssue[]>([]);
+  const [statusFilter, setStatusFilter] = useState<SalesOrderStatus | ''>('open');
+  const [search, setSearch] = useState('');
+  const [lateOnly, setLateOnly] = useState(false);
+
+  const canViewSales = hasPermission('sales:view');
+  const canViewItems = hasPermission('itemMaster:view');
+  const canViewIndents = hasPermission('indent:view');
+  const canViewPurchase = hasPermission('purchase:view');
+  const canViewPsir = hasPermission('psir:view');
+  const canViewVendorDept = hasPermission('vendorDept:view');
+  const canViewVsir = hasPermission('vsir:view');
+  const canViewIssues = hasPermission('inHouseIssue:view');
+
+  useEffect(() => {
+    if (!uid || !canViewSales) return;
+    return subscribeSalesOrders(uid, docs => setOrders(docs));
+  }, [uid, canViewSales]);
+
+  useEffect(() => {
+    if (!uid || !canViewItems) return;
+    return subscribeItemMaster(uid, docs => setItemMaster(docs));
+  }, [uid, canViewItems]);
+
+  useEffect(() => {
+    if (!uid || !canViewIndents) return;
+    return subscribeFirestoreDocs(uid, 'indentData', docs => setIndents(docs as Indent[]));
+  }, [uid, canViewIndents]);
+
+  useEffect(() => {
+    if (!uid || !canViewPurchase) return;
+    return subscribePurchaseData(uid, docs => setPurchases(docs));
+  }, [uid, canViewPurchase]);
+
+  useEffect(() => {
+    if (!uid || !canViewPsir) return;
+    return subscribePsirs(uid, docs => setPsirs(docs));
+  }, [uid, canViewPsir]);
+
+  useEffect(() => {
+    if (!uid || !canViewVendorDept) return;
+    return subscribeVendorDepts(uid, docs => setVendorOrders(docs));
+  }, [uid, canViewVendorDept]);
+
+  useEffect(() => {
+    if (!uid || !canViewVsir) return;
+    return subscribeVSIRRecords(uid, docs => setVsirRecords(docs));
+  }, [uid, canViewVsir]);
+
+  useEffect(() => {
+    if (!uid || !canViewIssues) return;
+    return subscribeInHouseIssues(uid, docs => setInHouseIssues(docs));
+  }, [uid, canViewIssues]);
+
+  const sources: ReadinessSources = { indents, purchases, psirs, vendorOrders, vsirRecords, inHouseIssues };
+  const term = search.trim().toUpperCase();
+  const fulfilment = orders
+    .filter(o => (!statusFilter || o.status === statusFilter)
+      && (!term || [o.oaNo, o.customerName, o.customerPoNo].some(v => String(v || '').toUpperCase().includes(term))))
+    .map(o => oaFulfilment(o, sources, itemMaster))
+    .filter(f => !lateOnly || f.late)
+    .sort((a, b) => (a.dueDate || '9999').localeCompare(b.dueDate || '9999') || a.order.oaNo.localeCompare(b.order.oaNo));
+
+  const complete = fulfilment.filter(f => f.completion >= 100).length;
+  const blocked = fulfilment.filter(f => f.blocked && f.shortages.length > 0).length;
+  const late = fulfilment.filter(f => f.late).length;
+  const charted = fulfilment.slice(0, CHART_LIMIT);
+
+  // Materials short across all the shown OAs
+  const blocking = new Map<string, { itemName: string; itemCode: string; qty: number; oaNos: string[] }>();
+  fulfilment.forEach(f => f.shortages.forEach(s => {
+    const key = s.itemCode || s.itemName;
+    const row = blocking.get(key) || { itemName: s.itemName, itemCode: s.itemCode, qty: 0, oaNos: [] };
+    blocking.set(key, { ...row, qty: row.qty + s.qty, oaNos: [...row.oaNos, f.order.oaNo] });
+  }));
+  const blockingRows = [...blocking.values()].sort((a, b) => b.oaNos.length - a.oaNos.length || b.qty - a.qty);
+
+  if (!canViewSales) {
+    return (
+      <div>
+        <h2>Sales Dashboard</h2>
+        <p style={{ color: '#888' }}>You need Sales view access to see customer orders.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <h2>Sales Dashboard</h2>
+
+      <div style={{ display: 'flex', gap: 12, alignItems: 'center', flexWrap: 'wrap', marginBottom: 16 }}>
+        <input placeholder="Search OA / customer / PO" value={search} onChange={e => setSearch(e.target.value)} style={inputStyle} />
+        <select value={statusFilter} onChange={e => setStatusFilter(e.target.value as SalesOrderStatus | '')} style={inputStyle}>
+          <option value="">All statuses</option>
+          <option value="open">Open</option>
+          <option value="closed">Closed</option>
+          <option value="cancelled">Cancelled</option>
+        </select>
+        <label style={{ display: 'flex', gap: 6, alignItems: 'center' }}>
+          <input type="checkbox" checked={lateOnly} onChange={e => setLateOnly(e.target.checked)} />
+          Late only
+        </label>
+        {(!canViewIndents || !canViewPurchase || !canViewPsir || !canViewVendorDept || !canViewVsir || !canViewIssues) && (
+          <span style={{ fontSize: 12, color: '#e65100' }}>Some records are hidden by your permissions, so figures may be understated.</span>
+        )}
+      </div>
+
+      <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fit, minmax(160px, 1fr))', gap: 12, marginBottom: 16 }}>
+        <div style={cardStyle}><div style={{ fontSize: 12, color: '#888' }}>Orders</div><div style={{ fontSize: 24, fontWeight: 600 }}>{fulfilment.length}</div></div>
+        <div style={cardStyle}><div style={{ fontSize: 12, color: '#888' }}>Material complete</div><div style={{ fontSize: 24, fontWeight: 600, color: '#43a047' }}>{complete}</div></div>
+        <div style={cardStyle}><div style={{ fontSize: 12, color: '#888' }}>Blocked (no date)</div><div style={{ fontSize: 24, fontWeight: 600, color: '#fb8c00' }}>{blocked}</div></div>
+        <div style={cardStyle}><div style={{ fontSize: 12, color: '#888' }}>Late</div><div style={{ fontSize: 24, fontWeight: 600, color: '#e53935' }}>{late}</div></div>
+      </div>
+
+      {charted.length > 0 && (
+        <div style={{ ...cardStyle, marginBottom: 16 }}>
+          <h3 style={{ margin: '0 0 8px', fontSize: 16 }}>Completion by OA{fulfilment.length > CHART_LIMIT ? ` (first ${CHART_LIMIT} by due date)` : ''}</h3>
+          <div style={{ height: Math.max(160, charted.length * 28) }}>
+            <Bar
+              data={{
+                labels: charted.map(f => `${f.order.oaNo} - ${f.order.customerName}`),
+                datasets: [{ label: 'Completion %', data: charted.map(f => f.completion), backgroundColor: charted.map(completionColor) }],
+              }}
+              options={{
+                indexAxis: 'y',
+                maintainAspectRatio: false,
+                scales: { x: { min: 0, max: 100 } },
+                plugins: { legend: { display: false } },
+              }}
+            />
+          </div>
+        </div>
+      )}
+
+      <div style={{ overflowX: 'auto', marginBottom: 24 }}>
+        <table style={{ width: '100%', borderCollapse: 'collapse', background: '#fafbfc' }}>
+          <thead>
+            <tr>
+              <th style={headStyle}>OA No</th>
+              <th style={headStyle}>Customer</th>
+              <th style={headStyle}>Due</th>
+              <th style={headStyle}>Completion</th>
+              <th style={headStyle}>Shortages</th>
+              <th style={headStyle}>Expected Completion</th>
+            </tr>
+          </thead>
+          <tbody>
+            {fulfilment.length === 0 && (
+              <tr><td style={{ ...cellStyle, color: '#888', textAlign: 'center' }} colSpan={6}>No sales orders</td></tr>
+            )}
+            {fulfilment.map(f => (
+              <tr key={f.order.oaNo}>
+                <td style={cellStyle}>{f.order.oaNo}</td>
+                <td style={cellStyle}>{f.order.customerName}</td>
+                <td style={{ ...cellStyle, color: f.late ? '#e53935' : undefined, fontWeight: f.late ? 600 : undefined }}>{f.dueDate || '-'}</td>
+                <td style={{ ...cellStyle, minWidth: 140 }}>
+                  <div style={{ background: '#e0e0e0', borderRadius: 4, height: 8, overflow: 'hidden' }}>
+                    <div style={{ width: `${Math.min(100, f.completion)}%`, height: '100%', background: completionColor(f) }} />
+                  </div>
+                  <span style={{ fontSize: 12 }}>{f.completion}%</span>
+                </td>
+                <td style={cellStyle}>
+                  {f.shortages.length === 0 ? <span style={{ color: '#43a047' }}>None</span> : (
+                    <ul style={{ margin: 0, paddingLeft: 16, fontSize: 13 }}>
+                      {f.shortages.map(s => (
+                        <li key={`${s.reason}-${s.itemCode || s.itemName}`}>
+                          {s.itemName || s.itemCode}: {s.qty} - {SHORTAGE_LABELS[s.reason]}{s.expectedDate ? ` (expected ${s.expectedDate})` : ''}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </td>
+                <td style={cellStyle}>
+                  {f.shortages.length === 0
+                    ? 'Material ready'
+                    : f.blocked
+                      ? <span style={{ color: '#fb8c00' }}>Blocked - no PO date for every shortage</span>
+                      : f.expectedCompletion}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {blockingRows.length > 0 && (
+        <>
+          <h3 style={{ marginBottom: 8 }}>Materials blocking orders</h3>
+          <table style={{ width: '100%', borderCollapse: 'collapse', background: '#fafbfc' }}>
+            <thead>
+              <tr>
+                <th style={headStyle}>Material</th>
+                <th style={headStyle}>Short</th>
+                <th style={headStyle}>OAs Waiting</th>
+              </tr>
+            </thead>
+            <tbody>
+              {blockingRows.map(row => (
+                <tr key={row.itemCode || row.itemName}>
+                  <td style={cellStyle}>{row.itemName} {row.itemCode && <span style={{ color: '#888' }}>({row.itemCode})</span>}</td>
+                  <td style={cellStyle}>{row.qty}</td>
+                  <td style={cellStyle}>{[...new Set(row.oaNos)].join(', ')}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default SalesDashboardModule;
@@ -0,0 +1,463 @@
+import React, { useEffect, useState } from 'react';
+import RecycleBin from '../components/RecycleBin';
+import { addSalesOrder, deleteSalesOrder, salesOrderRepository, subscribeInHouseIssues, subscribeItemMaster, subscribePurchaseData, subscribeSalesOrders, subscribeVendorDepts, subscribeVSIRRecords, updateSalesOrder } from '../utils/firestoreServices';
+import { subscribeFirestoreDocs } from '../utils/firestoreSync';
+import { subscribePsirs } from '../utils/psirService';
+import { nextOaNo, oaReadiness, readinessLabels } from '../utils/salesOrders';
+import type { OaReadiness, OaReadinessStatus, ReadinessSources } from '../utils/salesOrders';
+import { formatQty, isActiveItem, itemLookup } from '../utils/units';
+import type { InHouseIssue, Indent, ItemMasterRecord, PSIR, PurchaseEntry, SalesOrder, SalesOrderItem, SalesOrderStatus, VendorDeptOrder, VSRIRecord } from '../utils/recordSchemas';
+import type { ModulePermissions } from '../config/roleModuleConfig';
+
+interface SalesModuleProps {
+  uid: string;
+  permissions: ModulePermissions;
+  /** Readiness is rolled up from the indent, purchase, PSIR, vendor and issue records the user can read */
+  hasPermission: (permission: string) => boolean;
+}
+
+type OrderWithId = SalesOrder & { id: string };
+
+const cellStyle: React.CSSProperties = { border: '1px solid #eee', padding: 6, textAlign: 'left' };
+const headStyle: React.CSSProperties = { ...cellStyle, background: '#e3e6f3', fontWeight: 600 };
+const inputStyle: React.CSSProperties = { padding: 6, border: '1px solid #ccc', borderRadius: 4 };
+const primaryButton: React.CSSProperties = { padding: '8px 18px', background: '#1a237e', color: '#fff', border: 'none', borderRadius: 4, cursor: 'pointer' };
+const smallButton: React.CSSProperties = { padding: '4px 10px', border: 'none', borderRadius: 4, color: '#fff', cursor: 'pointer', marginRight: 4 };
+
+const statusColors: Record<SalesOrderStatus, string> = { open: '#1976d2', closed: '#43a047', cancelled: '#757575' };
+const readinessColors: Record<OaReadinessStatus, string> = { notIndented: '#9e9e9e', inProgress: '#fb8c00', ready: '#43a047', issued: '#2e7d32' };
+
+const today = () => new Date().toISOString().slice(0, 10);
+const norm = (val: unknown) => String(val ?? '').trim().toUpperCase();
+
+const emptyOrder = (): SalesOrder => ({
+  oaNo: '',
+  oaDate: today(),
+  customerName: '',
+  customerPoNo: '',
+  status: 'open',
+  remarks: '',
+  items: [],
+});
+
+const emptyLine = (): SalesOrderItem => ({ itemName: '', itemCode: '', qty: 0, dueDate: '' });
+
+const earliestDue = (order: SalesOrder) => order.items.map(i => i.dueDate).filter(Boolean).sort()[0] || '';
+
+/** Customer orders (OAs): what was ordered, when it is due, and how far the material for it has come */
+const SalesModule: React.FC<SalesModuleProps> = ({ uid, permissions, hasPermission }) => {
+  const [orders, setOrders] = useState<OrderWithId[]>([]);
+  const [binnedOrders, setBinnedOrders] = useState<OrderWithId[]>([]);
+  const [itemMaster, setItemMaster] = useState<ItemMasterRecord[]>([]);
+  const [indents, setIndents] = useState<Indent[]>([]);
+  const [purchases, setPurchases] = useState<PurchaseEntry[]>([]);
+  const [psirs, setPsirs] = useState<PSIR[]>([]);
+  const [vendorOrders, setVendorOrders] = useState<VendorDeptOrder[]>([]);
+  const [vsirRecords, setVsirRecords] = useState<VSRIRecord[]>([]);
+  const [inHouseIssues, setInHouseIssues] = useState<InHouseIssue[]>([]);
+  const [form, setForm] = useState<SalesOrder>(emptyOrder());
+  const [line, setLine] = useState<SalesOrderItem>(emptyLine());
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [statusFilter, setStatusFilter] = useState<SalesOrderStatus | ''>('open');
+  const [search, setSearch] = useState('');
+  const [busy, setBusy] = useState(false);
+
+  const canViewIndents = hasPermission('indent:view');
+  const canViewPurchase = hasPermission('purchase:view');
+  const canViewPsir = hasPermission('psir:view');
+  const canViewVendorDept = hasPermission('vendorDept:view');
+  const canViewVsir = hasPermission('vsir:view');
+  const canViewIssues = hasPermission('inHouseIssue:view');
+  const canViewItems = hasPermission('itemMaster:view');
+
+  useEffect(() => {
+    if (!uid) return;
+    return subscribeSalesOrders(uid, docs => setOrders(docs));
+  }, [uid]);
+
+  // Binned orders keep their OA numbers, so restoring one never clashes with a newer order
+  useEffect(() => {
+    if (!uid) return;
+    return salesOrderRepository.subscribeDeleted(uid, docs => setBinnedOrders(docs));
+  }, [uid]);
+
+  useEffect(() => {
+    if (!uid || !canViewItems) return;
+    return subscribeItemMaster(uid, docs => setItemMaster(docs));
+  }, [uid, canViewItems]);
+
+  useEffect(() => {
+    if (!uid || !canViewIndents) return;
+    return subscribeFirestoreDocs(uid, 'indentData', docs => setIndents(docs as Indent[]));
+  }, [uid, canViewIndents]);
+
+  useEffect(() => {
+    if (!uid || !canViewPurchase) return;
+    return subscribePurchaseData(uid, docs => setPurchases(docs));
+  }, [uid, canViewPurchase]);
+
+  useEffect(() => {
+    if (!uid || !canViewPsir) return;
+    return subscribePsirs(uid, docs => setPsirs(docs));
+  }, [uid, canViewPsir]);
+
+  useEffect(() => {
+    if (!uid || !canViewVendorDept) return;
+    return subscribeVendorDepts(uid, docs => setVendorOrders(docs));
+  }, [uid, canViewVendorDept]);
+
+  useEffect(() => {
+    if (!uid || !canViewVsir) return;
+    return subscribeVSIRRecords(uid, docs => setVsirRecords(docs));
+  }, [uid, canViewVsir]);
+
+  useEffect(() => {
+    if (!uid || !canViewIssues) return;
+    return subscribeInHouseIssues(uid, docs => setInHouseIssues(docs));
+  }, [uid, canViewIssues]);
+
+  const numberedOrders = [...orders, ...binnedOrders];
+
+  // Numbering only suggests the next OA-NNN while adding; the number stays editable
+  useEffect(() => {
+    if (editingId) return;
+    setForm(prev => (prev.oaNo ? prev : { ...prev, oaNo: nextOaNo([...orders, ...binnedOrders]) }));
+  }, [orders, binnedOrders, editingId]);
+
+  const findItem = itemLookup(itemMaster);
+  const activeItems = itemMaster.filter(isActiveItem);
+  const sources: ReadinessSources = { indents, purchases, psirs, vendorOrders, vsirRecords, inHouseIssues };
+  const readinessOf = (order: SalesOrder): OaReadiness => oaReadiness(order.oaNo, sources);
+
+  const chooseItem = (name: string) => {
+    const item = activeItems.find(i => i.itemName === name);
+    setLine(prev => ({ ...prev, itemName: name, itemCode: item?.itemCode || '' }));
+  };
+
+  const addLine = () => {
+    if (!line.itemName.trim() || !(Number(line.qty) > 0)) {
+      alert('Pick a model and enter a quantity above 0.');
+      return;
+    }
+    setForm(prev => ({ ...prev, items: [...prev.items, { ...line, itemName: line.itemName.trim(), qty: Number(line.qty) }] }));
+    setLine(emptyLine());
+  };
+
+  const removeLine = (idx: number) => {
+    setForm(prev => ({ ...prev, items: prev.items.filter((_, i) => i !== idx) }));
+  };
+
+  const resetForm = () => {
+    setEditingId(null);
+    setForm({ ...emptyOrder(), oaNo: nextOaNo(numberedOrders) });
+    setLine(emptyLine());
+  };
+
+  const handleSave = async () => {
+    const oaNo = form.oaNo.trim();
+    if (!oaNo || !form.customerName.trim()) {
+      alert('OA No and customer are required.');
+      return;
+    }
+    const clash = numberedOrders.find(o => o.id !== editingId && norm(o.oaNo) === norm(oaNo));
+    if (clash) {
+      alert(`${oaNo} is already used by another sales order${binnedOrders.includes(clash) ? ' in the recycle bin' : ''}.`);
+      return;
+    }
+    if (form.items.length === 0) {
+      alert('Add at least one model to the order.');
+      return;
+    }
+    const record: SalesOrder = {
+      ...form,
+      oaNo,
+      customerName: form.customerName.trim(),
+      customerPoNo: form.customerPoNo.trim(),
+      remarks: form.remarks.trim(),
+    };
+    setBusy(true);
+    try {
+      if (editingId) {
+        await updateSalesOrder(uid, editingId, record);
+      } else {
+        await addSalesOrder(uid, record);
+      }
+      resetForm();
+    } catch (err) {
+      console.error('[SalesModule] Could not save sales order:', err);
+      alert(err instanceof Error ? err.message : 'Could not save the sales order');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleEdit = (order: OrderWithId) => {
+    setEditingId(order.id);
+    setForm({
+      oaNo: order.oaNo,
+      oaDate: order.oaDate || '',
+      customerName: order.customerName,
+      customerPoNo: order.customerPoNo || '',
+      status: order.status,
+      remarks: order.remarks || '',
+      items: order.items.map(i => ({ ...i })),
+    });
+    setLine(emptyLine());
+  };
+
+  const setStatus = async (order: OrderWithId, status: SalesOrderStatus) => {
+    if (!permissions.edit) return;
+    if (status === 'cancelled' && !window.confirm(`Cancel ${order.oaNo}? Its indents and POs are left as they are.`)) return;
+    try {
+      await updateSalesOrder(uid, order.id, { status });
+    } catch (err) {
+      console.error('[SalesModule] Status update failed:', err);
+      alert(err instanceof Error ? err.message : 'Could not update the sales order');
+    }
+  };
+
+  const handleDelete = async (order: OrderWithId) => {
+    if (!permissions.delete) return;
+    if (!window.confirm(`Delete ${order.oaNo}?`)) return;
+    try {
+      await deleteSalesOrder(uid, order.id);
+      if (editingId === order.id) resetForm();
+    } catch (err) {
+      console.error('[SalesModule] Delete failed:', err);
+      alert(err instanceof Error ? err.message : 'Could not delete the sales order');
+    }
+  };
+
+  const shownOrders = orders.filter(o =>
+    (!statusFilter || o.status === statusFilter) &&
+    (!search.trim() || [o.oaNo, o.customerName, o.customerPoNo].some(v => norm(v).includes(norm(search)))));
+
+  return (
+    <div>
+      <h2>Sales Orders</h2>
+
+      {(permissions.create || (permissions.edit && editingId)) && (
+        <section style={{ marginBottom: 32, padding: 16, border: '1px solid #e0e0e0', borderRadius: 6, background: '#fafbfc' }}>
+          <h3 style={{ marginTop: 0 }}>{editingId ? `Edit ${form.oaNo}` : 'New sales order'}</h3>
+          <div style={{ display: 'flex', gap: 12, flexWrap: 'wrap', marginBottom: 12 }}>
+            <input placeholder="OA No" value={form.oaNo} onChange={e => setForm(prev => ({ ...prev, oaNo: e.target.value }))} style={{ ...inputStyle, width: 120 }} />
+            <input type="date" value={form.oaDate} onChange={e => setForm(prev => ({ ...prev, oaDate: e.target.value }))} style={inputStyle} />
+            <input placeholder="Customer" value={form.customerName} onChange={e => setForm(prev => ({ ...prev, customerName: e.target.value }))} style={{ ...inputStyle, minWidth: 220 }} />
+            <input placeholder="Customer PO No" value={form.customerPoNo} onChange={e => setForm(prev => ({ ...prev, customerPoNo: e.target.value }))} style={inputStyle} />
+            <input placeholder="Remarks" value={form.remarks} onChange={e => setForm(prev => ({ ...prev, remarks: e.target.value }))} style={{ ...inputStyle, flex: 1, minWidth: 180 }} />
+          </div>
+
+          <div style={{ display: 'flex', gap: 12, alignItems: 'center', flexWrap: 'wrap', marginBottom: 12 }}>
+            <input
+              list="sales-order-models"
+              placeholder={canViewItems ? 'Model' : 'Model (item master not visible)'}
+              value={line.itemName}
+              onChange={e => chooseItem(e.target.value)}
+              style={{ ...inputStyle, minWidth: 240 }}
+            />
+            <datalist id="sales-order-models">
+              {activeItems.map(i => <option key={i.id || i.itemCode} value={i.itemName}>{i.itemCode}</option>)}
+            </datalist>
+            <input
+              type="number"
+              min={0}
+              step="any"
+              placeholder={`Qty (${findItem(line.itemCode, line.itemName)?.baseUom || 'Nos'})`}
+              value={line.qty || ''}
+              onChange={e => setLine(prev => ({ ...prev, qty: Math.max(0, Number(e.target.value) || 0) }))}
+              style={{ ...inputStyle, width: 110 }}
+            />
+            <label style={{ fontSize: 13 }}>Due:</label>
+            <input type="date" value={line.dueDate} onChange={e => setLine(prev => ({ ...prev, dueDate: e.target.value }))} style={inputStyle} />
+            <button onClick={addLine} style={{ ...smallButton, background: '#546e7a', padding: '7px 14px' }}>Add model</button>
+          </div>
+
+          {form.items.length > 0 && (
+            <table style={{ width: '100%', borderCollapse: 'collapse', marginBottom: 12 }}>
+              <thead>
+                <tr>
+                  <th style={headStyle}>Model</th>
+                  <th style={headStyle}>Item Code</th>
+                  <th style={headStyle}>Qty</th>
+                  <th style={headStyle}>Due Date</th>
+                  <th style={headStyle}></th>
+                </tr>
+              </thead>
+              <tbody>
+                {form.items.map((item, idx) => (
+                  <tr key={`${item.itemCode}-${idx}`}>
+                    <td style={cellStyle}>{item.itemName}</td>
+                    <td style={cellStyle}>{item.itemCode}</td>
+                    <td style={cellStyle}>{formatQty(item.qty, findItem(item.itemCode, item.itemName))}</td>
+                    <td style={cellStyle}>{item.dueDate}</td>
+                    <td style={cellStyle}>
+                      <button onClick={() => removeLine(idx)} style={{ ...smallButton, background: '#e53935' }}>Remove</button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+
+          <div style={{ display: 'flex', gap: 8 }}>
+            <button onClick={handleSave} disabled={busy} style={{ ...primaryButton, opacity: busy ? 0.5 : 1 }}>
+              {editingId ? 'Update order' : 'Save order'}
+            </button>
+            {editingId && (
+              <button onClick={resetForm} style={{ ...primaryButton, background: '#9e9e9e' }}>Cancel edit</button>
+            )}
+          </div>
+        </section>
+      )}
+
+      <div style={{ display: 'flex', gap: 12, alignItems: 'center', marginBottom: 8 }}>
+        <h3 style={{ margin: 0, flex: 1 }}>Orders</h3>
+        <input placeholder="Search OA / customer / PO" value={search} onChange={e => setSearch(e.target.value)} style={inputStyle} />
+        <select value={statusFilter} onChange={e => setStatusFilter(e.target.value as SalesOrderStatus | '')} style={{ padding: 6 }}>
+          <option value="">All statuses</option>
+          <option value="open">Open</option>
+          <option value="closed">Closed</option>
+          <option value="cancelled">Cancelled</option>
+        </select>
+      </div>
+      {!canViewIndents && (
+        <p style={{ color: '#888', fontSize: 13 }}>Material readiness needs Indent view access.</p>
+      )}
+      <div style={{ overflowX: 'auto' }}>
+        <table style={{ width: '100%', borderCollapse: 'collapse', background: '#fafbfc' }}>
+          <thead>
+            <tr>
+              <th style={headStyle}>OA No</th>
+              <th style={headStyle}>OA Date</th>
+              <th style={headStyle}>Customer</th>
+              <th style={headStyle}>Customer PO</th>
+              <th style={headStyle}>Models</th>
+              <th style={headStyle}>Due</th>
+              <th style={headStyle}>Status</th>
+              <th style={headStyle}>Material Readiness</th>
+              <th style={headStyle}>Actions</th>
+            </tr>
+          </thead>
+          <tbody>
+            {shownOrders.length === 0 && (
+              <tr><td style={{ ...cellStyle, color: '#888', textAlign: 'center' }} colSpan={9}>No sales orders</td></tr>
+            )}
+            {shownOrders.map(order => {
+              const readiness = readinessOf(order);
+              const isOpen = expanded === order.id;
+              return (
+                <React.Fragment key={order.id}>
+                  <tr>
+                    <td style={cellStyle}>{order.oaNo}</td>
+                    <td style={cellStyle}>{order.oaDate}</td>
+                    <td style={cellStyle}>{order.customerName}</td>
+                    <td style={cellStyle}>{order.customerPoNo}</td>
+                    <td style={cellStyle} title={order.items.map(i => `${i.itemName}: ${i.qty}${i.dueDate ? ` (due ${i.dueDate})` : ''}`).join('\n')}>
+                      {order.items.length}
+                    </td>
+                    <td style={cellStyle}>{earliestDue(order)}</td>
+                    <td style={cellStyle}>
+                      <span style={{ background: statusColors[order.status] || '#757575', color: '#fff', fontWeight: 600, padding: '3px 10px', borderRadius: 6 }}>
+                        {order.status}
+                      </span>
+                    </td>
+                    <td style={{ ...cellStyle, minWidth: 180 }}>
+                      {canViewIndents ? (
+                        <>
+                          <div style={{ background: '#e0e0e0', borderRadius: 4, height: 8, overflow: 'hidden' }}>
+                            <div style={{ width: `${readiness.percent}%`, height: '100%', background: readinessColors[readiness.status] }} />
+                          </div>
+                          <span style={{ fontSize: 12, color: readinessColors[readiness.status] }}>
+                            {readiness.status === 'notIndented' ? readinessLabels.notIndented : `${readiness.percent}% - ${readinessLabels[readiness.status]}`}
+                          </span>
+                        </>
+                      ) : '-'}
+                    </td>
+                    <td style={{ ...cellStyle, whiteSpace: 'nowrap' }}>
+                      {canViewIndents && readiness.lines.length > 0 && (
+                        <button onClick={() => setExpanded(isOpen ? null : order.id)} style={{ ...smallButton, background: '#546e7a' }}>
+                          {isOpen ? 'Hide' : 'Materials'}
+                        </button>
+                      )}
+                      {permissions.edit && (
+                        <button onClick={() => handleEdit(order)} style={{ ...smallButton, background: '#1976d2' }}>Edit</button>
+                      )}
+                      {permissions.edit && order.status === 'open' && (
+                        <>
+                          <button onClick={() => setStatus(order, 'closed')} style={{ ...smallButton, background: '#43a047' }}>Close</button>
+                          <button onClick={() => setStatus(order, 'cancelled')} style={{ ...smallButton, background: '#757575' }}>Cancel</button>
+                        </>
+                      )}
+                      {permissions.edit && order.status !== 'open' && (
+                        <button onClick={() => setStatus(order, 'open')} style={{ ...smallButton, background: '#fb8c00' }}>Reopen</button>
+                      )}
+                      {permissions.delete && (
+                        <button onClick={() => handleDelete(order)} style={{ ...smallButton, background: '#e53935' }}>Delete</button>
+                      )}
+                    </td>
+                  </tr>
+                  {isOpen && (
+                    <tr>
+                      <td colSpan={9} style={{ ...cellStyle, background: '#fff' }}>
+                        <div style={{ fontSize: 12, color: '#555', marginBottom: 6 }}>
+                          Indents: {readiness.indentNos.join(', ') || '-'}
+                          {(!canViewPurchase || !canViewPsir || !canViewVendorDept || !canViewVsir || !canViewIssues) && ' (some columns need Purchase, PSIR, Vendor Dept, VSIR or In House Issue view access)'}
+                        </div>
+                        <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+                          <thead>
+                            <tr>
+                              <th style={headStyle}>Material</th>
+                              <th style={headStyle}>Indented</th>
+                              <th style={headStyle}>From Stock</th>
+                              <th style={headStyle}>Ordered</th>
+                              <th style={headStyle}>Received OK</th>
+                              <th style={headStyle}>At Vendor</th>
+                              <th style={headStyle}>Issued</th>
+                              <th style={headStyle}>Ready</th>
+                              <th style={headStyle}>Short</th>
+                              <th style={headStyle}>Open PO Dates</th>
+                            </tr>
+                          </thead>
+                          <tbody>
+                            {readiness.lines.map(l => {
+                              const item = findItem(l.itemCode, l.itemName);
+                              return (
+                                <tr key={l.itemCode || l.itemName}>
+                                  <td style={cellStyle}>{l.itemName} {l.itemCode && <span style={{ color: '#888' }}>({l.itemCode})</span>}</td>
+                                  <td style={cellStyle}>{formatQty(l.indented, item)}</td>
+                                  <td style={cellStyle}>{l.fromStock}</td>
+                                  <td style={cellStyle}>{l.ordered}</td>
+                                  <td style={cellStyle}>{l.received}</td>
+                                  <td style={cellStyle}>{Math.max(0, l.sentToVendor - l.vendorOk)}</td>
+                                  <td style={cellStyle}>{l.issued}</td>
+                                  <td style={cellStyle}>{l.ready}</td>
+                                  <td style={{ ...cellStyle, color: l.short > 0 ? '#e53935' : undefined, fontWeight: l.short > 0 ? 600 : undefined }}>{l.short}</td>
+                                  <td style={cellStyle}>{l.openPoDates.join(', ')}</td>
+                                </tr>
+                              );
+                            })}
+                          </tbody>
+                        </table>
+                      </td>
+                    </tr>
+                  )}
+                </React.Fragment>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+      <RecycleBin
+        uid={uid}
+        source={salesOrderRepository}
+        describe={o => `${o.oaNo} - ${o.customerName}`}
+        title="Sales Order Recycle Bin"
+        canRestore={permissions.edit}
+        canPurge={permissions.delete}
+      />
+    </div>
+  );
+};
+
+export default SalesModule;
@@ -2,25 +2,24 @@
 import React, { useState, useEffect } from "react";
 import bus from '../utils/eventBus';
 import { onAuthStateChanged } from 'firebase/auth';
-import { auth, db } from '../firebase';
-import { collection, onSnapshot } from 'firebase/firestore';
-import { subscribeStockRecords, addStockRecord, updateStockRecord, deleteStockRecord, subscribePurchaseOrders, subscribeVendorIssues, subscribeVendorDepts, subscribeVSIRRecords, getItemMaster } from '../utils/firestoreServices';
+import { auth } from '../firebase';
+import RecycleBin from '../components/RecycleBin';
+import { onSnapshot } from 'firebase/firestore';
+import { subscribeStockRecords, addStockRecord, updateStockRecord, deleteStockRecord, subscribePurchaseOrders, subscribeVendorIssues, subscribeVendorDepts, subscribeVSIRRecords, getItemMaster, stockRecordRepository } from '../utils/firestoreServices';
 import { subscribePsirs } from '../utils/psirService';
-
-interface StockRecord {
+import { useStockLedger } from '../hooks/useStockLedger';
+import StockLedgerPanel from '../components/StockLedgerPanel';
+import LotBalanceReport from '../components/LotBalanceReport';
+import type { StockRecord as StockRecordDoc } from '../utils/recordSchemas';
+import { isDeleted } from '../utils/softDelete';
+import { workspaceCollection } from '../utils/workspace';
+import type { ModulePermissions } from '../config/roleModuleConfig';
+import { findShortItems } from '../utils/reorder';
+import { baseUomOf, formatQty, isActiveItem, itemLookup } from '../utils/units';
+
+// Rows not yet persisted carry a local numeric id until Firestore assigns one
+interface StockRecord extends Omit<StockRecordDoc, 'id'> {
   id: number;
-  itemName: string;
-  itemCode: string;
-  batchNo: string;
-  stockQty: number;
-  indentQty: number;
-  purchaseQty: number;
-  vendorQty: number;
-  purStoreOkQty: number;
-  vendorOkQty: number;
-  inHouseIssuedQty: number;
-  vendorIssuedQty: number;
-  closingStock: number;
 }
 
 const STOCK_MODULE_FIELDS = [
@@ -52,7 +51,13 @@ const defaultItemInput: Omit<StockRecord, "id"> = {
   closingStock: 0,
 };
 
-const StockModule: React.FC = () => {
+interface StockModuleProps {
+  permissions: ModulePermissions;
+  /** The figures draw on other modules' collections, read only where the role can view them */
+  hasPermission: (permission: string) => boolean;
+}
+
+const StockModule: React.FC<StockModuleProps> = ({ permissions, hasPermission }) => {
   const [itemInput, setItemInput] = useState<Omit<StockRecord, "id">>(defaultItemInput);
   const [records, setRecords] = useState<StockRecord[]>([]);
   const [userUid, setUserUid] = useState<string | null>(null);
@@ -72,6 +77,7 @@ const StockModule: React.FC = () => {
   const [, setLastPsirDetail] = useState<any>(null);
   const [showDebugPanel, setShowDebugPanel] = useState<boolean>(true);
   const [debugInfo, setDebugInfo] = useState<any>(null);
+  const { movements: ledgerMovements, balances: ledgerBalances, lots, closingStockFor } = useStockLedger(userUid);
 
   // Helper: normalization
   const normalize = (s: any) => (s === undefined || s === null ? '' : String(s).trim().toLowerCase());
@@ -313,6 +319,20 @@ const StockModule: React.FC = () => {
     return Math.max(0, psirOkQty - totalInHouseIssuedPurchase - vendorIssuedQty);
   };
 
+  // Closing stock is the stock ledger sum. While editing, the form's stockQty is not posted
+  // yet, so add its difference from the saved opening stock to preview the new balance.
+  const getLedgerClosingStock = (itemCode: string, itemName?: string) => closingStockFor(itemCode, itemName) ?? 0;
+
+  // Item master entries whose closing stock has fallen below their reorder level
+  const shortItems = findShortItems(itemMasterState, getLedgerClosingStock);
+  // All quantities below are in the item's base UOM
+  const findItem = itemLookup(itemMasterState);
+  const shortByCode = new Map(shortItems.map(item => [item.itemCode, item]));
+  const getFormClosingStock = () => {
+    const savedOpening = editIdx !== null ? Number(records[editIdx]?.stockQty) || 0 : 0;
+    return getLedgerClosingStock(itemInput.itemCode, itemInput.itemName) + (Number(itemInput.stockQty) || 0) - savedOpening;
+  };
+
   // Listen for same-window PSIR updates via the event bus and force re-render
   useEffect(() => {
     const psirHandler = (ev: Event) => {
@@ -330,9 +350,9 @@ const StockModule: React.FC = () => {
       setRecords(prev => [...prev]);
     };
     try {
-      bus.addEventListener('psir.updated', psirHandler as EventListener);
+      bus.on('psir.updated', psirHandler);
     } catch (err) {}
-    return () => { try { bus.removeEventListener('psir.updated', psirHandler as EventListener); } catch (err) {} };
+    return () => { try { bus.off('psir.updated', psirHandler); } catch (err) {} };
   }, []);
 
   // Load item master & track auth state; subscribe to Firestore collections when signed in
@@ -344,6 +364,16 @@ const StockModule: React.FC = () => {
     return () => { try { unsubAuth(); } catch {} };
   }, []);
 
+  // Source collections this role may read; firestore.rules denies a listener on the others
+  const canViewPsir = hasPermission('psir:view');
+  const canViewVendorIssue = hasPermission('vendorIssue:view');
+  const canViewVendorDept = hasPermission('vendorDept:view');
+  const canViewPurchase = hasPermission('purchase:view');
+  const canViewVsir = hasPermission('vsir:view');
+  const canViewInHouseIssue = hasPermission('inHouseIssue:view');
+  const canViewIndent = hasPermission('indent:view');
+  const canViewItemMaster = hasPermission('itemMaster:view');
+
   // Subscribe to Firestore stockRecords when user is signed in
   useEffect(() => {
     let unsub: (() => void) | null = null;
@@ -388,34 +418,34 @@ const StockModule: React.FC = () => {
 
     if (userUid) {
       try {
-        unsubPsir = subscribePsirs(userUid, (docs) => setPsirsState(docs));
+        if (canViewPsir) unsubPsir = subscribePsirs(userUid, (docs) => setPsirsState(docs));
       } catch {}
       try {
-        unsubVendorIssues = subscribeVendorIssues(userUid, (docs) => setVendorIssuesState(docs));
+        if (canViewVendorIssue) unsubVendorIssues = subscribeVendorIssues(userUid, (docs) => setVendorIssuesState(docs));
       } catch {}
       try {
-        unsubVendorDepts = subscribeVendorDepts(userUid, (docs) => setVendorDeptState(docs));
+        if (canViewVendorDept) unsubVendorDepts = subscribeVendorDepts(userUid, (docs) => setVendorDeptState(docs));
       } catch {}
       try {
-        unsubPurchaseOrders = subscribePurchaseOrders(userUid, (docs) => setPurchaseOrdersState(docs));
+        if (canViewPurchase) unsubPurchaseOrders = subscribePurchaseOrders(userUid, (docs) => setPurchaseOrdersState(docs));
       } catch {}
       try {
-        unsubVSIR = subscribeVSIRRecords(userUid, (docs) => setVsirRecordsState(docs));
+        if (canViewVsir) unsubVSIR = subscribeVSIRRecords(userUid, (docs) => setVsirRecordsState(docs));
       } catch {}
 
       // inHouseIssueData, indentData and itemMasterData don't have helpers — subscribe directly
       try {
-        const coll = collection(db, 'users', userUid, 'inHouseIssues');
-        unsubInHouse = onSnapshot(coll, snap => setInHouseIssuesState(snap.docs.map(d => ({ id: d.id, ...(d.data() as any) }))));
+        const coll = workspaceCollection(userUid, 'inHouseIssues');
+        if (canViewInHouseIssue) unsubInHouse = onSnapshot(coll, snap => setInHouseIssuesState(snap.docs.filter(d => !isDeleted(d.data())).map(d => ({ id: d.id, ...(d.data() as any) }))));
       } catch {}
       try {
-        const coll2 = collection(db, 'users', userUid, 'indentData');
-        unsubIndent = onSnapshot(coll2, snap => setIndentState(snap.docs.map(d => ({ id: d.id, ...(d.data() as any) }))));
+        const coll2 = workspaceCollection(userUid, 'indentData');
+        if (canViewIndent) unsubIndent = onSnapshot(coll2, snap => setIndentState(snap.docs.map(d => ({ id: d.id, ...(d.data() as any) }))));
       } catch {}
       console.log('[StockModule] Auth effect: userUid set to', userUid);
       
       // load one-time master collections (same pattern as VSIR)
-      (async () => {
+      if (canViewItemMaster) (async () => {
         try {
           const items = await getItemMaster(userUid);
           console.log('[StockModule] ✅ getItemMaster returned:', items?.length || 0, 'items', items);
@@ -447,7 +477,7 @@ const StockModule: React.FC = () => {
       try { if (unsubInHouse) unsubInHouse(); } catch {}
       try { if (unsubIndent) unsubIndent(); } catch {}
     };
-  }, [userUid]);
+  }, [userUid, canViewPsir, canViewVendorIssue, canViewVendorDept, canViewPurchase, canViewVsir, canViewInHouseIssue, canViewIndent, canViewItemMaster]);
 
   // Debug: Log indentState changes
   useEffect(() => {
@@ -488,11 +518,11 @@ const StockModule: React.FC = () => {
   // Persist records (no localStorage) — notify other modules
   useEffect(() => {
     try {
-      bus.dispatchEvent(new CustomEvent('stock.updated', { detail: { records } }));
+      bus.emit('stock.updated', { records: records.map(r => ({ ...r, closingStock: closingStockFor(r.itemCode, r.itemName) ?? r.closingStock })) });
     } catch (err) {
       console.error('[StockModule] Error dispatching stock.updated:', err);
     }
-  }, [records]);
+  }, [records, closingStockFor]);
 
   // (PSIR helpers implemented above using subscribed state)
 
@@ -517,6 +547,7 @@ const StockModule: React.FC = () => {
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+    if (editIdx !== null ? !permissions.edit : !permissions.create) return;
     if (!itemInput.itemName) {
       alert("Item Name is required.");
       return;
@@ -539,11 +570,7 @@ const StockModule: React.FC = () => {
       vendorOkQty: getAdjustedVendorOkQty(itemInput.itemCode) || 0,
       inHouseIssuedQty: getInHouseIssuedQtyByItemName(itemInput.itemName, itemInput.itemCode) || 0,
       vendorIssuedQty: vendorIssuedQtyAdjusted,
-      closingStock:
-        (Number(itemInput.stockQty) || 0)
-        + (purStoreOkQtyAdjusted)
-        + (getAdjustedVendorOkQty(itemInput.itemCode) || 0)
-        - (inHouseIssuedStockOnly),
+      closingStock: getFormClosingStock(),
     };
 
     console.log('[DEBUG] handleSubmit - Full Payload:', {
@@ -553,7 +580,8 @@ const StockModule: React.FC = () => {
         vendorDeptTotal,
         vsirReceivedTotal,
         vendorIssuedQtyAdjusted,
-        purStoreOkQtyAdjusted
+        purStoreOkQtyAdjusted,
+        inHouseIssuedStockOnly
       },
       autoRecord: autoRecord
     });
@@ -634,7 +662,7 @@ const StockModule: React.FC = () => {
                 <option value="">
                   {itemMasterState.length === 0 ? "No items in Item Master" : "Select Item Name"}
                 </option>
-                {itemMasterState.map((item) => (
+                {itemMasterState.filter(item => isActiveItem(item) || item.itemCode === itemInput.itemCode).map((item) => (
                   <option key={item.id || item.itemCode} value={item.itemCode}>
                     {item.itemName} - {item.itemCode}
                   </option>
@@ -700,12 +728,7 @@ const StockModule: React.FC = () => {
               <input
                 type="number"
                 name="closingStock"
-                value={
-                  (Number(itemInput.stockQty) || 0)
-                          + (getAdjustedPurStoreOkQty(itemInput.itemName, itemInput.itemCode, itemInput.batchNo) || 0)
-                  + (getAdjustedVendorOkQty(itemInput.itemCode) || 0)
-                  - (getInHouseIssuedQtyByItemNameStockOnly(itemInput.itemName, itemInput.itemCode) || 0)
-                }
+                value={getFormClosingStock()}
                 readOnly
                 style={{ width: "100%", padding: 6, borderRadius: 4, border: "1px solid #bbb", background: "#eee" }}
               />
@@ -722,20 +745,22 @@ const StockModule: React.FC = () => {
             )}
           </div>
         ))}
-        <button
-          type="submit"
-          style={{
-            padding: "10px 24px",
-            background: "#1a237e",
-            color: "#fff",
-            border: "none",
-            borderRadius: 4,
-            fontWeight: 500,
-            marginTop: 24,
-          }}
-        >
-          {editIdx !== null ? "Update" : "Add"}
-        </button>
+        {(editIdx !== null ? permissions.edit : permissions.create) && (
+          <button
+            type="submit"
+            style={{
+              padding: "10px 24px",
+              background: "#1a237e",
+              color: "#fff",
+              border: "none",
+              borderRadius: 4,
+              fontWeight: 500,
+              marginTop: 24,
+            }}
+          >
+            {editIdx !== null ? "Update" : "Add"}
+          </button>
+        )}
       </form>
 
       <div style={{ marginBottom: 12, padding: 12, background: showDebugPanel ? '#e3f2fd' : '#f5f5f5', border: '2px solid #1976d2', borderRadius: 6 }}>
@@ -832,6 +857,22 @@ const StockModule: React.FC = () => {
         )}
       </div>
 
+      {shortItems.length > 0 && (
+        <div style={{ marginBottom: 16, padding: 12, background: "#fff3e0", border: "1px solid #fb8c00", borderRadius: 4 }}>
+          <strong style={{ color: "#e65100" }}>⚠️ {shortItems.length} item(s) below reorder level</strong>
+          <ul style={{ margin: "8px 0", paddingLeft: 20 }}>
+            {shortItems.map(item => (
+              <li key={item.itemCode} style={{ color: item.belowMin ? "#c62828" : undefined }}>
+                {item.itemName} ({item.itemCode}): closing {formatQty(item.closingStock, findItem(item.itemCode))}, reorder level {item.reorderLevel}
+                {item.belowMin ? `, below minimum ${item.minStock}` : ""} - suggest {formatQty(item.suggestedQty, findItem(item.itemCode))}
+                {item.leadTimeDays > 0 ? ` (lead time ${item.leadTimeDays} days)` : ""}
+              </li>
+            ))}
+          </ul>
+          <div style={{ fontSize: 12, color: "#666" }}>Use "Suggest indent" in the Indent module to draft an indent for these items.</div>
+        </div>
+      )}
+
       <div style={{ overflowX: "auto" }}>
         <table style={{ width: "100%", borderCollapse: "collapse", background: "#fafbfc" }}>
           <thead>
@@ -842,6 +883,7 @@ const StockModule: React.FC = () => {
                   {field.label}
                 </th>
               ))}
+              <th style={{ border: "1px solid #ddd", padding: 8, background: "#e3e6f3" }}>UOM</th>
               <th style={{ border: "1px solid #ddd", padding: 8, background: "#e3e6f3" }}>Actions</th>
             </tr>
           </thead>
@@ -850,7 +892,11 @@ const StockModule: React.FC = () => {
               <tr key={rec.id}>
                 <td style={{ border: "1px solid #eee", padding: 8 }}>{idx + 1}</td>
                 {STOCK_MODULE_FIELDS.map((field) => (
-                  <td key={field.key} style={{ border: "1px solid #eee", padding: 8 }}>
+                  <td
+                    key={field.key}
+                    style={{ border: "1px solid #eee", padding: 8, ...(field.key === "closingStock" && shortByCode.has(rec.itemCode) ? { background: "#ffebee", color: "#c62828", fontWeight: 700 } : {}) }}
+                    title={field.key === "closingStock" && shortByCode.has(rec.itemCode) ? `Below reorder level ${shortByCode.get(rec.itemCode)?.reorderLevel}` : undefined}
+                  >
                     {field.key === "purStoreOkQty"
                       ? getAdjustedPurStoreOkQty(rec.itemName, rec.itemCode, rec.batchNo)
                       : field.key === "indentQty"
@@ -866,32 +912,38 @@ const StockModule: React.FC = () => {
                       : field.key === "vendorIssuedQty"
                       ? getAdjustedVendorIssuedQty(rec.itemCode)
                       : field.key === "closingStock"
-                      ? ((Number(rec.stockQty) || 0)
-                          + (getAdjustedPurStoreOkQty(rec.itemName, rec.itemCode, rec.batchNo) || 0)
-                          + (getAdjustedVendorOkQty(rec.itemCode) || 0)
-                          - (getInHouseIssuedQtyByItemNameStockOnly(rec.itemName, rec.itemCode) || 0))
+                      ? getLedgerClosingStock(rec.itemCode, rec.itemName)
                       : (rec as any)[field.key]}
                   </td>
                 ))}
+                <td style={{ border: "1px solid #eee", padding: 8 }}>{baseUomOf(findItem(rec.itemCode, rec.itemName))}</td>
                 <td style={{ border: "1px solid #eee", padding: 8 }}>
-                  <button
-                    style={{ marginRight: 8, background: "#1976d2", color: "#fff", border: "none", padding: "4px 12px" }}
-                    onClick={() => handleEdit(idx)}
-                  >
-                    Edit
-                  </button>
-                  <button
-                    style={{ background: "#e53935", color: "#fff", border: "none", padding: "4px 12px" }}
-                    onClick={() => handleDelete(idx)}
-                  >
-                    Delete
-                  </button>
+                  {permissions.edit && (
+                    <button
+                      style={{ marginRight: 8, background: "#1976d2", color: "#fff", border: "none", padding: "4px 12px" }}
+                      onClick={() => handleEdit(idx)}
+                    >
+                      Edit
+                    </button>
+                  )}
+                  {permissions.delete && (
+                    <button
+                      style={{ background: "#e53935", color: "#fff", border: "none", padding: "4px 12px" }}
+                      onClick={() => handleDelete(idx)}
+                    >
+                      Delete
+                    </button>
+                  )}
                 </td>
               </tr>
             ))}
           </tbody>
         </table>
       </div>
+
+      <StockLedgerPanel uid={userUid} movements={ledgerMovements} balances={ledgerBalances} items={itemMasterState} canAdjust={permissions.create} />
+      <LotBalanceReport lots={lots} />
+      <RecycleBin uid={userUid} source={stockRecordRepository} describe={r => `${r.itemName} - ${r.itemCode}${r.batchNo ? ` (Batch ${r.batchNo})` : ''}`} title="Stock Recycle Bin" canRestore={permissions.edit} canPurge={permissions.delete} />
     </div>
   );
 };
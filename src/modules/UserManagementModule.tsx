@@ -0,0 +1,272 @@
+import React, { useState, useEffect } from 'react';
+import { subscribeUserProfiles, updateUserProfile } from '../utils/userProfiles';
+import type { UserProfile, AdminProfileChanges } from '../utils/userProfiles';
+import { createInvite, inviteLink, revokeInvite, subscribeInvites } from '../utils/invites';
+import type { Invite } from '../utils/invites';
+import { MODULE_IDS, PERMISSION_ACTIONS, moduleMetadata, permissionKey, roleMetadata, roleModuleAccess, rolePermissions } from '../config/roleModuleConfig';
+
+interface UserManagementModuleProps {
+  /** The signed-in admin, who may not demote or disable themselves */
+  currentUid: string;
+  /** Organisation whose members are managed */
+  orgId: string;
+}
+
+const cellStyle: React.CSSProperties = { border: '1px solid #eee', padding: 6, textAlign: 'left', verticalAlign: 'top' };
+const headStyle: React.CSSProperties = { ...cellStyle, background: '#e3e6f3', fontWeight: 600 };
+
+const formatTime = (val: unknown) => {
+  const ts = val && typeof (val as { toMillis?: unknown }).toMillis === 'function'
+    ? (val as { toMillis: () => number }).toMillis()
+    : typeof val === 'string' ? Date.parse(val) : NaN;
+  return Number.isFinite(ts) ? new Date(ts).toLocaleString() : 'Never';
+};
+
+/** Admin screen: assign roles, grant extra permissions and disable accounts */
+const UserManagementModule: React.FC<UserManagementModuleProps> = ({ currentUid, orgId }) => {
+  const [users, setUsers] = useState<UserProfile[]>([]);
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [busyUid, setBusyUid] = useState<string | null>(null);
+  const [filter, setFilter] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [invites, setInvites] = useState<Invite[]>([]);
+  const [inviteEmail, setInviteEmail] = useState('');
+  const [inviteRole, setInviteRole] = useState('viewer');
+  const [inviting, setInviting] = useState(false);
+
+  useEffect(() => {
+    if (!orgId) return;
+    const unsub = subscribeUserProfiles(
+      orgId,
+      profiles => {
+        setUsers(profiles);
+        setError(null);
+      },
+      err => setError(err.message)
+    );
+    return () => unsub();
+  }, [orgId]);
+
+  useEffect(() => {
+    if (!orgId) return;
+    return subscribeInvites(orgId, setInvites, err => setError(err.message));
+  }, [orgId]);
+
+  const save = async (uid: string, changes: AdminProfileChanges) => {
+    setBusyUid(uid);
+    try {
+      await updateUserProfile(orgId, uid, changes);
+    } catch (err) {
+      console.error('[UserManagementModule] Update failed:', err);
+      alert(err instanceof Error ? err.message : 'Failed to update user');
+    } finally {
+      setBusyUid(null);
+    }
+  };
+
+  const togglePermission = (profile: UserProfile, permission: string) => {
+    const next = profile.permissions.includes(permission)
+      ? profile.permissions.filter(p => p !== permission)
+      : [...profile.permissions, permission];
+    void save(profile.uid!, { permissions: next });
+  };
+
+  const toggleDisabled = (profile: UserProfile) => {
+    const verb = profile.disabled ? 'Enable' : 'Disable';
+    if (!window.confirm(`${verb} ${profile.email || profile.uid}?`)) return;
+    void save(profile.uid!, { disabled: !profile.disabled });
+  };
+
+  const copyLink = (invite: Invite) => {
+    const link = inviteLink(orgId, invite.id!);
+    navigator.clipboard.writeText(link).then(
+      () => alert(`Invite link for ${invite.email} copied`),
+      () => window.prompt('Copy the invite link', link)
+    );
+  };
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const email = inviteEmail.trim().toLowerCase();
+    if (users.some(u => u.email.toLowerCase() === email)) {
+      alert(`${email} is already a member`);
+      return;
+    }
+    setInviting(true);
+    try {
+      const id = await createInvite(orgId, { email, role: inviteRole });
+      setInviteEmail('');
+      copyLink({ id, email, role: inviteRole, permissions: [], createdBy: currentUid });
+    } catch (err) {
+      console.error('[UserManagementModule] Invite failed:', err);
+      alert(err instanceof Error ? err.message : 'Failed to create invite');
+    } finally {
+      setInviting(false);
+    }
+  };
+
+  const handleRevoke = (invite: Invite) => {
+    if (!window.confirm(`Revoke the invite for ${invite.email}?`)) return;
+    revokeInvite(orgId, invite.id!).catch(err => {
+      console.error('[UserManagementModule] Revoke failed:', err);
+      alert(err instanceof Error ? err.message : 'Failed to revoke invite');
+    });
+  };
+
+  const pendingInvites = invites.filter(i => !i.acceptedBy);
+
+  const visible = users
+    .filter(u => !filter || `${u.email} ${u.displayName || ''} ${u.role}`.toLowerCase().includes(filter.toLowerCase()))
+    .sort((a, b) => a.email.localeCompare(b.email));
+
+  return (
+    <div>
+      <h2>Users</h2>
+      <p style={{ color: '#666', marginTop: 0 }}>
+        Invite colleagues with a role, or let them ask to join with the workspace ID <code>{orgId}</code>: they start disabled as {roleMetadata.viewer.label} until you enable them.
+        Roles grant a bundle of permissions; extra permissions add to it.
+      </p>
+      <form onSubmit={handleInvite} style={{ display: 'flex', gap: 8, alignItems: 'center', marginBottom: 12 }}>
+        <input type="email" required placeholder="Invite by email" value={inviteEmail} onChange={e => setInviteEmail(e.target.value)} style={{ padding: 6, width: 240 }} />
+        <select value={inviteRole} onChange={e => setInviteRole(e.target.value)} style={{ padding: 6 }}>
+          {Object.keys(roleModuleAccess).map(role => (
+            <option key={role} value={role}>{roleMetadata[role]?.label || role}</option>
+          ))}
+        </select>
+        <button type="submit" disabled={inviting} style={{ background: '#1a237e', color: '#fff', border: 'none', borderRadius: 4, padding: '6px 14px', cursor: 'pointer' }}>
+          {inviting ? 'Inviting...' : 'Create invite link'}
+        </button>
+      </form>
+      {pendingInvites.length > 0 && (
+        <table style={{ width: '100%', borderCollapse: 'collapse', background: '#fafbfc', marginBottom: 16 }}>
+          <thead>
+            <tr>
+              <th style={headStyle}>Invited</th>
+              <th style={headStyle}>Role</th>
+              <th style={headStyle}>Sent</th>
+              <th style={headStyle}></th>
+            </tr>
+          </thead>
+          <tbody>
+            {pendingInvites.map(invite => (
+              <tr key={invite.id}>
+                <td style={cellStyle}>{invite.email}</td>
+                <td style={cellStyle}>{roleMetadata[invite.role]?.label || invite.role}</td>
+                <td style={cellStyle}>{formatTime(invite.createdAt)}</td>
+                <td style={cellStyle}>
+                  <button onClick={() => copyLink(invite)} style={{ background: '#fff', color: '#1a237e', border: '1px solid #1a237e', borderRadius: 4, padding: '4px 12px', cursor: 'pointer', marginRight: 8 }}>Copy link</button>
+                  <button onClick={() => handleRevoke(invite)} style={{ background: '#e53935', color: '#fff', border: 'none', borderRadius: 4, padding: '4px 12px', cursor: 'pointer' }}>Revoke</button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+      <input placeholder="Filter by email, name or role" value={filter} onChange={e => setFilter(e.target.value)} style={{ padding: 6, marginBottom: 8, width: 280 }} />
+      {error && <div style={{ color: '#d32f2f', marginBottom: 12 }}>{error}</div>}
+
+      <table style={{ width: '100%', borderCollapse: 'collapse', background: '#fafbfc' }}>
+        <thead>
+          <tr>
+            <th style={headStyle}>User</th>
+            <th style={headStyle}>Role</th>
+            <th style={headStyle}>Extra Permissions</th>
+            <th style={headStyle}>Status</th>
+            <th style={headStyle}>Last Login</th>
+          </tr>
+        </thead>
+        <tbody>
+          {visible.length === 0 && (
+            <tr><td colSpan={5} style={{ ...cellStyle, color: '#888' }}>No users</td></tr>
+          )}
+          {visible.map(u => {
+            const uid = u.uid!;
+            const self = uid === currentUid;
+            const busy = busyUid === uid;
+            const open = expanded === uid;
+            const fromRole = new Set(rolePermissions[u.role] || []);
+            return (
+              <React.Fragment key={uid}>
+                <tr style={{ background: u.disabled ? '#fbe9e7' : undefined }}>
+                  <td style={cellStyle}>
+                    <div>{u.email || uid}</div>
+                    {u.displayName && <div style={{ color: '#888', fontSize: 12 }}>{u.displayName}</div>}
+                  </td>
+                  <td style={cellStyle}>
+                    <select
+                      value={u.role}
+                      disabled={busy || self}
+                      title={self ? 'You cannot change your own role' : roleMetadata[u.role]?.description}
+                      onChange={e => void save(uid, { role: e.target.value })}
+                      style={{ padding: 4 }}
+                    >
+                      {!roleModuleAccess[u.role] && <option value={u.role}>{u.role} (unknown)</option>}
+                      {Object.keys(roleModuleAccess).map(role => (
+                        <option key={role} value={role}>{roleMetadata[role]?.label || role}</option>
+                      ))}
+                    </select>
+                  </td>
+                  <td style={cellStyle}>
+                    <button onClick={() => setExpanded(open ? null : uid)} style={{ background: '#fff', color: '#1a237e', border: '1px solid #1a237e', borderRadius: 4, padding: '4px 12px', cursor: 'pointer' }}>
+                      {open ? '▾' : '▸'} {u.permissions.length} granted
+                    </button>
+                  </td>
+                  <td style={cellStyle}>
+                    <button
+                      disabled={busy || self}
+                      title={self ? 'You cannot disable your own account' : ''}
+                      onClick={() => toggleDisabled(u)}
+                      style={{ background: u.disabled ? '#43a047' : '#e53935', color: '#fff', border: 'none', borderRadius: 4, padding: '4px 12px', cursor: 'pointer' }}
+                    >
+                      {u.disabled ? 'Enable' : 'Disable'}
+                    </button>
+                    <span style={{ marginLeft: 8, color: u.disabled ? '#d32f2f' : '#2e7d32' }}>{u.disabled ? 'Disabled' : 'Active'}</span>
+                  </td>
+                  <td style={cellStyle}>{formatTime(u.lastLoginAt)}</td>
+                </tr>
+                {open && (
+                  <tr>
+                    <td colSpan={5} style={{ ...cellStyle, background: '#fff' }}>
+                      <table style={{ borderCollapse: 'collapse' }}>
+                        <thead>
+                          <tr>
+                            <th style={headStyle}>Module</th>
+                            {PERMISSION_ACTIONS.map(action => <th key={action} style={headStyle}>{action}</th>)}
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {MODULE_IDS.map(moduleId => (
+                            <tr key={moduleId}>
+                              <td style={cellStyle}>{moduleMetadata[moduleId]?.label || moduleId}</td>
+                              {PERMISSION_ACTIONS.map(action => {
+                                const key = permissionKey(moduleId, action);
+                                const inRole = fromRole.has(key);
+                                return (
+                                  <td key={action} style={{ ...cellStyle, textAlign: 'center' }}>
+                                    <input
+                                      type="checkbox"
+                                      checked={inRole || u.permissions.includes(key)}
+                                      disabled={busy || inRole}
+                                      title={inRole ? `Granted by the ${roleMetadata[u.role]?.label || u.role} role` : key}
+                                      onChange={() => togglePermission(u, key)}
+                                    />
+                                  </td>
+                                );
+                              })}
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </td>
+                  </tr>
+                )}
+              </React.Fragment>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+export default UserManagementModule;
@@ -2,59 +2,12 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { onAuthStateChanged, type User } from 'firebase/auth';
 import { auth } from '../firebase';
+import RecycleBin from '../components/RecycleBin';
 import { subscribePsirs } from '../utils/psirService';
-import { subscribeVSIRRecords, addVSIRRecord, updateVSIRRecord, deleteVSIRRecord, subscribeVendorDepts, getItemMaster, getVendorIssues, subscribePurchaseData, subscribePurchaseOrders, updateVendorDept } from '../utils/firestoreServices';
+import { subscribeVSIRRecords, addVSIRRecord, updateVSIRRecord, deleteVSIRRecord, subscribeVendorDepts, getItemMaster, getVendorIssues, subscribePurchaseData, subscribePurchaseOrders, updateVendorDept, vsirRecordRepository } from '../utils/firestoreServices';
 import bus from '../utils/eventBus';
-
-interface VSRIRecord {
-  id: string;
-  receivedDate: string;
-  indentNo: string;
-  poNo: string;
-  oaNo: string;
-  purchaseBatchNo: string;
-  vendorBatchNo: string;
-  dcNo: string;
-  invoiceDcNo: string;
-  vendorName: string;
-  itemName: string;
-  itemCode: string;
-  qtyReceived: number;
-  okQty: number;
-  reworkQty: number;
-  rejectQty: number;
-  grnNo: string;
-  remarks: string;
-}
-
-interface VendorDeptItem {
-  itemName: string;
-  itemCode: string;
-  materialIssueNo: string;
-  qty: number;
-  plannedQty?: number;
-  closingStock?: number | string;
-  indentStatus: string;
-  receivedQty: number;
-  okQty: number;
-  reworkQty: number;
-  rejectedQty: number;
-  grnNo: string;
-  debitNoteOrQtyReturned: string;
-  remarks: string;
-}
-
-interface VendorDeptOrder {
-  id?: string;
-  orderPlaceDate: string;
-  materialPurchasePoNo: string;
-  oaNo: string;
-  batchNo: string;
-  vendorBatchNo: string;
-  dcNo: string;
-  vendorName: string;
-  items: VendorDeptItem[];
-}
+import type { VSRIRecord, VendorDeptItem, VendorDeptOrder } from '../utils/recordSchemas';
+import type { ModulePermissions } from '../config/roleModuleConfig';
 
 interface Field {
   key: keyof Omit<VSRIRecord, 'id'>;
@@ -82,7 +35,11 @@ const VSRI_MODULE_FIELDS: Field[] = [
   { key: 'remarks', label: 'Remarks', type: 'text' },
 ];
 
-const VSIRModule: React.FC = () => {
+interface VSIRModuleProps {
+  permissions: ModulePermissions;
+}
+
+const VSIRModule: React.FC<VSIRModuleProps> = ({ permissions }) => {
   const [itemNames, setItemNames] = useState<string[]>([]);
   const [itemMaster, setItemMaster] = useState<{ itemName: string; itemCode: string }[]>([]);
   const [editIdx, setEditIdx] = useState<number | null>(null);
@@ -151,6 +108,8 @@ const VSIRModule: React.FC = () => {
 
   // Track existing PO+ItemCode combinations to prevent duplicates during import
   const existingCombinationsRef = useRef<Set<string>>(new Set());
+  // PO+ItemCode combinations of records in the recycle bin; import must not recreate them
+  const deletedCombinationsRef = useRef<Set<string>>(new Set());
   // Ref to track previous records to prevent unnecessary re-renders
   const prevRecordsRef = useRef<VSRIRecord[]>([]);
   // Helper: create a composite key for deduplication
@@ -205,6 +164,10 @@ const VSIRModule: React.FC = () => {
           } catch (e) { console.error('[VSIR] Error mapping vsir docs', e); }
         });
 
+        const unsubDeletedVSIR = vsirRecordRepository.subscribeDeleted(uid, (docs) => {
+          deletedCombinationsRef.current = new Set(docs.map(d => makeKey(d.poNo, d.itemCode)));
+        });
+
         // subscribe to vendorDept orders
         const unsubVendorDepts = subscribeVendorDepts(uid, (docs) => {
           setVendorDeptOrders(docs || []);
@@ -230,7 +193,7 @@ const VSIRModule: React.FC = () => {
         return;
       }
       if (purchaseData.length === 0 && records.length > 0) {
-        if (!window.confirm('Auto-delete all VSIR records because purchaseData is empty? This cannot be undone.')) {
+        if (!window.confirm('Auto-delete all VSIR records because purchaseData is empty? They can be restored from the recycle bin.')) {
           return;
         }
         for (const rec of records) {
@@ -271,6 +234,7 @@ const VSIRModule: React.FC = () => {
         // cleanup when signed out or component unmount
         return () => {
           try { if (unsubVSIR) unsubVSIR(); } catch {}
+          unsubDeletedVSIR();
           try { if (unsubVendorDepts) unsubVendorDepts(); } catch {}
           try { if (unsubPsirs) unsubPsirs(); } catch {}
           try { if (unsubPurchaseData) unsubPurchaseData(); } catch {}
@@ -336,7 +300,7 @@ const VSIRModule: React.FC = () => {
       return;
     }
     try {
-      bus.dispatchEvent(new CustomEvent('vsir.updated', { detail: { records } }));
+      bus.emit('vsir.updated', { records });
     } catch (err) {
       console.error('[VSIR] Error dispatching vsir.updated event:', err);
     }
@@ -412,11 +376,11 @@ const VSIRModule: React.FC = () => {
     const handleVendorDeptUpdate = () => {
       syncVendorBatchFromDept();
     };
-    bus.addEventListener('vendorDept.updated', handleVendorDeptUpdate);
+    bus.on('vendorDept.updated', handleVendorDeptUpdate);
     syncVendorBatchFromDept();
 
     return () => {
-      bus.removeEventListener('vendorDept.updated', handleVendorDeptUpdate);
+      bus.off('vendorDept.updated', handleVendorDeptUpdate);
     };
   }, [records]);
 
@@ -542,6 +506,10 @@ const VSIRModule: React.FC = () => {
             console.log(`[VSIR]  skipping duplicate: ${dedupeKey}`);
             continue;
           }
+          if (deletedCombinationsRef.current.has(dedupeKey)) {
+            console.log(`[VSIR]  skipping deleted (in recycle bin): ${dedupeKey}`);
+            continue;
+          }
           
           const newRecord: VSRIRecord = {
             id: Math.random().toString(36).slice(2),
@@ -807,6 +775,7 @@ const VSIRModule: React.FC = () => {
     const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     e.stopPropagation();
+    if (editIdx !== null ? !permissions.edit : !permissions.create) return;
 
     console.log('[VSIR] handleSubmit called with itemInput:', itemInput);
     console.log('[VSIR] Current form state before validation:', itemInput);
@@ -926,9 +895,7 @@ const VSIRModule: React.FC = () => {
               console.log(`[VSIR-${operation}] Vendor Dept OK Qty sync successful`);
 
               // Dispatch event to notify other modules
-              bus.dispatchEvent(new CustomEvent('vendorDept.updated', {
-                detail: { updatedRecord: updatedVendorDept }
-              }));
+              bus.emit('vendorDept.updated', { updatedRecord: updatedVendorDept });
             } else {
               console.log(`[VSIR-${operation}] No matching item found in Vendor Dept for itemCode:`, finalItemInput.itemCode);
             }
@@ -1019,14 +986,18 @@ const VSIRModule: React.FC = () => {
       )}
 
       <div style={{ marginBottom: 16, display: 'flex', gap: 16, alignItems: 'center' }}>
-        <label>
-          <input type="checkbox" checked={autoDeleteEnabled} onChange={e => setAutoDeleteEnabled(e.target.checked)} />
-          Enable Auto-Delete (dangerous)
-        </label>
-        <label>
-          <input type="checkbox" checked={autoImportEnabled} onChange={e => setAutoImportEnabled(e.target.checked)} />
-          Enable Auto-Import (dangerous)
-        </label>
+        {permissions.delete && (
+          <label>
+            <input type="checkbox" checked={autoDeleteEnabled} onChange={e => setAutoDeleteEnabled(e.target.checked)} />
+            Enable Auto-Delete (dangerous)
+          </label>
+        )}
+        {permissions.create && (
+          <label>
+            <input type="checkbox" checked={autoImportEnabled} onChange={e => setAutoImportEnabled(e.target.checked)} />
+            Enable Auto-Import (dangerous)
+          </label>
+        )}
         {/* Debug panel removed */}
       </div>
       {successMessage && (
@@ -1081,22 +1052,24 @@ const VSIRModule: React.FC = () => {
           </div>
         );
         })}
-        <button 
-          type="submit" 
-          disabled={isSubmitting}
-          style={{ 
-            padding: '10px 24px', 
-            background: isSubmitting ? '#ccc' : '#1a237e', 
-            color: '#fff', 
-            border: 'none', 
-            borderRadius: 4, 
-            fontWeight: 500, 
-            marginTop: 24,
-            cursor: isSubmitting ? 'not-allowed' : 'pointer'
-          }}
-        >
-          {isSubmitting ? 'Saving...' : (editIdx !== null ? 'Update' : 'Add')}
-        </button>
+        {(editIdx !== null ? permissions.edit : permissions.create) && (
+          <button 
+            type="submit" 
+            disabled={isSubmitting}
+            style={{ 
+              padding: '10px 24px', 
+              background: isSubmitting ? '#ccc' : '#1a237e', 
+              color: '#fff', 
+              border: 'none', 
+              borderRadius: 4, 
+              fontWeight: 500, 
+              marginTop: 24,
+              cursor: isSubmitting ? 'not-allowed' : 'pointer'
+            }}
+          >
+            {isSubmitting ? 'Saving...' : (editIdx !== null ? 'Update' : 'Add')}
+          </button>
+        )}
         {/* Debug State button removed */}
         <button
           type="button"
@@ -1149,60 +1122,65 @@ const VSIRModule: React.FC = () => {
                   return <td key={field.key} style={cellCommon}>{(rec as any)[field.key]}</td>;
                 })}
                 <td style={{ padding: '10px 8px', textAlign: 'center' }}>
-                  <button
-                    style={{
-                      background: '#1976d2',
-                      color: '#fff',
-                      border: 'none',
-                      borderRadius: 2,
-                      padding: '4px 8px',
-                      cursor: 'pointer',
-                      fontSize: 11
-                    }}
-                    onClick={() => handleEdit(idx)}
-                  >
-                    Edit
-                  </button>
+                  {permissions.edit && (
+                    <button
+                      style={{
+                        background: '#1976d2',
+                        color: '#fff',
+                        border: 'none',
+                        borderRadius: 2,
+                        padding: '4px 8px',
+                        cursor: 'pointer',
+                        fontSize: 11
+                      }}
+                      onClick={() => handleEdit(idx)}
+                    >
+                      Edit
+                    </button>
+                  )}
                 </td>
                 <td style={{ padding: '10px 8px', textAlign: 'center' }}>
-                  <button
-                    onClick={() => {
-                      const toDelete = records[idx];
-                      if (!toDelete) {
-                        console.error('[VSIR] No record found to delete at index', idx);
-                        return;
-                      }
-                      console.log('[VSIR] Deleting record:', toDelete);
-                      if (userUid && toDelete && toDelete.id) {
-                        withTimeout(deleteVSIRRecord(userUid, String(toDelete.id)), 15000)
-                          .then(() => {
-                            setRecords(prev => prev.filter(r => r.id !== toDelete.id));
-                          })
-                          .catch((e) => {
-                            alert('Failed to delete record from Firestore. Please check your permissions and network.\nError: ' + (e && e.message ? e.message : e));
-                          });
-                      } else {
-                        setRecords(prev => prev.filter(r => r.id !== toDelete.id));
-                      }
-                    }}
-                    style={{
-                      background: '#e53935',
-                      color: '#fff',
-                      border: 'none',
-                      borderRadius: 2,
-                      padding: '4px 8px',
-                      cursor: 'pointer',
-                      fontSize: 11
-                    }}
-                  >
-                    Delete
-                  </button>
+                  {permissions.delete && (
+                    <button
+                      onClick={() => {
+                        const toDelete = records[idx];
+                        if (!toDelete) {
+                          console.error('[VSIR] No record found to delete at index', idx);
+                          return;
+                        }
+                        console.log('[VSIR] Deleting record:', toDelete);
+                        if (userUid && toDelete && toDelete.id) {
+                          withTimeout(deleteVSIRRecord(userUid, String(toDelete.id)), 15000)
+                            .then(() => {
+                              setRecords(prev => prev.filter(r => r.id !== toDelete.id));
+                            })
+                            .catch((e) => {
+                              alert('Failed to delete record from Firestore. Please check your permissions and network.\nError: ' + (e && e.message ? e.message : e));
+                            });
+                        } else {
+                          setRecords(prev => prev.filter(r => r.id !== toDelete.id));
+                        }
+                      }}
+                      style={{
+                        background: '#e53935',
+                        color: '#fff',
+                        border: 'none',
+                        borderRadius: 2,
+                        padding: '4px 8px',
+                        cursor: 'pointer',
+                        fontSize: 11
+                      }}
+                    >
+                      Delete
+                    </button>
+                  )}
                 </td>
               </tr>
             ))}
           </tbody>
         </table>
       </div>
+      <RecycleBin uid={userUid} source={vsirRecordRepository} describe={r => `PO ${r.poNo || '—'} - ${r.itemName || r.itemCode}${r.vendorBatchNo ? ` (Batch ${r.vendorBatchNo})` : ''}`} title="VSIR Recycle Bin" canRestore={permissions.edit} canPurge={permissions.delete} />
     </div>
   );
 };
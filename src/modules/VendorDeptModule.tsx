@@ -1,91 +1,32 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import bus from '../utils/eventBus';
+import type { AppEvent } from '../utils/eventBus';
 import { onAuthStateChanged } from 'firebase/auth';
 import { auth } from '../firebase';
-import { getPurchaseOrders, getPurchaseData, subscribeVendorDepts, addVendorDept, updateVendorDept, deleteVendorDept } from '../utils/firestoreServices';
+import RecycleBin from '../components/RecycleBin';
+import { getPurchaseOrders, getPurchaseData, subscribeVendorDepts, addVendorDept, updateVendorDept, deleteVendorDept, subscribeStockRecords, vendorDeptRepository } from '../utils/firestoreServices';
 import { subscribeVSIRRecords } from '../utils/firestoreServices';
 import { subscribePsirs } from '../utils/psirService';
+import type { VendorDeptItem, VendorDeptOrder, StockRecord } from '../utils/recordSchemas';
+import { useStockLedger } from '../hooks/useStockLedger';
+import type { ModulePermissions } from '../config/roleModuleConfig';
 
 // ...existing code...
 
-interface VendorDeptItem {
-	itemName: string;
-	itemCode: string;
-	materialIssueNo: string;
-	qty: number;
-	plannedQty?: number;
-	closingStock?: number | string;
-	indentStatus: string;
-	receivedQty: number;
-	okQty: number;
-	reworkQty: number;
-	rejectedQty: number;
-	grnNo: string;
-	debitNoteOrQtyReturned: string;
-	remarks: string;
-}
-
-interface VendorDeptOrder {
-	id?: string;
-	orderPlaceDate: string;
-	materialPurchasePoNo: string;
-	oaNo: string;
-	batchNo: string;
-	vendorBatchNo: string;
-	dcNo: string;
-	vendorName: string;
-	items: VendorDeptItem[];
-}
-
 const indentStatusOptions = ['Open', 'Closed', 'Partial'];
 
-// Helper: robust numeric extractor: trims and parses numeric fields across various possible keys
-const getNumericField = (obj: any, keys: string[]): number | null => {
-	for (const k of keys) {
-		if (obj && obj[k] !== undefined && obj[k] !== null) {
-			const raw = String(obj[k]).trim();
-			if (raw !== '') {
-				const n = Number(raw);
-				if (!isNaN(n)) return n;
-			}
-		}
-	}
-	return null;
-};
-
-// Helper: find which numeric field/key exists (returns key, raw string and parsed value)
-const findNumericField = (obj: any, keys: string[]): { key: string; raw: string; value: number } | null => {
-	for (const k of keys) {
-		if (obj && obj[k] !== undefined && obj[k] !== null) {
-			const raw = String(obj[k]).trim();
-			if (raw !== '') {
-				const n = Number(raw);
-				if (!isNaN(n)) return { key: k, raw, value: n };
-			}
-		}
-	}
-	return null;
-};
-
 // Helper: choose best stock record when multiple candidates match.
-// Strategy: prefer explicit closingStock (or its numeric equivalent), otherwise use computed stockQty + purchaseActualQtyInStore.
-// Tie-breaker: higher computed value, then larger id (assumed later entries have larger ids).
-const chooseBestStock = (candidates: any[]) => {
+// Strategy: prefer the highest closingStock (stock records are migrated to one canonical shape on read).
+// Tie-breaker: larger id (assumed later entries have larger ids).
+const chooseBestStock = (candidates: StockRecord[]) => {
 	if (!Array.isArray(candidates) || candidates.length === 0) return null;
-	const closingKeys = ['closingStock','closing_stock','ClosingStock','closing','closingQty','closing_qty','Closing','closing stock','Closing Stock','closingstock','closingStockQty','closing_stock_qty','ClosingStockQty','closingstockqty'];
-	const stockQtyKeys = ['stockQty','stock_qty','stock','StockQty','currentStock'];
-	const purchaseKeys = ['purchaseActualQtyInStore','purchase_actual_qty_in_store','purchaseActualQty','purchase_actual_qty','purchaseActualQtyInStore'];
-	let best: any = null;
+	let best: StockRecord | null = null;
 	let bestVal = Number.NEGATIVE_INFINITY;
 	for (const s of candidates) {
-		const c = findNumericField(s, closingKeys);
-		const closing = c ? c.value : null;
-		const stockQty = getNumericField(s, stockQtyKeys) || 0;
-		const pQty = getNumericField(s, purchaseKeys) || 0;
-		const computed = (closing !== null ? closing : (stockQty + pQty)) || 0;
+		const computed = Number(s.closingStock) || 0;
 		if (best === null || computed > bestVal) { best = s; bestVal = computed; }
 		else if (computed === bestVal) {
-			if ((s.id || 0) > ((best.id || 0))) best = s;
+			if (String(s.id || '') > String(best.id || '')) best = s;
 		}
 	}
 	return best;
@@ -290,7 +231,11 @@ const getPSIRDataByPO = (poNo: string | undefined, psirData?: any[]): any => {
 	}
 };
 
-const VendorDeptModule: React.FC = () => {
+interface VendorDeptModuleProps {
+	permissions: ModulePermissions;
+}
+
+const VendorDeptModule: React.FC<VendorDeptModuleProps> = ({ permissions }) => {
 	// Debug state for OK Qty auto-fill (must be declared here for all logic/JSX)
 	// const [debugOkQty, setDebugOkQty] = useState<any>(null);
 
@@ -314,6 +259,73 @@ const VendorDeptModule: React.FC = () => {
 	const [purchaseData, setPurchaseData] = useState<any[]>([]);
 	const [vsirRecords, setVsirRecords] = useState<any[]>([]);
 	const [psirData, setPsirData] = useState<any[]>([]);
+	const [stockRecords, setStockRecords] = useState<StockRecord[]>([]);
+	// POs of orders in the recycle bin (null until loaded); auto-import must not recreate them
+	const [deletedOrderPOs, setDeletedOrderPOs] = useState<Set<string> | null>(null);
+	const { closingStockFor } = useStockLedger(userUid);
+
+	// Return the Closing Stock (or computed fallback) for the matched stock record, using the same logic as the stock debug
+	const getClosingStock = useCallback((itemCode?: string, itemName?: string): number | string => {
+		try {
+			if (!itemCode && !itemName) return '';
+			// The stock ledger is authoritative; stock records only cover items it has not seen yet
+			const ledgerStock = closingStockFor(itemCode, itemName);
+			if (ledgerStock !== null) return ledgerStock;
+			// Use combined lookup (code + name) to match like buildStockDebugReport
+			const lookup = [itemCode, itemName].filter(Boolean).join(' ');
+			const norm = (v: any) => (v === undefined || v === null) ? '' : String(v).trim().toUpperCase();
+			const alpha = (v: any) => norm(v).replace(/[^A-Z0-9]/g, '');
+			const target = norm(lookup);
+			const targetAlpha = alpha(lookup);
+			const stocks = stockRecords;
+			if (!Array.isArray(stocks)) return '';
+
+			let matchedRecord: any = null;
+			let matchedBy = 'none';
+			void matchedBy;
+			const codeNorm = norm(itemCode || '');
+			const nameNorm = norm(itemName || '');
+// Prefer exact itemCode match (choose best)
+		if (codeNorm && !matchedRecord) {
+			const matches = stocks.filter((s: any) => { try { return norm(s.itemCode) === codeNorm; } catch { return false; } });
+			if (matches.length > 0) { matchedRecord = chooseBestStock(matches); if (matchedRecord) matchedBy = 'code-exact'; }
+		}
+		// Prefer exact itemName match (choose best)
+		if (nameNorm && !matchedRecord) {
+			const matches = stocks.filter((s: any) => { try { return norm(s.itemName) === nameNorm; } catch { return false; } });
+			if (matches.length > 0) { matchedRecord = chooseBestStock(matches); if (matchedRecord) matchedBy = 'name-exact'; }
+		}
+		// exact alpha/norm match first (choose best)
+		{
+			const matches = stocks.filter((s: any) => {
+				const candidates = [s.itemCode, s.itemName];
+				return candidates.some(c => alpha(c) === targetAlpha || norm(c) === target);
+			});
+			if (matches.length > 0) { matchedRecord = chooseBestStock(matches); if (matchedRecord) matchedBy = 'exact'; }
+		}
+		// fallback to contains
+		if (!matchedRecord) {
+			const matches = stocks.filter((s: any) => {
+				return Object.values(s).some((v: any) => {
+					try {
+						const a = alpha(v);
+						const n = norm(v);
+						return a.includes(targetAlpha) || targetAlpha.includes(a) || n.includes(target) || target.includes(n);
+					} catch { return false; }
+				});
+			});
+			if (matches.length > 0) { matchedRecord = chooseBestStock(matches); if (matchedRecord) matchedBy = 'contains'; }
+			}
+
+			if (!matchedRecord) return '';
+
+
+			return Number(matchedRecord.closingStock) || 0;
+		} catch (err) {
+			console.error('[VendorDeptModule] getClosingStock error', err);
+			return '';
+		}
+	}, [closingStockFor, stockRecords]);
 
 	// Listen to authentication state
 	useEffect(() => {
@@ -337,8 +349,13 @@ const VendorDeptModule: React.FC = () => {
 			console.info('[VendorDeptModule] ✓ Loaded', docs.length, 'vendor dept orders from Firebase');
 			setOrders(docs);
 		});
+		const unsubDeleted = vendorDeptRepository.subscribeDeleted(userUid, (docs) => {
+			setDeletedOrderPOs(new Set(docs.map(d => String(d.materialPurchasePoNo).trim().toUpperCase())));
+		});
 		return () => {
 			if (unsub) unsub();
+			unsubDeleted();
+			setDeletedOrderPOs(null);
 		};
 	}, [userUid]);
 
@@ -391,6 +408,19 @@ const VendorDeptModule: React.FC = () => {
 		};
 	}, [userUid]);
 
+	// Subscribe to stock records from Firestore (used for closing stock lookups)
+	useEffect(() => {
+		if (!userUid) {
+			setStockRecords([]);
+			return;
+		}
+		const unsub = subscribeStockRecords(userUid, (docs) => {
+			console.debug('[VendorDeptModule] Stock records updated:', docs.length, 'records');
+			setStockRecords(docs);
+		});
+		return () => unsub();
+	}, [userUid]);
+
 	// Subscribe to PSIR records from Firestore
 	useEffect(() => {
 		let unsub: (() => void) | null = null;
@@ -677,7 +707,7 @@ const VendorDeptModule: React.FC = () => {
 			if (updated) {
 				console.debug('[VendorDeptModule][Sync] Syncing VSIR data to vendor dept orders');
 				setOrders(updatedOrders);
-				bus.dispatchEvent(new CustomEvent('vendorDept.updated', { detail: { source: 'vsir-sync' } }));
+				bus.emit('vendorDept.updated', { source: 'vsir-sync' });
 			}
 		} catch (e) {
 			console.error('[VendorDeptModule][Sync] Error syncing VSIR data:', e);
@@ -699,12 +729,12 @@ const VendorDeptModule: React.FC = () => {
 		};
 
 		window.addEventListener('storage', storageHandler);
-		bus.addEventListener('vsir.updated', handleVSIRUpdate as EventListener);
+		bus.on('vsir.updated', handleVSIRUpdate);
 		console.log('[VendorDeptModule] Listeners registered for VSIR updates');
 
 		return () => {
 			window.removeEventListener('storage', storageHandler);
-			bus.removeEventListener('vsir.updated', handleVSIRUpdate as EventListener);
+			bus.off('vsir.updated', handleVSIRUpdate);
 			console.log('[VendorDeptModule] Listeners removed for VSIR updates');
 		};
 	}, []);
@@ -743,7 +773,7 @@ const VendorDeptModule: React.FC = () => {
 	const [debugReport, setDebugReport] = useState<any[]>([]);
 
 // Refresh closingStock values for all orders from stock records
-const refreshOrdersClosingStock = () => {
+const refreshOrdersClosingStock = useCallback(() => {
 	setOrders(prevOrders => prevOrders.map(order => ({
 		...order,
 		items: (order.items || []).map((it: any) => ({
@@ -751,21 +781,23 @@ const refreshOrdersClosingStock = () => {
 			closingStock: getClosingStock(it.itemCode, it.itemName),
 		}))
 	})));
-};
+}, [getClosingStock]);
 
 // Track stock updates so component re-renders when stock-records change
 const [, setStockVersion] = useState(0);
 useEffect(() => {
 	const handler = () => { refreshOrdersClosingStock(); setStockVersion(v => v + 1); };
-		// Listen for stock changes from StockModule or other tabs
-		bus.addEventListener('stock.updated', handler as EventListener);
-		const storageHandler = (e: StorageEvent) => { if ((e as any)?.key === 'stock-records') handler(); };
-		window.addEventListener('storage', storageHandler);
+		// Listen for stock changes from StockModule
+		bus.on('stock.updated', handler);
 		return () => {
-			bus.removeEventListener('stock.updated', handler as EventListener);
-			window.removeEventListener('storage', storageHandler as EventListener);
+			bus.off('stock.updated', handler);
 		};
-	}, []);
+	}, [refreshOrdersClosingStock]);
+
+useEffect(() => {
+	refreshOrdersClosingStock();
+	setStockVersion(v => v + 1);
+}, [refreshOrdersClosingStock]);
 
 	// Update orders when VSIR records change
 	useEffect(() => {
@@ -851,9 +883,9 @@ useEffect(() => {
 			// Initial run
 			handlePurchaseChange();
 			// Listen for same-tab updates via event bus
-			bus.addEventListener('purchaseOrders.updated', handlePurchaseChange as EventListener);
+			bus.on('purchaseOrders.updated', handlePurchaseChange);
 			return () => {
-				bus.removeEventListener('purchaseOrders.updated', handlePurchaseChange as EventListener);
+				bus.off('purchaseOrders.updated', handlePurchaseChange);
 			};
 		}, [newOrder.orderPlaceDate, newOrder.dcNo, newOrder.vendorName, newOrder.items, purchaseOrders]);
 
@@ -887,9 +919,9 @@ useEffect(() => {
 		// Initial run
 		handlePurchaseChange();
 		// Listen for changes via event bus
-		bus.addEventListener('purchaseOrders.updated', handlePurchaseChange as EventListener);
+		bus.on('purchaseOrders.updated', handlePurchaseChange);
 		return () => {
-			bus.removeEventListener('purchaseOrders.updated', handlePurchaseChange as EventListener);
+			bus.off('purchaseOrders.updated', handlePurchaseChange);
 		};
 	}, [purchaseOrders]);
 
@@ -1177,7 +1209,7 @@ useEffect(() => {
 					console.log('[VendorDeptModule] ✓ Order saved to Firebase');
 					// Dispatch event for VSIR sync
 					try {
-						bus.dispatchEvent(new CustomEvent('vendorDept.updated', { detail: { vendorDeptData: [orderToSave] } }));
+						bus.emit('vendorDept.updated', { vendorDeptData: [orderToSave] });
 						console.log('[VendorDeptModule] Dispatched vendorDept.updated event for VSIR sync');
 					} catch (err) {
 						console.error('[VendorDeptModule] Error dispatching vendorDept.updated event:', err);
@@ -1195,6 +1227,7 @@ useEffect(() => {
 	};
 
 	const [editOrderIdx, setEditOrderIdx] = useState<number | null>(null);
+	const canSaveOrder = editOrderIdx !== null ? permissions.edit : permissions.create;
 
 	// Auto-fill Vendor Name from Purchase module when PO No changes
 	useEffect(() => {
@@ -1267,7 +1300,7 @@ useEffect(() => {
 					console.log('[VendorDeptModule] ✓ Order updated in Firebase');
 					// Dispatch event so other modules can sync
 					try {
-						bus.dispatchEvent(new CustomEvent('vendorDept.updated', { detail: { vendorDeptData: updated } }));
+						bus.emit('vendorDept.updated', { vendorDeptData: updated });
 						console.log('[VendorDeptModule] Dispatched vendorDept.updated event');
 					} catch (err) {
 						console.error('[VendorDeptModule] Error dispatching vendorDept.updated event:', err);
@@ -1314,8 +1347,8 @@ useEffect(() => {
 
 	// Auto-import: Create VendorDept orders from PurchaseOrders (Firebase only - NO localStorage)
 	React.useEffect(() => {
-		if (!userUid || !Array.isArray(purchaseOrders) || purchaseOrders.length === 0) {
-			return; // Wait for userUid and purchase data
+		if (!userUid || !permissions.create || !deletedOrderPOs || !Array.isArray(purchaseOrders) || purchaseOrders.length === 0) {
+			return; // Wait for userUid, the recycle bin and purchase data
 		}
 
 		// Group purchase entries by poNo
@@ -1328,9 +1361,10 @@ useEffect(() => {
 		});
 
 		// Check which POs already have orders (normalize for case-insensitive comparison)
-		const existingPOs = new Set<string>(
-			orders.map(order => String(order.materialPurchasePoNo).trim().toUpperCase())
-		);
+		const existingPOs = new Set<string>([
+			...orders.map(order => String(order.materialPurchasePoNo).trim().toUpperCase()),
+			...deletedOrderPOs,
+		]);
 
 		// For each PO not yet imported, create a VendorDept order
 		Object.entries(poGroups).forEach(([normalizedPoNo, group]) => {
@@ -1398,18 +1432,29 @@ useEffect(() => {
 					console.error('[VendorDeptModule][AutoImport] ❌ Error saving order for PO', poNo, ':', error);
 				});
 		});
-	}, [purchaseOrders, psirData, vsirRecords, orders, userUid]);
+	}, [purchaseOrders, psirData, vsirRecords, orders, deletedOrderPOs, userUid, permissions.create]);
+
+	// Save orders changed by a bulk fix-up; the write queue holds them while offline
+	const persistChangedOrders = (before: VendorDeptOrder[], after: VendorDeptOrder[]) => {
+		if (!userUid) return;
+		after.forEach((order, idx) => {
+			if (!order.id || order === before[idx]) return;
+			const { id, ...updateData } = order;
+			updateVendorDept(userUid, id, updateData).catch((err) => {
+				console.error('[VendorDeptModule] Error saving order', id, ':', err);
+			});
+		});
+	};
 
 	// Regenerate vendor batch nos for existing orders that don't have them
 	const regenerateVendorBatchNos = () => {
-		const rawData = localStorage.getItem('vendorDeptData');
-		if (!rawData) return;
+		if (orders.length === 0) return;
 		
 		try {
-			const allOrders = JSON.parse(rawData);
+			const allOrders = orders;
 			let needsUpdate = false;
 			
-			const updated = allOrders.map((order: any, idx: number) => {
+			const updated = allOrders.map((order, idx) => {
 				if (!order.vendorBatchNo || order.vendorBatchNo.trim() === '') {
 					needsUpdate = true;
 					// Generate unique vendor batch no
@@ -1417,7 +1462,7 @@ useEffect(() => {
 					let maxNum = 0;
 					
 					// Find max number already used
-					allOrders.forEach((o: any) => {
+					allOrders.forEach(o => {
 						if (o.vendorBatchNo && typeof o.vendorBatchNo === 'string') {
 							const match = o.vendorBatchNo.match(new RegExp(`${yy}/V(\\d+)`));
 							if (match) {
@@ -1438,7 +1483,7 @@ useEffect(() => {
 			
 			if (needsUpdate) {
 				console.log('[VendorDeptModule] Updated orders with vendorBatchNos:', updated);
-				localStorage.setItem('vendorDeptData', JSON.stringify(updated));
+				persistChangedOrders(allOrders, updated);
 				setOrders(updated);
 				alert('✅ Vendor Batch Nos regenerated for all orders!');
 			} else {
@@ -1455,23 +1500,21 @@ useEffect(() => {
 	const syncBatchNoFromPSIR = () => {
 		console.log('[VendorDeptModule] Syncing Batch No from PSIR to all orders');
 		try {
-			const psirDataRaw = localStorage.getItem('psirData');
-			if (!psirDataRaw) {
+			if (psirData.length === 0) {
 				alert('❌ No PSIR data found');
 				return;
 			}
 			
-			const psirRecords = JSON.parse(psirDataRaw);
-			const allOrdersRaw = localStorage.getItem('vendorDeptData');
-			if (!allOrdersRaw) {
+			const psirRecords = psirData;
+			if (orders.length === 0) {
 				alert('❌ No Vendor Dept orders found');
 				return;
 			}
 			
-			const allOrders = JSON.parse(allOrdersRaw);
+			const allOrders = orders;
 			let updated = 0;
 			
-			const syncedOrders = allOrders.map((order: any) => {
+			const syncedOrders = allOrders.map(order => {
 				// Find matching PSIR record by PO number
 				const matchingPSIR = psirRecords.find((p: any) => p.poNo === order.materialPurchasePoNo);
 				if (matchingPSIR && matchingPSIR.batchNo && !order.batchNo) {
@@ -1482,9 +1525,9 @@ useEffect(() => {
 				return order;
 			});
 			
-			localStorage.setItem('vendorDeptData', JSON.stringify(syncedOrders));
+			persistChangedOrders(allOrders, syncedOrders);
 			setOrders(syncedOrders);
-			bus.dispatchEvent(new CustomEvent('vendorDept.updated', { detail: { vendorDeptData: syncedOrders } }));
+			bus.emit('vendorDept.updated', { vendorDeptData: syncedOrders });
 			
 			if (updated > 0) {
 				console.log('[VendorDeptModule] Synced Batch No for', updated, 'orders');
@@ -1498,13 +1541,8 @@ useEffect(() => {
 		}
 	};
 
-	// Always sync orders state with localStorage after auto-adding POs
+	// Keep orders in step with Purchase and VSIR updates
 	React.useEffect(() => {
-		const savedData = localStorage.getItem('vendorDeptData');
-		if (savedData) {
-			setOrders(JSON.parse(savedData));
-		}
-
 		// When PurchaseModule updates, attempt a non-destructive sync to fill empty qtys
 		const handlePurchaseUpdate = () => {
 			console.log('[VendorDeptModule] Detected purchaseOrders update, running non-destructive sync');
@@ -1536,21 +1574,19 @@ const handleVSIRUpdate = (event?: any) => {
 				}
 				return order;
 			});
-			// Persist synced data back to localStorage
 			console.log('[VendorDeptModule] Final updated orders:', updated.map(o => ({ poNo: o.materialPurchasePoNo, vendorBatchNo: o.vendorBatchNo })));
-				localStorage.setItem('vendorDeptData', JSON.stringify(updated));
 				return updated;
 			});
 		};
 
 		window.addEventListener('storage', handlePurchaseUpdate);
-		bus.addEventListener('purchaseOrders.updated', handlePurchaseUpdate as EventListener);
-		bus.addEventListener('vsir.updated', handleVSIRUpdate as EventListener);
+		bus.on('purchaseOrders.updated', handlePurchaseUpdate);
+		bus.on('vsir.updated', handleVSIRUpdate);
 		
 		return () => {
 			window.removeEventListener('storage', handlePurchaseUpdate);
-			bus.removeEventListener('purchaseOrders.updated', handlePurchaseUpdate as EventListener);
-			bus.removeEventListener('vsir.updated', handleVSIRUpdate as EventListener);
+			bus.off('purchaseOrders.updated', handlePurchaseUpdate);
+			bus.off('vsir.updated', handleVSIRUpdate);
 		};
 	}, [purchasePOs]);
 
@@ -1561,16 +1597,15 @@ const handleVSIRUpdate = (event?: any) => {
 
 	// When PSIR data is updated, refresh the form's batchNo if PO is selected
 	useEffect(() => {
-		const handlePSIRUpdate = () => {
+		const handlePSIRUpdate = (e: AppEvent<'psir.updated'>) => {
 			console.log('[VendorDeptModule] PSIR data updated, refreshing batchNo for current PO:', newOrder.materialPurchasePoNo);
 			if (!newOrder.materialPurchasePoNo) return;
 			
 			try {
-				const psirDataRaw = localStorage.getItem('psirData');
-				if (!psirDataRaw) return;
+				const psirs = e.detail.psirs;
+				if (!psirs) return;
 				
-				const psirs = JSON.parse(psirDataRaw);
-				const matchingPSIR = psirs.find((p: any) => p.poNo === newOrder.materialPurchasePoNo);
+				const matchingPSIR = psirs.find(p => p.poNo === newOrder.materialPurchasePoNo);
 				
 				if (matchingPSIR && matchingPSIR.invoiceNo && String(matchingPSIR.invoiceNo).trim() && matchingPSIR.batchNo) {
 					console.log('[VendorDeptModule] ✓ PSIR update: Found invoiceNo and batchNo, updating form');
@@ -1585,10 +1620,10 @@ const handleVSIRUpdate = (event?: any) => {
 			}
 		};
 		
-		bus.addEventListener('psirData.updated', handlePSIRUpdate as EventListener);
+		bus.on('psir.updated', handlePSIRUpdate);
 		
 		return () => {
-			bus.removeEventListener('psirData.updated', handlePSIRUpdate as EventListener);
+			bus.off('psir.updated', handlePSIRUpdate);
 		};
 	}, [newOrder.materialPurchasePoNo]);
 
@@ -1623,7 +1658,7 @@ const handleVSIRUpdate = (event?: any) => {
 	useEffect(() => {
 		const handleVsirRecordsSync = () => {
 			if (newOrder.materialPurchasePoNo) {
-				console.log('[VendorDept] VSIR records synced event received, refetching vendorBatchNo');
+				console.log('[VendorDept] VSIR updated event received, refetching vendorBatchNo');
 				const vendorBatchNo = getVendorBatchNoFromVSIR(newOrder.materialPurchasePoNo);
 				if (vendorBatchNo && vendorBatchNo !== newOrder.vendorBatchNo) {
 					console.log('[VendorDept] ✓ Updating vendorBatchNo from VSIR sync:', vendorBatchNo);
@@ -1632,28 +1667,25 @@ const handleVSIRUpdate = (event?: any) => {
 			}
 		};
 		
-		bus.addEventListener('vsir.records.synced', handleVsirRecordsSync as EventListener);
-		bus.addEventListener('vsir.updated', handleVsirRecordsSync as EventListener);
+		bus.on('vsir.updated', handleVsirRecordsSync);
 		
 		return () => {
-			bus.removeEventListener('vsir.records.synced', handleVsirRecordsSync as EventListener);
-			bus.removeEventListener('vsir.updated', handleVsirRecordsSync as EventListener);
+			bus.off('vsir.updated', handleVsirRecordsSync);
 		};
 	}, [newOrder.materialPurchasePoNo, newOrder.vendorBatchNo]);
 
 	// When PSIR data is updated, sync batchNo to existing orders
 	useEffect(() => {
-		const handlePSIRUpdate = () => {
+		const handlePSIRUpdate = (e: AppEvent<'psir.updated'>) => {
 			console.log('[VendorDeptModule] PSIR data updated, syncing batchNo to orders');
-			const psirDataRaw = localStorage.getItem('psirData');
-			if (!psirDataRaw) return;
+			const psirRecords = e.detail.psirs;
+			if (!psirRecords) return;
 			
 			try {
-				const psirRecords = JSON.parse(psirDataRaw);
 				setOrders(prevOrders => {
 					const updated = prevOrders.map(order => {
 						// Find matching PSIR record by PO number
-						const matchingPSIR = psirRecords.find((p: any) => p.poNo === order.materialPurchasePoNo);
+						const matchingPSIR = psirRecords.find(p => p.poNo === order.materialPurchasePoNo);
 						if (matchingPSIR && matchingPSIR.batchNo && !order.batchNo) {
 							// Only update if order doesn't have batchNo but PSIR does
 							console.log('[VendorDeptModule] ✓ Syncing batchNo from PSIR for PO', order.materialPurchasePoNo, ':', matchingPSIR.batchNo);
@@ -1665,9 +1697,8 @@ const handleVSIRUpdate = (event?: any) => {
 					// Check if any changes were made
 					const changed = updated.some((o, i) => o.batchNo !== prevOrders[i].batchNo);
 					if (changed) {
-						console.log('[VendorDeptModule] Batch No synced from PSIR, saving to localStorage');
-						localStorage.setItem('vendorDeptData', JSON.stringify(updated));
-						bus.dispatchEvent(new CustomEvent('vendorDept.updated', { detail: { vendorDeptData: updated } }));
+						console.log('[VendorDeptModule] Batch No synced from PSIR');
+						bus.emit('vendorDept.updated', { vendorDeptData: updated });
 					}
 					return updated;
 				});
@@ -1676,10 +1707,10 @@ const handleVSIRUpdate = (event?: any) => {
 			}
 		};
 		
-		bus.addEventListener('psirData.updated', handlePSIRUpdate as EventListener);
+		bus.on('psir.updated', handlePSIRUpdate);
 		
 		return () => {
-			bus.removeEventListener('psirData.updated', handlePSIRUpdate as EventListener);
+			bus.off('psir.updated', handlePSIRUpdate);
 		};
 	}, []);
 
@@ -1700,10 +1731,9 @@ const handleVSIRUpdate = (event?: any) => {
 
 	// Build a human-friendly debug report indicating where values come from
 	const buildDebugReport = () => {
-		const raw = localStorage.getItem('vendorDeptData');
 		const psirRaw = localStorage.getItem('psirData');
 		const purchaseDataRaw = localStorage.getItem('purchaseData');
-		const vendorData = raw ? JSON.parse(raw) as VendorDeptOrder[] : [];
+		const vendorData = orders;
 		// const pos = purchaseOrdersRaw ? JSON.parse(purchaseOrdersRaw) : []; // unused
 
 		const psirs = psirRaw ? JSON.parse(psirRaw) : [];
@@ -1754,8 +1784,7 @@ const handleVSIRUpdate = (event?: any) => {
 	const [stockDebugReport, setStockDebugReport] = useState<any[]>([]);
 
 	const buildStockDebugReport = () => {
-		const stockRaw = localStorage.getItem('stock-records');
-		const stocks = stockRaw ? JSON.parse(stockRaw) : [];
+		const stocks = stockRecords;
 		const norm = (v: any) => (v === undefined || v === null) ? '' : String(v).trim().toUpperCase();
 		const alpha = (v: any) => norm(v).replace(/[^A-Z0-9]/g, '');
 		const report: any[] = [];
@@ -1768,7 +1797,7 @@ const handleVSIRUpdate = (event?: any) => {
 				let matchedBy = 'none';
 				// exact alpha/norm match
 				matchedRecord = stocks.find((s: any) => {
-					const candidates = [s.itemCode, s.ItemCode, s.code, s.Code, s.item_code, s.itemName, s.ItemName, s.name, s.Name, s.sku, s.SKU];
+					const candidates = [s.itemCode, s.itemName];
 					return candidates.some(c => alpha(c) === targetAlpha || norm(c) === target);
 				});
 				if (matchedRecord) matchedBy = 'exact';
@@ -1787,7 +1816,7 @@ const handleVSIRUpdate = (event?: any) => {
 				// If multiple matches potentially apply, pick the best candidate deterministically
 			if (matchedRecord) {
 				const combinedMatches = stocks.filter((s: any) => {
-					const candidates = [s.itemCode, s.ItemCode, s.code, s.Code, s.item_code, s.itemName, s.ItemName, s.name, s.Name, s.sku, s.SKU];
+					const candidates = [s.itemCode, s.itemName];
 					const exact = candidates.some(c => alpha(c) === targetAlpha || norm(c) === target);
 					if (exact) return true;
 					try {
@@ -1802,12 +1831,10 @@ const handleVSIRUpdate = (event?: any) => {
 					matchedRecord = chooseBestStock(combinedMatches);
 				}
 			}
-			const closingKey = matchedRecord ? findNumericField(matchedRecord, ['closingStock','closing_stock','ClosingStock','closing','closingQty','closing_qty','Closing','closing stock','Closing Stock','closingstock','closingStockQty','closing_stock_qty','ClosingStockQty','closingstockqty']) : null;
-			const closingStock = closingKey ? closingKey.value : null;
-				const stockQty = matchedRecord ? getNumericField(matchedRecord, ['stockQty','stock_qty','stock','StockQty','currentStock']) : null;
-				const purchaseActualQtyInStore = matchedRecord ? getNumericField(matchedRecord, ['purchaseActualQtyInStore','purchase_actual_qty_in_store','purchaseActualQty','purchase_actual_qty','purchaseActualQtyInStore']) : null;
-				const computed = (closingStock !== null ? closingStock : ((stockQty || 0) + (purchaseActualQtyInStore || 0)));
-				report.push({ po: order.materialPurchasePoNo, orderIdx: oIdx, itemIdx: iIdx, itemCode: it.itemCode, itemName: it.itemName, matched: !!matchedRecord, matchedBy, matchedRecord, closingStock, closingKey: closingKey ? closingKey.key : null, closingRaw: closingKey ? closingKey.raw : null, stockQty, purchaseActualQtyInStore, computed });
+			const closingStock = matchedRecord ? Number(matchedRecord.closingStock) || 0 : null;
+				const stockQty = matchedRecord ? Number(matchedRecord.stockQty) || 0 : null;
+				const computed = closingStock ?? 0;
+				report.push({ po: order.materialPurchasePoNo, orderIdx: oIdx, itemIdx: iIdx, itemCode: it.itemCode, itemName: it.itemName, matched: !!matchedRecord, matchedBy, matchedRecord, closingStock, stockQty, computed });
 			});
 		});
 		setStockDebugReport(report);
@@ -1864,7 +1891,7 @@ const handleVSIRUpdate = (event?: any) => {
 	// CRITICAL FIX: Remove any code that writes to purchaseOrders
 	// This module should ONLY read from purchaseOrders and write to vendorDeptData
 
-	// Return the stock total for an item. Prefer `closingStock` if present in stock-records.
+	// Return the stock total for an item, i.e. the matched stock record's `closingStock`.
 	// Accepts itemCode or itemName (fallback) to improve matching when one is missing.
 	const getStockTotal = (itemCode?: string, itemName?: string): number => {
 		try {
@@ -1874,8 +1901,7 @@ const handleVSIRUpdate = (event?: any) => {
 			const alpha = (v: any) => norm(v).replace(/[^A-Z0-9]/g, ''); // remove punctuation/spaces for robust matching
 			const target = norm(lookup);
 			const targetAlpha = alpha(lookup);
-			const stockRaw = localStorage.getItem('stock-records');
-			const stocks = stockRaw ? JSON.parse(stockRaw) : [];
+			const stocks = stockRecords;
 			if (!Array.isArray(stocks)) return 0;
 
 			// Try strict matches before fuzzy match: prefer exact code, then exact name, then exact normalized, then contains
@@ -1883,16 +1909,16 @@ const handleVSIRUpdate = (event?: any) => {
 			const codeNorm = norm(itemCode || '');
 			const nameNorm = norm(itemName || '');
 			if (codeNorm) {
-				const matches = stocks.filter((s: any) => { try { return norm(s.itemCode || s.ItemCode || s.code || s.Code || s.item_code) === codeNorm; } catch { return false; } });
+				const matches = stocks.filter((s: any) => { try { return norm(s.itemCode) === codeNorm; } catch { return false; } });
 				if (matches.length > 0) { stock = chooseBestStock(matches); if (stock) console.debug('[VendorDeptModule] getStockTotal code-exact match', codeNorm, stock); }
 			}
 			if (!stock && nameNorm) {
-				const matches = stocks.filter((s: any) => { try { return norm(s.itemName || s.ItemName || s.name || s.Name) === nameNorm; } catch { return false; } });
+				const matches = stocks.filter((s: any) => { try { return norm(s.itemName) === nameNorm; } catch { return false; } });
 				if (matches.length > 0) { stock = chooseBestStock(matches); if (stock) console.debug('[VendorDeptModule] getStockTotal name-exact match', nameNorm, stock); }
 			}
 			if (!stock) {
 				const matches = stocks.filter((s: any) => {
-					const candidates = [s.itemCode, s.ItemCode, s.code, s.Code, s.item_code, s.itemName, s.ItemName, s.name, s.Name, s.sku, s.SKU];
+					const candidates = [s.itemCode, s.itemName];
 					return candidates.some(c => alpha(c) === targetAlpha || norm(c) === target);
 				});
 				if (matches.length > 0) { stock = chooseBestStock(matches); if (stock) console.debug('[VendorDeptModule] getStockTotal exact normalized match', target, stock); }
@@ -1913,17 +1939,7 @@ const handleVSIRUpdate = (event?: any) => {
             console.debug('[VendorDeptModule] getStockTotal: no matching stock for', itemCode);
             return 0;
         }
-			// Helper to pick numeric fields by common key names
-
-			// Prefer closing stock using common possible field names
-			const closingStock = getNumericField(stock, ['closingStock', 'closing_stock', 'ClosingStock', 'closing', 'closingQty', 'closing_qty', 'Closing','closing stock','Closing Stock','closingstock','closingStockQty','closing_stock_qty','ClosingStockQty','closingstockqty']);
-			if (closingStock !== null) return closingStock;
-
-			const stockQty = getNumericField(stock, ['stockQty', 'stock_qty', 'stock', 'StockQty', 'currentStock']) || 0;
-			const purchaseActualQtyInStore = getNumericField(stock, ['purchaseActualQtyInStore', 'purchase_actual_qty_in_store', 'purchaseActualQty', 'purchase_actual_qty', 'purchaseActualQtyInStore']) || 0;
-			const sQty = (stockQty || 0);
-			const pQty = (purchaseActualQtyInStore || 0);
-			return sQty + pQty;
+			return Number(stock.closingStock) || 0;
 		} catch (err) {
 			console.error('[VendorDeptModule] getStockTotal error', err);
 			return 0;
@@ -1931,72 +1947,6 @@ const handleVSIRUpdate = (event?: any) => {
 	};
 	void getStockTotal;
 
-	// Return the Closing Stock (or computed fallback) for the matched stock record, using the same logic as the stock debug
-	const getClosingStock = (itemCode?: string, itemName?: string): number | string => {
-		try {
-			if (!itemCode && !itemName) return '';
-			// Use combined lookup (code + name) to match like buildStockDebugReport
-			const lookup = [itemCode, itemName].filter(Boolean).join(' ');
-			const norm = (v: any) => (v === undefined || v === null) ? '' : String(v).trim().toUpperCase();
-			const alpha = (v: any) => norm(v).replace(/[^A-Z0-9]/g, '');
-			const target = norm(lookup);
-			const targetAlpha = alpha(lookup);
-			const stockRaw = localStorage.getItem('stock-records');
-			const stocks = stockRaw ? JSON.parse(stockRaw) : [];
-			if (!Array.isArray(stocks)) return '';
-
-			let matchedRecord: any = null;
-			let matchedBy = 'none';
-			void matchedBy;
-			const codeNorm = norm(itemCode || '');
-			const nameNorm = norm(itemName || '');
-// Prefer exact itemCode match (choose best)
-		if (codeNorm && !matchedRecord) {
-			const matches = stocks.filter((s: any) => { try { return norm(s.itemCode || s.ItemCode || s.code || s.Code || s.item_code) === codeNorm; } catch { return false; } });
-			if (matches.length > 0) { matchedRecord = chooseBestStock(matches); if (matchedRecord) matchedBy = 'code-exact'; }
-		}
-		// Prefer exact itemName match (choose best)
-		if (nameNorm && !matchedRecord) {
-			const matches = stocks.filter((s: any) => { try { return norm(s.itemName || s.ItemName || s.name || s.Name) === nameNorm; } catch { return false; } });
-			if (matches.length > 0) { matchedRecord = chooseBestStock(matches); if (matchedRecord) matchedBy = 'name-exact'; }
-		}
-		// exact alpha/norm match first (choose best)
-		{
-			const matches = stocks.filter((s: any) => {
-				const candidates = [s.itemCode, s.ItemCode, s.code, s.Code, s.item_code, s.itemName, s.ItemName, s.name, s.Name, s.sku, s.SKU];
-				return candidates.some(c => alpha(c) === targetAlpha || norm(c) === target);
-			});
-			if (matches.length > 0) { matchedRecord = chooseBestStock(matches); if (matchedRecord) matchedBy = 'exact'; }
-		}
-		// fallback to contains
-		if (!matchedRecord) {
-			const matches = stocks.filter((s: any) => {
-				return Object.values(s).some((v: any) => {
-					try {
-						const a = alpha(v);
-						const n = norm(v);
-						return a.includes(targetAlpha) || targetAlpha.includes(a) || n.includes(target) || target.includes(n);
-					} catch { return false; }
-				});
-			});
-			if (matches.length > 0) { matchedRecord = chooseBestStock(matches); if (matchedRecord) matchedBy = 'contains'; }
-			}
-
-			if (!matchedRecord) return '';
-
-
-			const closingKey = findNumericField(matchedRecord, ['closingStock', 'closing_stock', 'ClosingStock', 'closing', 'closingQty', 'closing_qty', 'Closing','closing stock','Closing Stock','closingstock','closingStockQty','closing_stock_qty','ClosingStockQty','closingstockqty']);
-			const closingStock = closingKey ? closingKey.value : null;
-			const stockQty = getNumericField(matchedRecord, ['stockQty', 'stock_qty', 'stock', 'StockQty', 'currentStock']) || 0;
-			const purchaseActualQtyInStore = getNumericField(matchedRecord, ['purchaseActualQtyInStore', 'purchase_actual_qty_in_store', 'purchaseActualQty', 'purchase_actual_qty', 'purchaseActualQtyInStore']) || 0;
-			const computed = (closingStock !== null ? closingStock : (stockQty + purchaseActualQtyInStore));
-			return computed;
-		} catch (err) {
-			console.error('[VendorDeptModule] getClosingStock error', err);
-			return '';
-		}
-	};
-
 	return (
 		<div>
 			<div>
@@ -2057,12 +2007,16 @@ const handleVSIRUpdate = (event?: any) => {
 					}} style={{ padding: '8px 12px', background: '#ff6b6b', color: 'white', border: 'none', borderRadius: 4, cursor: 'pointer', fontWeight: 'bold' }}>
 						🔍 Debug {debugOpen ? '▼' : '▶'}
 					</button>
-					<button onClick={() => regenerateVendorBatchNos()} style={{ padding: '8px 12px', background: '#4caf50', color: 'white', border: 'none', borderRadius: 4, cursor: 'pointer', fontWeight: 'bold' }}>
-						🔄 Regenerate Vendor Batch Nos
-					</button>
-					<button onClick={() => syncBatchNoFromPSIR()} style={{ padding: '8px 12px', background: '#2196f3', color: 'white', border: 'none', borderRadius: 4, cursor: 'pointer', fontWeight: 'bold' }}>
-						📥 Sync Batch No from PSIR
-					</button>
+					{permissions.edit && (
+						<button onClick={() => regenerateVendorBatchNos()} style={{ padding: '8px 12px', background: '#4caf50', color: 'white', border: 'none', borderRadius: 4, cursor: 'pointer', fontWeight: 'bold' }}>
+							🔄 Regenerate Vendor Batch Nos
+						</button>
+					)}
+					{permissions.edit && (
+						<button onClick={() => syncBatchNoFromPSIR()} style={{ padding: '8px 12px', background: '#2196f3', color: 'white', border: 'none', borderRadius: 4, cursor: 'pointer', fontWeight: 'bold' }}>
+							📥 Sync Batch No from PSIR
+						</button>
+					)}
 				</div>
 				
 				{debugOpen && (
@@ -2170,9 +2124,11 @@ const handleVSIRUpdate = (event?: any) => {
 					<input placeholder="GRN No" value={itemInput.grnNo} onChange={e => setItemInput({ ...itemInput, grnNo: e.target.value })} />
 					<input placeholder="Debit Note or Qty Returned" value={itemInput.debitNoteOrQtyReturned} onChange={e => setItemInput({ ...itemInput, debitNoteOrQtyReturned: e.target.value })} />
 					<input placeholder="Remarks" value={itemInput.remarks} onChange={e => setItemInput({ ...itemInput, remarks: e.target.value })} />
-					<button onClick={handleSaveItem}>
-						{editIdx ? 'Update Item' : 'Add Item'}
-					</button>
+					{canSaveOrder && (
+						<button onClick={handleSaveItem}>
+							{editIdx ? 'Update Item' : 'Add Item'}
+						</button>
+					)}
 				</div>
 
 				{editOrderIdx !== null && newOrder.items && newOrder.items.length > 0 && (
@@ -2238,9 +2194,11 @@ const handleVSIRUpdate = (event?: any) => {
 					</div>
 				)}
 
-				<button onClick={editOrderIdx !== null ? handleUpdateOrder : handleAddOrder}>
-					{editOrderIdx !== null ? 'Update Vendor Dept Order' : 'Add Vendor Dept Order'}
-				</button>
+				{canSaveOrder && (
+					<button onClick={editOrderIdx !== null ? handleUpdateOrder : handleAddOrder}>
+						{editOrderIdx !== null ? 'Update Vendor Dept Order' : 'Add Vendor Dept Order'}
+					</button>
+				)}
 				{editOrderIdx !== null && (
 					<button onClick={() => {
 						clearNewOrder();
@@ -2251,8 +2209,8 @@ const handleVSIRUpdate = (event?: any) => {
 				)}
 				<h3>Vendor Dept Orders</h3>
 				<div style={{ marginBottom: 8, display: 'flex', gap: 8, flexWrap: 'wrap' }}>
-					<button onClick={() => { syncEmptyVendorDeptQty(); alert('Sync Empty Qty completed'); }} style={{ padding: '6px 10px', background: '#2196f3', color: '#fff', border: 'none', borderRadius: 4, cursor: 'pointer' }}>Sync Empty Qty</button>
-					<button onClick={() => { if (confirm('Force sync will overwrite qty values where purchase data exists. Continue?')) { forceVendorDeptSync(); alert('Force Sync completed'); } }} style={{ padding: '6px 10px', background: '#ff9800', color: '#fff', border: 'none', borderRadius: 4, cursor: 'pointer' }}>Force Sync</button>
+					{permissions.edit && <button onClick={() => { syncEmptyVendorDeptQty(); alert('Sync Empty Qty completed'); }} style={{ padding: '6px 10px', background: '#2196f3', color: '#fff', border: 'none', borderRadius: 4, cursor: 'pointer' }}>Sync Empty Qty</button>}
+					{permissions.edit && <button onClick={() => { if (confirm('Force sync will overwrite qty values where purchase data exists. Continue?')) { forceVendorDeptSync(); alert('Force Sync completed'); } }} style={{ padding: '6px 10px', background: '#ff9800', color: '#fff', border: 'none', borderRadius: 4, cursor: 'pointer' }}>Force Sync</button>}
 					<button onClick={() => { setDebugOpen(prev => !prev); if (!debugOpen) buildDebugReport(); }} style={{ padding: '6px 10px', background: '#9c27b0', color: '#fff', border: 'none', borderRadius: 4, cursor: 'pointer' }}>{debugOpen ? 'Hide Debug' : 'Show Debug'}</button>
 					<button onClick={() => { setStockDebugOpen(prev => !prev); if (!stockDebugOpen) buildStockDebugReport(); }} style={{ padding: '6px 10px', background: '#673ab7', color: '#fff', border: 'none', borderRadius: 4, cursor: 'pointer' }}>{stockDebugOpen ? 'Hide Stock Debug' : 'Show Stock Debug'}</button>
 				</div>
@@ -2269,8 +2227,7 @@ const handleVSIRUpdate = (event?: any) => {
 									<th>Matched By</th>
 									<th>Closing Stock</th>
 									<th>Computed Stock</th>
-							<th>Closing Key</th>
-							<th>Closing Raw</th>
+							<th>Stock Qty</th>
 							<th>Matched Record (JSON)</th>
 								</tr>
 							</thead>
@@ -2284,8 +2241,7 @@ const handleVSIRUpdate = (event?: any) => {
 										<td>{r.matchedBy}</td>
 										<td>{r.closingStock ?? '—'}</td>
 										<td>{r.computed}</td>
-							<td>{r.closingKey ?? '—'}</td>
-							<td>{r.closingRaw ?? '—'}</td>
+							<td>{r.stockQty ?? '—'}</td>
 										<td style={{ maxWidth: 300 }}><pre style={{ whiteSpace: 'pre-wrap', maxHeight: 120, overflow: 'auto', fontSize: 11 }}>{JSON.stringify(r.matchedRecord || {}, null, 2)}</pre></td>
 									</tr>
 								))}
@@ -2345,6 +2301,7 @@ const handleVSIRUpdate = (event?: any) => {
 								<th style={{ padding: '10px 8px', textAlign: 'center', minWidth: '60px', borderRight: '1px solid #ccc' }}>Rework Qty</th>
 								<th style={{ padding: '10px 8px', textAlign: 'center', minWidth: '70px', borderRight: '1px solid #ccc' }}>Rejected Qty</th>
 								<th style={{ padding: '10px 8px', textAlign: 'left', minWidth: '80px', borderRight: '1px solid #ccc' }}>GRN No</th>
+								<th style={{ padding: '10px 8px', textAlign: 'left', minWidth: '90px', borderRight: '1px solid #ccc' }}>Debit Note / Returned</th>
 								<th style={{ padding: '10px 8px', textAlign: 'center', minWidth: '80px', borderRight: '1px solid #ccc' }}>Stock</th>
 								<th style={{ padding: '10px 8px', textAlign: 'left', minWidth: '80px', borderRight: '1px solid #ccc' }}>Status</th>
 								<th style={{ padding: '10px 8px', textAlign: 'center', minWidth: '70px' }}>Actions</th>
@@ -2361,10 +2318,10 @@ const handleVSIRUpdate = (event?: any) => {
 											<td style={{ padding: '10px 8px', borderRight: '1px solid #ccc' }}>{order.materialPurchasePoNo}</td>
 											<td style={{ padding: '10px 8px', borderRight: '1px solid #ccc' }}>{order.oaNo}</td>
 											<td style={{ padding: '10px 8px', borderRight: '1px solid #ccc' }}>{order.vendorName}</td>
-											<td colSpan={7} style={{ padding: '10px 8px', textAlign: 'center', color: '#888', borderRight: '1px solid #ccc' }}>(No items)</td>
+											<td colSpan={8} style={{ padding: '10px 8px', textAlign: 'center', color: '#888', borderRight: '1px solid #ccc' }}>(No items)</td>
 											<td style={{ padding: '10px 8px', textAlign: 'center', display: 'flex', gap: 4, justifyContent: 'center' }}>
-												<button onClick={() => handleEditOrder(idx)} style={{ background: '#1976d2', color: '#fff', border: 'none', borderRadius: 2, padding: '4px 8px', cursor: 'pointer', fontSize: 11 }}>Edit</button>
-												<button onClick={() => handleDeleteOrder(idx)} style={{ background: '#e53935', color: '#fff', border: 'none', borderRadius: 2, padding: '4px 8px', cursor: 'pointer', fontSize: 11 }}>Del</button>
+												{permissions.edit && <button onClick={() => handleEditOrder(idx)} style={{ background: '#1976d2', color: '#fff', border: 'none', borderRadius: 2, padding: '4px 8px', cursor: 'pointer', fontSize: 11 }}>Edit</button>}
+												{permissions.delete && <button onClick={() => handleDeleteOrder(idx)} style={{ background: '#e53935', color: '#fff', border: 'none', borderRadius: 2, padding: '4px 8px', cursor: 'pointer', fontSize: 11 }}>Del</button>}
 											</td>
 										</tr>
 									);
@@ -2397,6 +2354,7 @@ const handleVSIRUpdate = (event?: any) => {
 											<td style={{ padding: '10px 8px', textAlign: 'center', borderRight: '1px solid #ccc' }}>{item.reworkQty || '—'}</td>
 											<td style={{ padding: '10px 8px', textAlign: 'center', borderRight: '1px solid #ccc' }}>{item.rejectedQty || '—'}</td>
 											<td style={{ padding: '10px 8px', borderRight: '1px solid #ccc' }}>{item.grnNo || '—'}</td>
+											<td style={{ padding: '10px 8px', borderRight: '1px solid #ccc', fontSize: 12 }}>{item.debitNoteOrQtyReturned || '—'}</td>
 											<td style={{ padding: '10px 8px', textAlign: 'center', borderRight: '1px solid #ccc' }}>
 												<span style={{ 
 													background: stockNum < 0 ? '#e53935' : '#c8e6c9', 
@@ -2414,8 +2372,8 @@ const handleVSIRUpdate = (event?: any) => {
 												{indentStatus}
 											</td>
 											<td style={{ padding: '10px 8px', textAlign: 'center', display: 'flex', gap: 4, justifyContent: 'center' }}>
-												<button onClick={() => handleEditOrder(idx)} style={{ background: '#1976d2', color: '#fff', border: 'none', borderRadius: 2, padding: '4px 8px', cursor: 'pointer', fontSize: 11 }}>Edit</button>
-												<button onClick={() => handleDeleteItem(idx, itemIdx)} style={{ background: '#e53935', color: '#fff', border: 'none', borderRadius: 2, padding: '4px 8px', cursor: 'pointer', fontSize: 11 }}>Del</button>
+												{permissions.edit && <button onClick={() => handleEditOrder(idx)} style={{ background: '#1976d2', color: '#fff', border: 'none', borderRadius: 2, padding: '4px 8px', cursor: 'pointer', fontSize: 11 }}>Edit</button>}
+												{permissions.delete && <button onClick={() => handleDeleteItem(idx, itemIdx)} style={{ background: '#e53935', color: '#fff', border: 'none', borderRadius: 2, padding: '4px 8px', cursor: 'pointer', fontSize: 11 }}>Del</button>}
 											</td>
 										</tr>
 									);
@@ -2425,6 +2383,7 @@ const handleVSIRUpdate = (event?: any) => {
 					</table>
 				</div>
 			</div>
+			<RecycleBin uid={userUid} source={vendorDeptRepository} describe={o => `PO ${o.materialPurchasePoNo || '—'}${o.vendorName ? ` - ${o.vendorName}` : ''}${o.dcNo ? ` (DC ${o.dcNo})` : ''}`} title="Vendor Dept Recycle Bin" canRestore={permissions.edit} canPurge={permissions.delete} />
 		</div>
 	);
 };
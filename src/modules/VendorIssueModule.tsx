@@ -1,8 +1,8 @@
 import React, { useState, useEffect } from 'react';
 import bus from '../utils/eventBus';
 import { onAuthStateChanged } from 'firebase/auth';
-import { auth, db } from '../firebase';
-import { collection, addDoc, serverTimestamp } from 'firebase/firestore';
+import { auth } from '../firebase';
+import RecycleBin from '../components/RecycleBin';
 import {
   subscribeVendorIssues,
   addVendorIssue,
@@ -12,29 +12,10 @@ import {
   getItemMaster,
   subscribeVSIRRecords,
   subscribePurchaseOrders,
+  vendorIssueRepository,
 } from '../utils/firestoreServices';
-
-interface VendorIssueItem {
-  itemName: string;
-  itemCode: string;
-  qty: number;
-  indentBy: string;
-  inStock: number;
-  indentClosed: boolean;
-}
-
-interface VendorIssue {
-  id?: string;
-  date: string;
-  materialPurchasePoNo: string;
-  oaNo: string;
-  batchNo: string;
-  vendorBatchNo: string;
-  dcNo: string;
-  issueNo: string;
-  vendorName: string;
-  items: VendorIssueItem[];
-}
+import type { VendorIssueItem, VendorIssue } from '../utils/recordSchemas';
+import type { ModulePermissions } from '../config/roleModuleConfig';
 
 const indentByOptions = ['HKG', 'NGR', 'MDD'];
 
@@ -65,23 +46,14 @@ function getNextDCNo(issues: VendorIssue[]) {
   return `${prefix}${String(maxNum + 1).padStart(2, '0')}`;
 }
 
-const VendorIssueModule: React.FC = () => {
+interface VendorIssueModuleProps {
+  permissions: ModulePermissions;
+}
+
+const VendorIssueModule: React.FC<VendorIssueModuleProps> = ({ permissions }) => {
   // Move all useState declarations to the very top, before any useEffect
-  const [issues, setIssues] = useState<VendorIssue[]>(() => {
-    const saved = localStorage.getItem('vendorIssueData');
-    if (!saved) return [];
-    try {
-      const parsed = JSON.parse(saved);
-      return parsed.map((issue: any) => ({
-        ...issue,
-        vendorName: issue.vendorName || '',
-        vendorBatchNo: issue.vendorBatchNo || '',
-        items: Array.isArray(issue.items) ? issue.items : [],
-      }));
-    } catch {
-      return [];
-    }
-  });
+  // Seeded by the Firestore subscription (served from the offline cache while disconnected)
+  const [issues, setIssues] = useState<VendorIssue[]>([]);
 
   // Migrate existing localStorage `vendorIssueData` into Firestore on sign-in
   useEffect(() => {
@@ -96,10 +68,7 @@ const VendorIssueModule: React.FC = () => {
               if (Array.isArray(arr) && arr.length > 0) {
                 for (const it of arr as VendorIssue[]) {
                   try {
-                    const payload = { ...it } as any;
-                    if (typeof payload.id !== 'undefined') delete payload.id;
-                    const col = collection(db, 'userData', uid, 'vendorIssueData');
-                    await addDoc(col, { ...payload, createdAt: serverTimestamp(), updatedAt: serverTimestamp() });
+                    await addVendorIssue(uid, { ...it, items: Array.isArray(it.items) ? it.items : [] });
                   } catch (err) {
                     console.warn('[VendorIssueModule] migration addDoc failed for item', it, err);
                   }
@@ -142,8 +111,11 @@ const VendorIssueModule: React.FC = () => {
   const [vendorDeptOrders, setVendorDeptOrders] = useState<any[]>([]);
   const [purchaseOrders, setPurchaseOrders] = useState<any[]>([]);
   const [userUid, setUserUid] = useState<string | null>(null);
+  // POs of issues in the recycle bin (null until loaded); auto-import must not recreate them
+  const [deletedIssuePOs, setDeletedIssuePOs] = useState<Set<string> | null>(null);
   const [vsirRecords, setVsirRecords] = useState<any[]>([]);
   const [editIssueIdx, setEditIssueIdx] = useState<number | null>(null);
+  const canSaveIssue = editIssueIdx !== null ? permissions.edit : permissions.create;
 
   // Helper: deduplicate Vendor Issues by PO + Date + first item (to allow multiple issues per PO on different dates)
   const deduplicateVendorIssues = (arr: VendorIssue[]): VendorIssue[] => {
@@ -175,14 +147,6 @@ const VendorIssueModule: React.FC = () => {
     }
   };
 
-  // Debug: Log vendorIssueData and vendorDeptData on mount
-  useEffect(() => {
-    const vendorIssueRaw = localStorage.getItem('vendorIssueData');
-    const vendorDeptRaw = localStorage.getItem('vendorDeptData');
-    console.debug('[VendorIssueModule][Debug] vendorIssueData(localStorage):', vendorIssueRaw);
-    console.debug('[VendorIssueModule][Debug] vendorDeptData(localStorage):', vendorDeptRaw);
-  }, []);
-
   // Auth + Firestore subscriptions
   useEffect(() => {
     const unsubAuth = onAuthStateChanged(auth, (u) => setUserUid(u ? u.uid : null));
@@ -192,11 +156,11 @@ const VendorIssueModule: React.FC = () => {
   useEffect(() => {
     let unsubIssues: (() => void) | null = null;
     let unsubVendorDepts: (() => void) | null = null;
+    let unsubDeleted: (() => void) | null = null;
     let unsubVsir: (() => void) | null = null;
     let unsubPurchaseOrders: (() => void) | null = null;
 
     if (!userUid) {
-      // when not authenticated, keep using localStorage (existing behavior)
       return () => {};
     }
 
@@ -208,6 +172,12 @@ const VendorIssueModule: React.FC = () => {
       });
     } catch (err) { console.error('[VendorIssueModule] subscribeVendorIssues failed:', err); }
 
+    try {
+      unsubDeleted = vendorIssueRepository.subscribeDeleted(userUid, (docs) => {
+        setDeletedIssuePOs(new Set(docs.map(d => d.materialPurchasePoNo).filter(Boolean)));
+      });
+    } catch (err) { console.error('[VendorIssueModule] subscribeDeleted failed:', err); }
+
     try {
       unsubVendorDepts = subscribeVendorDepts(userUid, (docs) => setVendorDeptOrders(docs));
     } catch (err) { console.error('[VendorIssueModule] subscribeVendorDepts failed:', err); }
@@ -237,6 +207,8 @@ const VendorIssueModule: React.FC = () => {
     return () => {
       if (unsubIssues) unsubIssues();
       if (unsubVendorDepts) unsubVendorDepts();
+      if (unsubDeleted) unsubDeleted();
+      setDeletedIssuePOs(null);
       if (unsubVsir) unsubVsir();
       if (unsubPurchaseOrders) unsubPurchaseOrders();
     };
@@ -314,14 +286,14 @@ const VendorIssueModule: React.FC = () => {
     };
 
     window.addEventListener('storage', storageHandler);
-    bus.addEventListener('vendorDept.updated', handleVendorDeptUpdate as EventListener);
-    bus.addEventListener('vsir.updated', handleVSIRUpdate as EventListener);
+    bus.on('vendorDept.updated', handleVendorDeptUpdate);
+    bus.on('vsir.updated', handleVSIRUpdate);
     console.log('[VendorIssueModule] Listeners registered for vendorDept and VSIR updates (runs once on mount)');
 
     return () => {
       window.removeEventListener('storage', storageHandler);
-      bus.removeEventListener('vendorDept.updated', handleVendorDeptUpdate as EventListener);
-      bus.removeEventListener('vsir.updated', handleVSIRUpdate as EventListener);
+      bus.off('vendorDept.updated', handleVendorDeptUpdate);
+      bus.off('vsir.updated', handleVSIRUpdate);
       console.log('[VendorIssueModule] Listeners removed');
     };
   }, []);
@@ -504,11 +476,8 @@ const VendorIssueModule: React.FC = () => {
             }));
           } catch (err) {
             console.error('[VendorIssueModule] Failed to persist synced vendor info to Firestore:', err);
-            try { localStorage.setItem('vendorIssueData', JSON.stringify(dedupedUpdatedIssues)); } catch {}
           }
         })();
-      } else {
-        try { localStorage.setItem('vendorIssueData', JSON.stringify(dedupedUpdatedIssues)); } catch {}
       }
     }
   }, [vendorDeptOrders]);
@@ -545,11 +514,8 @@ const VendorIssueModule: React.FC = () => {
             // Let subscription refresh the list; keep local UI responsive
           } catch (err) {
             console.error('[VendorIssueModule] Failed to add Vendor Issue to Firestore:', err);
-            try { localStorage.setItem('vendorIssueData', JSON.stringify(dedupedUpdated)); } catch {}
           }
         })();
-      } else {
-        try { localStorage.setItem('vendorIssueData', JSON.stringify(dedupedUpdated)); } catch {}
       }
       clearNewIssue(dedupedUpdated);
       console.debug('[VendorIssueModule][AutoAdd] Auto-added Vendor Issue:', { ...newIssue, dcNo: autoDcNo });
@@ -562,10 +528,16 @@ const VendorIssueModule: React.FC = () => {
       console.log('[VendorIssueModule][AutoImport] === IMPORT CYCLE STARTED ===');
       console.log('[VendorIssueModule][AutoImport] purchaseOrders from Firestore count:', purchaseOrders.length);
       
+      if (!permissions.create) return;
       if (purchaseOrders.length === 0) {
         console.warn('[VendorIssueModule][AutoImport] No purchase orders in Firestore, skipping import');
         return;
       }
+      const deletedPOs = deletedIssuePOs;
+      if (!deletedPOs) {
+        console.log('[VendorIssueModule][AutoImport] Recycle bin not loaded yet, skipping import');
+        return;
+      }
 
       const poGroups: Record<string, any[]> = {};
       purchaseOrders.forEach((entry: any) => {
@@ -583,7 +555,7 @@ const VendorIssueModule: React.FC = () => {
       
       // Get the current issues to check existing POs
       const currentIssues = issues || [];
-      const existingPOs = new Set(currentIssues.map(issue => issue.materialPurchasePoNo));
+      const existingPOs = new Set([...currentIssues.map(issue => issue.materialPurchasePoNo), ...deletedPOs]);
       console.log('[VendorIssueModule][AutoImport] Current issues count:', currentIssues.length);
       console.log('[VendorIssueModule][AutoImport] Existing POs in issues:', Array.from(existingPOs));
       
@@ -697,11 +669,8 @@ const VendorIssueModule: React.FC = () => {
               console.log('[VendorIssueModule][AutoImport] ✓ Imported issues persisted to Firestore successfully');
             } catch (err) {
               console.error('[VendorIssueModule] Failed to persist imported issues to Firestore:', err);
-              try { localStorage.setItem('vendorIssueData', JSON.stringify(dedupedNewIssues)); } catch {}
             }
           })();
-        } else {
-          try { localStorage.setItem('vendorIssueData', JSON.stringify(dedupedNewIssues)); } catch {}
         }
       } else {
         console.log('[VendorIssueModule][AutoImport] No new POs to add this cycle');
@@ -714,7 +683,7 @@ const VendorIssueModule: React.FC = () => {
       console.log('[VendorIssueModule][AutoImport] Triggering import based on purchaseOrders update');
       importPurchaseOrders();
     }
-  }, [purchaseOrders, userUid]);
+  }, [purchaseOrders, deletedIssuePOs, userUid, permissions.create]);
 
   // Fill missing Vendor Batch No from VSIR and purchaseOrders for existing issues
   useEffect(() => {
@@ -759,11 +728,8 @@ const VendorIssueModule: React.FC = () => {
             console.log('[VendorIssueModule][FillVendorBatch] ✓ Vendor batch no updates persisted to Firestore');
           } catch (err) {
             console.error('[VendorIssueModule] Failed to persist vendor batch no updates to Firestore:', err);
-            try { localStorage.setItem('vendorIssueData', JSON.stringify(dedupedUpdatedIssues)); } catch {}
           }
         })();
-      } else {
-        try { localStorage.setItem('vendorIssueData', JSON.stringify(dedupedUpdatedIssues)); } catch {}
       }
     }
   }, [vsirRecords, purchaseOrders, userUid]);
@@ -807,11 +773,8 @@ const VendorIssueModule: React.FC = () => {
               }));
             } catch (err) {
               console.error('[VendorIssueModule] Failed to persist filled missing OA/Batch to Firestore:', err);
-              try { localStorage.setItem('vendorIssueData', JSON.stringify(dedupedUpdatedIssues)); } catch {}
             }
           })();
-        } else {
-          try { localStorage.setItem('vendorIssueData', JSON.stringify(dedupedUpdatedIssues)); } catch {}
         }
       }
     } catch (e) {
@@ -854,11 +817,8 @@ const VendorIssueModule: React.FC = () => {
           if (last && !last.id) await addVendorIssue(userUid, last);
         } catch (err) {
           console.error('[VendorIssueModule] Failed to add Vendor Issue to Firestore:', err);
-          try { localStorage.setItem('vendorIssueData', JSON.stringify(dedupedUpdated)); } catch {}
         }
       })();
-    } else {
-      try { localStorage.setItem('vendorIssueData', JSON.stringify(dedupedUpdated)); } catch {}
     }
     clearNewIssue(dedupedUpdated);
   };
@@ -899,11 +859,8 @@ const VendorIssueModule: React.FC = () => {
           }));
         } catch (err) {
           console.error('[VendorIssueModule] Failed to persist updated Vendor Issue to Firestore:', err);
-          try { localStorage.setItem('vendorIssueData', JSON.stringify(dedupedUpdated)); } catch {}
         }
       })();
-    } else {
-      try { localStorage.setItem('vendorIssueData', JSON.stringify(dedupedUpdated)); } catch {}
     }
     clearNewIssue(dedupedUpdated);
     setEditIssueIdx(null);
@@ -1110,7 +1067,7 @@ const VendorIssueModule: React.FC = () => {
           />
           Indent Closed
         </label>
-        <button onClick={handleAddItem}>Add Item</button>
+        {canSaveIssue && <button onClick={handleAddItem}>Add Item</button>}
       </div>
       {newIssue.items.length > 0 && (
         <table border={1} cellPadding={6} style={{ width: '100%', marginBottom: 16 }}>
@@ -1138,9 +1095,11 @@ const VendorIssueModule: React.FC = () => {
           </tbody>
         </table>
       )}
-      <button onClick={editIssueIdx !== null ? handleUpdateIssue : handleAddIssue}>
-        {editIssueIdx !== null ? 'Update Vendor Issue' : 'Add Vendor Issue'}
-      </button>
+      {canSaveIssue && (
+        <button onClick={editIssueIdx !== null ? handleUpdateIssue : handleAddIssue}>
+          {editIssueIdx !== null ? 'Update Vendor Issue' : 'Add Vendor Issue'}
+        </button>
+      )}
       <h3>Vendor Issues</h3>
       <table border={1} cellPadding={6} style={{ width: '100%', marginBottom: 16 }}>
         <thead>
@@ -1189,51 +1148,51 @@ const VendorIssueModule: React.FC = () => {
                   <td>{item.inStock}</td>
                   <td>{item.indentClosed ? 'Yes' : 'No'}</td>
                   <td>
-                    <button
-                      type="button"
-                      style={{ background: '#1976d2', color: '#fff', border: 'none', borderRadius: 4, padding: '4px 12px', cursor: 'pointer' }}
-                      onClick={() => handleEditIssue(idx)}
-                    >
-                      Edit
-                    </button>
+                    {permissions.edit && (
+                      <button
+                        type="button"
+                        style={{ background: '#1976d2', color: '#fff', border: 'none', borderRadius: 4, padding: '4px 12px', cursor: 'pointer' }}
+                        onClick={() => handleEditIssue(idx)}
+                      >
+                        Edit
+                      </button>
+                    )}
                   </td>
                   <td>
-                    <button
-                      type="button"
-                      onClick={(e) => {
-                        e.preventDefault();
-                        const toDelete = issues[idx];
-                        if (!toDelete) {
-                          console.error('[VendorIssueModule] No issue found to delete at index', idx);
-                          return;
-                        }
+                    {permissions.delete && (
+                      <button
+                        type="button"
+                        onClick={(e) => {
+                          e.preventDefault();
+                          const toDelete = issues[idx];
+                          if (!toDelete) {
+                            console.error('[VendorIssueModule] No issue found to delete at index', idx);
+                            return;
+                          }
 
-                        console.log('[VendorIssueModule] Deleting issue:', toDelete);
+                          console.log('[VendorIssueModule] Deleting issue:', toDelete);
                         
-                        // Delete from Firestore immediately
-                        if (userUid && toDelete?.id) {
-                          deleteVendorIssue(userUid, toDelete.id)
-                            .then(() => {
-                              console.log('[VendorIssueModule] Successfully deleted from Firestore:', toDelete.id);
-                              // Remove from local state after successful Firestore delete
-                              setIssues(prev => prev.filter((_, i) => i !== idx));
-                            })
-                            .catch((err) => {
-                              console.error('[VendorIssueModule] Failed to delete from Firestore:', err, 'Issue ID:', toDelete.id);
-                            });
-                        } else {
-                          // No userUid, just remove from state and localStorage
-                          setIssues(prev => {
-                            const updated = prev.filter((_, i) => i !== idx);
-                            try { localStorage.setItem('vendorIssueData', JSON.stringify(updated)); } catch {}
-                            return updated;
-                          });
-                        }
-                      }}
-                      style={{ background: '#e53935', color: '#fff', border: 'none', borderRadius: 4, padding: '4px 12px', cursor: 'pointer' }}
-                    >
-                      Delete
-                    </button>
+                          // Delete from Firestore immediately
+                          if (userUid && toDelete?.id) {
+                            deleteVendorIssue(userUid, toDelete.id)
+                              .then(() => {
+                                console.log('[VendorIssueModule] Successfully deleted from Firestore:', toDelete.id);
+                                // Remove from local state after successful Firestore delete
+                                setIssues(prev => prev.filter((_, i) => i !== idx));
+                              })
+                              .catch((err) => {
+                                console.error('[VendorIssueModule] Failed to delete from Firestore:', err, 'Issue ID:', toDelete.id);
+                              });
+                          } else {
+                            // Not yet saved to Firestore, just remove from state
+                            setIssues(prev => prev.filter((_, i) => i !== idx));
+                          }
+                        }}
+                        style={{ background: '#e53935', color: '#fff', border: 'none', borderRadius: 4, padding: '4px 12px', cursor: 'pointer' }}
+                      >
+                        Delete
+                      </button>
+                    )}
                   </td>
                 </tr>
               );
@@ -1241,6 +1200,7 @@ const VendorIssueModule: React.FC = () => {
           )}
         </tbody>
       </table>
+      <RecycleBin uid={userUid} source={vendorIssueRepository} describe={i => `PO ${i.materialPurchasePoNo || '—'}${i.vendorName ? ` - ${i.vendorName}` : ''}${i.issueNo ? ` (Issue ${i.issueNo})` : ''}`} title="Vendor Issue Recycle Bin" canRestore={permissions.edit} canPurge={permissions.delete} />
     </div>
   );
 };
@@ -0,0 +1,52 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { approvalChains } from '../config/approvalConfig';
+import { approvalLabel, approvalStatusOf, canDecide, decide, pendingStep, startApproval } from './approvals';
+
+const raiser = { uid: 'raiser', name: 'Raiser' };
+const hod = { uid: 'hod', name: 'HOD' };
+const allows = (...permissions: string[]) => (permission: string) => permissions.includes(permission);
+
+describe('approval chain', () => {
+  const indentChain = [...approvalChains.indent];
+  afterEach(() => {
+    approvalChains.indent = [...indentChain];
+  });
+
+  it('raises documents pending, or approved when the chain is empty', () => {
+    expect(startApproval('indent', raiser.uid)).toEqual({ approvalStatus: 'pending', approvals: [], raisedBy: 'raiser' });
+    approvalChains.indent = [];
+    expect(startApproval('indent', raiser.uid).approvalStatus).toBe('approved');
+  });
+
+  it('treats documents from before approvals as approved', () => {
+    expect(approvalStatusOf({})).toBe('approved');
+    expect(pendingStep('indent', {})).toBeNull();
+  });
+
+  it('lets only a permitted approver other than the raiser decide', () => {
+    const indent = startApproval('indent', raiser.uid);
+    expect(canDecide('indent', indent, allows('indent:approve'), hod.uid)).toBe(true);
+    expect(canDecide('indent', indent, allows('indent:approve'), raiser.uid)).toBe(false);
+    expect(canDecide('indent', indent, allows('purchase:approve'), hod.uid)).toBe(false);
+    expect(() => decide('indent', indent, 'approved', raiser)).toThrow();
+  });
+
+  it('approves once every step has approved, in order', () => {
+    approvalChains.indent = [...indentChain, { id: 'md', label: 'MD', permission: 'indent:approve' }];
+    const first = decide('indent', startApproval('indent', raiser.uid), 'approved', hod);
+    expect(first.approvalStatus).toBe('pending');
+    expect(approvalLabel('indent', first)).toBe('Pending MD');
+    const second = decide('indent', first, 'approved', { uid: 'md', name: 'MD' });
+    expect(second.approvalStatus).toBe('approved');
+    expect(second.approvals.map(a => a.step)).toEqual(['hod', 'md']);
+  });
+
+  it('ends the chain on a rejection', () => {
+    approvalChains.indent = [...indentChain, { id: 'md', label: 'MD', permission: 'indent:approve' }];
+    const rejected = decide('indent', startApproval('indent', raiser.uid), 'rejected', hod, '  too costly ');
+    expect(rejected.approvalStatus).toBe('rejected');
+    expect(rejected.approvals[0].comment).toBe('too costly');
+    expect(pendingStep('indent', rejected)).toBeNull();
+    expect(() => decide('indent', rejected, 'approved', hod)).toThrow();
+  });
+});
@@ -0,0 +1,94 @@
+import { approvalChains } from '../config/approvalConfig';
+import type { ApprovalDocType, ApprovalStep } from '../config/approvalConfig';
+import type { ApprovalDecision, ApprovalStatus } from './recordSchemas';
+
+/**
+ * Approval state lives on the document itself: `approvalStatus` plus the list
+ * of `approvals` decisions in chain order, and `raisedBy`, the uid of whoever
+ * raised it, who may not decide on it. These helpers are pure; modules save a
+ * decision as an update of just the decided document's approval fields
+ * (approvalFields), which is all firestore.rules lets an approver change.
+ */
+
+export interface Approvable {
+  approvalStatus?: ApprovalStatus;
+  approvals?: ApprovalDecision[];
+  raisedBy?: string;
+}
+
+export interface Approver {
+  uid: string;
+  name: string;
+}
+
+/** Approval fields for a document newly raised by `raisedBy` */
+export const startApproval = (docType: ApprovalDocType, raisedBy: string): Required<Approvable> => ({
+  approvalStatus: approvalChains[docType].length > 0 ? 'pending' : 'approved',
+  approvals: [],
+  raisedBy,
+});
+
+// Documents saved before approvals existed carry no status and were already in use
+export const approvalStatusOf = (record: Approvable): ApprovalStatus => record.approvalStatus || 'approved';
+
+export const isApproved = (record: Approvable) => approvalStatusOf(record) === 'approved';
+
+/** The step waiting for a decision, or null once the document is approved or rejected */
+export const pendingStep = (docType: ApprovalDocType, record: Approvable): ApprovalStep | null => {
+  if (approvalStatusOf(record) !== 'pending') return null;
+  const decided = new Set((record.approvals || []).map(a => a.step));
+  return approvalChains[docType].find(step => !decided.has(step.id)) || null;
+};
+
+/** Whether user `uid`, holding these permissions, can decide the pending step; nobody decides on what they raised */
+export const canDecide = (docType: ApprovalDocType, record: Approvable, hasPermission: (permission: string) => boolean, uid: string) => {
+  const step = pendingStep(docType, record);
+  return !!step && hasPermission(step.permission) && record.raisedBy !== uid;
+};
+
+/**
+ * Record a decision on the pending step and return the updated document.
+ * A rejection ends the chain; an approval on the last step approves the document.
+ */
+export const decide = <T extends Approvable>(
+  docType: ApprovalDocType,
+  record: T,
+  decision: ApprovalDecision['decision'],
+  approver: Approver,
+  comment = '',
+): T => {
+  const step = pendingStep(docType, record);
+  if (!step) throw new Error('Nothing is waiting for approval on this record');
+  if (record.raisedBy && record.raisedBy === approver.uid) throw new Error('You cannot decide on a record you raised');
+  const approvals = [
+    ...(record.approvals || []),
+    { step: step.id, decision, by: approver.uid, byName: approver.name, at: new Date().toISOString(), comment: comment.trim() },
+  ];
+  const done = new Set(approvals.map(a => a.step));
+  const approvalStatus: ApprovalStatus = decision === 'rejected'
+    ? 'rejected'
+    : approvalChains[docType].every(s => done.has(s.id)) ? 'approved' : 'pending';
+  return { ...record, approvals, approvalStatus };
+};
+
+/** The fields a decision changes, for a targeted update of the decided document */
+export const approvalFields = (record: Approvable): Pick<Approvable, 'approvalStatus' | 'approvals'> => ({
+  approvalStatus: record.approvalStatus,
+  approvals: record.approvals,
+});
+
+/** Short status for tables, e.g. "Pending HOD" or "Rejected" */
+export const approvalLabel = (docType: ApprovalDocType, record: Approvable) => {
+  const status = approvalStatusOf(record);
+  if (status !== 'pending') return status === 'approved' ? 'Approved' : 'Rejected';
+  const step = pendingStep(docType, record);
+  return step ? `Pending ${step.label}` : 'Pending';
+};
+
+/** One line per decision, for a tooltip */
+export const approvalHistory = (docType: ApprovalDocType, record: Approvable) =>
+  (record.approvals || []).map(a => {
+    const step = approvalChains[docType].find(s => s.id === a.step)?.label || a.step;
+    const when = new Date(a.at).toLocaleString();
+    return `${step}: ${a.decision} by ${a.byName || a.by} on ${when}${a.comment ? ` - "${a.comment}"` : ''}`;
+  }).join('\n');
@@ -0,0 +1,162 @@
+import { addDoc, getDocs, query, where, orderBy, limit, serverTimestamp, Timestamp } from 'firebase/firestore';
+import type { QueryConstraint } from 'firebase/firestore';
+import { auth } from '../firebase';
+import { logger } from './logger';
+import { workspaceCollection } from './workspace';
+
+/**
+ * Audit trail for writes made through the repository layer, firestoreSync and
+ * psirService. Each write appends one entry to the workspace's `auditLog`
+ * collection with the acting user, the document path and a field-level
+ * before/after diff. Recording is best effort: a failed audit write is logged,
+ * never thrown, so it cannot block the write it describes.
+ */
+
+export type AuditAction = 'create' | 'update' | 'delete' | 'restore' | 'purge' | 'replace' | 'reset';
+
+export interface AuditChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+export interface AuditEntry {
+  id?: string;
+  userId: string;
+  userEmail: string;
+  module: string;
+  collection: string;
+  /** Full document path, e.g. orgs/{orgId}/vendorIssues/{id} */
+  path: string;
+  docId: string;
+  action: AuditAction;
+  changes: AuditChange[];
+  timestamp?: unknown;
+  /** Client clock at write time; `timestamp` is the server's */
+  clientTime: string;
+}
+
+const AUDIT_COLLECTION = 'auditLog';
+
+// Module that owns each collection, for browsing the log by screen
+const MODULE_BY_COLLECTION: Record<string, string> = {
+  psirs: 'PSIR',
+  vsirRecords: 'VSIR',
+  debitNotes: 'Debit Note',
+  salesOrders: 'Sales',
+  deliveryChallans: 'Delivery Challan',
+  vendorIssues: 'Vendor Issue',
+  vendorDepts: 'Vendor Dept',
+  inHouseIssues: 'In House Issue',
+  stockRecords: 'Stock',
+  itemMaster: 'Item Master',
+  indentData: 'Indent',
+  purchaseOrders: 'Purchase',
+  purchaseData: 'Purchase',
+  dataReset: 'Data Reset',
+  members: 'User Management',
+  invites: 'User Management',
+};
+
+export const moduleForCollection = (collectionName: string) => MODULE_BY_COLLECTION[collectionName] || collectionName;
+
+// Bookkeeping fields change on every write and say nothing about the edit
+const IGNORED_FIELDS = new Set(['createdAt', 'updatedAt', 'schemaVersion', 'id']);
+// Keep entries well below Firestore's document size limit
+const MAX_CHANGES = 200;
+
+const isPlainObject = (val: unknown): val is Record<string, unknown> =>
+  typeof val === 'object' && val !== null && !Array.isArray(val) && !(val instanceof Timestamp);
+
+// Firestore rejects undefined; timestamps are stored as ISO strings for display
+const storable = (val: unknown): unknown => {
+  if (val === undefined) return null;
+  if (val instanceof Timestamp) return val.toDate().toISOString();
+  return val;
+};
+
+/**
+ * Field-level diff between two document versions. Nested objects and arrays
+ * (e.g. `items`) are walked so changes read as `items[2].qty`.
+ */
+export const diffFields = (before: unknown, after: unknown, path = ''): AuditChange[] => {
+  if (Array.isArray(before) && Array.isArray(after)) {
+    const changes: AuditChange[] = [];
+    for (let i = 0; i < Math.max(before.length, after.length); i++) {
+      changes.push(...diffFields(before[i], after[i], `${path}[${i}]`));
+    }
+    return changes;
+  }
+  if (isPlainObject(before) && isPlainObject(after)) {
+    const changes: AuditChange[] = [];
+    new Set([...Object.keys(before), ...Object.keys(after)]).forEach(key => {
+      if (!path && IGNORED_FIELDS.has(key)) return;
+      changes.push(...diffFields(before[key], after[key], path ? `${path}.${key}` : key));
+    });
+    return changes;
+  }
+  if (JSON.stringify(storable(before)) === JSON.stringify(storable(after))) return [];
+  return [{ field: path || '(document)', before: storable(before), after: storable(after) }];
+};
+
+/**
+ * Append an audit entry for one write. `before` is null for creates and
+ * `after` null for deletes; for partial updates pass the merged document.
+ */
+export const recordAudit = async (params: {
+  collectionName: string;
+  path: string;
+  docId: string;
+  action: AuditAction;
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+}): Promise<void> => {
+  try {
+    const user = auth.currentUser;
+    if (!user) throw new Error('Not signed in');
+    const changes = diffFields(params.before ?? {}, params.after ?? {});
+    if (params.action === 'update' && changes.length === 0) return;
+    const entry: AuditEntry = {
+      userId: user.uid,
+      userEmail: user.email || '',
+      module: moduleForCollection(params.collectionName),
+      collection: params.collectionName,
+      path: params.path,
+      docId: params.docId,
+      action: params.action,
+      changes: changes.slice(0, MAX_CHANGES),
+      clientTime: new Date().toISOString(),
+    };
+    await addDoc(workspaceCollection(user.uid, AUDIT_COLLECTION), { ...entry, timestamp: serverTimestamp() });
+  } catch (error) {
+    logger.warn(`[AuditLog] Could not record ${params.action} of ${params.path}:`, error);
+  }
+};
+
+export interface AuditQuery {
+  /** User id, or an email address */
+  user?: string;
+  /** Exact document path, or a document id */
+  record?: string;
+  from?: Date;
+  to?: Date;
+  max?: number;
+}
+
+/**
+ * Most recent entries first, filtered by user, record and/or date range.
+ * Equality filters combined with the timestamp order need composite indexes
+ * (userId/userEmail/path/docId + timestamp desc); Firestore's error links to them.
+ */
+export const queryAuditLog = async (filters: AuditQuery = {}): Promise<AuditEntry[]> => {
+  const uid = auth.currentUser?.uid;
+  if (!uid) throw new Error('Not signed in');
+  const constraints: QueryConstraint[] = [];
+  if (filters.user) constraints.push(where(filters.user.includes('@') ? 'userEmail' : 'userId', '==', filters.user));
+  if (filters.record) constraints.push(where(filters.record.includes('/') ? 'path' : 'docId', '==', filters.record));
+  if (filters.from) constraints.push(where('timestamp', '>=', Timestamp.fromDate(filters.from)));
+  if (filters.to) constraints.push(where('timestamp', '<=', Timestamp.fromDate(filters.to)));
+  constraints.push(orderBy('timestamp', 'desc'), limit(filters.max ?? 200));
+  const snap = await getDocs(query(workspaceCollection(uid, AUDIT_COLLECTION), ...constraints));
+  return snap.docs.map(d => ({ ...(d.data() as AuditEntry), id: d.id }));
+};
@@ -0,0 +1,224 @@
+import { getDocs, writeBatch, Timestamp } from 'firebase/firestore';
+import type { QueryDocumentSnapshot } from 'firebase/firestore';
+import { db, auth } from '../firebase';
+import { logger } from './logger';
+import { getActiveOrgId, workspaceCollection, workspaceCollectionPath, workspaceDoc, workspacePath } from './workspace';
+import { recordAudit } from './auditLog';
+import { putSnapshot, readSnapshots, deleteSnapshot, deleteCachedDocs } from './offlineStore';
+import { discardMutations, isOffline } from './writeQueue';
+import { reconcileStockLedger } from './stockLedger';
+
+/**
+ * Scoped, reversible data reset. A reset deletes the chosen collections
+ * (optionally only documents created within a date range) after taking a
+ * snapshot of everything it is about to delete; the snapshot is kept in
+ * IndexedDB, offered as a JSON download and can be restored document for
+ * document. The date range filters on createdAt, which is written once when a
+ * document is created and never by updates or list saves (see assertDocument).
+ * Offline writes still queued for the deleted documents, and their cached
+ * copies, are dropped so they cannot bring them back. The stock ledger is not
+ * reset directly: it is reconciled against the remaining source documents
+ * after every reset and restore.
+ */
+
+export interface ResettableCollection {
+  name: string;
+  label: string;
+}
+
+export const RESETTABLE_COLLECTIONS: ResettableCollection[] = [
+  { name: 'indentData', label: 'Indents' },
+  { name: 'purchaseOrders', label: 'Purchase Orders' },
+  { name: 'purchaseData', label: 'Purchase Data' },
+  { name: 'vendorDepts', label: 'Vendor Dept Orders' },
+  { name: 'vendorIssues', label: 'Vendor Issues' },
+  { name: 'psirs', label: 'PSIR' },
+  { name: 'vsirRecords', label: 'VSIR' },
+  { name: 'debitNotes', label: 'Debit Notes' },
+  { name: 'salesOrders', label: 'Sales Orders' },
+  { name: 'inHouseIssues', label: 'In-House Issues' },
+  { name: 'deliveryChallans', label: 'Delivery Challans' },
+  { name: 'stockRecords', label: 'Stock Records' },
+  { name: 'itemMaster', label: 'Item Master' },
+];
+
+export interface ResetScope {
+  collections: string[];
+  /** Inclusive ISO date bounds on createdAt (set once, on create); documents without createdAt only match an open range */
+  from?: string;
+  to?: string;
+}
+
+export interface ResetSnapshot {
+  id: string;
+  uid: string;
+  /** Workspace the documents were deleted from; missing on snapshots taken before workspaces */
+  orgId?: string;
+  takenAt: string;
+  takenBy: string;
+  scope: ResetScope;
+  /** Per collection, the deleted documents with Timestamps encoded as { __timestamp: ISO } */
+  docs: Record<string, Array<{ id: string; data: Record<string, unknown> }>>;
+}
+
+// Stay under Firestore's 500 writes per batch
+const BATCH_SIZE = 400;
+
+const collectionFor = (name: string) => RESETTABLE_COLLECTIONS.find(c => c.name === name);
+
+const createdAtMillis = (val: unknown): number | null => {
+  if (val && typeof (val as { toMillis?: unknown }).toMillis === 'function') return (val as { toMillis: () => number }).toMillis();
+  if (typeof val === 'string') {
+    const ms = Date.parse(val);
+    return Number.isFinite(ms) ? ms : null;
+  }
+  return null;
+};
+
+const inRange = (data: Record<string, unknown>, scope: ResetScope) => {
+  if (!scope.from && !scope.to) return true;
+  const ms = createdAtMillis(data.createdAt);
+  if (ms === null) return false;
+  if (scope.from && ms < new Date(`${scope.from}T00:00:00`).getTime()) return false;
+  if (scope.to && ms > new Date(`${scope.to}T23:59:59.999`).getTime()) return false;
+  return true;
+};
+
+// Timestamps survive the JSON round trip as tagged ISO strings
+const encode = (val: unknown): unknown => {
+  if (val instanceof Timestamp) return { __timestamp: val.toDate().toISOString() };
+  if (Array.isArray(val)) return val.map(encode);
+  if (val && typeof val === 'object') return Object.fromEntries(Object.entries(val).map(([k, v]) => [k, encode(v)]));
+  return val;
+};
+
+const decode = (val: unknown): unknown => {
+  if (Array.isArray(val)) return val.map(decode);
+  if (val && typeof val === 'object') {
+    const tagged = (val as { __timestamp?: unknown }).__timestamp;
+    if (typeof tagged === 'string') return Timestamp.fromDate(new Date(tagged));
+    return Object.fromEntries(Object.entries(val).map(([k, v]) => [k, decode(v)]));
+  }
+  return val;
+};
+
+const readScope = async (uid: string, scope: ResetScope): Promise<Record<string, QueryDocumentSnapshot[]>> => {
+  const out: Record<string, QueryDocumentSnapshot[]> = {};
+  for (const name of scope.collections) {
+    if (!collectionFor(name)) throw new Error(`Collection ${name} cannot be reset`);
+    const snap = await getDocs(workspaceCollection(uid, name));
+    out[name] = snap.docs.filter(d => inRange(d.data(), scope));
+  }
+  return out;
+};
+
+const commitInBatches = async <T>(items: T[], apply: (batch: ReturnType<typeof writeBatch>, item: T) => void) => {
+  for (let i = 0; i < items.length; i += BATCH_SIZE) {
+    const batch = writeBatch(db);
+    items.slice(i, i + BATCH_SIZE).forEach(item => apply(batch, item));
+    await batch.commit();
+  }
+};
+
+// Queued writes and cached copies of the reset documents (the whole collection without a date range)
+const dropOfflineCopies = async (uid: string, name: string, ids?: string[]) => {
+  const path = workspaceCollectionPath(uid, name);
+  const idSet = ids ? new Set(ids) : null;
+  try {
+    const dropped = await discardMutations(m => m.collectionPath === path && (!idSet || idSet.has(m.docId)));
+    await deleteCachedDocs(path, ids);
+    if (dropped > 0) logger.log(`[DataReset] Dropped ${dropped} queued offline write(s) to ${name}`);
+  } catch (error) {
+    logger.warn(`[DataReset] Could not clear offline copies of ${name}:`, error);
+  }
+};
+
+const countsOf = (docs: Record<string, unknown[]>) =>
+  Object.fromEntries(Object.entries(docs).map(([name, list]) => [name, list.length]));
+
+/** Number of documents per collection a reset with `scope` would delete */
+export const previewReset = async (uid: string, scope: ResetScope): Promise<Record<string, number>> =>
+  countsOf(await readScope(uid, scope));
+
+/**
+ * Snapshot, then delete, every document in `scope`. The snapshot is stored
+ * before the first delete; if storing it fails nothing is deleted.
+ */
+export const runReset = async (uid: string, scope: ResetScope): Promise<ResetSnapshot> => {
+  if (isOffline()) throw new Error('Data reset needs a connection to the server');
+  const found = await readScope(uid, scope);
+  const user = auth.currentUser;
+  const snapshot: ResetSnapshot = {
+    id: `reset-${Date.now()}`,
+    uid,
+    orgId: getActiveOrgId() ?? undefined,
+    takenAt: new Date().toISOString(),
+    takenBy: user?.email || user?.uid || '',
+    scope,
+    docs: Object.fromEntries(Object.entries(found).map(([name, docs]) => [
+      name,
+      docs.map(d => ({ id: d.id, data: encode(d.data()) as Record<string, unknown> })),
+    ])),
+  };
+  await putSnapshot(snapshot);
+
+  for (const [name, docs] of Object.entries(found)) {
+    await commitInBatches(docs, (batch, d) => batch.delete(d.ref));
+    logger.log(`[DataReset] Deleted ${docs.length} ${name} document(s)`);
+    await dropOfflineCopies(uid, name, scope.from || scope.to ? docs.map(d => d.id) : undefined);
+  }
+
+  const counts = countsOf(found);
+  void recordAudit({
+    collectionName: 'dataReset',
+    path: workspacePath(uid),
+    docId: snapshot.id,
+    action: 'reset',
+    before: counts,
+    after: Object.fromEntries(Object.keys(counts).map(name => [name, 0])),
+  });
+  await reconcileStockLedger(uid).catch(error => logger.error('[DataReset] Stock ledger reconcile failed:', error));
+  return snapshot;
+};
+
+/** Write every document in `snapshot` back under its original id */
+export const restoreSnapshot = async (uid: string, snapshot: ResetSnapshot): Promise<Record<string, number>> => {
+  if (isOffline()) throw new Error('Restoring a snapshot needs a connection to the server');
+  if (snapshot.orgId ? snapshot.orgId !== getActiveOrgId() : snapshot.uid !== uid) {
+    throw new Error('This snapshot belongs to a different workspace');
+  }
+  for (const [name, docs] of Object.entries(snapshot.docs)) {
+    if (!collectionFor(name)) throw new Error(`Snapshot contains unknown collection ${name}`);
+    await commitInBatches(docs, (batch, d) => batch.set(workspaceDoc(uid, name, d.id), decode(d.data) as Record<string, unknown>));
+    logger.log(`[DataReset] Restored ${docs.length} ${name} document(s)`);
+  }
+  const counts = countsOf(snapshot.docs);
+  void recordAudit({
+    collectionName: 'dataReset',
+    path: workspacePath(uid),
+    docId: snapshot.id,
+    action: 'restore',
+    before: Object.fromEntries(Object.keys(counts).map(name => [name, 0])),
+    after: counts,
+  });
+  await reconcileStockLedger(uid).catch(error => logger.error('[DataReset] Stock ledger reconcile failed:', error));
+  return counts;
+};
+
+/** Snapshots of the current workspace taken on this device, newest first */
+export const listSnapshots = async (uid: string): Promise<ResetSnapshot[]> => {
+  const all = await readSnapshots<ResetSnapshot>();
+  const orgId = getActiveOrgId();
+  return all.filter(s => (s.orgId ? s.orgId === orgId : s.uid === uid)).sort((a, b) => b.takenAt.localeCompare(a.takenAt));
+};
+
+export const discardSnapshot = deleteSnapshot;
+
+/** Parse a downloaded snapshot file, checking it has the expected shape */
+export const parseSnapshotFile = (text: string): ResetSnapshot => {
+  const parsed = JSON.parse(text) as Partial<ResetSnapshot>;
+  if (!parsed || typeof parsed.id !== 'string' || typeof parsed.uid !== 'string' || !parsed.docs || typeof parsed.docs !== 'object') {
+    throw new Error('Not a data reset snapshot file');
+  }
+  return parsed as ResetSnapshot;
+};
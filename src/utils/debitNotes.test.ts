@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import { debitNoteTotals, nextDebitNoteNo, overDebitedLines, pendingDebitLines } from './debitNotes';
+import type { DebitNote, DebitNoteItem, PSIR, VSRIRecord } from './recordSchemas';
+
+const psir = {
+  id: 'psir-1', receivedDate: '2025-03-01', indentNo: 'IND-1', poNo: 'PO-1', oaNo: '', batchNo: '25/P1', invoiceNo: '', supplierName: 'Acme Castings',
+  items: [
+    { itemName: 'Bracket', itemCode: 'A-1', qtyReceived: 10, okQty: 7, rejectQty: 3, grnNo: 'GRN-1', remarks: '' },
+    { itemName: 'Hinge', itemCode: 'B-2', qtyReceived: 5, okQty: 5, rejectQty: 0, grnNo: 'GRN-1', remarks: '' },
+  ],
+} as PSIR;
+
+const vsir = {
+  id: 'vsir-1', receivedDate: '2025-03-05', poNo: 'PO-2', dcNo: 'DC-9', vendorName: 'Bright Platers', vendorBatchNo: 'V1',
+  itemName: 'Bracket', itemCode: 'A-1', qtyReceived: 8, okQty: 5, reworkQty: 2, rejectQty: 1, grnNo: 'GRN-2',
+} as VSRIRecord;
+
+const line = (fields: Partial<DebitNoteItem>): DebitNoteItem => ({
+  source: 'psir', sourceId: 'psir-1', reason: 'reject', poNo: 'PO-1', dcNo: '', grnNo: 'GRN-1', batchNo: '',
+  itemName: 'Bracket', itemCode: 'A-1', qty: 0, rate: 0, taxRate: 0, remarks: '', ...fields,
+});
+
+const note = (id: string, items: DebitNoteItem[], fields: Partial<DebitNote> = {}): DebitNote => ({
+  id, debitNoteNo: `DN/ACME/${id}`, date: '2025-03-10', partyType: 'supplier', partyName: 'Acme Castings', status: 'raised',
+  acknowledgedDate: '', creditedDate: '', creditNoteRef: '', remarks: '', items, ...fields,
+});
+
+describe('pendingDebitLines', () => {
+  it('offers PSIR rejections and VSIR rejections and rework', () => {
+    const pending = pendingDebitLines([psir], [vsir], []);
+    expect(pending.map(l => [l.source, l.reason, l.itemCode, l.qty, l.partyName])).toEqual([
+      ['psir', 'reject', 'A-1', 3, 'Acme Castings'],
+      ['vsir', 'reject', 'A-1', 1, 'Bright Platers'],
+      ['vsir', 'rework', 'A-1', 2, 'Bright Platers'],
+    ]);
+    expect(pending[1]).toMatchObject({ dcNo: 'DC-9', batchNo: 'V1', date: '2025-03-05' });
+  });
+
+  it('takes off what live notes already cover', () => {
+    const pending = pendingDebitLines([psir], [vsir], [
+      note('1', [line({ itemCode: 'a-1', qty: 2 })]),
+      note('2', [line({ source: 'vsir', sourceId: 'vsir-1', reason: 'rework', grnNo: 'GRN-2', qty: 2 })]),
+    ]);
+    expect(pending.map(l => [l.source, l.reason, l.qty])).toEqual([['psir', 'reject', 1], ['vsir', 'reject', 1]]);
+  });
+
+  it('skips receipts that have not been saved yet', () => {
+    expect(pendingDebitLines([{ ...psir, id: undefined }], [], [])).toEqual([]);
+  });
+});
+
+describe('overDebitedLines', () => {
+  it('accepts a note that fits alongside the other live notes', () => {
+    const restoring = note('2', [line({ qty: 1 })]);
+    expect(overDebitedLines(restoring, [psir], [], [note('1', [line({ qty: 2 })]), restoring])).toEqual([]);
+  });
+
+  it('reports lines that would debit more than was rejected', () => {
+    const restoring = note('2', [line({ qty: 1 }), line({ qty: 1 })]);
+    expect(overDebitedLines(restoring, [psir], [], [note('1', [line({ qty: 2 })])]))
+      .toEqual(['A-1 (reject, GRN GRN-1): 2 on the note, 1 left to debit']);
+  });
+});
+
+describe('debit note numbering and totals', () => {
+  it('numbers each party in its own series without reusing taken numbers', () => {
+    const notes = [note('1', [], { debitNoteNo: 'DN/ACME/002' }), note('2', [], { debitNoteNo: 'DN/ACME/003', partyName: 'Acme Tools' })];
+    expect(nextDebitNoteNo(notes, 'Acme Castings')).toBe('DN/ACME/004');
+    expect(nextDebitNoteNo(notes, 'Bright Platers')).toBe('DN/BRIG/001');
+    expect(nextDebitNoteNo([], '--')).toBe('DN/GEN/001');
+  });
+
+  it('adds tax per line at the line rate', () => {
+    const totals = debitNoteTotals({ items: [line({ qty: 2, rate: 50, taxRate: 18 }), line({ qty: 1, rate: 100, taxRate: 5 })] });
+    expect(totals).toEqual({ qty: 3, amount: 200, tax: 23, total: 223 });
+  });
+});
@@ -0,0 +1,223 @@
+import { logger } from './logger';
+import { purchaseDataRepository, purchaseOrderRepository, vendorDeptRepository } from './firestoreServices';
+import type { Repository } from './repository';
+import type { DebitNote, DebitNoteItem, DebitNoteStatus, PSIR, PurchaseEntry, VSRIRecord } from './recordSchemas';
+
+/**
+ * Debit notes are raised against the rejected quantities recorded on PSIRs
+ * (supplier material) and the rejected or rework quantities on VSIRs (vendor
+ * job work). Each note belongs to one party and is numbered in that party's
+ * own series. Whatever is already on a live note is not offered again.
+ */
+
+export const DEBIT_NOTE_STATUSES: DebitNoteStatus[] = ['raised', 'acknowledged', 'credited'];
+
+/** A rejected or rework quantity not yet (fully) on a debit note */
+export interface PendingDebitLine extends DebitNoteItem {
+  partyType: DebitNote['partyType'];
+  partyName: string;
+  /** Received date of the PSIR / VSIR */
+  date: string;
+}
+
+const norm = (val: unknown) => String(val ?? '').trim().toUpperCase();
+
+const lineKey = (line: Pick<DebitNoteItem, 'source' | 'sourceId' | 'reason' | 'itemCode' | 'grnNo'>) =>
+  [line.source, line.sourceId, line.reason, norm(line.itemCode), norm(line.grnNo)].join('|');
+
+const blankLine = { dcNo: '', rate: 0, taxRate: 0, remarks: '' };
+
+/** Every rejected / rework quantity on the PSIRs and VSIRs, less what live notes already cover */
+export const pendingDebitLines = (
+  psirs: Array<PSIR & { id?: string }>,
+  vsirRecords: Array<VSRIRecord & { id?: string }>,
+  notes: DebitNote[],
+): PendingDebitLine[] => {
+  const debited = new Map<string, number>();
+  notes.forEach(note => note.items.forEach(item => {
+    debited.set(lineKey(item), (debited.get(lineKey(item)) || 0) + (Number(item.qty) || 0));
+  }));
+
+  const candidates: PendingDebitLine[] = [];
+  psirs.forEach(psir => {
+    if (!psir.id) return;
+    (psir.items || []).forEach(item => {
+      if (!(Number(item.rejectQty) > 0)) return;
+      candidates.push({
+        ...blankLine,
+        source: 'psir',
+        sourceId: psir.id!,
+        reason: 'reject',
+        poNo: psir.poNo || '',
+        grnNo: item.grnNo || '',
+        batchNo: psir.batchNo || '',
+        itemName: item.itemName || '',
+        itemCode: item.itemCode,
+        qty: Number(item.rejectQty),
+        partyType: 'supplier',
+        partyName: psir.supplierName || '',
+        date: psir.receivedDate || '',
+      });
+    });
+  });
+  vsirRecords.forEach(rec => {
+    if (!rec.id) return;
+    const base = {
+      ...blankLine,
+      source: 'vsir' as const,
+      sourceId: rec.id,
+      poNo: rec.poNo || '',
+      dcNo: rec.dcNo || rec.invoiceDcNo || '',
+      grnNo: rec.grnNo || '',
+      batchNo: rec.vendorBatchNo || rec.purchaseBatchNo || '',
+      itemName: rec.itemName || '',
+      itemCode: rec.itemCode,
+      partyType: 'vendor' as const,
+      partyName: rec.vendorName || '',
+      date: rec.receivedDate || '',
+    };
+    if (Number(rec.rejectQty) > 0) candidates.push({ ...base, reason: 'reject', qty: Number(rec.rejectQty) });
+    if (Number(rec.reworkQty) > 0) candidates.push({ ...base, reason: 'rework', qty: Number(rec.reworkQty) });
+  });
+
+  return candidates.flatMap(line => {
+    const remaining = line.qty - (debited.get(lineKey(line)) || 0);
+    return remaining > 0 ? [{ ...line, qty: remaining }] : [];
+  });
+};
+
+/**
+ * Lines of `note` that ask for more than is left to debit on their PSIR / VSIR
+ * once the other live notes are counted, e.g. before restoring it from the
+ * recycle bin. Returns one message per line; empty when the note fits.
+ */
+export const overDebitedLines = (
+  note: DebitNote & { id?: string },
+  psirs: Array<PSIR & { id?: string }>,
+  vsirRecords: Array<VSRIRecord & { id?: string }>,
+  notes: Array<DebitNote & { id?: string }>,
+): string[] => {
+  const remaining = new Map<string, number>();
+  pendingDebitLines(psirs, vsirRecords, notes.filter(n => n.id !== note.id))
+    .forEach(line => remaining.set(lineKey(line), (remaining.get(lineKey(line)) || 0) + line.qty));
+  const wanted = new Map<string, { item: DebitNoteItem; qty: number }>();
+  note.items.forEach(item => {
+    const prev = wanted.get(lineKey(item));
+    wanted.set(lineKey(item), { item, qty: (prev?.qty || 0) + (Number(item.qty) || 0) });
+  });
+  return Array.from(wanted.entries()).flatMap(([key, { item, qty }]) => {
+    const left = remaining.get(key) || 0;
+    return qty > left
+      ? [`${item.itemCode} (${item.reason}, GRN ${item.grnNo || '—'}): ${qty} on the note, ${left} left to debit`]
+      : [];
+  });
+};
+
+// Up to four letters/digits of the party name, e.g. "Acme Castings" -> "ACME"
+const partyCode = (partyName: string) => norm(partyName).replace(/[^A-Z0-9]/g, '').slice(0, 4) || 'GEN';
+
+const seqOf = (debitNoteNo: string) => Number(debitNoteNo.split('/').pop()) || 0;
+
+/**
+ * Next number in the party's series: DN/<party code>/001, DN/<party code>/002, ...
+ * Pass the recycle bin's notes along with the live ones, so a deleted note's
+ * number is not issued again.
+ */
+export const nextDebitNoteNo = (notes: DebitNote[], partyName: string) => {
+  const taken = new Set(notes.map(n => norm(n.debitNoteNo)));
+  const ownSeq = notes
+    .filter(n => norm(n.partyName) === norm(partyName))
+    .reduce((max, n) => Math.max(max, seqOf(n.debitNoteNo)), 0);
+  let seq = ownSeq + 1;
+  // Two parties can share a code; skip numbers the other one already holds
+  while (taken.has(norm(`DN/${partyCode(partyName)}/${String(seq).padStart(3, '0')}`))) seq++;
+  return `DN/${partyCode(partyName)}/${String(seq).padStart(3, '0')}`;
+};
+
+export const lineAmount = (item: Pick<DebitNoteItem, 'qty' | 'rate'>) => (Number(item.qty) || 0) * (Number(item.rate) || 0);
+
+export const debitNoteTotals = (note: Pick<DebitNote, 'items'>) => {
+  const amount = note.items.reduce((sum, item) => sum + lineAmount(item), 0);
+  const tax = note.items.reduce((sum, item) => sum + lineAmount(item) * (Number(item.taxRate) || 0) / 100, 0);
+  const qty = note.items.reduce((sum, item) => sum + (Number(item.qty) || 0), 0);
+  return { qty, amount, tax, total: amount + tax };
+};
+
+// ---- Back-filling purchase and vendor rows ----
+
+// Text written into debitNoteOrQtyReturned, e.g. "DN/ACME/001 (5, raised)"
+const refText = (refs: Array<{ note: DebitNote; qty: number }>) =>
+  refs.map(({ note, qty }) => `${note.debitNoteNo} (${qty}, ${note.status})`).join('; ');
+
+// Only values this service wrote (or blanks) are replaced; anything typed by hand is left alone
+const isGenerated = (val: unknown) => {
+  const text = String(val ?? '').trim();
+  return text === '' || text.split('; ').every(part => /^DN\/\S+ \(.+\)$/.test(part));
+};
+
+const refsWhere = (notes: DebitNote[], match: (item: DebitNoteItem) => boolean) =>
+  notes.flatMap(note => {
+    const qty = note.items.filter(match).reduce((sum, item) => sum + (Number(item.qty) || 0), 0);
+    return qty > 0 ? [{ note, qty }] : [];
+  });
+
+const backfillPurchaseRows = async (uid: string, repo: Repository<PurchaseEntry>, notes: DebitNote[]) => {
+  let updated = 0;
+  for (const entry of await repo.getAll(uid)) {
+    if (!entry.poNo || !isGenerated(entry.debitNoteOrQtyReturned)) continue;
+    const text = refText(refsWhere(notes, item =>
+      item.source === 'psir' && norm(item.poNo) === norm(entry.poNo) && norm(item.itemCode) === norm(entry.itemCode)));
+    if (text === (entry.debitNoteOrQtyReturned || '')) continue;
+    await repo.update(uid, entry.id, { debitNoteOrQtyReturned: text });
+    updated++;
+  }
+  return updated;
+};
+
+const backfillVendorRows = async (uid: string, notes: DebitNote[]) => {
+  let updated = 0;
+  for (const order of await vendorDeptRepository.getAll(uid)) {
+    // A VSIR names the vendor DC when there is one; otherwise match on the PO
+    const sameOrder = (item: DebitNoteItem) => item.dcNo && order.dcNo
+      ? norm(item.dcNo) === norm(order.dcNo)
+      : norm(item.poNo) === norm(order.materialPurchasePoNo);
+    let changed = false;
+    const items = order.items.map(orderItem => {
+      if (!isGenerated(orderItem.debitNoteOrQtyReturned)) return orderItem;
+      const text = refText(refsWhere(notes, item =>
+        item.source === 'vsir' && sameOrder(item) && norm(item.itemCode) === norm(orderItem.itemCode)));
+      if (text === (orderItem.debitNoteOrQtyReturned || '')) return orderItem;
+      changed = true;
+      return { ...orderItem, debitNoteOrQtyReturned: text };
+    });
+    if (!changed) continue;
+    await vendorDeptRepository.update(uid, order.id, { items });
+    updated++;
+  }
+  return updated;
+};
+
+/**
+ * Write each live note's number, quantity and status into the Debit Note / Qty
+ * Returned field of the purchase rows (PSIR lines) and vendor dept rows (VSIR
+ * lines) it covers, and clear it from rows whose notes are gone. Rows the user
+ * cannot edit are skipped.
+ */
+export const backfillDebitNoteRefs = async (
+  uid: string,
+  notes: DebitNote[],
+  hasPermission: (permission: string) => boolean,
+) => {
+  let updated = 0;
+  try {
+    if (hasPermission('purchase:edit')) {
+      updated += await backfillPurchaseRows(uid, purchaseDataRepository, notes);
+      updated += await backfillPurchaseRows(uid, purchaseOrderRepository, notes);
+    }
+    if (hasPermission('vendorDept:edit')) updated += await backfillVendorRows(uid, notes);
+    if (updated > 0) logger.log(`[DebitNotes] Back-filled debit note refs on ${updated} row(s)`);
+  } catch (error) {
+    logger.error('[DebitNotes] Back-filling purchase / vendor rows failed:', error);
+  }
+  return updated;
+};
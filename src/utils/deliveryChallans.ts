@@ -0,0 +1,63 @@
+import type { DeliveryChallan, DeliveryChallanItem, DeliveryChallanType } from './recordSchemas';
+
+/**
+ * Outward delivery challans: customer dispatches and returnable /
+ * non-returnable material sent out. Their own DC/001, DC/002, ... series is
+ * separate from the Vendor/NN challans of Vendor Issue. Stock is taken out
+ * through the ledger (deliveryChallanLedger); returns on a returnable challan
+ * put it back.
+ */
+
+export const DC_TYPE_LABELS: Record<DeliveryChallanType, string> = {
+  dispatch: 'Customer Dispatch',
+  returnable: 'Returnable',
+  nonReturnable: 'Non-Returnable',
+};
+
+const DC_PREFIX = 'DC/';
+
+/**
+ * Next number in the DC/001 series; numbers typed in another format are
+ * ignored. Pass the recycle bin's challans along with the live ones, so a
+ * deleted challan's number is not issued again.
+ */
+export const nextDcNo = (challans: Array<Pick<DeliveryChallan, 'dcNo'>>) => {
+  const max = challans.reduce((m, dc) => {
+    const match = String(dc.dcNo ?? '').trim().toUpperCase().match(/^DC\/(\d+)$/);
+    return match ? Math.max(m, Number(match[1])) : m;
+  }, 0);
+  return `${DC_PREFIX}${String(max + 1).padStart(3, '0')}`;
+};
+
+export const pendingReturnQty = (item: Pick<DeliveryChallanItem, 'qty' | 'returnedQty'>) =>
+  Math.max(0, (Number(item.qty) || 0) - (Number(item.returnedQty) || 0));
+
+export type ChallanStatus = 'dispatched' | 'awaitingReturn' | 'partReturned' | 'returned';
+
+export const CHALLAN_STATUS_LABELS: Record<ChallanStatus, string> = {
+  dispatched: 'Dispatched',
+  awaitingReturn: 'Awaiting return',
+  partReturned: 'Part returned',
+  returned: 'Returned',
+};
+
+export const challanStatus = (dc: DeliveryChallan): ChallanStatus => {
+  if (dc.dcType !== 'returnable') return 'dispatched';
+  const pending = dc.items.reduce((sum, item) => sum + pendingReturnQty(item), 0);
+  if (pending === 0) return 'returned';
+  return dc.items.some(item => Number(item.returnedQty) > 0) ? 'partReturned' : 'awaitingReturn';
+};
+
+/** Past its expected return date with something still out */
+export const isOverdue = (dc: DeliveryChallan, today = new Date().toISOString().slice(0, 10)) =>
+  dc.dcType === 'returnable' && !!dc.expectedReturnDate && dc.expectedReturnDate < today && challanStatus(dc) !== 'returned';
+
+/** Apply a return of `qty` to line `idx`; throws when it exceeds what is still out */
+export const recordReturn = (dc: DeliveryChallan, idx: number, qty: number, date: string): DeliveryChallanItem[] => {
+  const item = dc.items[idx];
+  if (!item) throw new Error('No such line on the challan');
+  if (!(qty > 0) || qty > pendingReturnQty(item)) {
+    throw new Error(`Return quantity must be between 0 and ${pendingReturnQty(item)}`);
+  }
+  return dc.items.map((line, i) => (i === idx ? { ...line, returnedQty: (Number(line.returnedQty) || 0) + qty, returnedDate: date } : line));
+};
@@ -1,5 +1,6 @@
-import { collection, getDocs, query, where } from 'firebase/firestore';
+import { collection, getDocs } from 'firebase/firestore';
 import { db, auth } from '../firebase';
+import { workspacePath } from './workspace';
 
 export const runDataDiagnostics = async () => {
   const user = auth.currentUser;
@@ -17,27 +18,33 @@ export const runDataDiagnostics = async () => {
     collections: {},
   };
 
+  let workspace: string;
+  try {
+    workspace = workspacePath(uid);
+  } catch (error) {
+    console.error('[DIAGNOSTICS] No organisation workspace:', error);
+    return { ...results, error: 'No organisation workspace' };
+  }
+  results.workspace = workspace;
+
   const collectionsToCheck = [
-    'users/' + uid + '/purchaseOrders',
-    'users/' + uid + '/purchaseData',
-    'users/' + uid + '/indentData',
-    'users/' + uid + '/stockRecords',
-    'users/' + uid + '/itemMaster',
-    'users/' + uid + '/vendorDepts',
-    'users/' + uid + '/vendorIssues',
-    'users/' + uid + '/vsirRecords',
-  ];
+    'purchaseOrders',
+    'purchaseData',
+    'indentData',
+    'stockRecords',
+    'itemMaster',
+    'vendorDepts',
+    'vendorIssues',
+    'vsirRecords',
+    'psirs',
+    'debitNotes',
+    'salesOrders',
+    'deliveryChallans',
+  ].map(name => `${workspace}/${name}`);
 
   for (const collPath of collectionsToCheck) {
     try {
-      const parts = collPath.split('/');
-      let col;
-      if (parts.length === 3) {
-        col = collection(db, parts[0], parts[1], parts[2]);
-      }
-      if (!col) continue;
-
-      const snap = await getDocs(col);
+      const snap = await getDocs(collection(db, collPath));
       const count = snap.docs.length;
       const sample = snap.docs.length > 0 ? snap.docs[0].data() : null;
       
@@ -57,28 +64,6 @@ export const runDataDiagnostics = async () => {
     }
   }
 
-  // Check psirs collection (root level)
-  try {
-    const psirCol = collection(db, 'psirs');
-    const psirQuery = query(psirCol, where('userId', '==', uid));
-    const psirSnap = await getDocs(psirQuery);
-    const count = psirSnap.docs.length;
-    const sample = psirSnap.docs.length > 0 ? psirSnap.docs[0].data() : null;
-    
-    results.collections['psirs (userId filter)'] = {
-      exists: true,
-      count,
-      sampleData: sample,
-    };
-    console.info('[DIAGNOSTICS] Collection psirs (userId filter):', count, 'documents');
-  } catch (error) {
-    results.collections['psirs (userId filter)'] = {
-      exists: false,
-      error: (error as any).message,
-    };
-    console.error('[DIAGNOSTICS] Collection psirs error:', error);
-  }
-
   console.info('[DIAGNOSTICS] Complete results:', results);
   return results;
 };
@@ -1,2 +1,121 @@
-const bus = new EventTarget();
+import type { PSIR, PSIRItem, PurchaseEntry, VendorDeptOrder, VSRIRecord, StockRecord } from './recordSchemas';
+
+/**
+ * In-app event bus used by modules to tell each other that shared data changed.
+ *
+ * Every event is declared in AppEventMap with its payload type, so `emit` and
+ * `on` are checked at compile time.
+ *
+ * Ownership rule: each event is owned by the module that owns the underlying
+ * collection (see EVENT_OWNERS). Any module may listen. Only the owner emits,
+ * except that a module which has just written the owner's collection itself
+ * (e.g. PSIR shifting purchase quantities) may emit the owner's event for that
+ * write. Add new events here first; undeclared names do not compile.
+ */
+export interface AppEventMap {
+  /** PSIR (GRN) records saved, or an item added to the PSIR draft form */
+  'psir.updated': { psirs?: PSIR[]; draftItem?: PSIRItem };
+  /** Purchase orders saved; payload is the full list */
+  'purchaseOrders.updated': PurchaseEntry[];
+  /** Purchase data saved */
+  'purchaseData.updated': { purchaseData: PurchaseEntry[] };
+  /** Indent items recomputed, split into open and closed lines */
+  'indents.updated': { openItems: unknown[]; closedItems: unknown[] };
+  /** Stock records recomputed */
+  'stock.updated': { records?: Array<Omit<StockRecord, 'id'>> };
+  /** Vendor Dept orders changed */
+  'vendorDept.updated': { vendorDeptData?: VendorDeptOrder[]; updatedRecord?: VendorDeptOrder; source?: string };
+  /** VSIR records changed */
+  'vsir.updated': { records: VSRIRecord[] };
+  /** Background collection listeners started */
+  'userData.sync.started': { uid: string; collections: number; ts: number };
+  /** A synced collection received a snapshot */
+  'userData.sync.remoteUpdate': { uid: string; collection: string; count: number; ts: number };
+  /** A synced collection failed */
+  'userData.sync.error': { uid: string; collection?: string; error: string; ts: number };
+  /** The offline write queue changed */
+  'offline.queue.changed': { pending: number; conflicts: number; failed: number };
+  /** A queued offline write conflicts with a newer server copy */
+  'offline.conflict': { seq: number; collectionPath: string; docId: string; op: string };
+  /** A replay pass wrote queued offline changes to the server */
+  'offline.queue.replayed': { written: number; collectionPaths: string[] };
+}
+
+export type AppEventName = keyof AppEventMap;
+export type AppEvent<K extends AppEventName> = CustomEvent<AppEventMap[K]>;
+export type AppEventListener<K extends AppEventName> = (event: AppEvent<K>) => void;
+
+/** Module that owns (emits) each event */
+export const EVENT_OWNERS: { [K in AppEventName]: string } = {
+  'psir.updated': 'PSIRModule',
+  'purchaseOrders.updated': 'PurchaseModule',
+  'purchaseData.updated': 'PurchaseModule',
+  'indents.updated': 'IndentModule',
+  'stock.updated': 'StockModule',
+  'vendorDept.updated': 'VendorDeptModule',
+  'vsir.updated': 'VSIRModule',
+  'userData.sync.started': 'useUserDataSync',
+  'userData.sync.remoteUpdate': 'useUserDataSync',
+  'userData.sync.error': 'useUserDataSync',
+  'offline.queue.changed': 'writeQueue',
+  'offline.conflict': 'writeQueue',
+  'offline.queue.replayed': 'writeQueue',
+};
+
+export interface EventLogEntry {
+  seq: number;
+  ts: number;
+  name: AppEventName;
+  owner: string;
+  listeners: number;
+  detail: unknown;
+}
+
+// Dev builds keep the last events for the event log viewer
+const LOG_LIMIT = 200;
+const logEnabled = import.meta.env.DEV;
+
+const createEventBus = () => {
+  const target = new EventTarget();
+  // EventTarget ignores duplicate adds and unknown removes, so track what is actually registered
+  const listeners = new Map<AppEventName, Set<unknown>>();
+  let log: EventLogEntry[] = [];
+  let logSeq = 0;
+  const logListeners = new Set<() => void>();
+
+  const emit = <K extends AppEventName>(name: K, detail: AppEventMap[K]) => {
+    if (logEnabled) {
+      log = [...log.slice(-(LOG_LIMIT - 1)), { seq: ++logSeq, ts: Date.now(), name, owner: EVENT_OWNERS[name], listeners: listeners.get(name)?.size || 0, detail }];
+      logListeners.forEach(l => l());
+    }
+    target.dispatchEvent(new CustomEvent(name, { detail }));
+  };
+
+  const off = <K extends AppEventName>(name: K, listener: AppEventListener<K>) => {
+    target.removeEventListener(name, listener as EventListener);
+    listeners.get(name)?.delete(listener);
+  };
+
+  /** Subscribe to `name`; returns the unsubscribe function */
+  const on = <K extends AppEventName>(name: K, listener: AppEventListener<K>) => {
+    target.addEventListener(name, listener as EventListener);
+    if (!listeners.has(name)) listeners.set(name, new Set());
+    listeners.get(name)!.add(listener);
+    return () => off(name, listener);
+  };
+
+  const getLog = () => log;
+  const clearLog = () => {
+    log = [];
+    logListeners.forEach(l => l());
+  };
+  const subscribeLog = (listener: () => void) => {
+    logListeners.add(listener);
+    return () => { logListeners.delete(listener); };
+  };
+
+  return { emit, on, off, getLog, clearLog, subscribeLog, logEnabled };
+};
+
+const bus = createEventBus();
 export default bus;
@@ -1,101 +1,133 @@
-import { collection, addDoc, getDocs, updateDoc, deleteDoc, doc, onSnapshot } from 'firebase/firestore';
-import { db } from '../firebase';
+import { addDoc, getDoc, getDocs, updateDoc, deleteDoc, deleteField, onSnapshot } from 'firebase/firestore';
+import type { DocumentData, QueryDocumentSnapshot } from 'firebase/firestore';
+import { workspaceCollection, workspaceDoc } from './workspace';
 import { logger } from './logger';
+import { parseDocument, assertDocument } from './schema';
+import { collectionSchemas } from './recordSchemas';
+import { diffFields, recordAudit } from './auditLog';
+import { isDeleted, isExpired, tombstone } from './softDelete';
+
+// Collections with a registered schema are checked on the way in and out;
+// ad-hoc caches (openIndentItems, ...) pass through unchanged.
+const checkOnRead = (collectionName: string, data: DocumentData): DocumentData => {
+  const schema = collectionSchemas[collectionName];
+  if (!schema) return data;
+  const { value, issues } = parseDocument(schema, data);
+  if (issues.length > 0) logger.warn(`[Firestore] ${collectionName} document failed schema checks:`, issues);
+  return value as DocumentData;
+};
+
+const checkOnWrite = (collectionName: string, data: DocumentData, partial = false): DocumentData => {
+  const schema = collectionSchemas[collectionName];
+  if (schema) return assertDocument(schema, data, partial) as DocumentData;
+  if (!partial) return data;
+  // Like assertDocument, updates never rewrite createdAt
+  const copy = { ...data };
+  delete copy.createdAt;
+  return copy;
+};
 
 /**
  * Add a document to a Firestore collection
- * @param uid User ID
+ * @param uid Acting user's ID (selects their organisation workspace)
  * @param collectionName Collection name
  * @param data Document data
  * @returns Document ID
  */
 export const addFirestoreDoc = async (uid: string, collectionName: string, data: any): Promise<string> => {
   try {
-    const collRef = collection(db, 'users', uid, collectionName);
+    const collRef = workspaceCollection(uid, collectionName);
+    const checked = checkOnWrite(collectionName, data);
     const docRef = await addDoc(collRef, {
-      ...data,
+      ...checked,
       createdAt: new Date().toISOString(),
       updatedAt: new Date().toISOString(),
     });
+    void recordAudit({ collectionName, path: docRef.path, docId: docRef.id, action: 'create', before: null, after: checked });
     logger.log(`[Firestore] Added to ${collectionName}:`, docRef.id);
-    console.debug(`[Firestore] Added document to 'users/${uid}/${collectionName}':`, docRef.id);
+    console.debug(`[Firestore] Added document to '${collectionName}':`, docRef.id);
     return docRef.id;
   } catch (error) {
     logger.error(`[Firestore] Error adding to ${collectionName}:`, error);
-    console.error(`[Firestore] Error adding to 'users/${uid}/${collectionName}':`, error);
+    console.error(`[Firestore] Error adding to '${collectionName}':`, error);
     throw error;
   }
 };
 
 /**
- * Get all documents from a Firestore collection
- * @param uid User ID
+ * Get all documents from a Firestore collection (recycle bin entries excluded)
+ * @param uid Acting user's ID (selects their organisation workspace)
  * @param collectionName Collection name
  * @returns Array of documents with IDs
  */
 export const getFirestoreDocs = async (uid: string, collectionName: string): Promise<any[]> => {
   try {
-    const collRef = collection(db, 'users', uid, collectionName);
+    const collRef = workspaceCollection(uid, collectionName);
     const snapshot = await getDocs(collRef);
     const docs: any[] = [];
     snapshot.forEach(doc => {
-      docs.push({ id: doc.id, ...doc.data() });
+      if (!isDeleted(doc.data())) docs.push({ id: doc.id, ...checkOnRead(collectionName, doc.data()) });
     });
     logger.log(`[Firestore] Retrieved ${docs.length} documents from ${collectionName}`);
-    console.debug(`[Firestore] Retrieved ${docs.length} documents from 'users/${uid}/${collectionName}'`);
+    console.debug(`[Firestore] Retrieved ${docs.length} documents from '${collectionName}'`);
     return docs;
   } catch (error) {
     logger.error(`[Firestore] Error retrieving from ${collectionName}:`, error);
-    console.error(`[Firestore] Error retrieving from 'users/${uid}/${collectionName}':`, error);
+    console.error(`[Firestore] Error retrieving from '${collectionName}':`, error);
     return [];
   }
 };
 
 /**
  * Update a document in Firestore
- * @param uid User ID
+ * @param uid Acting user's ID (selects their organisation workspace)
  * @param collectionName Collection name
  * @param docId Document ID
  * @param data Updated data
  */
 export const updateFirestoreDoc = async (uid: string, collectionName: string, docId: string, data: any): Promise<void> => {
   try {
-    const docRef = doc(db, 'users', uid, collectionName, docId);
+    const docRef = workspaceDoc(uid, collectionName, docId);
+    const checked = checkOnWrite(collectionName, data, true);
+    const before = (await getDoc(docRef)).data() ?? {};
     await updateDoc(docRef, {
-      ...data,
+      ...checked,
       updatedAt: new Date().toISOString(),
     });
+    void recordAudit({ collectionName, path: docRef.path, docId, action: 'update', before, after: { ...before, ...checked } });
     logger.log(`[Firestore] Updated ${collectionName}/${docId}`);
-    console.debug(`[Firestore] Updated 'users/${uid}/${collectionName}/${docId}'`);
+    console.debug(`[Firestore] Updated '${collectionName}/${docId}'`);
   } catch (error) {
     logger.error(`[Firestore] Error updating ${collectionName}/${docId}:`, error);
-    console.error(`[Firestore] Error updating 'users/${uid}/${collectionName}/${docId}':`, error);
+    console.error(`[Firestore] Error updating '${collectionName}/${docId}':`, error);
     throw error;
   }
 };
 
 /**
  * Delete a document from Firestore
- * @param uid User ID
+ * @param uid Acting user's ID (selects their organisation workspace)
  * @param collectionName Collection name
  * @param docId Document ID
  */
 export const deleteFirestoreDoc = async (uid: string, collectionName: string, docId: string): Promise<void> => {
   try {
-    const docRef = doc(db, 'users', uid, collectionName, docId);
+    const docRef = workspaceDoc(uid, collectionName, docId);
+    const before = (await getDoc(docRef)).data() ?? null;
     await deleteDoc(docRef);
+    if (before) void recordAudit({ collectionName, path: docRef.path, docId, action: 'delete', before, after: null });
     logger.log(`[Firestore] Deleted ${collectionName}/${docId}`);
-    console.debug(`[Firestore] Deleted 'users/${uid}/${collectionName}/${docId}'`);
+    console.debug(`[Firestore] Deleted '${collectionName}/${docId}'`);
   } catch (error) {
     logger.error(`[Firestore] Error deleting ${collectionName}/${docId}:`, error);
-    console.error(`[Firestore] Error deleting 'users/${uid}/${collectionName}/${docId}':`, error);
+    console.error(`[Firestore] Error deleting '${collectionName}/${docId}':`, error);
     throw error;
   }
 };
 
 /**
- * Subscribe to real-time updates from a Firestore collection
- * @param uid User ID
+ * Subscribe to real-time updates from a Firestore collection (recycle bin entries excluded)
+ * @param uid Acting user's ID (selects their organisation workspace)
  * @param collectionName Collection name
  * @param callback Function called with updated documents
  * @returns Unsubscribe function
@@ -106,67 +138,154 @@ export const subscribeFirestoreDocs = (
   callback: (docs: any[]) => void
 ): (() => void) => {
   try {
-    const collRef = collection(db, 'users', uid, collectionName);
+    const collRef = workspaceCollection(uid, collectionName);
     const unsubscribe = onSnapshot(
       collRef,
       (snapshot) => {
         const docs: any[] = [];
         snapshot.forEach(doc => {
-          docs.push({ id: doc.id, ...doc.data() });
+          if (!isDeleted(doc.data())) docs.push({ id: doc.id, ...checkOnRead(collectionName, doc.data()) });
         });
         callback(docs);
         logger.log(`[Firestore] Real-time update: ${collectionName} (${docs.length} docs)`);
-        console.debug(`[Firestore] Real-time update: 'users/${uid}/${collectionName}' (${docs.length} docs)`);
+        console.debug(`[Firestore] Real-time update: '${collectionName}' (${docs.length} docs)`);
       },
       (error) => {
         logger.error(`[Firestore] Error subscribing to ${collectionName}:`, error);
-        console.error(`[Firestore] Error subscribing to 'users/${uid}/${collectionName}':`, error);
+        console.error(`[Firestore] Error subscribing to '${collectionName}':`, error);
       }
     );
     return unsubscribe;
   } catch (error) {
     logger.error(`[Firestore] Error setting up subscription for ${collectionName}:`, error);
-    console.error(`[Firestore] Error setting up subscription for 'users/${uid}/${collectionName}':`, error);
+    console.error(`[Firestore] Error setting up subscription for '${collectionName}':`, error);
     return () => {};
   }
 };
 
+export interface ReplaceOptions<T> {
+  /**
+   * Identifies the stored document an item replaces, e.g. indent + item code.
+   * Defaults to the item's `id`, for items read back from the collection.
+   */
+  keyOf?: (item: T) => string;
+  /** Fields the save leaves alone on stored documents because they have their own targeted writes */
+  keep?: string[];
+}
+
+// Written by the sync layer itself, never taken from (or removed for lacking in) the saved items
+const STORED_FIELDS = new Set(['id', 'createdAt', 'updatedAt', 'deletedAt', 'deletedBy', 'schemaVersion']);
+
+// What an item contributes to its document. Firestore rejects undefined values, so a field
+// set to undefined counts as absent; the id and soft-delete state are the sync layer's
+const itemFields = (data: DocumentData): DocumentData => {
+  const copy: DocumentData = {};
+  Object.entries(data).forEach(([key, val]) => {
+    if (val !== undefined && !['id', 'updatedAt', 'deletedAt', 'deletedBy'].includes(key)) copy[key] = val;
+  });
+  return copy;
+};
+
 /**
- * Bulk replace all documents in a collection (useful for syncing arrays)
- * @param uid User ID
+ * Save a collection as a whole list of items (useful for syncing arrays), as
+ * per-document writes: items matching a stored document update just the
+ * fields that changed, new items are added, and stored documents missing from
+ * the list go to the recycle bin (and come back from it when their item
+ * does). Stored documents keep their ids and createdAt, and every write is
+ * audited like a single-document write. Recycle bin entries past the
+ * retention period are purged on the way.
+ * @param uid Acting user's ID (selects their organisation workspace)
  * @param collectionName Collection name
  * @param newData Array of documents to store
+ * @param options How items are matched to stored documents
  */
-export const replaceFirestoreCollection = async (uid: string, collectionName: string, newData: any[]): Promise<void> => {
+export const replaceFirestoreCollection = async <T extends object>(uid: string, collectionName: string, newData: T[], options: ReplaceOptions<T> = {}): Promise<void> => {
+  const keyOf = options.keyOf ?? ((item: T) => String((item as { id?: unknown }).id ?? ''));
+  const keep = new Set(options.keep ?? []);
   try {
-    const collRef = collection(db, 'users', uid, collectionName);
-    
-    // Get existing documents
+    const collRef = workspaceCollection(uid, collectionName);
     const snapshot = await getDocs(collRef);
-    const existingIds = new Set<string>();
-    
-    // Delete old documents
-    const deletePromises = snapshot.docs.map(doc => {
-      existingIds.add(doc.id);
-      return deleteDoc(doc.ref);
+
+    // Live documents are matched first; a recycle bin entry is restored when its item comes back
+    const live = new Map<string, QueryDocumentSnapshot>();
+    const binned = new Map<string, QueryDocumentSnapshot>();
+    const expired: QueryDocumentSnapshot[] = [];
+    snapshot.docs.forEach(d => {
+      const data = d.data();
+      const key = keyOf({ ...data, id: d.id } as T);
+      if (isDeleted(data)) {
+        if (isExpired(data)) expired.push(d);
+        else if (key && !binned.has(key)) binned.set(key, d);
+      } else if (key && !live.has(key)) {
+        live.set(key, d);
+      }
     });
-    await Promise.all(deletePromises);
-    
-    // Add new documents
-    const addPromises = newData.map(item => {
-      return addDoc(collRef, {
-        ...item,
-        createdAt: new Date().toISOString(),
-        updatedAt: new Date().toISOString(),
+
+    const matched = new Set<string>();
+    const writes: Array<Promise<unknown>> = [];
+    let added = 0;
+    let updated = 0;
+
+    newData.forEach(item => {
+      const checked = itemFields(checkOnWrite(collectionName, itemFields(item as DocumentData)));
+      const key = keyOf(item);
+      const stored = (key && !matched.has(key) && (live.get(key) ?? binned.get(key))) || null;
+      if (!stored) {
+        added++;
+        writes.push(addDoc(collRef, {
+          ...checked,
+          createdAt: checked.createdAt ?? new Date().toISOString(),
+          updatedAt: new Date().toISOString(),
+        }).then(ref => recordAudit({ collectionName, path: ref.path, docId: ref.id, action: 'create', before: null, after: checked })));
+        return;
+      }
+      matched.add(key);
+      const before = stored.data();
+      const changes: DocumentData = {};
+      Object.entries(checked).forEach(([field, val]) => {
+        if (STORED_FIELDS.has(field) && field !== 'schemaVersion') return;
+        if (keep.has(field)) return;
+        if (diffFields(before[field], val, field).length > 0) changes[field] = val;
       });
+      Object.keys(before).forEach(field => {
+        if (!STORED_FIELDS.has(field) && !keep.has(field) && !(field in checked)) changes[field] = deleteField();
+      });
+      const restoring = isDeleted(before);
+      if (restoring) Object.assign(changes, { deletedAt: null, deletedBy: null });
+      if (Object.keys(changes).length === 0) return;
+      updated++;
+      const after: DocumentData = { ...before, ...checked, ...(restoring ? { deletedAt: null, deletedBy: null } : {}) };
+      keep.forEach(field => { after[field] = before[field]; });
+      writes.push(updateDoc(stored.ref, { ...changes, updatedAt: new Date().toISOString() })
+        .then(() => recordAudit({ collectionName, path: stored.ref.path, docId: stored.id, action: restoring ? 'restore' : 'update', before, after })));
+    });
+
+    // Live documents the list no longer has, duplicates included, go to the recycle bin
+    const removed = snapshot.docs.filter(d => {
+      if (isDeleted(d.data())) return false;
+      const key = keyOf({ ...d.data(), id: d.id } as T);
+      return live.get(key) !== d || !matched.has(key);
+    });
+    removed.forEach(d => {
+      const fields = tombstone();
+      writes.push(updateDoc(d.ref, { ...fields, updatedAt: new Date().toISOString() })
+        .then(() => recordAudit({ collectionName, path: d.ref.path, docId: d.id, action: 'delete', before: d.data(), after: { ...d.data(), ...fields } })));
+    });
+    expired.forEach(d => {
+      writes.push(deleteDoc(d.ref)
+        .then(() => recordAudit({ collectionName, path: d.ref.path, docId: d.id, action: 'purge', before: d.data(), after: null })));
     });
-    await Promise.all(addPromises);
-    
-    logger.log(`[Firestore] Replaced ${collectionName} with ${newData.length} documents`);
-    console.debug(`[Firestore] Replaced 'users/${uid}/${collectionName}': deleted ${existingIds.size}, added ${newData.length}`);
+
+    // Every document is written on its own; one refused write does not stop the rest
+    const results = await Promise.allSettled(writes);
+    const failed = results.filter((r): r is PromiseRejectedResult => r.status === 'rejected');
+    if (failed.length > 0) throw failed[0].reason;
+
+    logger.log(`[Firestore] Saved ${collectionName}: ${added} added, ${updated} updated, ${removed.length} deleted`);
+    console.debug(`[Firestore] Saved '${collectionName}': added ${added}, updated ${updated}, deleted ${removed.length}, purged ${expired.length}`);
   } catch (error) {
     logger.error(`[Firestore] Error replacing ${collectionName}:`, error);
-    console.error(`[Firestore] Error replacing 'users/${uid}/${collectionName}':`, error);
+    console.error(`[Firestore] Error replacing '${collectionName}':`, error);
     throw error;
   }
 };
@@ -0,0 +1,257 @@
+import { approvalStatusOf } from './approvals';
+import type { DeliveryChallan, InHouseIssue, Indent, ItemMasterRecord, PSIR, PurchaseEntry, VendorIssue, VSRIRecord } from './recordSchemas';
+
+/**
+ * Figures for the inventory dashboard. Everything is derived from the source
+ * documents at render time; nothing here is stored. Dates are the documents'
+ * own (received, issue, indent, order dates), compared as YYYY-MM-DD strings.
+ */
+
+export interface DashboardFilter {
+  /** Inclusive YYYY-MM-DD bounds; blank leaves that side open */
+  from: string;
+  to: string;
+  /** Item code, or '' for all items */
+  itemCode: string;
+}
+
+export interface DashboardSources {
+  itemMaster: ItemMasterRecord[];
+  /** Current closing stock per item code (or name for uncoded items), from the stock ledger */
+  closingStock: Map<string, number>;
+  psirs: PSIR[];
+  vsirRecords: VSRIRecord[];
+  inHouseIssues: InHouseIssue[];
+  vendorIssues: VendorIssue[];
+  deliveryChallans: DeliveryChallan[];
+  indents: Indent[];
+  purchases: PurchaseEntry[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const UNCATEGORISED = 'Uncategorised';
+
+const norm = (val: unknown) => String(val ?? '').trim().toUpperCase();
+const num = (val: unknown) => Number(val) || 0;
+const round = (n: number) => Math.round(n * 1000) / 1000;
+
+const inRange = (date: string, filter: DashboardFilter) =>
+  !!date && (!filter.from || date >= filter.from) && (!filter.to || date <= filter.to);
+
+const itemMatches = (itemCode: string, filter: DashboardFilter) => !filter.itemCode || norm(itemCode) === norm(filter.itemCode);
+
+export const toIsoDate = (ms: number) => new Date(ms).toISOString().slice(0, 10);
+
+export const daysBetween = (from: string, to: string) => {
+  const a = Date.parse(from);
+  const b = Date.parse(to);
+  return Number.isFinite(a) && Number.isFinite(b) ? Math.floor((b - a) / DAY_MS) : 0;
+};
+
+// ---- Stock by category ----
+
+export interface CategoryStock {
+  category: string;
+  qty: number;
+  value: number;
+  items: number;
+  /** Items with stock but no standard rate, so missing from `value` */
+  unrated: number;
+}
+
+/** Current stock quantity and value (closing stock x standard rate) per item master category */
+export const stockByCategory = (sources: DashboardSources, filter: DashboardFilter): CategoryStock[] => {
+  const byCategory = new Map<string, CategoryStock>();
+  sources.itemMaster.forEach(item => {
+    if (!itemMatches(item.itemCode, filter)) return;
+    const qty = sources.closingStock.get(String(item.itemCode ?? '').trim()) ?? sources.closingStock.get(String(item.itemName ?? '').trim()) ?? 0;
+    if (qty <= 0) return;
+    const category = item.category?.trim() || UNCATEGORISED;
+    const row = byCategory.get(category) || { category, qty: 0, value: 0, items: 0, unrated: 0 };
+    const rate = num(item.standardRate);
+    byCategory.set(category, {
+      ...row,
+      qty: round(row.qty + qty),
+      value: row.value + qty * rate,
+      items: row.items + 1,
+      unrated: row.unrated + (rate > 0 ? 0 : 1),
+    });
+  });
+  return [...byCategory.values()].sort((a, b) => b.value - a.value || b.qty - a.qty);
+};
+
+// ---- Inward / outward flows ----
+
+interface Flow {
+  date: string;
+  itemCode: string;
+  itemName: string;
+  qty: number;
+}
+
+const psirOk = (item: PSIR['items'][number]) => Math.max(0, num(item.qtyReceived) - num(item.rejectQty));
+
+const inwardFlows = (sources: DashboardSources): Flow[] => [
+  ...sources.psirs.flatMap(psir => (psir.items || []).map(item => ({ date: psir.receivedDate, itemCode: item.itemCode, itemName: item.itemName, qty: psirOk(item) }))),
+  ...sources.vsirRecords.map(rec => ({ date: rec.receivedDate, itemCode: rec.itemCode, itemName: rec.itemName, qty: num(rec.okQty) })),
+];
+
+// Returnable challans are counted out when they leave; returns are inward again
+const outwardFlows = (sources: DashboardSources): Flow[] => [
+  ...sources.inHouseIssues.flatMap(issue => (issue.items || []).map(item => ({ date: issue.reqDate, itemCode: item.itemCode, itemName: item.itemName, qty: num(item.issueQty) }))),
+  ...sources.vendorIssues.flatMap(issue => (issue.items || []).map(item => ({ date: issue.date, itemCode: item.itemCode, itemName: item.itemName, qty: num(item.qty) }))),
+  ...sources.deliveryChallans.flatMap(dc => (dc.items || []).map(item => ({ date: dc.date, itemCode: item.itemCode, itemName: item.itemName, qty: num(item.qty) }))),
+];
+
+const challanReturns = (sources: DashboardSources): Flow[] =>
+  sources.deliveryChallans.flatMap(dc => (dc.items || [])
+    .filter(item => dc.dcType === 'returnable' && num(item.returnedQty) > 0)
+    .map(item => ({ date: item.returnedDate || dc.date, itemCode: item.itemCode, itemName: item.itemName, qty: num(item.returnedQty) })));
+
+export interface ConsumedItem {
+  itemCode: string;
+  itemName: string;
+  qty: number;
+}
+
+/** Items issued out the most (in-house, vendor and challan issues) in the period */
+export const topConsumedItems = (sources: DashboardSources, filter: DashboardFilter, limit = 10): ConsumedItem[] => {
+  const totals = new Map<string, ConsumedItem>();
+  outwardFlows(sources).forEach(flow => {
+    if (!inRange(flow.date, filter) || !itemMatches(flow.itemCode, filter) || flow.qty <= 0) return;
+    const key = norm(flow.itemCode) || norm(flow.itemName);
+    const row = totals.get(key) || { itemCode: flow.itemCode, itemName: flow.itemName, qty: 0 };
+    totals.set(key, { ...row, qty: round(row.qty + flow.qty) });
+  });
+  return [...totals.values()].sort((a, b) => b.qty - a.qty).slice(0, limit);
+};
+
+export interface WeeklyFlow {
+  /** Monday of the week, YYYY-MM-DD */
+  week: string;
+  inward: number;
+  outward: number;
+}
+
+const weekStart = (date: string) => {
+  const d = new Date(`${date}T00:00:00Z`);
+  const offset = (d.getUTCDay() + 6) % 7;
+  return toIsoDate(d.getTime() - offset * DAY_MS);
+};
+
+/** Inward (accepted GRN quantities, challan returns) and outward (issues, challans) per week; empty weeks included */
+export const weeklyFlows = (sources: DashboardSources, filter: DashboardFilter): WeeklyFlow[] => {
+  const weeks = new Map<string, WeeklyFlow>();
+  const add = (flows: Flow[], key: 'inward' | 'outward') => flows.forEach(flow => {
+    if (!inRange(flow.date, filter) || !itemMatches(flow.itemCode, filter) || Number.isNaN(Date.parse(flow.date))) return;
+    const week = weekStart(flow.date);
+    const row = weeks.get(week) || { week, inward: 0, outward: 0 };
+    weeks.set(week, { ...row, [key]: round(row[key] + flow.qty) });
+  });
+  add([...inwardFlows(sources), ...challanReturns(sources)], 'inward');
+  add(outwardFlows(sources), 'outward');
+  if (weeks.size === 0) return [];
+
+  const known = [...weeks.keys()].sort();
+  const first = filter.from ? weekStart(filter.from) : known[0];
+  const last = filter.to ? weekStart(filter.to) : known[known.length - 1];
+  const out: WeeklyFlow[] = [];
+  for (let t = Date.parse(first); t <= Date.parse(last); t += 7 * DAY_MS) {
+    const week = toIsoDate(t);
+    out.push(weeks.get(week) || { week, inward: 0, outward: 0 });
+  }
+  return out;
+};
+
+// ---- Ageing ----
+
+export const AGEING_BUCKETS = [
+  { label: '0-7 days', max: 7 },
+  { label: '8-15 days', max: 15 },
+  { label: '16-30 days', max: 30 },
+  { label: '31-60 days', max: 60 },
+  { label: 'Over 60 days', max: Infinity },
+];
+
+export interface AgeingRow {
+  bucket: string;
+  indents: number;
+  pos: number;
+}
+
+const bucketOf = (age: number) => AGEING_BUCKETS.find(b => age <= b.max)!.label;
+
+/**
+ * Open indent lines (not closed from stock, not rejected, no PO yet) by age
+ * since the indent date, and open PO lines (less received on PSIRs than
+ * ordered) by age since the order date. The date range applies to those dates.
+ */
+export const ageing = (sources: DashboardSources, filter: DashboardFilter, today = toIsoDate(Date.now())): AgeingRow[] => {
+  const rows = AGEING_BUCKETS.map(b => ({ bucket: b.label, indents: 0, pos: 0 }));
+  const count = (age: number, key: 'indents' | 'pos') => {
+    const row = rows.find(r => r.bucket === bucketOf(Math.max(0, age)));
+    if (row) row[key]++;
+  };
+
+  const ordered = new Set(sources.purchases.filter(e => e.poNo).map(e => `${norm(e.indentNo)}|${norm(e.itemCode)}`));
+  sources.indents.forEach(indent => {
+    if (approvalStatusOf(indent) === 'rejected' || !inRange(indent.date, filter)) return;
+    indent.items.forEach(item => {
+      if (item.indentClosed || !itemMatches(item.itemCode, filter)) return;
+      if (ordered.has(`${norm(indent.indentNo)}|${norm(item.itemCode)}`)) return;
+      count(daysBetween(indent.date, today), 'indents');
+    });
+  });
+
+  const received = new Map<string, number>();
+  sources.psirs.forEach(psir => (psir.items || []).forEach(item => {
+    const key = `${norm(psir.poNo)}|${norm(item.itemCode)}`;
+    received.set(key, (received.get(key) || 0) + num(item.qtyReceived));
+  }));
+  sources.purchases.forEach(entry => {
+    if (!entry.poNo || !inRange(entry.orderPlaceDate, filter) || !itemMatches(entry.itemCode, filter)) return;
+    if (approvalStatusOf(entry) === 'rejected') return;
+    const got = Math.max(num(entry.receivedQty), received.get(`${norm(entry.poNo)}|${norm(entry.itemCode)}`) || 0);
+    if (got >= num(entry.purchaseQty)) return;
+    count(daysBetween(entry.orderPlaceDate, today), 'pos');
+  });
+  return rows;
+};
+
+// ---- Rejection rates ----
+
+export interface RejectionRate {
+  party: string;
+  partyType: 'supplier' | 'vendor';
+  received: number;
+  /** Rejected, plus rework on VSIRs */
+  rejected: number;
+  /** Percent of received */
+  rate: number;
+}
+
+/** Rejected share of what each supplier (PSIR) and job-work vendor (VSIR) delivered in the period */
+export const rejectionRates = (sources: DashboardSources, filter: DashboardFilter): RejectionRate[] => {
+  const rows = new Map<string, RejectionRate>();
+  const add = (party: string, partyType: RejectionRate['partyType'], received: number, rejected: number) => {
+    const name = party.trim() || '(not named)';
+    const key = `${partyType}|${norm(name)}`;
+    const row = rows.get(key) || { party: name, partyType, received: 0, rejected: 0, rate: 0 };
+    rows.set(key, { ...row, received: round(row.received + received), rejected: round(row.rejected + rejected) });
+  };
+  sources.psirs.forEach(psir => {
+    if (!inRange(psir.receivedDate, filter)) return;
+    (psir.items || []).forEach(item => {
+      if (itemMatches(item.itemCode, filter)) add(psir.supplierName || '', 'supplier', num(item.qtyReceived), num(item.rejectQty));
+    });
+  });
+  sources.vsirRecords.forEach(rec => {
+    if (inRange(rec.receivedDate, filter) && itemMatches(rec.itemCode, filter)) {
+      add(rec.vendorName || '', 'vendor', num(rec.qtyReceived), num(rec.rejectQty) + num(rec.reworkQty));
+    }
+  });
+  return [...rows.values()]
+    .filter(r => r.received > 0)
+    .map(r => ({ ...r, rate: Math.round((r.rejected / r.received) * 1000) / 10 }))
+    .sort((a, b) => b.rate - a.rate || b.received - a.received);
+};
@@ -0,0 +1,144 @@
+import { collection, deleteDoc, doc, getDoc, onSnapshot, setDoc, writeBatch, serverTimestamp } from 'firebase/firestore';
+import { sendEmailVerification } from 'firebase/auth';
+import type { User } from 'firebase/auth';
+import { db, auth } from '../firebase';
+import { logger } from './logger';
+import { recordAudit } from './auditLog';
+
+/**
+ * Invites let an admin pre-assign a role: orgs/{orgId}/invites/{inviteId}
+ * holds the invitee's email, role and extra permissions. The invite link
+ * carries the org and invite ids; whoever signs in with that email accepts it
+ * and becomes an enabled member with the invite's role, in one batch that the
+ * Firestore rules check against the invite. The email must be verified first.
+ */
+
+export interface Invite {
+  id?: string;
+  /** Lower-cased; must match the email the invitee signs in with */
+  email: string;
+  role: string;
+  permissions: string[];
+  createdBy: string;
+  createdAt?: unknown;
+  acceptedBy?: string | null;
+  acceptedAt?: unknown;
+}
+
+export interface InviteRef {
+  orgId: string;
+  inviteId: string;
+}
+
+const invitesCol = (orgId: string) => collection(db, 'orgs', orgId, 'invites');
+
+const fromData = (id: string, data: Record<string, unknown>): Invite => ({
+  ...(data as Partial<Invite>),
+  id,
+  email: String(data.email || ''),
+  role: String(data.role || ''),
+  permissions: Array.isArray(data.permissions) ? data.permissions.map(String) : [],
+  createdBy: String(data.createdBy || ''),
+});
+
+const millis = (val: unknown) =>
+  val && typeof (val as { toMillis?: unknown }).toMillis === 'function' ? (val as { toMillis: () => number }).toMillis() : 0;
+
+/** Link that opens the sign-up form for an invite */
+export const inviteLink = (orgId: string, inviteId: string) =>
+  `${window.location.origin}${window.location.pathname}?org=${encodeURIComponent(orgId)}&invite=${encodeURIComponent(inviteId)}`;
+
+/** The invite in the current URL, if the app was opened from an invite link */
+export const pendingInviteFromUrl = (): InviteRef | null => {
+  const params = new URLSearchParams(window.location.search);
+  const orgId = params.get('org');
+  const inviteId = params.get('invite');
+  return orgId && inviteId ? { orgId, inviteId } : null;
+};
+
+/** Drop the invite from the address bar once it has been used */
+export const clearInviteFromUrl = () => {
+  const url = new URL(window.location.href);
+  url.searchParams.delete('org');
+  url.searchParams.delete('invite');
+  window.history.replaceState(null, '', url.toString());
+};
+
+/** Invite someone to the organisation with a role (admins only); returns the invite id */
+export const createInvite = async (orgId: string, params: { email: string; role: string; permissions?: string[] }) => {
+  const ref = doc(invitesCol(orgId));
+  const invite: Invite = {
+    email: params.email.trim().toLowerCase(),
+    role: params.role,
+    permissions: params.permissions || [],
+    createdBy: auth.currentUser?.uid || '',
+    acceptedBy: null,
+  };
+  await setDoc(ref, { ...invite, createdAt: serverTimestamp() });
+  void recordAudit({ collectionName: 'invites', path: ref.path, docId: ref.id, action: 'create', before: null, after: { ...invite } });
+  return ref.id;
+};
+
+/** Invites of the organisation, newest first */
+export const subscribeInvites = (orgId: string, cb: (invites: Invite[]) => void, onError?: (error: Error) => void) =>
+  onSnapshot(
+    invitesCol(orgId),
+    snap => cb(snap.docs
+      .map(d => fromData(d.id, d.data()))
+      .sort((a, b) => millis(b.createdAt) - millis(a.createdAt))),
+    error => {
+      logger.error('[Invites] Subscription failed:', error);
+      onError?.(error);
+    }
+  );
+
+export const revokeInvite = async (orgId: string, inviteId: string) => {
+  const ref = doc(invitesCol(orgId), inviteId);
+  const before = await getDoc(ref);
+  await deleteDoc(ref);
+  if (before.exists()) void recordAudit({ collectionName: 'invites', path: ref.path, docId: inviteId, action: 'delete', before: before.data(), after: null });
+};
+
+/**
+ * Whether the user's email is verified, refreshing the user and their token so
+ * a link followed in another tab counts. While it is not, a verification email
+ * is sent and false returned.
+ */
+export const ensureInviteeVerified = async (user: User) => {
+  await user.reload();
+  if (user.emailVerified) {
+    await user.getIdToken(true);
+    return true;
+  }
+  await sendEmailVerification(user).catch(err => logger.warn('[Invites] Could not send verification email:', err));
+  return false;
+};
+
+/**
+ * Join the organisation with the invite's role. Fails if the invite does not
+ * exist, was already accepted or was sent to a different email.
+ */
+export const acceptInvite = async (user: User, { orgId, inviteId }: InviteRef) => {
+  if (!user.emailVerified) throw new Error('Verify your email address before accepting the invite');
+  const ref = doc(invitesCol(orgId), inviteId);
+  const snap = await getDoc(ref).catch(() => null);
+  if (!snap?.exists()) throw new Error('This invite no longer exists or was sent to a different email');
+  const invite = fromData(snap.id, snap.data());
+  if (invite.acceptedBy) throw new Error('This invite has already been used');
+  if (invite.email !== (user.email || '').toLowerCase()) throw new Error(`This invite was sent to ${invite.email}`);
+
+  const batch = writeBatch(db);
+  batch.set(doc(db, 'orgs', orgId, 'members', user.uid), {
+    email: user.email || '',
+    displayName: user.displayName || 'User',
+    role: invite.role,
+    permissions: invite.permissions,
+    disabled: false,
+    inviteId,
+    joinedAt: serverTimestamp(),
+  });
+  batch.update(ref, { acceptedBy: user.uid, acceptedAt: serverTimestamp() });
+  batch.set(doc(db, 'users', user.uid), { orgId }, { merge: true });
+  await batch.commit();
+  logger.log(`[Invites] Accepted invite ${inviteId} to ${orgId} as ${invite.role}`);
+};
@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import { allocateFifo, computeLots, findLot, grnReceivedDates, openLotsForItem } from './lots';
+import type { PSIR, StockMovement, VSRIRecord } from './recordSchemas';
+
+const movement = (fields: Partial<StockMovement>): StockMovement => ({
+  itemCode: 'A-1',
+  itemName: 'Bracket',
+  batchNo: '',
+  qty: 0,
+  source: 'psir',
+  sourceId: '',
+  sourceRef: '',
+  reason: '',
+  createdBy: 'u1',
+  ...fields,
+});
+
+// Posted in the opposite order to the goods arriving
+const receipts = [
+  movement({ batchNo: '25/P10', qty: 5, sourceId: 'psir-new', createdAt: '2025-01-01T00:00:00Z' }),
+  movement({ batchNo: '25/P2', qty: 5, sourceId: 'psir-old', createdAt: '2025-02-01T00:00:00Z' }),
+];
+
+const psirs = [
+  { id: 'psir-new', receivedDate: '2025-03-10' },
+  { id: 'psir-old', receivedDate: '2025-03-01' },
+] as PSIR[];
+
+describe('computeLots', () => {
+  it('ages lots by the GRN received date rather than the posting time', () => {
+    const lots = computeLots(receipts, grnReceivedDates(psirs, []));
+    expect(lots.map(l => l.batchNo)).toEqual(['25/P2', '25/P10']);
+    expect(lots[0].receivedAt).toBe(Date.parse('2025-03-01'));
+  });
+
+  it('falls back to the posting time for receipts without a known GRN', () => {
+    expect(computeLots(receipts).map(l => l.batchNo)).toEqual(['25/P10', '25/P2']);
+  });
+
+  it('orders same-day batches numerically', () => {
+    const sameDay = ['25/P10', '25/P2', '25/P1'].map(batchNo => movement({ batchNo, qty: 1, createdAt: '2025-01-01T00:00:00Z' }));
+    expect(computeLots(sameDay).map(l => l.batchNo)).toEqual(['25/P1', '25/P2', '25/P10']);
+  });
+
+  it('nets issues against receipts and takes the source from the first receipt', () => {
+    const vsirs = [{ id: 'vsir-1', receivedDate: '2025-03-05' }] as VSRIRecord[];
+    const [lot] = computeLots([
+      movement({ batchNo: 'V1', qty: 8, source: 'vsir', sourceId: 'vsir-1' }),
+      movement({ batchNo: 'V1', qty: -3, source: 'inHouseIssue', sourceId: 'ih-1' }),
+    ], grnReceivedDates([], vsirs));
+    expect(lot).toMatchObject({ source: 'Vendor', receivedQty: 8, issuedQty: 3, remainingQty: 5 });
+  });
+
+  it('keys lots without an item code by name on both sides', () => {
+    const lots = computeLots([movement({ itemCode: '', itemName: 'Loose washer', batchNo: 'W1', qty: 4 })]);
+    expect(openLotsForItem(lots, { itemCode: '', itemName: 'Loose washer' })).toHaveLength(1);
+    expect(findLot(lots, { itemName: 'Loose washer' }, 'W1')?.remainingQty).toBe(4);
+    expect(openLotsForItem(lots, { itemCode: 'Loose washer' })).toHaveLength(1);
+  });
+});
+
+describe('allocateFifo', () => {
+  const lots = computeLots(receipts, grnReceivedDates(psirs, []));
+
+  it('takes from the oldest lot first and spills into the next', () => {
+    expect(allocateFifo(lots, { itemCode: 'A-1' }, 7)).toMatchObject({
+      allocations: [{ batchNo: '25/P2', qty: 5 }, { batchNo: '25/P10', qty: 2 }],
+      shortfall: 0,
+    });
+  });
+
+  it('skips what the draft already reserves and reports the shortfall', () => {
+    const { allocations, shortfall } = allocateFifo(lots, { itemCode: 'A-1' }, 8, { reserved: { '25/P2': 4 } });
+    expect(allocations.map(a => [a.batchNo, a.qty])).toEqual([['25/P2', 1], ['25/P10', 5]]);
+    expect(shortfall).toBe(2);
+  });
+
+  it('only uses lots of the requested source', () => {
+    expect(allocateFifo(lots, { itemCode: 'A-1' }, 3, { source: 'Vendor' })).toEqual({ allocations: [], shortfall: 3 });
+  });
+});
@@ -0,0 +1,144 @@
+import type { PSIR, StockMovement, StockMovementSource, VSRIRecord } from './recordSchemas';
+
+/**
+ * Lots (batches) derived from the stock ledger. A lot is one item + batchNo;
+ * its received and issued quantities are sums of ledger rows, so lot balances
+ * always agree with closing stock. Issues consume lots oldest-first (FIFO),
+ * aged by the GRN's received date rather than when the row was posted.
+ */
+
+/** Where a lot came from; matches the In-House Issue transaction types */
+export type LotSource = 'Purchase' | 'Vendor' | 'Stock';
+
+export interface Lot {
+  /** Item code, or the item name for rows posted without one (see lotItemKey) */
+  itemKey: string;
+  itemCode: string;
+  itemName: string;
+  batchNo: string;
+  source: LotSource;
+  /** Earliest received date of the lot's GRNs (ms); null while unknown */
+  receivedAt: number | null;
+  receivedQty: number;
+  issuedQty: number;
+  remainingQty: number;
+}
+
+export interface LotAllocation {
+  batchNo: string;
+  qty: number;
+  source: LotSource;
+  receivedAt: number | null;
+}
+
+const RECEIPT_SOURCES: StockMovementSource[] = ['psir', 'vsir', 'opening'];
+
+const lotSourceFor = (source: StockMovementSource): LotSource => {
+  if (source === 'psir') return 'Purchase';
+  if (source === 'vsir') return 'Vendor';
+  return 'Stock';
+};
+
+const round = (n: number) => Math.round(n * 1000) / 1000;
+const text = (val: unknown) => (val === undefined || val === null ? '' : String(val).trim());
+
+/** Lots are keyed like ledger lines: the item code, or the name when the code is missing */
+export const lotItemKey = (item: { itemCode?: unknown; itemName?: unknown }) => text(item.itemCode) || text(item.itemName);
+
+/** Key of a receipt's source document in the map built by grnReceivedDates */
+const receiptKey = (source: StockMovementSource, sourceId: string) => `${source}_${sourceId}`;
+
+const millis = (val: unknown): number | null => {
+  if (val && typeof (val as { toMillis?: unknown }).toMillis === 'function') return (val as { toMillis: () => number }).toMillis();
+  if (typeof val === 'string') {
+    const ms = Date.parse(val);
+    return Number.isFinite(ms) ? ms : null;
+  }
+  return null;
+};
+
+// A receipt row or its reversal counts towards received; issue rows (and negative adjustments) towards issued
+const isReceipt = (m: StockMovement) => RECEIPT_SOURCES.includes(m.source) || (m.source === 'adjustment' && m.qty > 0);
+
+/** Received dates (ms) of PSIR and VSIR GRNs, for computeLots */
+export const grnReceivedDates = (psirs: PSIR[], vsirs: VSRIRecord[]): Map<string, number> => {
+  const dates = new Map<string, number>();
+  const add = (source: StockMovementSource, id: string | undefined, receivedDate: unknown) => {
+    const at = millis(receivedDate);
+    if (id && at !== null) dates.set(receiptKey(source, id), at);
+  };
+  psirs.forEach(p => add('psir', p.id, p.receivedDate));
+  vsirs.forEach(v => add('vsir', v.id, v.receivedDate));
+  return dates;
+};
+
+/**
+ * Build one lot per item + batch from ledger movements. A receipt is dated by
+ * its GRN's received date from `receivedDates`; opening stock, adjustments and
+ * GRNs the caller cannot read fall back to when the row was posted.
+ */
+export const computeLots = (movements: StockMovement[], receivedDates: Map<string, number> = new Map()): Lot[] => {
+  const lots = new Map<string, Lot>();
+  movements.forEach(m => {
+    const itemKey = lotItemKey(m);
+    const batchNo = text(m.batchNo);
+    const key = `${itemKey}|${batchNo}`;
+    const lot = lots.get(key) || { itemKey, itemCode: text(m.itemCode), itemName: text(m.itemName), batchNo, source: lotSourceFor(m.source), receivedAt: null, receivedQty: 0, issuedQty: 0, remainingQty: 0 };
+    const qty = Number(m.qty) || 0;
+    if (isReceipt(m)) {
+      lot.receivedQty = round(lot.receivedQty + qty);
+      const at = receivedDates.get(receiptKey(m.source, m.sourceId)) ?? millis(m.createdAt);
+      if (qty > 0 && at !== null && (lot.receivedAt === null || at < lot.receivedAt)) {
+        lot.receivedAt = at;
+        lot.source = lotSourceFor(m.source);
+      }
+    } else {
+      lot.issuedQty = round(lot.issuedQty - qty);
+    }
+    lot.remainingQty = round(lot.receivedQty - lot.issuedQty);
+    lots.set(key, lot);
+  });
+  return sortFifo(Array.from(lots.values()));
+};
+
+// Oldest first, lots without a date last; same-day lots by batch number, compared
+// numerically so 25/P2 comes before 25/P10
+const sortFifo = (lots: Lot[]) => lots.sort((a, b) =>
+  (a.receivedAt ?? Number.MAX_SAFE_INTEGER) - (b.receivedAt ?? Number.MAX_SAFE_INTEGER)
+  || a.batchNo.localeCompare(b.batchNo, undefined, { numeric: true, sensitivity: 'base' }));
+
+/** The lot of an item's batch, if the ledger holds one */
+export const findLot = (lots: Lot[], item: { itemCode?: unknown; itemName?: unknown }, batchNo: string): Lot | undefined => {
+  const itemKey = lotItemKey(item);
+  return lots.find(l => l.itemKey === itemKey && l.batchNo === text(batchNo));
+};
+
+/** Lots of an item with stock remaining, oldest first, optionally limited to one source */
+export const openLotsForItem = (lots: Lot[], item: { itemCode?: unknown; itemName?: unknown }, source?: LotSource): Lot[] => {
+  const itemKey = lotItemKey(item);
+  return lots.filter(l => l.itemKey === itemKey && l.remainingQty > 0 && (!source || l.source === source));
+};
+
+/**
+ * Split `qty` across an item's open lots, oldest first. `reserved` holds
+ * quantities already taken per batchNo (e.g. lines on an unsaved issue).
+ * Whatever the lots cannot cover is returned as `shortfall`.
+ */
+export const allocateFifo = (
+  lots: Lot[],
+  item: { itemCode?: unknown; itemName?: unknown },
+  qty: number,
+  options: { source?: LotSource; reserved?: Record<string, number> } = {},
+): { allocations: LotAllocation[]; shortfall: number } => {
+  let needed = round(qty);
+  const allocations: LotAllocation[] = [];
+  for (const lot of openLotsForItem(lots, item, options.source)) {
+    if (needed <= 0) break;
+    const available = round(lot.remainingQty - (options.reserved?.[lot.batchNo] || 0));
+    if (available <= 0) continue;
+    const take = Math.min(available, needed);
+    allocations.push({ batchNo: lot.batchNo, qty: take, source: lot.source, receivedAt: lot.receivedAt });
+    needed = round(needed - take);
+  }
+  return { allocations, shortfall: Math.max(0, needed) };
+};
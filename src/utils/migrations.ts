@@ -0,0 +1,68 @@
+import { getDocs, writeBatch } from 'firebase/firestore';
+import type { CollectionReference, Query } from 'firebase/firestore';
+import { db, auth } from '../firebase';
+import { logger } from './logger';
+import { workspaceCollection } from './workspace';
+import { needsMigration, migrateDocument } from './schema';
+import type { Schema } from './schema';
+import { collectionSchemas, psirSchema } from './recordSchemas';
+
+// Firestore caps a write batch at 500 operations
+const BATCH_LIMIT = 450;
+
+export interface MigrationResult {
+  collection: string;
+  scanned: number;
+  migrated: number;
+  error?: string;
+}
+
+// Rewrite every document older than the schema's version in one query's results.
+// Documents are replaced (not merged) so legacy alias fields are removed.
+const migrateQuery = async (label: string, source: CollectionReference | Query, schema: Schema<object>): Promise<MigrationResult> => {
+  try {
+    const snap = await getDocs(source);
+    const stale = snap.docs.filter(d => needsMigration(schema, d.data()));
+    for (let i = 0; i < stale.length; i += BATCH_LIMIT) {
+      const batch = writeBatch(db);
+      stale.slice(i, i + BATCH_LIMIT).forEach(d => batch.set(d.ref, migrateDocument(schema, d.data())));
+      await batch.commit();
+    }
+    logger.log(`[Migrations] ${label}: migrated ${stale.length} of ${snap.docs.length} documents`);
+    return { collection: label, scanned: snap.docs.length, migrated: stale.length };
+  } catch (error) {
+    logger.error(`[Migrations] ${label} failed:`, error);
+    return { collection: label, scanned: 0, migrated: 0, error: String(error) };
+  }
+};
+
+/** Upgrade all documents in the workspace's {collectionName} to the current schema version */
+export const migrateCollection = async (uid: string, collectionName: string): Promise<MigrationResult> => {
+  const schema = collectionSchemas[collectionName];
+  if (!schema) {
+    return { collection: collectionName, scanned: 0, migrated: 0, error: 'No schema registered' };
+  }
+  return migrateQuery(collectionName, workspaceCollection(uid, collectionName), schema);
+};
+
+/** Batch job: upgrade every schema-backed collection in the user's workspace, plus its PSIRs */
+export const migrateAllCollections = async (uid: string): Promise<MigrationResult[]> => {
+  const results: MigrationResult[] = [];
+  for (const collectionName of Object.keys(collectionSchemas)) {
+    results.push(await migrateCollection(uid, collectionName));
+  }
+  results.push(await migrateQuery('psirs', workspaceCollection(uid, 'psirs'), psirSchema));
+  return results;
+};
+
+/** Console entry point, mirroring runDataDiagnostics */
+export const runDataMigrations = async () => {
+  const user = auth.currentUser;
+  if (!user) {
+    console.error('[Migrations] No authenticated user');
+    return { error: 'No authenticated user' };
+  }
+  const results = await migrateAllCollections(user.uid);
+  console.info('[Migrations] Complete results:', results);
+  return { results };
+};
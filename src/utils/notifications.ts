@@ -0,0 +1,224 @@
+import { onSnapshot, serverTimestamp, setDoc } from 'firebase/firestore';
+import { logger } from './logger';
+import { workspaceDoc } from './workspace';
+import { canDecide, isApproved, pendingStep } from './approvals';
+import { isBelowReorderLevel } from './reorder';
+import { notificationSettings } from '../config/notificationConfig';
+import type { Indent, PSIR, PurchaseEntry, VendorDeptOrder, VSRIRecord } from './recordSchemas';
+
+/**
+ * Notifications are not stored: they are derived from the module data each
+ * time it changes, so a task disappears by itself once someone deals with it.
+ * Each one has a stable id built from the record it is about; what a user has
+ * read is kept per member at orgs/{orgId}/inbox/{uid}.
+ */
+
+export type NotificationKind =
+  | 'indentApproval'
+  | 'indentNeedsPo'
+  | 'poApproval'
+  | 'poAwaitingGrn'
+  | 'poOverdue'
+  | 'dcAwaitingVsir'
+  | 'lowStock';
+
+export interface AppNotification {
+  id: string;
+  kind: NotificationKind;
+  title: string;
+  detail: string;
+  severity: 'info' | 'warning';
+  /** Module that opens the record */
+  module: string;
+  /** Text that identifies the record in that module's table (indent no, PO no, ...) */
+  recordRef: string;
+  /** Date of the underlying record (YYYY-MM-DD), used for ordering */
+  date: string;
+}
+
+/** An open indent line as published by IndentModule for the Purchase module */
+export interface OpenIndentItem {
+  indentNo: string;
+  itemCode?: string;
+  Code?: string;
+  model?: string;
+  date?: string;
+  indentBy?: string;
+}
+
+export interface StockLevel {
+  itemCode: string;
+  itemName: string;
+  closingStock: number;
+  /** From the item master; items without one never raise a low-stock alert */
+  reorderLevel?: number;
+}
+
+/** Whatever the user can read; collections they cannot see are left empty */
+export interface NotificationSources {
+  indents: Indent[];
+  openIndentItems: OpenIndentItem[];
+  purchases: PurchaseEntry[];
+  psirs: PSIR[];
+  vendorDepts: VendorDeptOrder[];
+  vsirRecords: VSRIRecord[];
+  stockLevels: StockLevel[];
+}
+
+const norm = (val: unknown) => String(val ?? '').trim().toUpperCase();
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const daysSince = (date: string, now: number) => {
+  const t = Date.parse(date);
+  return Number.isFinite(t) ? Math.floor((now - t) / DAY_MS) : 0;
+};
+
+const poRef = (e: PurchaseEntry) => e.poNo || `${e.indentNo} / ${e.itemCode}`;
+
+/** The notifications for a user holding `hasPermission`, newest first */
+export const deriveNotifications = (
+  sources: NotificationSources,
+  hasPermission: (permission: string) => boolean,
+  uid: string,
+  now = Date.now(),
+): AppNotification[] => {
+  const out: AppNotification[] = [];
+
+  // Indents waiting on a step this user can decide; the id moves on with each decision
+  sources.indents.forEach(indent => {
+    if (!canDecide('indent', indent, hasPermission, uid)) return;
+    out.push({
+      id: `indentApproval:${indent.indentNo}:${indent.approvals?.length ?? 0}`,
+      kind: 'indentApproval',
+      title: `Indent ${indent.indentNo} needs your approval`,
+      detail: `${pendingStep('indent', indent)?.label ?? ''} approval · raised by ${indent.indentBy || 'unknown'}`,
+      severity: 'info',
+      module: 'indent',
+      recordRef: indent.indentNo,
+      date: indent.date,
+    });
+  });
+
+  // Approved open indent lines that no purchase entry covers yet
+  if (hasPermission('purchase:create')) {
+    const ordered = new Set(sources.purchases.map(e => `${norm(e.indentNo)}|${norm(e.itemCode)}`));
+    // Approval is read from the indent, not the status the item list copied
+    const approved = new Set(sources.indents.filter(isApproved).map(indent => norm(indent.indentNo)));
+    const waiting = new Map<string, OpenIndentItem[]>();
+    sources.openIndentItems.forEach(item => {
+      if (!item.indentNo || !approved.has(norm(item.indentNo))) return;
+      if (ordered.has(`${norm(item.indentNo)}|${norm(item.itemCode || item.Code)}`)) return;
+      waiting.set(item.indentNo, [...(waiting.get(item.indentNo) || []), item]);
+    });
+    waiting.forEach((items, indentNo) => out.push({
+      id: `indentNeedsPo:${indentNo}`,
+      kind: 'indentNeedsPo',
+      title: `Indent ${indentNo} needs a PO`,
+      detail: `${items.length} open item(s) · raised by ${items[0].indentBy || 'unknown'}`,
+      severity: 'info',
+      module: 'purchase',
+      recordRef: indentNo,
+      date: items[0].date || '',
+    }));
+  }
+
+  sources.purchases.forEach(entry => {
+    if (!canDecide('purchase', entry, hasPermission, uid)) return;
+    out.push({
+      id: `poApproval:${poRef(entry)}:${entry.approvals?.length ?? 0}`,
+      kind: 'poApproval',
+      title: `PO ${poRef(entry)} needs your approval`,
+      detail: `${entry.itemName || entry.itemCode} · ${entry.supplierName || 'no supplier yet'}`,
+      severity: 'info',
+      module: 'purchase',
+      recordRef: entry.poNo || entry.indentNo,
+      date: entry.orderPlaceDate || entry.indentDate || '',
+    });
+  });
+
+  // Placed POs with nothing received; overdue once past poOverdueDays
+  if (hasPermission('psir:create') || hasPermission('purchase:edit')) {
+    const received = new Set(sources.psirs.map(p => norm(p.poNo)).filter(Boolean));
+    const pending = new Map<string, PurchaseEntry[]>();
+    sources.purchases.forEach(e => {
+      if (!e.poNo || !e.orderPlaceDate || !isApproved(e)) return;
+      if (e.receivedQty > 0 || e.grnNo || received.has(norm(e.poNo))) return;
+      pending.set(e.poNo, [...(pending.get(e.poNo) || []), e]);
+    });
+    pending.forEach((entries, poNo) => {
+      const first = entries[0];
+      const age = daysSince(first.orderPlaceDate, now);
+      const overdue = age > notificationSettings.poOverdueDays;
+      out.push({
+        id: `${overdue ? 'poOverdue' : 'poAwaitingGrn'}:${poNo}`,
+        kind: overdue ? 'poOverdue' : 'poAwaitingGrn',
+        title: overdue ? `PO ${poNo} is overdue` : `PO ${poNo} is awaiting GRN`,
+        detail: `${first.supplierName || 'Supplier not set'} · ordered ${first.orderPlaceDate}${overdue ? ` (${age} days ago)` : ''}`,
+        severity: overdue ? 'warning' : 'info',
+        module: hasPermission('psir:create') ? 'psir' : 'purchase',
+        recordRef: poNo,
+        date: first.orderPlaceDate,
+      });
+    });
+  }
+
+  // Vendor DCs with no VSIR against them yet
+  if (hasPermission('vsir:create')) {
+    const receivedDcs = new Set(sources.vsirRecords.flatMap(r => [norm(r.dcNo), norm(r.invoiceDcNo)]).filter(Boolean));
+    sources.vendorDepts.forEach(order => {
+      if (!order.dcNo || receivedDcs.has(norm(order.dcNo))) return;
+      out.push({
+        id: `dcAwaitingVsir:${order.dcNo}`,
+        kind: 'dcAwaitingVsir',
+        title: `Vendor DC ${order.dcNo} is awaiting VSIR`,
+        detail: `${order.vendorName || 'Vendor not set'} · ${order.items.length} item(s)`,
+        severity: 'info',
+        module: 'vsir',
+        recordRef: order.dcNo,
+        date: order.orderPlaceDate,
+      });
+    });
+  }
+
+  if (hasPermission('stock:view')) {
+    sources.stockLevels.forEach(level => {
+      if (!isBelowReorderLevel(level, level.closingStock)) return;
+      out.push({
+        id: `lowStock:${level.itemCode}`,
+        kind: 'lowStock',
+        title: `${level.itemName || level.itemCode} is low on stock`,
+        detail: `Closing stock ${level.closingStock}, reorder level ${level.reorderLevel}`,
+        severity: 'warning',
+        module: 'stock',
+        recordRef: level.itemCode,
+        date: '',
+      });
+    });
+  }
+
+  return out.sort((a, b) => (b.date || '').localeCompare(a.date || ''));
+};
+
+// ---- Read state ----
+
+const inboxDoc = (uid: string) => workspaceDoc(uid, 'inbox', uid);
+
+/** Ids of the notifications this user has read */
+export const subscribeReadNotifications = (uid: string, cb: (readIds: Set<string>) => void) =>
+  onSnapshot(
+    inboxDoc(uid),
+    snap => {
+      const ids = snap.data()?.readIds;
+      cb(new Set(Array.isArray(ids) ? ids.map(String) : []));
+    },
+    error => logger.error('[Notifications] Inbox subscription failed:', error)
+  );
+
+/**
+ * Store the ids of the notifications now read. Callers pass only ids still in
+ * the inbox; the stored list is replaced, so ids of notifications that have
+ * since gone away are dropped rather than piling up.
+ */
+export const saveReadNotifications = (uid: string, ids: string[]) =>
+  setDoc(inboxDoc(uid), { readIds: ids, updatedAt: serverTimestamp() }, { merge: true });
@@ -0,0 +1,214 @@
+/**
+ * IndexedDB persistence for offline use.
+ * `docs` holds the last known copy of each subscribed collection (keyed by
+ * scope, e.g. orgs/{orgId}/vendorIssues); `queue` holds writes made while
+ * offline until writeQueue replays them against Firestore; `snapshots` holds
+ * the copies dataReset takes before deleting anything.
+ */
+
+const DB_NAME = 'acu-offline';
+const DB_VERSION = 2;
+const DOCS_STORE = 'docs';
+const QUEUE_STORE = 'queue';
+const SNAPSHOT_STORE = 'snapshots';
+
+export type CachedData = Record<string, unknown> & { id: string };
+
+interface CachedDocRow {
+  key: string;
+  scope: string;
+  id: string;
+  data: Record<string, unknown>;
+  cachedAt: number;
+}
+
+export type MutationOp = 'add' | 'update' | 'remove';
+export type MutationStatus = 'pending' | 'conflict' | 'failed';
+
+export interface QueuedMutation {
+  seq?: number;
+  /** Cache scope the mutation is overlaid on */
+  scope: string;
+  /** Firestore collection path the write targets, e.g. orgs/{orgId}/vendorIssues */
+  collectionPath: string;
+  op: MutationOp;
+  docId: string;
+  data?: Record<string, unknown>;
+  /** Replay updates with setDoc(..., { merge: true }) instead of updateDoc */
+  merge?: boolean;
+  /** updatedAt (millis) of the document when the edit was made; null skips the conflict check */
+  baseUpdatedAt: number | null;
+  queuedAt: number;
+  attempts: number;
+  status: MutationStatus;
+  lastError?: string;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available'));
+      return;
+    }
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = () => {
+      const idb = req.result;
+      if (!idb.objectStoreNames.contains(DOCS_STORE)) {
+        const docs = idb.createObjectStore(DOCS_STORE, { keyPath: 'key' });
+        docs.createIndex('scope', 'scope', { unique: false });
+      }
+      if (!idb.objectStoreNames.contains(QUEUE_STORE)) {
+        idb.createObjectStore(QUEUE_STORE, { keyPath: 'seq', autoIncrement: true });
+      }
+      if (!idb.objectStoreNames.contains(SNAPSHOT_STORE)) {
+        idb.createObjectStore(SNAPSHOT_STORE, { keyPath: 'id' });
+      }
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+  // Allow a retry on the next call if opening failed (private mode, quota, ...)
+  dbPromise.catch(() => { dbPromise = null; });
+  return dbPromise;
+};
+
+const promisify = <T>(req: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+// Firestore Timestamps lose their methods under structured clone, so they are
+// stored as ISO strings (the format firestoreSync already writes).
+const toStorable = (val: unknown): unknown => {
+  if (val === null || typeof val !== 'object') return val;
+  if (typeof (val as { toDate?: unknown }).toDate === 'function') {
+    return (val as { toDate: () => Date }).toDate().toISOString();
+  }
+  if (Array.isArray(val)) return val.map(toStorable);
+  const out: Record<string, unknown> = {};
+  for (const [k, v] of Object.entries(val)) out[k] = toStorable(v);
+  return out;
+};
+
+const docKey = (scope: string, id: string) => `${scope}#${id}`;
+
+/** Last cached copy of every document in `scope` */
+export const readCachedDocs = async (scope: string): Promise<CachedData[]> => {
+  const idb = await openDb();
+  const tx = idb.transaction(DOCS_STORE, 'readonly');
+  const rows = await promisify(tx.objectStore(DOCS_STORE).index('scope').getAll(scope) as IDBRequest<CachedDocRow[]>);
+  return rows.map(r => ({ ...r.data, id: r.id }));
+};
+
+/** Replace the cached copy of `scope` with `docs` */
+export const writeCachedDocs = async (scope: string, docs: Array<Record<string, unknown> & { id: string }>): Promise<void> => {
+  const idb = await openDb();
+  const tx = idb.transaction(DOCS_STORE, 'readwrite');
+  const store = tx.objectStore(DOCS_STORE);
+  const keys = await promisify(store.index('scope').getAllKeys(scope));
+  keys.forEach(k => store.delete(k));
+  const cachedAt = Date.now();
+  docs.forEach(d => {
+    const data = { ...d } as Record<string, unknown>;
+    delete data.id;
+    store.put({ key: docKey(scope, d.id), scope, id: d.id, data: toStorable(data), cachedAt });
+  });
+  await transactionDone(tx);
+};
+
+export const putCachedDoc = async (scope: string, id: string, data: Record<string, unknown>, merge = false): Promise<void> => {
+  const idb = await openDb();
+  const tx = idb.transaction(DOCS_STORE, 'readwrite');
+  const store = tx.objectStore(DOCS_STORE);
+  const key = docKey(scope, id);
+  const existing = merge ? await promisify(store.get(key) as IDBRequest<CachedDocRow | undefined>) : undefined;
+  const next = { ...(existing?.data || {}), ...(toStorable(data) as Record<string, unknown>) };
+  store.put({ key, scope, id, data: next, cachedAt: Date.now() });
+  await transactionDone(tx);
+};
+
+export const deleteCachedDoc = async (scope: string, id: string): Promise<void> => {
+  const idb = await openDb();
+  const tx = idb.transaction(DOCS_STORE, 'readwrite');
+  tx.objectStore(DOCS_STORE).delete(docKey(scope, id));
+  await transactionDone(tx);
+};
+
+/** Drop cached documents of `scope`: those in `ids`, or all of them when `ids` is omitted */
+export const deleteCachedDocs = async (scope: string, ids?: string[]): Promise<void> => {
+  const idb = await openDb();
+  const tx = idb.transaction(DOCS_STORE, 'readwrite');
+  const store = tx.objectStore(DOCS_STORE);
+  const keys = ids ? ids.map(id => docKey(scope, id)) : await promisify(store.index('scope').getAllKeys(scope));
+  keys.forEach(k => store.delete(k));
+  await transactionDone(tx);
+};
+
+export const appendMutation = async (m: QueuedMutation): Promise<number> => {
+  const idb = await openDb();
+  const tx = idb.transaction(QUEUE_STORE, 'readwrite');
+  const seq = await promisify(tx.objectStore(QUEUE_STORE).add(toStorable(m)));
+  await transactionDone(tx);
+  return Number(seq);
+};
+
+/** All queued mutations in the order they were made */
+export const readMutations = async (): Promise<QueuedMutation[]> => {
+  const idb = await openDb();
+  const tx = idb.transaction(QUEUE_STORE, 'readonly');
+  return promisify(tx.objectStore(QUEUE_STORE).getAll() as IDBRequest<QueuedMutation[]>);
+};
+
+export const putMutation = async (m: QueuedMutation): Promise<void> => {
+  const idb = await openDb();
+  const tx = idb.transaction(QUEUE_STORE, 'readwrite');
+  tx.objectStore(QUEUE_STORE).put(m);
+  await transactionDone(tx);
+};
+
+export const deleteMutation = async (seq: number): Promise<void> => {
+  const idb = await openDb();
+  const tx = idb.transaction(QUEUE_STORE, 'readwrite');
+  tx.objectStore(QUEUE_STORE).delete(seq);
+  await transactionDone(tx);
+};
+
+export const putSnapshot = async <T extends { id: string }>(snapshot: T): Promise<void> => {
+  const idb = await openDb();
+  const tx = idb.transaction(SNAPSHOT_STORE, 'readwrite');
+  tx.objectStore(SNAPSHOT_STORE).put(snapshot);
+  await transactionDone(tx);
+};
+
+export const readSnapshots = async <T>(): Promise<T[]> => {
+  const idb = await openDb();
+  const tx = idb.transaction(SNAPSHOT_STORE, 'readonly');
+  return promisify(tx.objectStore(SNAPSHOT_STORE).getAll() as IDBRequest<T[]>);
+};
+
+export const deleteSnapshot = async (id: string): Promise<void> => {
+  const idb = await openDb();
+  const tx = idb.transaction(SNAPSHOT_STORE, 'readwrite');
+  tx.objectStore(SNAPSHOT_STORE).delete(id);
+  await transactionDone(tx);
+};
+
+/** Drop every cached document and queued write. Reset snapshots are kept. */
+export const clearOfflineStore = async (): Promise<void> => {
+  const idb = await openDb();
+  const tx = idb.transaction([DOCS_STORE, QUEUE_STORE], 'readwrite');
+  tx.objectStore(DOCS_STORE).clear();
+  tx.objectStore(QUEUE_STORE).clear();
+  await transactionDone(tx);
+};
@@ -0,0 +1,36 @@
+/**
+ * Printable documents (debit notes, challans, ...) are plain HTML opened in a
+ * new window and handed to the browser's print dialog, so they print without
+ * the app's header and navigation.
+ */
+
+export const escapeHtml = (val: unknown) =>
+  String(val ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const PRINT_CSS = `
+  body { font-family: 'Segoe UI', Arial, sans-serif; color: #222; margin: 24px; font-size: 13px; }
+  h1 { font-size: 20px; margin: 0 0 4px; text-align: center; letter-spacing: 1px; }
+  h2 { font-size: 14px; margin: 0 0 16px; text-align: center; font-weight: 500; }
+  table { width: 100%; border-collapse: collapse; margin: 12px 0; }
+  th, td { border: 1px solid #999; padding: 5px 7px; text-align: left; }
+  th { background: #eee; }
+  td.num, th.num { text-align: right; }
+  .meta { display: flex; justify-content: space-between; gap: 24px; margin-bottom: 8px; }
+  .signatures { display: flex; justify-content: space-between; margin-top: 64px; }
+  .signatures div { border-top: 1px solid #555; padding-top: 4px; min-width: 180px; text-align: center; }
+`;
+
+/** Open `bodyHtml` (already escaped) in a print window; returns false when pop-ups are blocked */
+export const printDocument = (title: string, bodyHtml: string): boolean => {
+  const win = window.open('', '_blank', 'width=900,height=700');
+  if (!win) return false;
+  win.document.write(`<!doctype html><html><head><title>${escapeHtml(title)}</title><style>${PRINT_CSS}</style></head><body>${bodyHtml}</body></html>`);
+  win.document.close();
+  win.focus();
+  win.print();
+  return true;
+};
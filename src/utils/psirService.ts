@@ -1,7 +1,38 @@
-import { collection, query, where, orderBy, onSnapshot, addDoc, updateDoc, deleteDoc, doc, serverTimestamp } from 'firebase/firestore';
-import { db } from '../firebase';
+import { query, orderBy, onSnapshot, doc, getDocs, runTransaction, serverTimestamp } from 'firebase/firestore';
+import type { DocumentData, QueryDocumentSnapshot } from 'firebase/firestore';
+import { db, auth } from '../firebase';
+import bus from './eventBus';
+import { logger } from './logger';
+import { workspaceCollection, workspaceCollectionPath, workspaceDoc } from './workspace';
+import { parseDocument, assertDocument } from './schema';
+import { psirSchema } from './recordSchemas';
+import type { PSIR } from './recordSchemas';
+import { readCachedDocs, writeCachedDocs } from './offlineStore';
+import { enqueueMutation, overlayPending, rememberVersions, isOffline } from './writeQueue';
+import { postSourceMovements, psirLedger } from './stockLedger';
+import { recordAudit } from './auditLog';
+import type { AuditAction } from './auditLog';
+import { isDeleted, isExpired, tombstone } from './softDelete';
+import type { SoftDeleteFields, RecycleSource } from './softDelete';
 
-type PSIRDoc = Record<string, any>;
+type PSIRDoc = PSIR & Record<string, any>;
+
+// Check snapshot docs against the PSIR schema; issues are logged, docs are kept.
+// Recycle bin entries are dropped before dedup so a tombstone never hides a live duplicate.
+const toPsirDocs = (docs: QueryDocumentSnapshot<DocumentData>[]): Array<PSIRDoc & { id: string }> => {
+  let failed = 0;
+  const out = docs.filter(d => !isDeleted(d.data())).map(d => {
+    const { value, issues } = parseDocument(psirSchema, d.data());
+    if (issues.length > 0) failed++;
+    return { ...(value as PSIRDoc), id: d.id };
+  });
+  if (failed > 0) logger.warn(`[PSIRService] ${failed} psirs document(s) failed schema checks`);
+  return out;
+};
+
+// Firestore Timestamps (or nothing, for a write still pending) to millis for newest-first sorting
+const createdMillis = (val: unknown): number =>
+  val && typeof (val as { toMillis?: unknown }).toMillis === 'function' ? (val as { toMillis: () => number }).toMillis() : 0;
 
 // Simple normalization utilities to avoid persisting negative/string qtys and okQty
 const normalizeQty = (val: any): number | undefined => {
@@ -28,12 +59,43 @@ const sanitizePsirData = (data: any) => {
   return d;
 };
 
-export const subscribePsirs = (uid: string, cb: (docs: Array<PSIRDoc & { id: string }>) => void) => {
+// PSIRs live in the organisation workspace; userId records who entered each one
+const psirScope = (uid: string) => workspaceCollectionPath(uid, 'psirs');
+
+// Updates come from screens that only know the document id; they act as the signed-in user
+const currentUid = () => {
+  const uid = auth.currentUser?.uid;
+  if (!uid) throw new Error('Not signed in');
+  return uid;
+};
+
+export const subscribePsirs = (uid: string, onDocs: (docs: Array<PSIRDoc & { id: string }>) => void) => {
   console.log('[PSIRService.subscribePsirs] Setting up listener for user:', uid);
-  const col = collection(db, 'psirs');
+  const col = workspaceCollection(uid, 'psirs');
+  const scope = psirScope(uid);
+
+  // Offline: serve the IndexedDB copy until the server answers and overlay queued writes
+  let latest: Array<PSIRDoc & { id: string }> | null = null;
+  const emit = () => { if (latest) onDocs(overlayPending(scope, latest).filter(d => !isDeleted(d))); };
+  readCachedDocs(scope).then(cached => {
+    if (latest && latest.length > 0) return;
+    latest = cached.map(c => ({ ...(parseDocument(psirSchema, c).value as PSIRDoc), id: c.id }));
+    emit();
+  }).catch(error => logger.warn('[PSIRService] Offline cache unavailable:', error));
+  bus.on('offline.queue.changed', emit);
+  const cb = (docs: Array<PSIRDoc & { id: string }>) => {
+    if (isOffline()) {
+      if (docs.length === 0 && latest && latest.length > 0) return;
+    } else {
+      rememberVersions(scope, docs);
+      writeCachedDocs(scope, docs).catch(error => logger.warn('[PSIRService] Could not cache psirs:', error));
+    }
+    latest = docs;
+    emit();
+  };
   
-  // Try with composite index first (userId + createdAt)
-  const qWithIndex = query(col, where('userId', '==', uid), orderBy('createdAt', 'desc'));
+  // Try the createdAt order first
+  const qWithIndex = query(col, orderBy('createdAt', 'desc'));
   
   let unsub: (() => void) | null = null;
   let indexCreated = false;
@@ -43,18 +105,18 @@ export const subscribePsirs = (uid: string, cb: (docs: Array<PSIRDoc & { id: str
     const isIndexError = error?.code === 'failed-precondition' && error?.message?.includes('index');
     
     if (isIndexError && !indexCreated) {
-      console.warn('[PSIRService] Composite index missing. Falling back to simple query (userId only)...');
+      console.warn('[PSIRService] createdAt index missing. Falling back to an unordered query...');
       indexCreated = true;
       
       // Unsubscribe from failed query
       if (unsub) unsub();
       
       // Fallback: simple query without orderBy, sort client-side
-      const qFallback = query(col, where('userId', '==', uid));
+      const qFallback = query(col);
       unsub = onSnapshot(qFallback, snap => {
-        let docs = snap.docs.map(d => ({ id: d.id, ...(d.data() as any) }));
+        let docs = toPsirDocs(snap.docs);
         // Sort client-side by createdAt descending
-        docs.sort((a, b) => (b.createdAt?.toMillis?.() || 0) - (a.createdAt?.toMillis?.() || 0));
+        docs.sort((a, b) => createdMillis(b.createdAt) - createdMillis(a.createdAt));
         
         // Deduplicate by indentNo only (keep records with BOTH PO No AND Supplier Name)
         // Only remove incomplete duplicates if count > 1 for that Indent No
@@ -89,8 +151,8 @@ export const subscribePsirs = (uid: string, cb: (docs: Array<PSIRDoc & { id: str
             );
             
             // Sort by creation date (most recent first)
-            completeRecords.sort((a, b) => (b.createdAt?.toMillis?.() || 0) - (a.createdAt?.toMillis?.() || 0));
-            groupDocs.sort((a, b) => (b.createdAt?.toMillis?.() || 0) - (a.createdAt?.toMillis?.() || 0));
+            completeRecords.sort((a, b) => createdMillis(b.createdAt) - createdMillis(a.createdAt));
+            groupDocs.sort((a, b) => createdMillis(b.createdAt) - createdMillis(a.createdAt));
             
             // Keep either most recent complete, or most recent overall
             const kept = completeRecords.length > 0 ? completeRecords[0] : groupDocs[0];
@@ -107,7 +169,7 @@ export const subscribePsirs = (uid: string, cb: (docs: Array<PSIRDoc & { id: str
         });
         
         docs = deduped;
-        docs.sort((a, b) => (b.createdAt?.toMillis?.() || 0) - (a.createdAt?.toMillis?.() || 0));
+        docs.sort((a, b) => createdMillis(b.createdAt) - createdMillis(a.createdAt));
         
         const removedCount = origLength - docs.length;
         console.log('[PSIRService.subscribePsirs] 🔔 SNAPSHOT (fallback) - Original:', origLength, 'After dedup:', docs.length, 'Removed:', removedCount);
@@ -121,8 +183,7 @@ export const subscribePsirs = (uid: string, cb: (docs: Array<PSIRDoc & { id: str
       });
     } else {
       console.error('[PSIRService] subscribePsirs failed (likely missing index):', error.code, error.message);
-      console.error('[PSIRService] To fix: Create Firestore composite index on "psirs" collection:');
-      console.error('[PSIRService]   - Field: userId (Ascending)');
+      console.error('[PSIRService] To fix: Create a Firestore index on the "psirs" collection:');
       console.error('[PSIRService]   - Field: createdAt (Descending)');
       console.error('[PSIRService] Query attempted for user:', uid);
       cb([]);
@@ -130,8 +191,8 @@ export const subscribePsirs = (uid: string, cb: (docs: Array<PSIRDoc & { id: str
   };
   
   unsub = onSnapshot(qWithIndex, snap => {
-    let docs = snap.docs.map(d => ({ id: d.id, ...(d.data() as any) }));
-    docs.sort((a, b) => (b.createdAt?.toMillis?.() || 0) - (a.createdAt?.toMillis?.() || 0));
+    let docs = toPsirDocs(snap.docs);
+    docs.sort((a, b) => createdMillis(b.createdAt) - createdMillis(a.createdAt));
     
     // Deduplicate by indentNo only (keep records with BOTH PO No AND Supplier Name)
     // Only remove incomplete duplicates if count > 1 for that Indent No
@@ -166,8 +227,8 @@ export const subscribePsirs = (uid: string, cb: (docs: Array<PSIRDoc & { id: str
         );
         
         // Sort by creation date (most recent first)
-        completeRecords.sort((a, b) => (b.createdAt?.toMillis?.() || 0) - (a.createdAt?.toMillis?.() || 0));
-        groupDocs.sort((a, b) => (b.createdAt?.toMillis?.() || 0) - (a.createdAt?.toMillis?.() || 0));
+        completeRecords.sort((a, b) => createdMillis(b.createdAt) - createdMillis(a.createdAt));
+        groupDocs.sort((a, b) => createdMillis(b.createdAt) - createdMillis(a.createdAt));
         
         // Keep either most recent complete, or most recent overall
         const kept = completeRecords.length > 0 ? completeRecords[0] : groupDocs[0];
@@ -184,7 +245,7 @@ export const subscribePsirs = (uid: string, cb: (docs: Array<PSIRDoc & { id: str
     });
     
     docs = deduped;
-    docs.sort((a, b) => (b.createdAt?.toMillis?.() || 0) - (a.createdAt?.toMillis?.() || 0));
+    docs.sort((a, b) => createdMillis(b.createdAt) - createdMillis(a.createdAt));
     
     const removedCount = origLength - docs.length;
     console.log('[PSIRService.subscribePsirs] 🔔 SNAPSHOT (index) - Original:', origLength, 'After dedup:', docs.length, 'Removed:', removedCount);
@@ -194,27 +255,124 @@ export const subscribePsirs = (uid: string, cb: (docs: Array<PSIRDoc & { id: str
   }, handleIndexError);
   
   console.log('[PSIRService.subscribePsirs] ✅ Listener set up and returning unsub function');
-  return unsub;
+  return () => {
+    bus.off('offline.queue.changed', emit);
+    if (unsub) unsub();
+  };
 };
 
 export const addPsir = async (uid: string, data: any) => {
   console.log('[psirService.addPsir] Starting - uid:', uid);
-  const sanitized = sanitizePsirData(data);
-  const ref = await addDoc(collection(db, 'psirs'), { ...sanitized, userId: uid, createdAt: serverTimestamp() });
+  const sanitized = assertDocument(psirSchema, sanitizePsirData(data));
+  if (isOffline()) {
+    const id = await enqueueMutation({ scope: psirScope(uid), collectionPath: psirScope(uid), op: 'add', data: { ...sanitized, userId: uid } });
+    console.log('[psirService.addPsir] Offline - queued with ID:', id);
+    return id;
+  }
+  // The GRN and its stock movements are written together
+  const ref = doc(workspaceCollection(uid, 'psirs'));
+  await runTransaction(db, async tx => {
+    await postSourceMovements(tx, uid, psirLedger, ref.id, sanitized);
+    tx.set(ref, { ...sanitized, userId: uid, createdAt: serverTimestamp(), updatedAt: serverTimestamp() });
+  });
+  void recordAudit({ collectionName: 'psirs', path: ref.path, docId: ref.id, action: 'create', before: null, after: { ...sanitized, userId: uid } });
   console.log('[psirService.addPsir] Success - new ID:', ref.id);
   return ref.id;
 };
 
 export const updatePsir = async (id: string, data: any) => {
   console.log('[psirService.updatePsir] Starting - id:', id, 'data:', data);
-  const sanitized = sanitizePsirData(data);
-  await updateDoc(doc(db, 'psirs', id), { ...sanitized, updatedAt: serverTimestamp() });
+  const sanitized = assertDocument(psirSchema, sanitizePsirData(data), true);
+  const uid = currentUid();
+  if (isOffline()) {
+    await enqueueMutation({ scope: psirScope(uid), collectionPath: psirScope(uid), op: 'update', docId: id, data: { ...sanitized } });
+    console.log('[psirService.updatePsir] Offline - queued update for ID:', id);
+    return;
+  }
+  const ref = workspaceDoc(uid, 'psirs', id);
+  let before: DocumentData = {};
+  await runTransaction(db, async tx => {
+    const current = await tx.get(ref);
+    if (!current.exists()) throw new Error(`PSIR ${id} not found`);
+    before = current.data();
+    const merged = parseDocument(psirSchema, { ...before, ...sanitized }).value;
+    await postSourceMovements(tx, uid, psirLedger, id, merged);
+    tx.update(ref, { ...sanitized, updatedAt: serverTimestamp() });
+  });
+  void recordAudit({ collectionName: 'psirs', path: ref.path, docId: id, action: 'update', before, after: { ...before, ...sanitized } });
   console.log('[psirService.updatePsir] Success - updated ID:', id);
 };
 
+// Tombstone or restore a PSIR; its stock movements are reversed or re-posted in the same transaction
+const markPsir = async (id: string, fields: SoftDeleteFields, action: AuditAction) => {
+  const uid = currentUid();
+  if (isOffline()) {
+    await enqueueMutation({ scope: psirScope(uid), collectionPath: psirScope(uid), op: 'update', docId: id, data: { ...fields } });
+    return;
+  }
+  const ref = workspaceDoc(uid, 'psirs', id);
+  let before: DocumentData | null = null;
+  await runTransaction(db, async tx => {
+    const current = await tx.get(ref);
+    if (!current.exists()) return;
+    before = current.data();
+    const merged = { ...before, ...fields };
+    await postSourceMovements(tx, uid, psirLedger, id, isDeleted(merged) ? null : parseDocument(psirSchema, merged).value);
+    tx.update(ref, { ...fields, updatedAt: serverTimestamp() });
+  });
+  if (before) void recordAudit({ collectionName: 'psirs', path: ref.path, docId: id, action, before, after: { ...(before as DocumentData), ...fields } });
+};
+
+/** Move a PSIR to the recycle bin */
 export const deletePsir = async (id: string) => {
   console.log('[psirService.deletePsir] Starting - id:', id);
-  console.log('[psirService.deletePsir] ⚠️ DELETING FROM FIRESTORE - This should be removed on next subscription callback');
-  await deleteDoc(doc(db, 'psirs', id));
-  console.log('[psirService.deletePsir] ✅ SUCCESS - document deleted from Firestore:', id);
-  console.log('[psirService.deletePsir] 📌 Watch for subscription callback - document should no longer appear');};
\ No newline at end of file
+  await markPsir(id, tombstone(), 'delete');
+  console.log('[psirService.deletePsir] ✅ SUCCESS - PSIR moved to recycle bin:', id);
+};
+
+export const restorePsir = async (_uid: string, id: string) => {
+  await markPsir(id, { deletedAt: null, deletedBy: null }, 'restore');
+  console.log('[psirService.restorePsir] Restored PSIR:', id);
+};
+
+/** Delete a PSIR for good, bypassing the recycle bin */
+export const purgePsir = async (uid: string, id: string) => {
+  if (isOffline()) {
+    await enqueueMutation({ scope: psirScope(uid), collectionPath: psirScope(uid), op: 'remove', docId: id });
+    return;
+  }
+  const ref = workspaceDoc(uid, 'psirs', id);
+  let before: DocumentData | null = null;
+  await runTransaction(db, async tx => {
+    const current = await tx.get(ref);
+    if (!current.exists()) return;
+    before = current.data();
+    await postSourceMovements(tx, uid, psirLedger, id, null);
+    tx.delete(ref);
+  });
+  if (before) void recordAudit({ collectionName: 'psirs', path: ref.path, docId: id, action: 'purge', before, after: null });
+};
+
+/** PSIRs in the recycle bin; also the tombstones auto-import must not recreate */
+export const subscribeDeletedPsirs = (uid: string, onDocs: (docs: Array<PSIRDoc & SoftDeleteFields & { id: string }>) => void) => {
+  return onSnapshot(workspaceCollection(uid, 'psirs'), snap => {
+    onDocs(snap.docs.filter(d => isDeleted(d.data())).map(d => ({ ...(parseDocument(psirSchema, d.data()).value as PSIRDoc), id: d.id })));
+  }, error => {
+    logger.error('[PSIRService] Error subscribing to deleted psirs:', error);
+    onDocs([]);
+  });
+};
+
+export const purgeExpiredPsirs = async (uid: string) => {
+  if (isOffline()) return 0;
+  const snap = await getDocs(workspaceCollection(uid, 'psirs'));
+  const expired = snap.docs.filter(d => isDeleted(d.data()) && isExpired(d.data()));
+  for (const d of expired) await purgePsir(uid, d.id);
+  return expired.length;
+};
+
+export const psirRecycleSource: RecycleSource<PSIRDoc> = {
+  subscribeDeleted: subscribeDeletedPsirs,
+  restore: restorePsir,
+  purge: purgePsir,
+};
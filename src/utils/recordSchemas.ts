@@ -0,0 +1,809 @@
+import type { Schema, Migration } from './schema';
+
+// Document shapes shared by the modules. These used to be declared privately
+// in each module; they now live here so the repository layer can check them.
+// Each top-level schema is at `version` 1; version 0 is anything written before
+// documents carried a schemaVersion. Migrations must be safe to run on
+// documents that are already in the canonical shape.
+
+const isBlank = (val: unknown) => val === undefined || val === null || val === '';
+
+// Move the first non-blank legacy spelling into `canonical` and drop the rest
+const adoptAlias = (doc: Record<string, unknown>, canonical: string, aliases: string[], numeric = false) => {
+  for (const alias of aliases) {
+    const val = doc[alias];
+    delete doc[alias];
+    if (!isBlank(doc[canonical]) || isBlank(val)) continue;
+    if (numeric && !Number.isFinite(Number(val))) continue;
+    doc[canonical] = numeric ? Number(val) : val;
+  }
+};
+
+const ensureItemsArray: Migration = doc => ({ ...doc, items: Array.isArray(doc.items) ? doc.items : [] });
+
+// ============ ITEM MASTER ============
+export interface ItemMasterRecord {
+  id?: string;
+  itemName: string;
+  itemCode: string;
+  /** Stock that must always be on hand; 0 when not set */
+  minStock?: number;
+  /** Closing stock below this means the item should be re-indented; 0 turns reordering off */
+  reorderLevel?: number;
+  /** Usual quantity to indent when reordering */
+  reorderQty?: number;
+  /** Days from indent to receipt */
+  leadTimeDays?: number;
+  /** Unit every stored quantity is in (stock, indents, PSIRs, ...); 'Nos' when not set */
+  baseUom?: string;
+  /** Unit suppliers sell in, if different from the base unit */
+  purchaseUom?: string;
+  /** Base units in one purchase unit, e.g. 12 for a box of 12 */
+  purchaseFactor?: number;
+  category?: string;
+  subCategory?: string;
+  specifications?: string;
+  hsnCode?: string;
+  /** GST rate in percent */
+  taxRate?: number;
+  /** Standard cost per base unit, used to value stock */
+  standardRate?: number;
+  preferredVendors?: string[];
+  /** Inactive items stay on old records but are not offered for new ones; missing means active */
+  active?: boolean;
+}
+
+export const itemMasterSchema: Schema<ItemMasterRecord> = {
+  name: 'itemMaster',
+  version: 1,
+  migrations: {
+    1: doc => {
+      const out = { ...doc };
+      adoptAlias(out, 'itemName', ['ItemName', 'item_name', 'Item_name', 'name', 'Name']);
+      adoptAlias(out, 'itemCode', ['ItemCode', 'item_code', 'code', 'Code', 'sku', 'SKU']);
+      return out;
+    },
+  },
+  fields: {
+    itemName: { type: 'string' },
+    itemCode: { type: 'string' },
+    minStock: { type: 'number', optional: true },
+    reorderLevel: { type: 'number', optional: true },
+    reorderQty: { type: 'number', optional: true },
+    leadTimeDays: { type: 'number', optional: true },
+    baseUom: { type: 'string', optional: true },
+    purchaseUom: { type: 'string', optional: true },
+    purchaseFactor: { type: 'number', optional: true },
+    category: { type: 'string', optional: true },
+    subCategory: { type: 'string', optional: true },
+    specifications: { type: 'string', optional: true },
+    hsnCode: { type: 'string', optional: true },
+    taxRate: { type: 'number', optional: true },
+    standardRate: { type: 'number', optional: true },
+    preferredVendors: { type: 'array', optional: true },
+    active: { type: 'boolean', optional: true },
+  },
+};
+
+// ============ APPROVALS ============
+export type ApprovalStatus = 'pending' | 'approved' | 'rejected';
+
+/** One approver's decision on a step of the approval chain (see config/approvalConfig.ts) */
+export interface ApprovalDecision {
+  step: string;
+  decision: 'approved' | 'rejected';
+  by: string;
+  byName: string;
+  at: string;
+  comment: string;
+}
+
+const approvalDecisionSchema: Schema<ApprovalDecision> = {
+  name: 'approvalDecision',
+  fields: {
+    step: { type: 'string' },
+    decision: { type: 'string' },
+    by: { type: 'string' },
+    byName: { type: 'string', optional: true },
+    at: { type: 'string' },
+    comment: { type: 'string', optional: true },
+  },
+};
+
+// Documents written before approvals existed were already being acted on, so they count as approved
+const grandfatherApproval: Migration = doc => ({
+  ...doc,
+  approvalStatus: isBlank(doc.approvalStatus) ? 'approved' : doc.approvalStatus,
+  approvals: Array.isArray(doc.approvals) ? doc.approvals : [],
+});
+
+// ============ INDENTS ============
+export interface IndentItem {
+  model: string;
+  itemCode: string;
+  qty: number;
+  indentClosed: boolean;
+}
+
+export interface Indent {
+  id?: string;
+  indentNo: string;
+  date: string;
+  indentBy: string;
+  oaNo: string;
+  items: IndentItem[];
+  approvalStatus?: ApprovalStatus;
+  approvals?: ApprovalDecision[];
+  /** uid of whoever raised it; they cannot decide on it */
+  raisedBy?: string;
+}
+
+const indentItemSchema: Schema<IndentItem> = {
+  name: 'indentItem',
+  fields: {
+    model: { type: 'string' },
+    itemCode: { type: 'string' },
+    qty: { type: 'number' },
+    indentClosed: { type: 'boolean', optional: true },
+  },
+};
+
+export const indentSchema: Schema<Indent> = {
+  name: 'indentData',
+  version: 2,
+  migrations: { 1: ensureItemsArray, 2: grandfatherApproval },
+  fields: {
+    indentNo: { type: 'string' },
+    date: { type: 'string' },
+    indentBy: { type: 'string' },
+    oaNo: { type: 'string', optional: true },
+    items: { type: 'array', items: indentItemSchema },
+    approvalStatus: { type: 'string', optional: true },
+    approvals: { type: 'array', optional: true, items: approvalDecisionSchema },
+    raisedBy: { type: 'string', optional: true },
+  },
+};
+
+// ============ PURCHASE ORDERS / PURCHASE DATA ============
+export interface PurchaseEntry {
+  id?: string;
+  orderPlaceDate: string;
+  poNo: string;
+  supplierName: string;
+  itemName: string;
+  itemCode: string;
+  indentNo: string;
+  indentDate?: string;
+  indentBy: string;
+  oaNo: string;
+  originalIndentQty: number;
+  purchaseQty: number;
+  currentStock: number;
+  indentStatus: string;
+  receivedQty: number;
+  okQty: number;
+  rejectedQty: number;
+  grnNo: string;
+  debitNoteOrQtyReturned: string;
+  remarks: string;
+  approvalStatus?: ApprovalStatus;
+  approvals?: ApprovalDecision[];
+  /** uid of whoever raised it; they cannot decide on it */
+  raisedBy?: string;
+}
+
+export const purchaseEntrySchema: Schema<PurchaseEntry> = {
+  name: 'purchaseEntry',
+  version: 2,
+  migrations: { 2: grandfatherApproval },
+  fields: {
+    orderPlaceDate: { type: 'string', optional: true },
+    poNo: { type: 'string', optional: true },
+    supplierName: { type: 'string', optional: true },
+    itemName: { type: 'string', optional: true },
+    itemCode: { type: 'string', optional: true },
+    indentNo: { type: 'string', optional: true },
+    indentDate: { type: 'string', optional: true },
+    indentBy: { type: 'string', optional: true },
+    oaNo: { type: 'string', optional: true },
+    originalIndentQty: { type: 'number', optional: true },
+    purchaseQty: { type: 'number', optional: true },
+    currentStock: { type: 'number', optional: true },
+    indentStatus: { type: 'string', optional: true },
+    receivedQty: { type: 'number', optional: true },
+    okQty: { type: 'number', optional: true },
+    rejectedQty: { type: 'number', optional: true },
+    grnNo: { type: 'string', optional: true },
+    debitNoteOrQtyReturned: { type: 'string', optional: true },
+    remarks: { type: 'string', optional: true },
+    approvalStatus: { type: 'string', optional: true },
+    approvals: { type: 'array', optional: true, items: approvalDecisionSchema },
+    raisedBy: { type: 'string', optional: true },
+  },
+};
+
+// ============ PSIR ============
+export interface PSIRItem {
+  itemName: string;
+  itemCode: string;
+  qtyReceived: number;
+  okQty: number;
+  rejectQty: number;
+  grnNo: string;
+  remarks: string;
+  poQty?: number;
+}
+
+export interface PSIR {
+  id?: string;
+  userId?: string;
+  receivedDate: string;
+  indentNo: string;
+  poNo: string;
+  oaNo: string;
+  batchNo: string;
+  invoiceNo: string;
+  supplierName: string;
+  items: PSIRItem[];
+  createdAt?: unknown;
+  updatedAt?: unknown;
+}
+
+const psirItemSchema: Schema<PSIRItem> = {
+  name: 'psirItem',
+  fields: {
+    itemName: { type: 'string', optional: true },
+    itemCode: { type: 'string' },
+    qtyReceived: { type: 'number', optional: true },
+    // psirService strips okQty before persisting, so it is legitimately absent
+    okQty: { type: 'number', optional: true },
+    rejectQty: { type: 'number', optional: true },
+    grnNo: { type: 'string', optional: true },
+    remarks: { type: 'string', optional: true },
+    poQty: { type: 'number', optional: true },
+  },
+};
+
+export const psirSchema: Schema<PSIR> = {
+  name: 'psirs',
+  version: 1,
+  migrations: { 1: ensureItemsArray },
+  fields: {
+    userId: { type: 'string', optional: true },
+    receivedDate: { type: 'string', optional: true },
+    indentNo: { type: 'string' },
+    poNo: { type: 'string', optional: true },
+    oaNo: { type: 'string', optional: true },
+    batchNo: { type: 'string', optional: true },
+    invoiceNo: { type: 'string', optional: true },
+    supplierName: { type: 'string', optional: true },
+    items: { type: 'array', items: psirItemSchema },
+    createdAt: { type: 'any', optional: true },
+    updatedAt: { type: 'any', optional: true },
+  },
+};
+
+// ============ VENDOR DEPARTMENTS ============
+export interface VendorDeptItem {
+  itemName: string;
+  itemCode: string;
+  materialIssueNo: string;
+  qty: number;
+  plannedQty?: number;
+  closingStock?: number | string;
+  indentStatus: string;
+  receivedQty: number;
+  okQty: number;
+  reworkQty: number;
+  rejectedQty: number;
+  grnNo: string;
+  debitNoteOrQtyReturned: string;
+  remarks: string;
+}
+
+export interface VendorDeptOrder {
+  id?: string;
+  orderPlaceDate: string;
+  materialPurchasePoNo: string;
+  oaNo: string;
+  batchNo: string;
+  vendorBatchNo: string;
+  dcNo: string;
+  vendorName: string;
+  items: VendorDeptItem[];
+}
+
+const vendorDeptItemSchema: Schema<VendorDeptItem> = {
+  name: 'vendorDeptItem',
+  fields: {
+    itemName: { type: 'string' },
+    itemCode: { type: 'string' },
+    materialIssueNo: { type: 'string', optional: true },
+    qty: { type: 'number' },
+    plannedQty: { type: 'number', optional: true },
+    // Stored as '' until a stock lookup fills it in
+    closingStock: { type: 'any', optional: true },
+    indentStatus: { type: 'string', optional: true },
+    receivedQty: { type: 'number', optional: true },
+    okQty: { type: 'number', optional: true },
+    reworkQty: { type: 'number', optional: true },
+    rejectedQty: { type: 'number', optional: true },
+    grnNo: { type: 'string', optional: true },
+    debitNoteOrQtyReturned: { type: 'string', optional: true },
+    remarks: { type: 'string', optional: true },
+  },
+};
+
+export const vendorDeptOrderSchema: Schema<VendorDeptOrder> = {
+  name: 'vendorDepts',
+  version: 1,
+  migrations: { 1: ensureItemsArray },
+  fields: {
+    orderPlaceDate: { type: 'string', optional: true },
+    materialPurchasePoNo: { type: 'string' },
+    oaNo: { type: 'string', optional: true },
+    batchNo: { type: 'string', optional: true },
+    vendorBatchNo: { type: 'string', optional: true },
+    dcNo: { type: 'string', optional: true },
+    vendorName: { type: 'string', optional: true },
+    items: { type: 'array', items: vendorDeptItemSchema },
+  },
+};
+
+// ============ VENDOR ISSUES ============
+export interface VendorIssueItem {
+  itemName: string;
+  itemCode: string;
+  qty: number;
+  indentBy: string;
+  inStock: number;
+  indentClosed: boolean;
+}
+
+export interface VendorIssue {
+  id?: string;
+  date: string;
+  materialPurchasePoNo: string;
+  oaNo: string;
+  batchNo: string;
+  vendorBatchNo: string;
+  dcNo: string;
+  issueNo: string;
+  vendorName: string;
+  items: VendorIssueItem[];
+}
+
+const vendorIssueItemSchema: Schema<VendorIssueItem> = {
+  name: 'vendorIssueItem',
+  fields: {
+    itemName: { type: 'string' },
+    itemCode: { type: 'string' },
+    qty: { type: 'number' },
+    indentBy: { type: 'string', optional: true },
+    inStock: { type: 'number', optional: true },
+    indentClosed: { type: 'boolean', optional: true },
+  },
+};
+
+export const vendorIssueSchema: Schema<VendorIssue> = {
+  name: 'vendorIssues',
+  version: 1,
+  migrations: { 1: ensureItemsArray },
+  fields: {
+    date: { type: 'string', optional: true },
+    materialPurchasePoNo: { type: 'string', optional: true },
+    oaNo: { type: 'string', optional: true },
+    batchNo: { type: 'string', optional: true },
+    vendorBatchNo: { type: 'string', optional: true },
+    dcNo: { type: 'string', optional: true },
+    issueNo: { type: 'string' },
+    vendorName: { type: 'string', optional: true },
+    items: { type: 'array', items: vendorIssueItemSchema },
+  },
+};
+
+// ============ VENDOR STOCK ISSUE RECORDS (VSIR) ============
+export interface VSRIRecord {
+  id?: string;
+  receivedDate: string;
+  indentNo: string;
+  poNo: string;
+  oaNo: string;
+  purchaseBatchNo: string;
+  vendorBatchNo: string;
+  dcNo: string;
+  invoiceDcNo: string;
+  vendorName: string;
+  itemName: string;
+  itemCode: string;
+  qtyReceived: number;
+  okQty: number;
+  reworkQty: number;
+  rejectQty: number;
+  grnNo: string;
+  remarks: string;
+}
+
+export const vsirRecordSchema: Schema<VSRIRecord> = {
+  name: 'vsirRecords',
+  version: 1,
+  fields: {
+    receivedDate: { type: 'string', optional: true },
+    indentNo: { type: 'string', optional: true },
+    poNo: { type: 'string', optional: true },
+    oaNo: { type: 'string', optional: true },
+    purchaseBatchNo: { type: 'string', optional: true },
+    vendorBatchNo: { type: 'string', optional: true },
+    dcNo: { type: 'string', optional: true },
+    invoiceDcNo: { type: 'string', optional: true },
+    vendorName: { type: 'string', optional: true },
+    itemName: { type: 'string', optional: true },
+    itemCode: { type: 'string' },
+    qtyReceived: { type: 'number', optional: true },
+    okQty: { type: 'number', optional: true },
+    reworkQty: { type: 'number', optional: true },
+    rejectQty: { type: 'number', optional: true },
+    grnNo: { type: 'string', optional: true },
+    remarks: { type: 'string', optional: true },
+  },
+};
+
+// ============ DEBIT NOTES ============
+export type DebitNoteStatus = 'raised' | 'acknowledged' | 'credited';
+
+export interface DebitNoteItem {
+  /** 'psir' for material rejected from a supplier, 'vsir' for a vendor's job work */
+  source: 'psir' | 'vsir';
+  /** Id of the PSIR or VSIR document the line was raised from */
+  sourceId: string;
+  reason: 'reject' | 'rework';
+  poNo: string;
+  dcNo: string;
+  grnNo: string;
+  batchNo: string;
+  itemName: string;
+  itemCode: string;
+  qty: number;
+  rate: number;
+  /** GST rate in percent, from the item master when the line was raised */
+  taxRate: number;
+  remarks: string;
+}
+
+export interface DebitNote {
+  id?: string;
+  debitNoteNo: string;
+  date: string;
+  partyType: 'supplier' | 'vendor';
+  partyName: string;
+  status: DebitNoteStatus;
+  acknowledgedDate: string;
+  creditedDate: string;
+  /** The party's credit note number, once credited */
+  creditNoteRef: string;
+  remarks: string;
+  items: DebitNoteItem[];
+}
+
+const debitNoteItemSchema: Schema<DebitNoteItem> = {
+  name: 'debitNoteItem',
+  fields: {
+    source: { type: 'string' },
+    sourceId: { type: 'string' },
+    reason: { type: 'string' },
+    poNo: { type: 'string', optional: true },
+    dcNo: { type: 'string', optional: true },
+    grnNo: { type: 'string', optional: true },
+    batchNo: { type: 'string', optional: true },
+    itemName: { type: 'string', optional: true },
+    itemCode: { type: 'string' },
+    qty: { type: 'number' },
+    rate: { type: 'number', optional: true },
+    taxRate: { type: 'number', optional: true },
+    remarks: { type: 'string', optional: true },
+  },
+};
+
+export const debitNoteSchema: Schema<DebitNote> = {
+  name: 'debitNotes',
+  version: 1,
+  migrations: { 1: ensureItemsArray },
+  fields: {
+    debitNoteNo: { type: 'string' },
+    date: { type: 'string', optional: true },
+    partyType: { type: 'string' },
+    partyName: { type: 'string' },
+    status: { type: 'string' },
+    acknowledgedDate: { type: 'string', optional: true },
+    creditedDate: { type: 'string', optional: true },
+    creditNoteRef: { type: 'string', optional: true },
+    remarks: { type: 'string', optional: true },
+    items: { type: 'array', items: debitNoteItemSchema },
+  },
+};
+
+// ============ SALES ORDERS (OA) ============
+export type SalesOrderStatus = 'open' | 'closed' | 'cancelled';
+
+export interface SalesOrderItem {
+  /** Model ordered by the customer, from the item master */
+  itemName: string;
+  itemCode: string;
+  qty: number;
+  dueDate: string;
+}
+
+export interface SalesOrder {
+  id?: string;
+  /** Order acceptance number; indents, POs and issues refer to the order by it */
+  oaNo: string;
+  oaDate: string;
+  customerName: string;
+  customerPoNo: string;
+  status: SalesOrderStatus;
+  remarks: string;
+  items: SalesOrderItem[];
+}
+
+const salesOrderItemSchema: Schema<SalesOrderItem> = {
+  name: 'salesOrderItem',
+  fields: {
+    itemName: { type: 'string' },
+    itemCode: { type: 'string', optional: true },
+    qty: { type: 'number' },
+    dueDate: { type: 'string', optional: true },
+  },
+};
+
+export const salesOrderSchema: Schema<SalesOrder> = {
+  name: 'salesOrders',
+  version: 1,
+  migrations: { 1: ensureItemsArray },
+  fields: {
+    oaNo: { type: 'string' },
+    oaDate: { type: 'string', optional: true },
+    customerName: { type: 'string' },
+    customerPoNo: { type: 'string', optional: true },
+    status: { type: 'string' },
+    remarks: { type: 'string', optional: true },
+    items: { type: 'array', items: salesOrderItemSchema },
+  },
+};
+
+// ============ DELIVERY CHALLANS (outward) ============
+/** dispatch: goods to a customer; returnable: sent out and expected back (samples, tools, repairs) */
+export type DeliveryChallanType = 'dispatch' | 'returnable' | 'nonReturnable';
+
+export interface DeliveryChallanItem {
+  itemName: string;
+  itemCode: string;
+  /** Stock lot the quantity is taken from */
+  batchNo: string;
+  qty: number;
+  /** Returnable challans only: quantity back in stock so far */
+  returnedQty: number;
+  returnedDate: string;
+  remarks: string;
+}
+
+export interface DeliveryChallan {
+  id?: string;
+  dcNo: string;
+  date: string;
+  dcType: DeliveryChallanType;
+  partyName: string;
+  partyAddress: string;
+  /** Customer order the dispatch is against, when there is one */
+  oaNo: string;
+  vehicleNo: string;
+  /** Returnable challans only */
+  expectedReturnDate: string;
+  remarks: string;
+  items: DeliveryChallanItem[];
+}
+
+const deliveryChallanItemSchema: Schema<DeliveryChallanItem> = {
+  name: 'deliveryChallanItem',
+  fields: {
+    itemName: { type: 'string' },
+    itemCode: { type: 'string', optional: true },
+    batchNo: { type: 'string', optional: true },
+    qty: { type: 'number' },
+    returnedQty: { type: 'number', optional: true },
+    returnedDate: { type: 'string', optional: true },
+    remarks: { type: 'string', optional: true },
+  },
+};
+
+export const deliveryChallanSchema: Schema<DeliveryChallan> = {
+  name: 'deliveryChallans',
+  version: 1,
+  migrations: { 1: ensureItemsArray },
+  fields: {
+    dcNo: { type: 'string' },
+    date: { type: 'string', optional: true },
+    dcType: { type: 'string' },
+    partyName: { type: 'string' },
+    partyAddress: { type: 'string', optional: true },
+    oaNo: { type: 'string', optional: true },
+    vehicleNo: { type: 'string', optional: true },
+    expectedReturnDate: { type: 'string', optional: true },
+    remarks: { type: 'string', optional: true },
+    items: { type: 'array', items: deliveryChallanItemSchema },
+  },
+};
+
+// ============ STOCK RECORDS ============
+export interface StockRecord {
+  id?: string;
+  itemName: string;
+  itemCode: string;
+  batchNo: string;
+  stockQty: number;
+  indentQty: number;
+  purchaseQty: number;
+  vendorQty: number;
+  purStoreOkQty: number;
+  vendorOkQty: number;
+  inHouseIssuedQty: number;
+  vendorIssuedQty: number;
+  closingStock: number;
+  /** Legacy stock-records field; only present on documents imported before purStoreOkQty existed */
+  purchaseActualQtyInStore?: number;
+}
+
+export const stockRecordSchema: Schema<StockRecord> = {
+  name: 'stockRecords',
+  version: 1,
+  migrations: {
+    // Early imports used a dozen spellings for each quantity; settle on one
+    1: doc => {
+      const out = { ...doc };
+      adoptAlias(out, 'itemName', ['ItemName', 'item_name', 'Item_name', 'name', 'Name']);
+      adoptAlias(out, 'itemCode', ['ItemCode', 'item_code', 'code', 'Code', 'sku', 'SKU']);
+      adoptAlias(out, 'closingStock', ['closing_stock', 'ClosingStock', 'closing', 'closingQty', 'closing_qty', 'Closing', 'closing stock', 'Closing Stock', 'closingstock', 'closingStockQty', 'closing_stock_qty', 'ClosingStockQty', 'closingstockqty'], true);
+      adoptAlias(out, 'stockQty', ['stock_qty', 'stock', 'StockQty', 'currentStock'], true);
+      adoptAlias(out, 'purStoreOkQty', ['pur_store_ok_qty', 'PurStoreOkQty'], true);
+      adoptAlias(out, 'vendorOkQty', ['vendor_ok_qty', 'VendorOkQty'], true);
+      adoptAlias(out, 'inHouseIssuedQty', ['in_house_issued_qty', 'InHouseIssuedQty'], true);
+      adoptAlias(out, 'purchaseActualQtyInStore', ['purchase_actual_qty_in_store', 'purchaseActualQty', 'purchase_actual_qty'], true);
+      if (isBlank(out.closingStock) || !Number.isFinite(Number(out.closingStock))) {
+        const num = (key: string) => Number(out[key]) || 0;
+        out.closingStock = num('stockQty') + num('purStoreOkQty') + num('vendorOkQty') + num('purchaseActualQtyInStore') - num('inHouseIssuedQty');
+      }
+      return out;
+    },
+  },
+  fields: {
+    itemName: { type: 'string' },
+    itemCode: { type: 'string' },
+    batchNo: { type: 'string', optional: true },
+    stockQty: { type: 'number', optional: true },
+    indentQty: { type: 'number', optional: true },
+    purchaseQty: { type: 'number', optional: true },
+    vendorQty: { type: 'number', optional: true },
+    purStoreOkQty: { type: 'number', optional: true },
+    vendorOkQty: { type: 'number', optional: true },
+    inHouseIssuedQty: { type: 'number', optional: true },
+    vendorIssuedQty: { type: 'number', optional: true },
+    closingStock: { type: 'number', optional: true },
+    purchaseActualQtyInStore: { type: 'number', optional: true },
+  },
+};
+
+// ============ IN HOUSE ISSUES ============
+export interface InHouseIssueItem {
+  itemName: string;
+  itemCode: string;
+  transactionType: string;
+  batchNo: string;
+  issueQty: number;
+  reqBy: string;
+  inStock: number;
+  reqClosed: boolean;
+  receivedDate?: string; // FIFO: Track when item was received
+}
+
+export interface InHouseIssue {
+  id?: string;  // Firestore document ID
+  reqNo: string;
+  reqDate: string;
+  indentNo: string;
+  oaNo: string;
+  poNo: string;
+  vendor: string;
+  purchaseBatchNo: string;
+  vendorBatchNo: string;
+  issueNo: string;
+  items: InHouseIssueItem[];
+}
+
+const inHouseIssueItemSchema: Schema<InHouseIssueItem> = {
+  name: 'inHouseIssueItem',
+  fields: {
+    itemName: { type: 'string' },
+    itemCode: { type: 'string' },
+    transactionType: { type: 'string', optional: true },
+    batchNo: { type: 'string', optional: true },
+    issueQty: { type: 'number' },
+    reqBy: { type: 'string', optional: true },
+    inStock: { type: 'number', optional: true },
+    reqClosed: { type: 'boolean', optional: true },
+    receivedDate: { type: 'string', optional: true },
+  },
+};
+
+export const inHouseIssueSchema: Schema<InHouseIssue> = {
+  name: 'inHouseIssues',
+  version: 1,
+  migrations: { 1: ensureItemsArray },
+  fields: {
+    reqNo: { type: 'string', optional: true },
+    reqDate: { type: 'string', optional: true },
+    indentNo: { type: 'string', optional: true },
+    oaNo: { type: 'string', optional: true },
+    poNo: { type: 'string', optional: true },
+    vendor: { type: 'string', optional: true },
+    purchaseBatchNo: { type: 'string', optional: true },
+    vendorBatchNo: { type: 'string', optional: true },
+    issueNo: { type: 'string', optional: true },
+    items: { type: 'array', items: inHouseIssueItemSchema },
+  },
+};
+
+// ============ STOCK LEDGER ============
+/** Where a stock movement came from; 'opening' is the stockQty entered on a stock record */
+export type StockMovementSource = 'psir' | 'vsir' | 'vendorIssue' | 'inHouseIssue' | 'deliveryChallan' | 'opening' | 'adjustment';
+
+export interface StockMovement {
+  id?: string;
+  itemCode: string;
+  itemName: string;
+  batchNo: string;
+  /** Signed: receipts are positive, issues negative */
+  qty: number;
+  source: StockMovementSource;
+  sourceId: string;
+  /** Human-readable reference (GRN, issue or request number) */
+  sourceRef: string;
+  reason: string;
+  createdBy: string;
+  createdAt?: unknown;
+}
+
+export const stockMovementSchema: Schema<StockMovement> = {
+  name: 'stockLedger',
+  version: 1,
+  fields: {
+    itemCode: { type: 'string' },
+    itemName: { type: 'string', optional: true },
+    batchNo: { type: 'string', optional: true },
+    qty: { type: 'number' },
+    source: { type: 'string' },
+    sourceId: { type: 'string' },
+    sourceRef: { type: 'string', optional: true },
+    reason: { type: 'string', optional: true },
+    createdBy: { type: 'string', optional: true },
+    createdAt: { type: 'any', optional: true },
+  },
+};
+
+/**
+ * Schemas keyed by the collection name under orgs/{orgId}/. Used by the generic
+ * helpers in firestoreSync.ts, which only know the collection by name.
+ * stockLedger is append-only and deliberately not listed here.
+ */
+export const collectionSchemas: Record<string, Schema<object>> = {
+  itemMaster: itemMasterSchema,
+  indentData: indentSchema,
+  purchaseOrders: purchaseEntrySchema,
+  purchaseData: purchaseEntrySchema,
+  vendorDepts: vendorDeptOrderSchema,
+  vendorIssues: vendorIssueSchema,
+  vsirRecords: vsirRecordSchema,
+  stockRecords: stockRecordSchema,
+  inHouseIssues: inHouseIssueSchema,
+  debitNotes: debitNoteSchema,
+  salesOrders: salesOrderSchema,
+  deliveryChallans: deliveryChallanSchema,
+};
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { findShortItems, isBelowReorderLevel, onOrderByItem } from './reorder';
+import type { Indent, ItemMasterRecord, PurchaseEntry } from './recordSchemas';
+
+const item = (fields: Partial<ItemMasterRecord>): ItemMasterRecord => ({ itemName: 'Bracket', itemCode: 'A-1', ...fields });
+
+const stock = (levels: Record<string, number>) => (itemCode: string) => levels[itemCode] ?? null;
+
+const indent = (indentNo: string, items: Indent['items'], fields: Partial<Indent> = {}): Indent => ({
+  indentNo, date: '2025-01-01', indentBy: 'A', oaNo: '', items, ...fields,
+});
+
+const po = (fields: Partial<PurchaseEntry>) => ({ indentNo: 'IND-1', itemCode: 'A-1', purchaseQty: 0, receivedQty: 0, ...fields }) as PurchaseEntry;
+
+describe('isBelowReorderLevel', () => {
+  it('never flags items without a reorder level', () => {
+    expect(isBelowReorderLevel({ reorderLevel: 0 }, -5)).toBe(false);
+    expect(isBelowReorderLevel({ reorderLevel: 10 }, 9)).toBe(true);
+    expect(isBelowReorderLevel({ reorderLevel: 10 }, 10)).toBe(false);
+  });
+});
+
+describe('onOrderByItem', () => {
+  it('counts unreceived PO quantity and open indent lines without a PO', () => {
+    const onOrder = onOrderByItem(
+      [indent('IND-1', [{ model: 'Bracket', itemCode: 'a-1', qty: 9, indentClosed: false }]),
+        indent('IND-2', [{ model: 'Bracket', itemCode: 'A-1', qty: 4, indentClosed: false }])],
+      [po({ indentNo: 'IND-1', purchaseQty: 9, receivedQty: 3 })],
+    );
+    // IND-1 is covered by its PO (6 still to come); IND-2 has no PO yet
+    expect(onOrder.get('A-1')).toBe(10);
+  });
+
+  it('leaves out rejected documents and closed indent lines', () => {
+    const onOrder = onOrderByItem(
+      [indent('IND-1', [{ model: 'Bracket', itemCode: 'A-1', qty: 9, indentClosed: false }], { approvalStatus: 'rejected' }),
+        indent('IND-2', [{ model: 'Bracket', itemCode: 'A-1', qty: 4, indentClosed: true }])],
+      [po({ indentNo: 'IND-3', purchaseQty: 5, approvalStatus: 'rejected' })],
+    );
+    expect(onOrder.get('A-1')).toBeUndefined();
+  });
+});
+
+describe('findShortItems', () => {
+  const items = [
+    item({ itemCode: 'A-1', reorderLevel: 10, reorderQty: 5, minStock: 2 }),
+    item({ itemCode: 'B-2', itemName: 'Hinge', reorderLevel: 20, reorderQty: 5 }),
+    item({ itemCode: 'C-3', itemName: 'Spare', reorderLevel: 50, active: false }),
+    item({ itemCode: 'D-4', itemName: 'Loose', reorderLevel: 0 }),
+  ];
+
+  it('lists active items below their reorder level, most urgent first', () => {
+    const short = findShortItems(items, stock({ 'A-1': 1, 'B-2': 4, 'C-3': 0, 'D-4': 0 }));
+    expect(short.map(s => [s.itemCode, s.belowMin, s.suggestedQty])).toEqual([['A-1', true, 9], ['B-2', false, 16]]);
+  });
+
+  it('counts what is already on order towards the reorder level', () => {
+    const short = findShortItems(items, stock({ 'A-1': 1, 'B-2': 4 }), new Map([['A-1', 9], ['B-2', 10]]));
+    expect(short.map(s => [s.itemCode, s.onOrderQty, s.suggestedQty])).toEqual([['B-2', 10, 6]]);
+  });
+});
@@ -0,0 +1,96 @@
+import type { Indent, ItemMasterRecord, PurchaseEntry } from './recordSchemas';
+import { approvalStatusOf } from './approvals';
+import { isActiveItem } from './units';
+
+/**
+ * Reorder planning from the item master: an item is short once its closing
+ * stock falls below its reorder level. Items without a reorder level are never
+ * short, and neither are inactive ones. Closing stock comes from the caller
+ * (normally the stock ledger). When planning an indent, what is already on
+ * order (see onOrderByItem) counts towards the reorder level too.
+ */
+
+export interface ShortItem {
+  itemCode: string;
+  itemName: string;
+  closingStock: number;
+  /** Open indent and unreceived PO quantity already counted against the shortfall */
+  onOrderQty: number;
+  minStock: number;
+  reorderLevel: number;
+  reorderQty: number;
+  leadTimeDays: number;
+  /** Also below the minimum stock, so more urgent */
+  belowMin: boolean;
+  /** What to indent: the reorder qty, or enough to get back to the reorder level if that is more */
+  suggestedQty: number;
+}
+
+const num = (val: unknown) => Number(val) || 0;
+const codeKey = (code: unknown) => String(code ?? '').trim().toUpperCase();
+
+/** Whether `closingStock` has fallen below the item's reorder level */
+export const isBelowReorderLevel = (item: Pick<ItemMasterRecord, 'reorderLevel'>, closingStock: number) =>
+  num(item.reorderLevel) > 0 && closingStock < num(item.reorderLevel);
+
+/**
+ * Quantity still to arrive per item code (upper-cased): the open quantity of
+ * purchase orders that are not rejected, plus open lines of indents that are
+ * not rejected and have no purchase order yet.
+ */
+export const onOrderByItem = (indents: Indent[], purchaseOrders: PurchaseEntry[]): Map<string, number> => {
+  const onOrder = new Map<string, number>();
+  const add = (itemCode: unknown, qty: number) => {
+    if (qty > 0) onOrder.set(codeKey(itemCode), (onOrder.get(codeKey(itemCode)) || 0) + qty);
+  };
+  const ordered = new Set<string>();
+  purchaseOrders.forEach(po => {
+    ordered.add(`${codeKey(po.indentNo)}|${codeKey(po.itemCode)}`);
+    if (approvalStatusOf(po) === 'rejected') return;
+    add(po.itemCode, (num(po.purchaseQty) || num(po.originalIndentQty)) - num(po.receivedQty));
+  });
+  indents.forEach(indent => {
+    if (approvalStatusOf(indent) === 'rejected') return;
+    (indent.items || []).forEach(item => {
+      if (item.indentClosed || ordered.has(`${codeKey(indent.indentNo)}|${codeKey(item.itemCode)}`)) return;
+      add(item.itemCode, num(item.qty));
+    });
+  });
+  return onOrder;
+};
+
+/**
+ * Short items, most urgent first (below minimum, then furthest under the
+ * reorder level). With `onOrder` (from onOrderByItem), items whose stock plus
+ * on-order quantity reaches the reorder level are left out and the suggested
+ * quantity only covers the rest.
+ */
+export const findShortItems = (
+  items: ItemMasterRecord[],
+  closingStockFor: (itemCode: string, itemName: string) => number | null,
+  onOrder: Map<string, number> = new Map(),
+): ShortItem[] =>
+  items
+    .flatMap(item => {
+      if (!isActiveItem(item)) return [];
+      const closingStock = closingStockFor(item.itemCode, item.itemName) ?? 0;
+      const onOrderQty = onOrder.get(codeKey(item.itemCode)) || 0;
+      if (!isBelowReorderLevel(item, closingStock + onOrderQty)) return [];
+      const reorderLevel = num(item.reorderLevel);
+      const minStock = num(item.minStock);
+      const reorderQty = num(item.reorderQty);
+      return [{
+        itemCode: item.itemCode,
+        itemName: item.itemName,
+        closingStock,
+        onOrderQty,
+        minStock,
+        reorderLevel,
+        reorderQty,
+        leadTimeDays: num(item.leadTimeDays),
+        belowMin: minStock > 0 && closingStock < minStock,
+        suggestedQty: Math.max(reorderQty, reorderLevel - closingStock - onOrderQty),
+      }];
+    })
+    .sort((a, b) => Number(b.belowMin) - Number(a.belowMin)
+      || (b.reorderLevel - b.closingStock) - (a.reorderLevel - a.closingStock));
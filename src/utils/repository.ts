@@ -0,0 +1,339 @@
+import { collection, query, orderBy, onSnapshot, addDoc, updateDoc, setDoc, deleteDoc, doc, getDoc, getDocs, runTransaction, serverTimestamp } from 'firebase/firestore';
+import type { DocumentData } from 'firebase/firestore';
+import { db } from '../firebase';
+import { workspaceCollectionPath } from './workspace';
+import bus from './eventBus';
+import { logger } from './logger';
+import { parseDocument, assertDocument } from './schema';
+import type { Schema, SchemaIssue } from './schema';
+import { readCachedDocs, writeCachedDocs } from './offlineStore';
+import { enqueueMutation, overlayPending, rememberVersions, isOffline, isNetworkError } from './writeQueue';
+import { postSourceMovements } from './stockLedger';
+import type { LedgerBinding } from './stockLedger';
+import { recordAudit } from './auditLog';
+import type { AuditAction } from './auditLog';
+import { isDeleted, isExpired, tombstone } from './softDelete';
+import type { SoftDeleteFields } from './softDelete';
+
+export type WithId<T> = T & { id: string };
+
+export interface Repository<T extends object> {
+  readonly collectionName: string;
+  subscribe: (uid: string, cb: (docs: WithId<T>[]) => void) => () => void;
+  getAll: (uid: string) => Promise<WithId<T>[]>;
+  add: (uid: string, data: T) => Promise<string>;
+  update: (uid: string, docId: string, data: Partial<T>) => Promise<void>;
+  remove: (uid: string, docId: string) => Promise<void>;
+  /** Recycle bin: tombstoned documents (always empty without `softDelete`) */
+  subscribeDeleted: (uid: string, cb: (docs: WithId<T & SoftDeleteFields>[]) => void) => () => void;
+  restore: (uid: string, docId: string) => Promise<void>;
+  /** Delete for good, bypassing the recycle bin */
+  purge: (uid: string, docId: string) => Promise<void>;
+  /** Purge tombstones older than the retention period; returns how many went */
+  purgeExpired: (uid: string) => Promise<number>;
+}
+
+export interface RepositoryOptions<T extends object> {
+  /** Collection name under orgs/{orgId}/ */
+  collection: string;
+  schema: Schema<T>;
+  /** Order subscriptions by createdAt desc (getAll sorts client-side so undated docs are kept) */
+  orderByCreatedAt?: boolean;
+  /** Use setDoc(..., { merge: true }) for updates so missing docs are created */
+  mergeOnUpdate?: boolean;
+  /** Post stock movements for every write, in the same transaction (see stockLedger) */
+  ledger?: LedgerBinding<T>;
+  /** remove() tombstones the document instead of deleting it (see softDelete) */
+  softDelete?: boolean;
+}
+
+// Firestore ids are never written into the document body; they come from the ref.
+const stripId = <T extends object>(data: T): Omit<T, 'id'> => {
+  const copy = { ...data } as T & { id?: unknown };
+  delete copy.id;
+  return copy;
+};
+
+const createdAtMillis = (val: unknown): number => {
+  if (val && typeof (val as { toMillis?: unknown }).toMillis === 'function') return (val as { toMillis: () => number }).toMillis();
+  if (typeof val === 'string') return Date.parse(val) || 0;
+  return 0;
+};
+
+const logIssues = (collectionName: string, failures: Array<{ id: string; issues: SchemaIssue[] }>) => {
+  if (failures.length === 0) return;
+  logger.warn(`[Repository] ${failures.length} ${collectionName} document(s) failed schema checks:`, failures.slice(0, 5));
+};
+
+/**
+ * Build a typed repository for a per-user collection. Documents read from
+ * Firestore are checked against `schema` (issues are logged, the normalised
+ * document is still returned); writes throw SchemaValidationError on issues.
+ *
+ * Offline: the last snapshot of each collection is cached in IndexedDB and
+ * served until the server answers; writes made offline go to the write queue
+ * and are overlaid on subscription results until they replay.
+ *
+ * With `ledger`, online writes run in a transaction that also posts the
+ * document's stock movements; offline writes are posted by
+ * reconcileStockLedger once the queue replays.
+ *
+ * Every online write is recorded in the audit log with a before/after diff;
+ * queued writes are audited when they replay.
+ *
+ * With `softDelete`, remove() moves the document to the recycle bin:
+ * subscribe/getAll skip it, subscribeDeleted lists it, and restore() brings it
+ * back (re-posting its stock movements when the collection has a ledger).
+ */
+export const createRepository = <T extends object>(options: RepositoryOptions<T>): Repository<T> => {
+  const { collection: collectionName, schema, orderByCreatedAt = false, mergeOnUpdate = false, ledger, softDelete = false } = options;
+
+  const collectionPath = (uid: string) => workspaceCollectionPath(uid, collectionName);
+  const colRef = (uid: string) => collection(db, collectionPath(uid));
+  const subscribeQuery = (uid: string) => orderByCreatedAt ? query(colRef(uid), orderBy('createdAt', 'desc')) : colRef(uid);
+
+  const audit = (uid: string, docId: string, action: AuditAction, before: DocumentData | null, after: DocumentData | null) => {
+    void recordAudit({ collectionName, path: `${collectionPath(uid)}/${docId}`, docId, action, before, after });
+  };
+
+  const mapDocs = (docs: Array<{ id: string; data: DocumentData }>): WithId<T>[] => {
+    const failures: Array<{ id: string; issues: SchemaIssue[] }> = [];
+    const out = docs.map(d => {
+      const { value, issues } = parseDocument(schema, d.data);
+      if (issues.length > 0) failures.push({ id: d.id, issues });
+      return { ...value, id: d.id };
+    });
+    logIssues(collectionName, failures);
+    return out;
+  };
+
+  const sortDocs = (docs: WithId<T>[]) => {
+    if (orderByCreatedAt) {
+      docs.sort((a, b) => createdAtMillis((b as { createdAt?: unknown }).createdAt) - createdAtMillis((a as { createdAt?: unknown }).createdAt));
+    }
+    return docs;
+  };
+
+  const live = (docs: WithId<T>[]) => softDelete ? docs.filter(d => !isDeleted(d)) : docs;
+  const tombstones = (docs: WithId<T>[]) => softDelete ? docs.filter(isDeleted) as WithId<T & SoftDeleteFields>[] : [];
+
+  const readCache = async (uid: string): Promise<WithId<T>[]> => {
+    try {
+      const cached = await readCachedDocs(collectionPath(uid));
+      return sortDocs(mapDocs(cached.map(({ id, ...data }) => ({ id, data }))));
+    } catch (error) {
+      logger.warn(`[Repository] Offline cache unavailable for ${collectionName}:`, error);
+      return [];
+    }
+  };
+
+  // Live documents and the recycle bin are two views of the same snapshot
+  const watch = <R>(uid: string, pick: (docs: WithId<T>[]) => R[], cb: (docs: R[]) => void) => {
+    const scope = collectionPath(uid);
+    let current: WithId<T>[] | null = null;
+    let fromServer = false;
+    const emit = () => { if (current) cb(pick(overlayPending(scope, current))); };
+
+    // Serve the cached copy straight away; the first server snapshot replaces it
+    readCache(uid).then(cached => {
+      if (fromServer || (current && current.length > 0)) return;
+      current = cached;
+      emit();
+    });
+    bus.on('offline.queue.changed', emit);
+
+    let unsub: () => void = () => {};
+    try {
+      unsub = onSnapshot(subscribeQuery(uid), snap => {
+        // Without network the SDK answers with an empty cache snapshot; keep what IndexedDB had
+        if (snap.metadata.fromCache && snap.empty && current && current.length > 0) return;
+        current = mapDocs(snap.docs.map(d => ({ id: d.id, data: d.data() })));
+        if (!snap.metadata.fromCache) {
+          fromServer = true;
+          rememberVersions(scope, current as Array<Record<string, unknown> & { id: string }>);
+          writeCachedDocs(scope, current as Array<Record<string, unknown> & { id: string }>).catch(error => {
+            logger.warn(`[Repository] Could not cache ${collectionName}:`, error);
+          });
+        }
+        emit();
+      }, (error) => {
+        logger.error(`[Repository] Error subscribing to ${collectionName}:`, error);
+        if (current) emit();
+        else cb([]);
+      });
+    } catch (error) {
+      logger.error(`[Repository] subscribe ${collectionName} failed:`, error);
+    }
+    return () => {
+      bus.off('offline.queue.changed', emit);
+      unsub();
+    };
+  };
+
+  const subscribe = (uid: string, cb: (docs: WithId<T>[]) => void) => watch(uid, live, cb);
+  const subscribeDeleted = (uid: string, cb: (docs: WithId<T & SoftDeleteFields>[]) => void) => watch(uid, tombstones, cb);
+
+  const getAll = async (uid: string) => {
+    if (!uid) {
+      logger.warn(`[Repository] getAll ${collectionName} called with empty uid`);
+      return [];
+    }
+    if (isOffline()) return live(overlayPending(collectionPath(uid), await readCache(uid)));
+    try {
+      const snap = await getDocs(colRef(uid));
+      return live(sortDocs(mapDocs(snap.docs.map(d => ({ id: d.id, data: d.data() })))));
+    } catch (error) {
+      logger.error(`[Repository] Error getting ${collectionName}:`, error);
+      if (isNetworkError(error)) return live(overlayPending(collectionPath(uid), await readCache(uid)));
+      return [];
+    }
+  };
+
+  const add = async (uid: string, data: T) => {
+    try {
+      const checked = assertDocument(schema, stripId(data));
+      if (isOffline()) {
+        return await enqueueMutation({ scope: collectionPath(uid), collectionPath: collectionPath(uid), op: 'add', data: checked as Record<string, unknown> });
+      }
+      if (ledger) {
+        const ref = doc(colRef(uid));
+        await runTransaction(db, async tx => {
+          await postSourceMovements(tx, uid, ledger, ref.id, checked);
+          tx.set(ref, { ...checked, createdAt: serverTimestamp(), updatedAt: serverTimestamp() });
+        });
+        audit(uid, ref.id, 'create', null, checked);
+        return ref.id;
+      }
+      const ref = await addDoc(colRef(uid), { ...checked, createdAt: serverTimestamp(), updatedAt: serverTimestamp() });
+      audit(uid, ref.id, 'create', null, checked);
+      return ref.id;
+    } catch (error) {
+      logger.error(`[Repository] Error adding ${collectionName}:`, error);
+      throw error;
+    }
+  };
+
+  const update = async (uid: string, docId: string, data: Partial<T>) => {
+    try {
+      const checked = assertDocument(schema, stripId(data), true);
+      if (isOffline()) {
+        await enqueueMutation({ scope: collectionPath(uid), collectionPath: collectionPath(uid), op: 'update', docId, data: checked as Record<string, unknown>, merge: mergeOnUpdate });
+        return;
+      }
+      const docRef = doc(db, collectionPath(uid), docId);
+      let before: DocumentData | null = null;
+      if (ledger) {
+        await runTransaction(db, async tx => {
+          const current = await tx.get(docRef);
+          before = current.exists() ? current.data() : null;
+          const merged = parseDocument(schema, { ...(before || {}), ...checked }).value;
+          await postSourceMovements(tx, uid, ledger, docId, merged);
+          if (mergeOnUpdate) {
+            tx.set(docRef, { ...checked, updatedAt: serverTimestamp() }, { merge: true });
+          } else {
+            tx.update(docRef, { ...checked, updatedAt: serverTimestamp() });
+          }
+        });
+      } else {
+        const current = await getDoc(docRef);
+        before = current.exists() ? current.data() : null;
+        if (mergeOnUpdate) {
+          await setDoc(docRef, { ...checked, updatedAt: serverTimestamp() }, { merge: true });
+        } else {
+          await updateDoc(docRef, { ...checked, updatedAt: serverTimestamp() });
+        }
+      }
+      audit(uid, docId, before ? 'update' : 'create', before, { ...(before || {}), ...checked });
+    } catch (error) {
+      logger.error(`[Repository] Error updating ${collectionName}/${docId}:`, error);
+      throw error;
+    }
+  };
+
+  // Delete the document outright, reversing any stock movements it posted
+  const destroy = async (uid: string, docId: string, action: AuditAction) => {
+    if (isOffline()) {
+      await enqueueMutation({ scope: collectionPath(uid), collectionPath: collectionPath(uid), op: 'remove', docId });
+      return;
+    }
+    const docRef = doc(db, collectionPath(uid), docId);
+    let before: DocumentData | null = null;
+    if (ledger) {
+      await runTransaction(db, async tx => {
+        const current = await tx.get(docRef);
+        before = current.exists() ? current.data() : null;
+        await postSourceMovements(tx, uid, ledger, docId, null);
+        tx.delete(docRef);
+      });
+    } else {
+      const current = await getDoc(docRef);
+      before = current.exists() ? current.data() : null;
+      await deleteDoc(docRef);
+    }
+    if (before) audit(uid, docId, action, before, null);
+  };
+
+  // Write the soft-delete fields; a tombstone's stock movements are reversed, a restored document's re-posted
+  const mark = async (uid: string, docId: string, fields: SoftDeleteFields, action: AuditAction) => {
+    if (isOffline()) {
+      await enqueueMutation({ scope: collectionPath(uid), collectionPath: collectionPath(uid), op: 'update', docId, data: { ...fields } });
+      return;
+    }
+    const docRef = doc(db, collectionPath(uid), docId);
+    let before: DocumentData | null = null;
+    if (ledger) {
+      await runTransaction(db, async tx => {
+        const current = await tx.get(docRef);
+        if (!current.exists()) return;
+        before = current.data();
+        const merged = { ...before, ...fields };
+        await postSourceMovements(tx, uid, ledger, docId, isDeleted(merged) ? null : parseDocument(schema, merged).value);
+        tx.update(docRef, { ...fields, updatedAt: serverTimestamp() });
+      });
+    } else {
+      const current = await getDoc(docRef);
+      if (!current.exists()) return;
+      before = current.data();
+      await updateDoc(docRef, { ...fields, updatedAt: serverTimestamp() });
+    }
+    if (before) audit(uid, docId, action, before, { ...(before as DocumentData), ...fields });
+  };
+
+  const remove = async (uid: string, docId: string) => {
+    try {
+      if (softDelete) await mark(uid, docId, tombstone(), 'delete');
+      else await destroy(uid, docId, 'delete');
+    } catch (error) {
+      logger.error(`[Repository] Error deleting ${collectionName}/${docId}:`, error);
+      throw error;
+    }
+  };
+
+  const restore = async (uid: string, docId: string) => {
+    try {
+      await mark(uid, docId, { deletedAt: null, deletedBy: null }, 'restore');
+    } catch (error) {
+      logger.error(`[Repository] Error restoring ${collectionName}/${docId}:`, error);
+      throw error;
+    }
+  };
+
+  const purge = async (uid: string, docId: string) => {
+    try {
+      await destroy(uid, docId, 'purge');
+    } catch (error) {
+      logger.error(`[Repository] Error purging ${collectionName}/${docId}:`, error);
+      throw error;
+    }
+  };
+
+  const purgeExpired = async (uid: string) => {
+    if (!softDelete || isOffline()) return 0;
+    const snap = await getDocs(colRef(uid));
+    const expired = snap.docs.filter(d => isDeleted(d.data()) && isExpired(d.data()));
+    for (const d of expired) await purge(uid, d.id);
+    return expired.length;
+  };
+
+  return { collectionName, subscribe, getAll, add, update, remove, subscribeDeleted, restore, purge, purgeExpired };
+};
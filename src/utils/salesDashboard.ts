@@ -0,0 +1,92 @@
+import { notificationSettings } from '../config/notificationConfig';
+import { oaReadiness, unindentedItems } from './salesOrders';
+import type { OaMaterialLine, OaReadiness, ReadinessSources } from './salesOrders';
+import { itemLookup } from './units';
+import type { ItemMasterRecord, SalesOrder, SalesOrderItem } from './recordSchemas';
+
+/**
+ * Per-OA fulfilment for the sales dashboard, built on oaReadiness. Completion
+ * also counts ordered models that nobody has indented yet, and each shortage
+ * gets the reason it is blocking the OA and, where a PO is open, when it
+ * should arrive.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type ShortageReason = 'atVendor' | 'poOpen' | 'noPo' | 'shortReceived' | 'notIndented';
+
+export const SHORTAGE_LABELS: Record<ShortageReason, string> = {
+  atVendor: 'At vendor',
+  poOpen: 'PO open',
+  noPo: 'No PO yet',
+  shortReceived: 'Rejected / short supplied',
+  notIndented: 'Not indented',
+};
+
+export interface Shortage {
+  itemCode: string;
+  itemName: string;
+  qty: number;
+  reason: ShortageReason;
+  /** Expected arrival of the open POs covering it, '' when there is no estimate */
+  expectedDate: string;
+}
+
+export interface OaFulfilment {
+  order: SalesOrder;
+  readiness: OaReadiness;
+  /** Ready over everything the OA needs, indented or not, 0-100 */
+  completion: number;
+  shortages: Shortage[];
+  /** Latest expected arrival across the shortages; '' when complete or when a shortage has no estimate */
+  expectedCompletion: string;
+  /** A shortage with no open PO behind it, so no completion date can be given */
+  blocked: boolean;
+  /** Earliest due date on the OA */
+  dueDate: string;
+  /** Expected to complete after the due date, or already past it while incomplete */
+  late: boolean;
+}
+
+const addDays = (date: string, days: number) => {
+  const ms = Date.parse(date);
+  return Number.isFinite(ms) ? new Date(ms + days * DAY_MS).toISOString().slice(0, 10) : '';
+};
+
+// Items without a lead time are expected within the window after which a PO counts as overdue
+const leadTimeOf = (item?: ItemMasterRecord) => Number(item?.leadTimeDays) || notificationSettings.poOverdueDays;
+
+const shortageOf = (line: OaMaterialLine, item?: ItemMasterRecord): Shortage => {
+  const base = { itemCode: line.itemCode, itemName: line.itemName, qty: line.short };
+  if (line.sentToVendor > line.vendorOk) return { ...base, reason: 'atVendor', expectedDate: '' };
+  if (line.openPoDates.length > 0) {
+    const expected = line.openPoDates.map(d => addDays(d, leadTimeOf(item))).filter(Boolean).sort();
+    return { ...base, reason: 'poOpen', expectedDate: expected[expected.length - 1] || '' };
+  }
+  if (line.ordered < line.indented - line.fromStock) return { ...base, reason: 'noPo', expectedDate: '' };
+  return { ...base, reason: 'shortReceived', expectedDate: '' };
+};
+
+const pendingQty = (items: SalesOrderItem[]) => items.reduce((sum, i) => sum + (Number(i.qty) || 0), 0);
+
+export const oaFulfilment = (
+  order: SalesOrder,
+  sources: ReadinessSources,
+  itemMaster: ItemMasterRecord[],
+  today = new Date().toISOString().slice(0, 10),
+): OaFulfilment => {
+  const findItem = itemLookup(itemMaster);
+  const readiness = oaReadiness(order.oaNo, sources);
+  const notIndented = unindentedItems(order, sources.indents);
+  const shortages: Shortage[] = [
+    ...readiness.lines.filter(l => l.short > 0).map(l => shortageOf(l, findItem(l.itemCode, l.itemName))),
+    ...notIndented.map(i => ({ itemCode: i.itemCode, itemName: i.itemName, qty: i.qty, reason: 'notIndented' as const, expectedDate: '' })),
+  ];
+  const required = readiness.required + pendingQty(notIndented);
+  const completion = required > 0 ? Math.round((readiness.ready / required) * 100) : 0;
+  const blocked = shortages.some(s => !s.expectedDate);
+  const expectedCompletion = blocked ? '' : shortages.map(s => s.expectedDate).sort().pop() || '';
+  const dueDate = order.items.map(i => i.dueDate).filter(Boolean).sort()[0] || '';
+  const late = !!dueDate && shortages.length > 0 && (dueDate < today || (!!expectedCompletion && expectedCompletion > dueDate));
+  return { order, readiness, completion, shortages, expectedCompletion, blocked, dueDate, late };
+};
@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { nextOaNo, oaReadiness, unindentedItems } from './salesOrders';
+import type { ReadinessSources } from './salesOrders';
+import type { Indent, InHouseIssue, PSIR, PurchaseEntry, SalesOrder, VendorDeptOrder, VSRIRecord } from './recordSchemas';
+
+const indent = (indentNo: string, items: Indent['items'], fields: Partial<Indent> = {}): Indent => ({
+  indentNo, date: '2025-01-01', indentBy: 'A', oaNo: 'OA-001', items, ...fields,
+});
+
+const sources = (fields: Partial<ReadinessSources>): ReadinessSources => ({
+  indents: [], purchases: [], psirs: [], vendorOrders: [], vsirRecords: [], inHouseIssues: [], ...fields,
+});
+
+const indents = [
+  indent('IND-1', [
+    { model: 'Bracket', itemCode: 'A-1', qty: 10, indentClosed: false },
+    { model: 'Hinge', itemCode: 'B-2', qty: 4, indentClosed: true },
+  ]),
+  indent('IND-2', [{ model: 'Bracket', itemCode: 'A-1', qty: 50, indentClosed: false }], { approvalStatus: 'rejected' }),
+  indent('IND-3', [{ model: 'Bracket', itemCode: 'A-1', qty: 50, indentClosed: false }], { oaNo: 'OA-002' }),
+];
+
+describe('oaReadiness', () => {
+  it('is not indented until an approved indent names the OA', () => {
+    expect(oaReadiness('OA-009', sources({ indents }))).toMatchObject({ status: 'notIndented', percent: 0, lines: [] });
+  });
+
+  it('counts stock covered at indent time and accepted receipts towards ready', () => {
+    const readiness = oaReadiness('oa-001', sources({
+      indents,
+      purchases: [
+        { oaNo: 'OA-001', poNo: 'PO-1', itemCode: 'A-1', purchaseQty: 10, receivedQty: 6, orderPlaceDate: '2025-01-05' },
+        { oaNo: 'OA-001', poNo: 'PO-2', itemCode: 'Z-9', purchaseQty: 3, receivedQty: 0 },
+      ] as PurchaseEntry[],
+      psirs: [{ oaNo: 'OA-001', items: [{ itemCode: 'A-1', itemName: 'Bracket', qtyReceived: 6, rejectQty: 1 }] }] as PSIR[],
+    }));
+    expect(readiness.indentNos).toEqual(['IND-1']);
+    expect(readiness.lines.map(l => [l.itemCode, l.indented, l.ordered, l.ready, l.short])).toEqual([
+      ['A-1', 10, 10, 5, 5],
+      ['B-2', 4, 0, 4, 0],
+    ]);
+    expect(readiness.lines[0].openPoDates).toEqual(['2025-01-05']);
+    expect(readiness).toMatchObject({ required: 14, ready: 9, percent: 64, status: 'inProgress' });
+  });
+
+  it('holds back what is still out with a job-work vendor', () => {
+    const readiness = oaReadiness('OA-001', sources({
+      indents: [indent('IND-1', [{ model: 'Bracket', itemCode: 'A-1', qty: 10, indentClosed: false }])],
+      psirs: [{ oaNo: 'OA-001', items: [{ itemCode: 'A-1', itemName: 'Bracket', qtyReceived: 10, rejectQty: 0 }] }] as PSIR[],
+      vendorOrders: [{ oaNo: 'OA-001', items: [{ itemCode: 'A-1', itemName: 'Bracket', qty: 6 }] }] as VendorDeptOrder[],
+      vsirRecords: [{ oaNo: 'OA-001', itemCode: 'A-1', itemName: 'Bracket', okQty: 2 }] as VSRIRecord[],
+    }));
+    expect(readiness.lines[0]).toMatchObject({ sentToVendor: 6, vendorOk: 2, ready: 6 });
+  });
+
+  it('is issued once every line has gone out', () => {
+    const readiness = oaReadiness('OA-001', sources({
+      indents: [indent('IND-1', [{ model: 'Bracket', itemCode: 'A-1', qty: 10, indentClosed: false }])],
+      inHouseIssues: [{ oaNo: 'OA-001', items: [{ itemCode: 'A-1', itemName: 'Bracket', issueQty: 10 }] }] as InHouseIssue[],
+    }));
+    expect(readiness).toMatchObject({ ready: 10, percent: 100, status: 'issued' });
+  });
+});
+
+describe('unindentedItems', () => {
+  it('returns what is left of each ordered line after its indents', () => {
+    const order = {
+      oaNo: 'OA-001',
+      items: [{ itemName: 'Bracket', itemCode: 'A-1', qty: 15 }, { itemName: 'Hinge', itemCode: 'B-2', qty: 4 }, { itemName: 'Pin', qty: 2 }],
+    } as SalesOrder;
+    expect(unindentedItems(order, indents)).toEqual([{ itemName: 'Bracket', itemCode: 'A-1', qty: 5 }, { itemName: 'Pin', qty: 2 }]);
+  });
+});
+
+describe('nextOaNo', () => {
+  it('continues the OA series, ignoring numbers in other formats', () => {
+    expect(nextOaNo([{ oaNo: 'OA-009' }, { oaNo: 'oa-010' }, { oaNo: 'CUST/77' }])).toBe('OA-011');
+    expect(nextOaNo([])).toBe('OA-001');
+  });
+});
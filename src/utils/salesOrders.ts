@@ -0,0 +1,187 @@
+import { approvalStatusOf } from './approvals';
+import type { InHouseIssue, Indent, PSIR, PurchaseEntry, SalesOrder, SalesOrderItem, VendorDeptOrder, VSRIRecord } from './recordSchemas';
+
+/**
+ * Sales orders are the customer orders (OAs) that indents, purchase entries,
+ * PSIRs, vendor job work and issues point at through their oaNo. Material readiness of an OA
+ * is rolled up from those records; nothing about it is stored on the order.
+ */
+
+const norm = (val: unknown) => String(val ?? '').trim().toUpperCase();
+
+/**
+ * Next number in the OA-001, OA-002, ... series; numbers entered by hand in
+ * another format are ignored. Pass the recycle bin's orders along with the
+ * live ones, so a deleted order's number is not issued again.
+ */
+export const nextOaNo = (orders: Array<Pick<SalesOrder, 'oaNo'>>) => {
+  const max = orders.reduce((m, o) => {
+    const match = norm(o.oaNo).match(/^OA-(\d+)$/);
+    return match ? Math.max(m, Number(match[1])) : m;
+  }, 0);
+  return `OA-${String(max + 1).padStart(3, '0')}`;
+};
+
+/** Whatever the user can read; missing collections just leave their columns at 0 */
+export interface ReadinessSources {
+  indents: Indent[];
+  purchases: PurchaseEntry[];
+  psirs: PSIR[];
+  vendorOrders: VendorDeptOrder[];
+  vsirRecords: VSRIRecord[];
+  inHouseIssues: InHouseIssue[];
+}
+
+export interface OaMaterialLine {
+  itemCode: string;
+  itemName: string;
+  /** Indented against the OA (rejected indents excluded) */
+  indented: number;
+  /** Indent lines closed at raise time because stock covered them */
+  fromStock: number;
+  /** PO quantity placed against the OA */
+  ordered: number;
+  /** Accepted on PSIR (received less rejected) */
+  received: number;
+  /** Sent out for job work on vendor dept orders, and accepted back on VSIR */
+  sentToVendor: number;
+  vendorOk: number;
+  issued: number;
+  ready: number;
+  short: number;
+  /** Order dates of POs not fully received yet */
+  openPoDates: string[];
+}
+
+export type OaReadinessStatus = 'notIndented' | 'inProgress' | 'ready' | 'issued';
+
+export interface OaReadiness {
+  oaNo: string;
+  indentNos: string[];
+  lines: OaMaterialLine[];
+  required: number;
+  ready: number;
+  /** Ready share of the indented quantity, 0-100 */
+  percent: number;
+  status: OaReadinessStatus;
+}
+
+export const readinessLabels: Record<OaReadinessStatus, string> = {
+  notIndented: 'Not indented',
+  inProgress: 'In progress',
+  ready: 'Material ready',
+  issued: 'Issued',
+};
+
+/**
+ * Roll up an OA's material position. A line is ready up to its indented
+ * quantity from stock covered at indent time plus accepted receipts (less
+ * whatever is still out with a job-work vendor), or from what has already been
+ * issued, whichever is more.
+ */
+export const oaReadiness = (oaNo: string, sources: ReadinessSources): OaReadiness => {
+  const key = norm(oaNo);
+  const lines = new Map<string, OaMaterialLine>();
+  const lineFor = (itemCode: string, itemName: string) => {
+    const lineKey = norm(itemCode) || norm(itemName);
+    let line = lines.get(lineKey);
+    if (!line) {
+      line = { itemCode, itemName, indented: 0, fromStock: 0, ordered: 0, received: 0, sentToVendor: 0, vendorOk: 0, issued: 0, ready: 0, short: 0, openPoDates: [] };
+      lines.set(lineKey, line);
+    }
+    return line;
+  };
+  // Only lines that were indented count; POs and receipts for anything else are ignored
+  const existing = (itemCode: string, itemName: string) => lines.get(norm(itemCode) || norm(itemName));
+
+  const indentNos: string[] = [];
+  sources.indents.forEach(indent => {
+    if (norm(indent.oaNo) !== key || approvalStatusOf(indent) === 'rejected') return;
+    indentNos.push(indent.indentNo);
+    indent.items.forEach(item => {
+      const line = lineFor(item.itemCode, item.model);
+      line.indented += Number(item.qty) || 0;
+      if (item.indentClosed) line.fromStock += Number(item.qty) || 0;
+    });
+  });
+
+  sources.purchases.forEach(entry => {
+    if (norm(entry.oaNo) !== key || !entry.poNo) return;
+    const line = existing(entry.itemCode, entry.itemName);
+    if (!line) return;
+    const qty = Number(entry.purchaseQty) || 0;
+    line.ordered += qty;
+    if ((Number(entry.receivedQty) || 0) < qty && entry.orderPlaceDate) line.openPoDates.push(entry.orderPlaceDate);
+  });
+
+  sources.psirs.forEach(psir => {
+    if (norm(psir.oaNo) !== key) return;
+    (psir.items || []).forEach(item => {
+      const line = existing(item.itemCode, item.itemName);
+      if (line) line.received += Math.max(0, (Number(item.qtyReceived) || 0) - (Number(item.rejectQty) || 0));
+    });
+  });
+
+  sources.vendorOrders.forEach(order => {
+    if (norm(order.oaNo) !== key) return;
+    (order.items || []).forEach(item => {
+      const line = existing(item.itemCode, item.itemName);
+      if (line) line.sentToVendor += Number(item.qty) || 0;
+    });
+  });
+
+  sources.vsirRecords.forEach(rec => {
+    if (norm(rec.oaNo) !== key) return;
+    const line = existing(rec.itemCode, rec.itemName);
+    if (line) line.vendorOk += Number(rec.okQty) || 0;
+  });
+
+  sources.inHouseIssues.forEach(issue => {
+    if (norm(issue.oaNo) !== key) return;
+    (issue.items || []).forEach(item => {
+      const line = existing(item.itemCode, item.itemName);
+      if (line) line.issued += Number(item.issueQty) || 0;
+    });
+  });
+
+  const rolled = [...lines.values()].map(line => {
+    const atVendor = Math.max(0, line.sentToVendor - line.vendorOk);
+    const ready = Math.min(line.indented, Math.max(line.issued, line.fromStock + line.received - atVendor));
+    return { ...line, ready, short: line.indented - ready, openPoDates: [...new Set(line.openPoDates)].sort() };
+  });
+  const required = rolled.reduce((sum, l) => sum + l.indented, 0);
+  const ready = rolled.reduce((sum, l) => sum + l.ready, 0);
+  const status: OaReadinessStatus = rolled.length === 0
+    ? 'notIndented'
+    : rolled.every(l => l.issued >= l.indented)
+      ? 'issued'
+      : ready >= required ? 'ready' : 'inProgress';
+
+  return {
+    oaNo,
+    indentNos,
+    lines: rolled,
+    required,
+    ready,
+    percent: required > 0 ? Math.round((ready / required) * 100) : 0,
+    status,
+  };
+};
+
+/** The OA's ordered lines less what has already been indented against it */
+export const unindentedItems = (order: SalesOrder, indents: Indent[]): SalesOrderItem[] => {
+  const indented = new Map<string, number>();
+  indents.forEach(indent => {
+    if (norm(indent.oaNo) !== norm(order.oaNo) || approvalStatusOf(indent) === 'rejected') return;
+    indent.items.forEach(item => {
+      const k = norm(item.itemCode) || norm(item.model);
+      indented.set(k, (indented.get(k) || 0) + (Number(item.qty) || 0));
+    });
+  });
+  return order.items.flatMap(item => {
+    const k = norm(item.itemCode) || norm(item.itemName);
+    const remaining = (Number(item.qty) || 0) - (indented.get(k) || 0);
+    indented.set(k, Math.max(0, (indented.get(k) || 0) - (Number(item.qty) || 0)));
+    return remaining > 0 ? [{ ...item, qty: remaining }] : [];
+  });
+};
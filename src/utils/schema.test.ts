@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import { assertDocument, migrateDocument, needsMigration, parseDocument, SchemaValidationError } from './schema';
+import type { Schema } from './schema';
+import { indentSchema } from './recordSchemas';
+
+interface Widget {
+  name: string;
+  qty: number;
+  active: boolean;
+  tags: string[];
+}
+
+const widgetSchema: Schema<Widget> = {
+  name: 'widgets',
+  version: 2,
+  migrations: {
+    1: doc => ({ ...doc, tags: Array.isArray(doc.tags) ? doc.tags : [] }),
+    2: doc => ({ ...doc, name: doc.name ?? doc.title, title: undefined }),
+  },
+  fields: {
+    name: { type: 'string' },
+    qty: { type: 'number' },
+    active: { type: 'boolean', optional: true },
+    tags: { type: 'array' },
+  },
+};
+
+describe('migrations', () => {
+  it('runs every pending migration in order and stamps the version', () => {
+    const doc = migrateDocument(widgetSchema as Schema<object>, { title: 'Bolt', qty: 1 });
+    expect(doc).toMatchObject({ name: 'Bolt', tags: [], schemaVersion: 2 });
+  });
+
+  it('only runs the migrations after the stored version', () => {
+    const doc = migrateDocument(widgetSchema as Schema<object>, { title: 'Bolt', qty: 1, tags: 'x', schemaVersion: 1 });
+    expect(doc.tags).toBe('x');
+    expect(doc.name).toBe('Bolt');
+  });
+
+  it('leaves documents from a newer version alone', () => {
+    const raw = { name: 'Bolt', qty: 1, tags: [], schemaVersion: 3 };
+    expect(needsMigration(widgetSchema as Schema<object>, raw)).toBe(false);
+    expect(migrateDocument(widgetSchema as Schema<object>, raw)).toBe(raw);
+  });
+
+  it('grandfathers indents written before approvals as approved', () => {
+    const { value, issues } = parseDocument(indentSchema, { indentNo: 'IND-1', date: '2025-01-01', indentBy: 'A' });
+    expect(issues).toEqual([]);
+    expect(value).toMatchObject({ items: [], approvalStatus: 'approved', approvals: [], schemaVersion: 2 });
+  });
+});
+
+describe('parseDocument', () => {
+  it('coerces form values and keeps unknown fields', () => {
+    const { value, issues } = parseDocument(widgetSchema, { name: 7, qty: ' 4 ', active: 'true', tags: [], createdAt: 'x', schemaVersion: 2 });
+    expect(issues).toEqual([]);
+    expect(value).toMatchObject({ name: '7', qty: 4, active: true, createdAt: 'x' });
+  });
+
+  it('reports missing and mistyped fields and fills defaults', () => {
+    const { value, issues } = parseDocument(widgetSchema, { qty: 'lots', tags: [], schemaVersion: 2 });
+    expect(issues.map(i => i.path)).toEqual(['name', 'qty']);
+    expect(value).toMatchObject({ name: '', qty: 0 });
+  });
+
+  it('checks only the given fields of a partial update', () => {
+    expect(parseDocument(widgetSchema, { qty: 2 }, '', true).issues).toEqual([]);
+  });
+});
+
+describe('assertDocument', () => {
+  it('stamps new documents with the current version', () => {
+    expect(assertDocument(widgetSchema, { name: 'Bolt', qty: 1, tags: [] })).toMatchObject({ schemaVersion: 2 });
+  });
+
+  it('throws SchemaValidationError listing the issues', () => {
+    expect(() => assertDocument(widgetSchema, { name: 'Bolt', qty: 'many', tags: [] })).toThrow(SchemaValidationError);
+  });
+
+  it('neither stamps nor carries createdAt on partial updates', () => {
+    const value = assertDocument(widgetSchema, { qty: 3, createdAt: '2025-01-01' }, true) as unknown as Record<string, unknown>;
+    expect(value).toEqual({ qty: 3 });
+  });
+});
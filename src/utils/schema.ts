@@ -0,0 +1,182 @@
+/**
+ * Minimal runtime schema checking for Firestore documents.
+ * Each collection declares which fields it expects and of what type; documents
+ * are checked (and lightly normalised) whenever they cross the data boundary.
+ * Top-level schemas are versioned: documents carry a `schemaVersion` field and
+ * older documents are upgraded by the schema's migrations before checking.
+ */
+
+export type FieldType = 'string' | 'number' | 'boolean' | 'array' | 'object' | 'any';
+
+export interface FieldSpec {
+  type: FieldType;
+  optional?: boolean;
+  /** Schema applied to each element when `type` is 'array' */
+  items?: Schema<object>;
+}
+
+/** Upgrades a raw document by one version. Must not assume any field exists. */
+export type Migration = (doc: Record<string, unknown>) => Record<string, unknown>;
+
+export interface Schema<T extends object> {
+  name: string;
+  fields: { [K in Exclude<keyof T, 'id'>]-?: FieldSpec };
+  /** Current version; omitted for sub-document schemas (array items) */
+  version?: number;
+  /** migrations[n] upgrades a document from version n - 1 to n. Legacy documents are version 0. */
+  migrations?: Record<number, Migration>;
+}
+
+export interface SchemaIssue {
+  path: string;
+  message: string;
+}
+
+export class SchemaValidationError extends Error {
+  readonly schemaName: string;
+  readonly issues: SchemaIssue[];
+
+  constructor(schemaName: string, issues: SchemaIssue[]) {
+    super(`${schemaName}: ${issues.map(i => `${i.path} ${i.message}`).join('; ')}`);
+    this.name = 'SchemaValidationError';
+    this.schemaName = schemaName;
+    this.issues = issues;
+  }
+}
+
+const isPlainObject = (val: unknown): val is Record<string, unknown> =>
+  typeof val === 'object' && val !== null && !Array.isArray(val);
+
+const defaultFor = (type: FieldType): unknown => {
+  switch (type) {
+    case 'string': return '';
+    case 'number': return 0;
+    case 'boolean': return false;
+    case 'array': return [];
+    case 'object': return {};
+    default: return undefined;
+  }
+};
+
+// Normalise a single field value, recording an issue when it cannot be coerced.
+// Numeric strings, numbers in string fields and 'true'/'false' strings are
+// accepted since form inputs produce them.
+const coerceField = (spec: FieldSpec, val: unknown, path: string, issues: SchemaIssue[]): unknown => {
+  switch (spec.type) {
+    case 'string':
+      if (typeof val === 'string') return val;
+      if (typeof val === 'number' && Number.isFinite(val)) return String(val);
+      break;
+    case 'number':
+      if (typeof val === 'number' && Number.isFinite(val)) return val;
+      if (typeof val === 'string') {
+        const trimmed = val.trim();
+        if (trimmed === '') return 0;
+        const n = Number(trimmed);
+        if (Number.isFinite(n)) return n;
+      }
+      break;
+    case 'boolean':
+      if (typeof val === 'boolean') return val;
+      if (val === 'true' || val === 'false') return val === 'true';
+      break;
+    case 'array':
+      if (Array.isArray(val)) {
+        if (!spec.items) return val;
+        const itemSchema = spec.items;
+        return val.map((el, idx) => {
+          const result = parseDocument(itemSchema, el, `${path}[${idx}]`);
+          issues.push(...result.issues);
+          return result.value;
+        });
+      }
+      break;
+    case 'object':
+      if (isPlainObject(val)) return val;
+      break;
+    default:
+      return val;
+  }
+  issues.push({ path, message: `expected ${spec.type}, got ${Array.isArray(val) ? 'array' : typeof val}` });
+  return defaultFor(spec.type);
+};
+
+export const SCHEMA_VERSION_FIELD = 'schemaVersion';
+
+export const documentVersion = (raw: Record<string, unknown>): number => {
+  const v = Number(raw[SCHEMA_VERSION_FIELD]);
+  return Number.isInteger(v) && v > 0 ? v : 0;
+};
+
+/** True when `raw` was written by an older schema version and needs migrating. */
+export const needsMigration = (schema: Schema<object>, raw: unknown): boolean =>
+  !!schema.version && isPlainObject(raw) && documentVersion(raw) < schema.version;
+
+/**
+ * Run every pending migration on `raw` and stamp the current schemaVersion.
+ * Documents from a newer version than this build knows are left untouched.
+ */
+export const migrateDocument = (schema: Schema<object>, raw: Record<string, unknown>): Record<string, unknown> => {
+  if (!schema.version) return raw;
+  const from = documentVersion(raw);
+  if (from >= schema.version) return raw;
+  let doc = { ...raw };
+  for (let v = from + 1; v <= schema.version; v++) {
+    const migration = schema.migrations?.[v];
+    if (migration) doc = migration(doc);
+  }
+  doc[SCHEMA_VERSION_FIELD] = schema.version;
+  return doc;
+};
+
+/**
+ * Check `raw` against `schema`, migrating it to the current version first.
+ * Missing required fields are filled with a type default and reported; unknown
+ * fields (createdAt, userId, ...) are kept.
+ * With `partial`, only the fields present in `raw` are checked (for updates).
+ */
+export const parseDocument = <T extends object>(
+  schema: Schema<T>,
+  raw: unknown,
+  basePath = '',
+  partial = false,
+): { value: T; issues: SchemaIssue[] } => {
+  const issues: SchemaIssue[] = [];
+  if (!isPlainObject(raw)) {
+    issues.push({ path: basePath || schema.name, message: 'expected an object' });
+    return { value: raw as T, issues };
+  }
+
+  const source = partial ? raw : migrateDocument(schema, raw);
+  const out: Record<string, unknown> = { ...source };
+  for (const [key, spec] of Object.entries(schema.fields) as Array<[string, FieldSpec]>) {
+    const path = basePath ? `${basePath}.${key}` : key;
+    const val = source[key];
+    if (val === undefined || val === null) {
+      if (partial || spec.optional) continue;
+      issues.push({ path, message: 'is required' });
+      out[key] = defaultFor(spec.type);
+      continue;
+    }
+    out[key] = coerceField(spec, val, path, issues);
+  }
+  return { value: out as T, issues };
+};
+
+/**
+ * Same as parseDocument, but throws SchemaValidationError on any issue. Used on
+ * writes: unversioned data coming from a form is taken to be in the current
+ * shape and stamped with the current schemaVersion. Partial updates are not
+ * stamped, since the rest of the stored document may be older, and drop any
+ * createdAt: it is written once, on create, so date filters can rely on it.
+ */
+export const assertDocument = <T extends object>(schema: Schema<T>, raw: unknown, partial = false): T => {
+  const input = !partial && schema.version && isPlainObject(raw) && raw[SCHEMA_VERSION_FIELD] === undefined
+    ? { ...raw, [SCHEMA_VERSION_FIELD]: schema.version }
+    : raw;
+  const { value, issues } = parseDocument(schema, input, '', partial);
+  if (issues.length > 0) throw new SchemaValidationError(schema.name, issues);
+  if (!partial && schema.version) (value as Record<string, unknown>)[SCHEMA_VERSION_FIELD] = schema.version;
+  if (partial) delete (value as Record<string, unknown>).createdAt;
+  return value;
+};
@@ -0,0 +1,40 @@
+import { auth } from '../firebase';
+
+/**
+ * Soft deletion. Deleting a record stamps it with `deletedAt` / `deletedBy`
+ * instead of removing it; normal reads skip these tombstones, each module's
+ * recycle bin lists them for restore, and they are purged for good once
+ * older than RECYCLE_BIN_RETENTION_DAYS. Auto-imports treat a tombstone as an
+ * existing record so a deleted document is not recreated from its source.
+ */
+
+export const RECYCLE_BIN_RETENTION_DAYS = 30;
+
+export interface SoftDeleteFields {
+  /** ISO time of deletion; absent or null on live records */
+  deletedAt?: string | null;
+  /** Email (or uid) of the user who deleted the record */
+  deletedBy?: string | null;
+}
+
+export const isDeleted = (doc: unknown): boolean =>
+  !!doc && typeof doc === 'object' && !!(doc as SoftDeleteFields).deletedAt;
+
+/** Fields written when a record is moved to the recycle bin */
+export const tombstone = (): Required<SoftDeleteFields> => {
+  const user = auth.currentUser;
+  return { deletedAt: new Date().toISOString(), deletedBy: user?.email || user?.uid || '' };
+};
+
+/** True when a tombstone has outlived the retention period */
+export const isExpired = (doc: SoftDeleteFields, now = Date.now()): boolean => {
+  const deletedMs = doc.deletedAt ? Date.parse(doc.deletedAt) : NaN;
+  return Number.isFinite(deletedMs) && now - deletedMs > RECYCLE_BIN_RETENTION_DAYS * 24 * 60 * 60 * 1000;
+};
+
+/** What a recycle bin needs from a collection */
+export interface RecycleSource<T> {
+  subscribeDeleted: (uid: string, cb: (docs: Array<T & SoftDeleteFields & { id: string }>) => void) => () => void;
+  restore: (uid: string, docId: string) => Promise<void>;
+  purge: (uid: string, docId: string) => Promise<void>;
+}
@@ -0,0 +1,131 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import type { Transaction } from 'firebase/firestore';
+import { setActiveWorkspace } from './workspace';
+import {
+  closingStockByItem,
+  computeStockBalances,
+  deliveryChallanLedger,
+  inHouseIssueLedger,
+  postSourceMovements,
+  psirLedger,
+  vsirLedger,
+} from './stockLedger';
+import type { DeliveryChallan, InHouseIssue, PSIR, StockMovement, VSRIRecord } from './recordSchemas';
+
+const UID = 'user-1';
+
+const movement = (fields: Partial<StockMovement>): StockMovement => ({
+  itemCode: 'A-1',
+  itemName: 'Bracket',
+  batchNo: 'B1',
+  qty: 0,
+  source: 'psir',
+  sourceId: 's1',
+  sourceRef: '',
+  reason: '',
+  createdBy: UID,
+  ...fields,
+});
+
+// Stands in for a Firestore transaction: serves one posting record and collects the writes
+const fakeTransaction = (posted: Record<string, unknown> | null) => {
+  const sets: Array<{ path: string; data: Record<string, unknown> }> = [];
+  const deletes: string[] = [];
+  const tx = {
+    get: async () => ({ exists: () => posted !== null, data: () => posted }),
+    set: (ref: { path: string }, data: Record<string, unknown>) => { sets.push({ path: ref.path, data }); return tx; },
+    delete: (ref: { path: string }) => { deletes.push(ref.path); return tx; },
+  };
+  return { tx: tx as unknown as Transaction, sets, deletes };
+};
+
+const rows = (sets: Array<{ path: string; data: Record<string, unknown> }>) =>
+  sets.filter(s => s.path.startsWith('orgs/org-1/stockLedger/')).map(s => s.data);
+
+const psir = (items: PSIR['items']): PSIR => ({
+  receivedDate: '2025-04-01', indentNo: 'IND-1', poNo: 'PO-1', oaNo: '', batchNo: '25/P1', invoiceNo: 'INV-1', supplierName: 'Acme', items,
+});
+
+const psirItem = (fields: Partial<PSIR['items'][number]>): PSIR['items'][number] => ({
+  itemName: 'Bracket', itemCode: 'A-1', qtyReceived: 0, okQty: 0, rejectQty: 0, grnNo: 'G1', remarks: '', ...fields,
+});
+
+beforeAll(() => {
+  setActiveWorkspace(UID, 'org-1');
+});
+
+describe('ledger bindings', () => {
+  it('posts PSIR receipts as received less rejected when okQty was stripped', () => {
+    const lines = psirLedger.lines(psir([psirItem({ qtyReceived: 10, rejectQty: 2 })]));
+    expect(lines).toEqual([{ itemCode: 'A-1', itemName: 'Bracket', batchNo: '25/P1', qty: 8 }]);
+  });
+
+  it('posts VSIRs against the vendor batch, falling back to the purchase batch', () => {
+    const rec = { itemCode: 'A-1', itemName: 'Bracket', okQty: 4, vendorBatchNo: '', purchaseBatchNo: '25/P1', grnNo: 'VG1' } as VSRIRecord;
+    expect(vsirLedger.lines(rec)).toEqual([{ itemCode: 'A-1', itemName: 'Bracket', batchNo: '25/P1', qty: 4 }]);
+    expect(vsirLedger.sourceRef(rec)).toBe('VG1');
+  });
+
+  it('posts in-house issues as negative quantities', () => {
+    const issue = { issueNo: 'IH-1', items: [{ itemCode: 'A-1', itemName: 'Bracket', batchNo: '25/P1', issueQty: 3 }] } as unknown as InHouseIssue;
+    expect(inHouseIssueLedger.lines(issue)[0].qty).toBe(-3);
+  });
+
+  it('holds out only what has not come back on a returnable challan', () => {
+    const dc = { dcNo: 'DC-1', dcType: 'returnable', items: [{ itemCode: 'A-1', itemName: 'Bracket', batchNo: 'B1', qty: 5, returnedQty: 2 }] } as unknown as DeliveryChallan;
+    expect(deliveryChallanLedger.lines(dc)[0].qty).toBe(-3);
+  });
+});
+
+describe('postSourceMovements', () => {
+  it('posts every line of a new document and records the posting', async () => {
+    const { tx, sets } = fakeTransaction(null);
+    const written = await postSourceMovements(tx, UID, psirLedger, 'p1', psir([psirItem({ okQty: 6 }), psirItem({ itemCode: 'B-2', okQty: 1 })]));
+    expect(written).toBe(2);
+    expect(rows(sets).map(r => [r.itemCode, r.qty, r.reason])).toEqual([['A-1', 6, ''], ['B-2', 1, '']]);
+    expect(sets.some(s => s.path === 'orgs/org-1/stockLedgerPostings/psir_p1')).toBe(true);
+  });
+
+  it('posts only the difference when a document is edited', async () => {
+    const { tx, sets } = fakeTransaction({ lines: { 'A-1|25/P1': { itemCode: 'A-1', itemName: 'Bracket', batchNo: '25/P1', qty: 6 } } });
+    await postSourceMovements(tx, UID, psirLedger, 'p1', psir([psirItem({ okQty: 4 })]));
+    expect(rows(sets).map(r => [r.qty, r.reason])).toEqual([[-2, 'Source edited']]);
+  });
+
+  it('writes nothing when the lines are unchanged', async () => {
+    const { tx, sets } = fakeTransaction({ lines: { 'A-1|25/P1': { itemCode: 'A-1', itemName: 'Bracket', batchNo: '25/P1', qty: 6 } } });
+    expect(await postSourceMovements(tx, UID, psirLedger, 'p1', psir([psirItem({ okQty: 6 })]))).toBe(0);
+    expect(rows(sets)).toEqual([]);
+  });
+
+  it('reverses everything and drops the posting when the document is deleted', async () => {
+    const { tx, sets, deletes } = fakeTransaction({ lines: { 'A-1|25/P1': { itemCode: 'A-1', itemName: 'Bracket', batchNo: '25/P1', qty: 6 } } });
+    await postSourceMovements(tx, UID, psirLedger, 'p1', null);
+    expect(rows(sets).map(r => [r.qty, r.reason])).toEqual([[-6, 'Source deleted']]);
+    expect(deletes).toEqual(['orgs/org-1/stockLedgerPostings/psir_p1']);
+  });
+});
+
+describe('balances', () => {
+  const movements = [
+    movement({ qty: 10 }),
+    movement({ qty: -3, source: 'inHouseIssue' }),
+    movement({ batchNo: 'B2', qty: 0.1 }),
+    movement({ batchNo: 'B2', qty: 0.2 }),
+    movement({ itemCode: '', itemName: 'Loose washer', batchNo: '', qty: 5 }),
+  ];
+
+  it('sums movements per item and batch', () => {
+    expect(computeStockBalances(movements).map(b => [b.itemCode || b.itemName, b.batchNo, b.qty])).toEqual([
+      ['Loose washer', '', 5],
+      ['A-1', 'B1', 7],
+      ['A-1', 'B2', 0.3],
+    ]);
+  });
+
+  it('rolls batches up per item, keyed by name for uncoded items', () => {
+    const totals = closingStockByItem(movements);
+    expect(totals.get('A-1')).toBe(7.3);
+    expect(totals.get('Loose washer')).toBe(5);
+  });
+});
@@ -0,0 +1,320 @@
+import { doc, getDocs, runTransaction, setDoc, serverTimestamp } from 'firebase/firestore';
+import type { Transaction } from 'firebase/firestore';
+import { db, auth } from '../firebase';
+import { logger } from './logger';
+import { workspaceCollection, workspaceDoc } from './workspace';
+import { assertDocument, parseDocument } from './schema';
+import type { Schema } from './schema';
+import { isDeleted } from './softDelete';
+import { stockMovementSchema, psirSchema, vsirRecordSchema, vendorIssueSchema, inHouseIssueSchema, deliveryChallanSchema, stockRecordSchema } from './recordSchemas';
+import type { StockMovement, StockMovementSource, PSIR, VSRIRecord, VendorIssue, InHouseIssue, DeliveryChallan, StockRecord } from './recordSchemas';
+
+/**
+ * Append-only stock ledger.
+ *
+ * Every stock-affecting document (PSIR and VSIR GRNs, vendor issues, in-house
+ * issues, outward delivery challans, the opening stockQty on stock records) posts signed movement rows to
+ * orgs/{orgId}/stockLedger, in the same Firestore transaction as the document
+ * write. Manual adjustments are rows of their own. Closing stock for an item
+ * or batch is the sum of its rows.
+ *
+ * Rows are never edited or deleted. What each source document has posted so
+ * far is kept in orgs/{orgId}/stockLedgerPostings/{source}_{sourceId}; when the
+ * document changes only the difference is posted, so edits and deletes appear
+ * as reversing rows.
+ */
+
+const LEDGER_COLLECTION = 'stockLedger';
+const POSTINGS_COLLECTION = 'stockLedgerPostings';
+
+/** One item/batch quantity a source document contributes to stock */
+export interface MovementLine {
+  itemCode: string;
+  itemName: string;
+  batchNo: string;
+  qty: number;
+}
+
+/** How a collection's documents translate into ledger movements */
+export interface LedgerBinding<T> {
+  source: StockMovementSource;
+  lines: (doc: T) => MovementLine[];
+  sourceRef: (doc: T) => string;
+}
+
+interface PostingRecord {
+  source: StockMovementSource;
+  sourceId: string;
+  lines: Record<string, MovementLine>;
+}
+
+const num = (val: unknown) => Number(val) || 0;
+// Quantities are summed in floating point; keep three decimals so reversals cancel exactly
+const round = (n: number) => Math.round(n * 1000) / 1000;
+const text = (val: unknown) => (val === undefined || val === null ? '' : String(val).trim());
+
+const lineKey = (line: Pick<MovementLine, 'itemCode' | 'itemName' | 'batchNo'>) =>
+  `${text(line.itemCode) || text(line.itemName)}|${text(line.batchNo)}`;
+
+// Merge lines for the same item and batch and drop zero quantities
+const collapseLines = (lines: MovementLine[]): Record<string, MovementLine> => {
+  const out: Record<string, MovementLine> = {};
+  lines.forEach(line => {
+    if (!text(line.itemCode) && !text(line.itemName)) return;
+    const key = lineKey(line);
+    const prev = out[key];
+    out[key] = { itemCode: text(line.itemCode), itemName: text(line.itemName), batchNo: text(line.batchNo), qty: round((prev?.qty || 0) + num(line.qty)) };
+  });
+  Object.keys(out).forEach(key => { if (out[key].qty === 0) delete out[key]; });
+  return out;
+};
+
+// ============ BINDINGS ============
+
+// psirService strips okQty before saving, so fall back to received minus rejected
+const psirOkQty = (item: PSIR['items'][number]) => {
+  const ok = num(item.okQty);
+  return ok > 0 ? ok : Math.max(0, num(item.qtyReceived) - num(item.rejectQty));
+};
+
+export const psirLedger: LedgerBinding<PSIR> = {
+  source: 'psir',
+  lines: psir => (psir.items || []).map(item => ({ itemCode: item.itemCode, itemName: item.itemName, batchNo: psir.batchNo, qty: psirOkQty(item) })),
+  sourceRef: psir => text(psir.invoiceNo) || text(psir.indentNo),
+};
+
+export const vsirLedger: LedgerBinding<VSRIRecord> = {
+  source: 'vsir',
+  lines: rec => [{ itemCode: rec.itemCode, itemName: rec.itemName, batchNo: text(rec.vendorBatchNo) || text(rec.purchaseBatchNo), qty: num(rec.okQty) }],
+  sourceRef: rec => text(rec.grnNo) || text(rec.invoiceDcNo),
+};
+
+export const vendorIssueLedger: LedgerBinding<VendorIssue> = {
+  source: 'vendorIssue',
+  lines: issue => (issue.items || []).map(item => ({ itemCode: item.itemCode, itemName: item.itemName, batchNo: issue.batchNo, qty: -num(item.qty) })),
+  sourceRef: issue => text(issue.issueNo),
+};
+
+export const inHouseIssueLedger: LedgerBinding<InHouseIssue> = {
+  source: 'inHouseIssue',
+  lines: issue => (issue.items || []).map(item => ({
+    itemCode: item.itemCode,
+    itemName: item.itemName,
+    batchNo: text(item.batchNo) || text(issue.purchaseBatchNo) || text(issue.vendorBatchNo),
+    qty: -num(item.issueQty),
+  })),
+  sourceRef: issue => text(issue.issueNo) || text(issue.reqNo),
+};
+
+// Returnable challans only hold out what has not come back yet
+export const deliveryChallanLedger: LedgerBinding<DeliveryChallan> = {
+  source: 'deliveryChallan',
+  lines: dc => (dc.items || []).map(item => ({
+    itemCode: item.itemCode,
+    itemName: item.itemName,
+    batchNo: item.batchNo,
+    qty: -(num(item.qty) - (dc.dcType === 'returnable' ? num(item.returnedQty) : 0)),
+  })),
+  sourceRef: dc => text(dc.dcNo),
+};
+
+export const openingStockLedger: LedgerBinding<StockRecord> = {
+  source: 'opening',
+  lines: rec => [{ itemCode: rec.itemCode, itemName: rec.itemName, batchNo: rec.batchNo, qty: num(rec.stockQty) }],
+  sourceRef: rec => text(rec.batchNo),
+};
+
+// ============ POSTING ============
+
+const postingRef = (uid: string, source: StockMovementSource, sourceId: string) =>
+  workspaceDoc(uid, POSTINGS_COLLECTION, `${source}_${sourceId}`);
+
+const ledgerCol = (uid: string) => workspaceCollection(uid, LEDGER_COLLECTION);
+
+/**
+ * Post the movements for one source document inside `tx`; pass `null` when the
+ * document is being deleted. This reads the posting record, so call it after
+ * the transaction's other reads and before any of its writes.
+ * Returns the number of movement rows written.
+ */
+export const postSourceMovements = async <T>(
+  tx: Transaction,
+  uid: string,
+  binding: LedgerBinding<T>,
+  sourceId: string,
+  sourceDoc: T | null,
+): Promise<number> => {
+  const ref = postingRef(uid, binding.source, sourceId);
+  const snap = await tx.get(ref);
+  const previous = snap.exists() ? ((snap.data() as PostingRecord).lines || {}) : {};
+  const next = sourceDoc ? collapseLines(binding.lines(sourceDoc)) : {};
+  const sourceRef = sourceDoc ? binding.sourceRef(sourceDoc) : '';
+
+  let written = 0;
+  new Set([...Object.keys(previous), ...Object.keys(next)]).forEach(key => {
+    const before = previous[key];
+    const after = next[key];
+    const delta = round((after?.qty || 0) - (before?.qty || 0));
+    if (delta === 0) return;
+    const line = after || before;
+    const row = assertDocument(stockMovementSchema, {
+      itemCode: line.itemCode,
+      itemName: line.itemName,
+      batchNo: line.batchNo,
+      qty: delta,
+      source: binding.source,
+      sourceId,
+      sourceRef,
+      reason: !before ? '' : after ? 'Source edited' : 'Source deleted',
+      createdBy: uid,
+    });
+    tx.set(doc(ledgerCol(uid)), { ...row, createdAt: serverTimestamp() });
+    written++;
+  });
+
+  if (Object.keys(next).length > 0) {
+    tx.set(ref, { source: binding.source, sourceId, lines: next, updatedAt: serverTimestamp() });
+  } else if (snap.exists()) {
+    tx.delete(ref);
+  }
+  return written;
+};
+
+/** Record a manual stock correction. `reason` is required so the ledger stays auditable. */
+export const postAdjustment = async (uid: string, adjustment: { itemCode: string; itemName: string; batchNo?: string; qty: number; reason: string }) => {
+  if (!text(adjustment.reason)) throw new Error('A reason is required for stock adjustments');
+  if (!num(adjustment.qty)) throw new Error('Adjustment quantity must be non-zero');
+  const ref = doc(ledgerCol(uid));
+  const row = assertDocument(stockMovementSchema, {
+    itemCode: adjustment.itemCode,
+    itemName: adjustment.itemName,
+    batchNo: text(adjustment.batchNo),
+    qty: round(num(adjustment.qty)),
+    source: 'adjustment',
+    sourceId: ref.id,
+    sourceRef: '',
+    reason: text(adjustment.reason),
+    createdBy: uid,
+  });
+  await setDoc(ref, { ...row, createdAt: serverTimestamp() });
+  logger.log('[StockLedger] Adjustment posted:', ref.id, row.itemCode, row.qty);
+  return ref.id;
+};
+
+// ============ RECONCILIATION ============
+
+export interface ReconcileResult {
+  checked: number;
+  posted: number;
+  failed: number;
+}
+
+/**
+ * Bring the ledger in line with the current source documents. Used to backfill
+ * documents written before the ledger existed and after offline writes replay
+ * (queued writes go straight to their collection, without a transaction).
+ * Sources whose postings already match are skipped, so this is safe to repeat.
+ */
+export const reconcileStockLedger = async (uid: string): Promise<ReconcileResult> => {
+  const result: ReconcileResult = { checked: 0, posted: 0, failed: 0 };
+  const postingsSnap = await getDocs(workspaceCollection(uid, POSTINGS_COLLECTION));
+  const postings = new Map<string, Record<string, MovementLine>>();
+  postingsSnap.docs.forEach(d => postings.set(d.id, (d.data() as PostingRecord).lines || {}));
+  const seen = new Set<string>();
+
+  const sameLines = (a: Record<string, MovementLine>, b: Record<string, MovementLine>) =>
+    Object.keys(a).length === Object.keys(b).length && Object.keys(a).every(k => b[k] && b[k].qty === a[k].qty);
+
+  const sync = async <T extends object>(binding: LedgerBinding<T>, sourceId: string, sourceDoc: T | null) => {
+    result.checked++;
+    const expected = sourceDoc ? collapseLines(binding.lines(sourceDoc)) : {};
+    if (sameLines(expected, postings.get(`${binding.source}_${sourceId}`) || {})) return;
+    try {
+      result.posted += await runTransaction(db, tx => postSourceMovements(tx, uid, binding, sourceId, sourceDoc));
+    } catch (error) {
+      result.failed++;
+      logger.error(`[StockLedger] Could not post ${binding.source}/${sourceId}:`, error);
+    }
+  };
+
+  // A role reads only some source collections; one it cannot read is skipped,
+  // and its postings are left alone rather than reversed as if deleted
+  const skipped = new Set<string>();
+  const syncCollection = async <T extends object>(name: string, binding: LedgerBinding<T>, schema: Schema<T>) => {
+    let docs: Array<{ id: string; data: () => unknown }>;
+    try {
+      docs = (await getDocs(workspaceCollection(uid, name))).docs;
+    } catch (error) {
+      skipped.add(binding.source);
+      logger.warn(`[StockLedger] Skipping ${name}, it could not be read:`, error);
+      return;
+    }
+    for (const d of docs) {
+      seen.add(`${binding.source}_${d.id}`);
+      const data = d.data();
+      // Documents in the recycle bin carry no stock
+      await sync(binding, d.id, isDeleted(data) ? null : parseDocument(schema, data).value);
+    }
+  };
+
+  await syncCollection('psirs', psirLedger, psirSchema);
+  await syncCollection('vsirRecords', vsirLedger, vsirRecordSchema);
+  await syncCollection('vendorIssues', vendorIssueLedger, vendorIssueSchema);
+  await syncCollection('inHouseIssues', inHouseIssueLedger, inHouseIssueSchema);
+  await syncCollection('deliveryChallans', deliveryChallanLedger, deliveryChallanSchema);
+  await syncCollection('stockRecords', openingStockLedger, stockRecordSchema);
+
+  // Postings left over belong to deleted documents: reverse them
+  const bindings: LedgerBinding<never>[] = [psirLedger, vsirLedger, vendorIssueLedger, inHouseIssueLedger, deliveryChallanLedger, openingStockLedger];
+  for (const postingId of postings.keys()) {
+    if (seen.has(postingId)) continue;
+    const binding = bindings.find(b => postingId.startsWith(`${b.source}_`));
+    if (binding && !skipped.has(binding.source)) await sync(binding, postingId.slice(binding.source.length + 1), null);
+  }
+
+  logger.log(`[StockLedger] Reconciled ${result.checked} source document(s), posted ${result.posted} movement(s)`);
+  return result;
+};
+
+/** Console entry point, mirroring runDataMigrations */
+export const runStockLedgerReconcile = async () => {
+  const user = auth.currentUser;
+  if (!user) {
+    console.error('[StockLedger] No authenticated user');
+    return { error: 'No authenticated user' };
+  }
+  const result = await reconcileStockLedger(user.uid);
+  console.info('[StockLedger] Reconcile results:', result);
+  return { result };
+};
+
+// ============ BALANCES ============
+
+export interface StockBalance {
+  itemCode: string;
+  itemName: string;
+  batchNo: string;
+  qty: number;
+  movements: number;
+}
+
+/** Closing stock per item and batch: the sum of each pair's movements */
+export const computeStockBalances = (movements: StockMovement[]): StockBalance[] => {
+  const byKey = new Map<string, StockBalance>();
+  movements.forEach(m => {
+    const key = lineKey(m);
+    const prev = byKey.get(key) || { itemCode: text(m.itemCode), itemName: text(m.itemName), batchNo: text(m.batchNo), qty: 0, movements: 0 };
+    byKey.set(key, { ...prev, itemName: prev.itemName || text(m.itemName), qty: round(prev.qty + num(m.qty)), movements: prev.movements + 1 });
+  });
+  return Array.from(byKey.values()).sort((a, b) => a.itemCode.localeCompare(b.itemCode) || a.batchNo.localeCompare(b.batchNo));
+};
+
+/** Closing stock per item (all batches), keyed by item code, or item name for uncoded items */
+export const closingStockByItem = (movements: StockMovement[]): Map<string, number> => {
+  const totals = new Map<string, number>();
+  movements.forEach(m => {
+    const key = text(m.itemCode) || text(m.itemName);
+    totals.set(key, round((totals.get(key) || 0) + num(m.qty)));
+  });
+  return totals;
+};
@@ -0,0 +1,97 @@
+import bus from './eventBus';
+
+/**
+ * Sync-state store fed by useUserDataSync's snapshot listeners.
+ * One entry per synced collection; read it with the useSyncState hook.
+ */
+
+export type CollectionSyncStatus = 'idle' | 'syncing' | 'synced' | 'error';
+
+export interface CollectionSyncState {
+  collection: string;
+  status: CollectionSyncStatus;
+  lastSnapshotAt: number | null;
+  /** Live documents; records in the recycle bin are not counted */
+  docCount: number;
+  /** Local writes not yet acknowledged by the server */
+  hasPendingWrites: boolean;
+  /** Last snapshot was served from the local cache rather than the server */
+  fromCache: boolean;
+  error: string | null;
+}
+
+export interface SyncState {
+  online: boolean;
+  collections: Record<string, CollectionSyncState>;
+  /** Writes held in the offline queue (see writeQueue) */
+  queued: { pending: number; conflicts: number; failed: number };
+}
+
+const idleEntry = (collection: string): CollectionSyncState => ({
+  collection,
+  status: 'idle',
+  lastSnapshotAt: null,
+  docCount: 0,
+  hasPendingWrites: false,
+  fromCache: false,
+  error: null,
+});
+
+let state: SyncState = {
+  online: typeof navigator === 'undefined' ? true : navigator.onLine,
+  collections: {},
+  queued: { pending: 0, conflicts: 0, failed: 0 },
+};
+const listeners = new Set<() => void>();
+
+// State is replaced, never mutated, so getSyncState() works as a useSyncExternalStore snapshot
+const setState = (next: SyncState) => {
+  state = next;
+  listeners.forEach(l => l());
+};
+
+const patchCollection = (collection: string, patch: Partial<CollectionSyncState>) => {
+  const prev = state.collections[collection] || idleEntry(collection);
+  setState({ ...state, collections: { ...state.collections, [collection]: { ...prev, ...patch } } });
+};
+
+export const getSyncState = () => state;
+
+export const subscribeSyncState = (listener: () => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+/** Start tracking `collections` (all marked syncing until their first snapshot) */
+export const beginSync = (collections: string[]) => {
+  const entries: Record<string, CollectionSyncState> = {};
+  collections.forEach(c => { entries[c] = { ...idleEntry(c), status: 'syncing' }; });
+  setState({ ...state, collections: entries });
+};
+
+export const recordSnapshot = (collection: string, info: { docCount: number; hasPendingWrites: boolean; fromCache: boolean }) => {
+  patchCollection(collection, {
+    ...info,
+    status: 'synced',
+    lastSnapshotAt: Date.now(),
+    error: null,
+  });
+};
+
+export const recordSyncError = (collection: string, error: unknown) => {
+  patchCollection(collection, { status: 'error', error: String(error) });
+};
+
+/** Forget all collections, e.g. on logout */
+export const resetSyncState = () => {
+  setState({ ...state, collections: {} });
+};
+
+if (typeof window !== 'undefined') {
+  window.addEventListener('online', () => setState({ ...state, online: true }));
+  window.addEventListener('offline', () => setState({ ...state, online: false }));
+}
+
+bus.on('offline.queue.changed', (e) => {
+  setState({ ...state, queued: e.detail });
+});
@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { baseUomOf, describeConversion, formatPurchaseQty, itemLookup, purchaseUomOf, toBaseQty, toPurchaseQty } from './units';
+
+const box = { baseUom: 'Nos', purchaseUom: 'Box', purchaseFactor: 12 };
+
+describe('unit conversion', () => {
+  it('converts between base and purchase units with the item factor', () => {
+    expect(toBaseQty(2.5, box)).toBe(30);
+    expect(toPurchaseQty(30, box)).toBe(2.5);
+    expect(toPurchaseQty(1, { baseUom: 'g', purchaseUom: 'Kg', purchaseFactor: 1000 })).toBe(0.001);
+  });
+
+  it('treats items without a usable purchase unit as bought in the base unit', () => {
+    expect(baseUomOf(null)).toBe('Nos');
+    expect(purchaseUomOf({ purchaseUom: 'Box', purchaseFactor: 0 })).toBeNull();
+    expect(purchaseUomOf({ baseUom: 'Nos', purchaseUom: 'Nos', purchaseFactor: 12 })).toBeNull();
+    expect(toPurchaseQty(30, { purchaseUom: 'Box' })).toBe(30);
+  });
+
+  it('describes the conversion for display', () => {
+    expect(describeConversion(box)).toBe('1 Box = 12 Nos');
+    expect(formatPurchaseQty(24, box)).toBe('2 Box');
+    expect(formatPurchaseQty(24, {})).toBe('');
+  });
+});
+
+describe('itemLookup', () => {
+  it('finds items by code regardless of case, falling back to the name', () => {
+    const find = itemLookup([{ itemCode: 'A-1', itemName: 'Bracket' }, { itemCode: '', itemName: 'Loose washer' }]);
+    expect(find(' a-1 ')?.itemName).toBe('Bracket');
+    expect(find('', 'LOOSE WASHER')?.itemName).toBe('Loose washer');
+    expect(find('Z-9')).toBeUndefined();
+  });
+});
@@ -0,0 +1,64 @@
+import type { ItemMasterRecord } from './recordSchemas';
+
+/**
+ * Units of measure from the item master. Every stored quantity (stock,
+ * indents, purchase entries, PSIRs) is in the item's base unit; purchase units
+ * are only a view onto it, converted with the item's purchaseFactor.
+ */
+
+export const DEFAULT_UOM = 'Nos';
+
+/** Offered in the Item Master form; any other unit can be typed in */
+export const UOM_OPTIONS = ['Nos', 'Set', 'Pair', 'Box', 'Pack', 'Roll', 'Sheet', 'Kg', 'g', 'm', 'mm', 'L', 'ml'];
+
+type UnitFields = Pick<ItemMasterRecord, 'baseUom' | 'purchaseUom' | 'purchaseFactor'>;
+
+const round = (n: number) => Math.round(n * 1000) / 1000;
+
+export const baseUomOf = (item?: UnitFields | null) => item?.baseUom?.trim() || DEFAULT_UOM;
+
+/** The purchase unit, or null when the item is bought in its base unit */
+export const purchaseUomOf = (item?: UnitFields | null) => {
+  const uom = item?.purchaseUom?.trim();
+  return uom && uom !== baseUomOf(item) && Number(item?.purchaseFactor) > 0 ? uom : null;
+};
+
+const factorOf = (item?: UnitFields | null) => (purchaseUomOf(item) ? Number(item?.purchaseFactor) : 1);
+
+export const toPurchaseQty = (baseQty: number, item?: UnitFields | null) => round((Number(baseQty) || 0) / factorOf(item));
+
+export const toBaseQty = (purchaseQty: number, item?: UnitFields | null) => round((Number(purchaseQty) || 0) * factorOf(item));
+
+/** "120 Nos" */
+export const formatQty = (qty: number, item?: UnitFields | null) => `${Number(qty) || 0} ${baseUomOf(item)}`;
+
+/** "10 Box", or '' when the item is bought in its base unit */
+export const formatPurchaseQty = (baseQty: number, item?: UnitFields | null) => {
+  const uom = purchaseUomOf(item);
+  return uom ? `${toPurchaseQty(baseQty, item)} ${uom}` : '';
+};
+
+/** "1 Box = 12 Nos", or '' without a purchase unit */
+export const describeConversion = (item?: UnitFields | null) => {
+  const uom = purchaseUomOf(item);
+  return uom ? `1 ${uom} = ${Number(item?.purchaseFactor)} ${baseUomOf(item)}` : '';
+};
+
+export const isActiveItem = (item: Pick<ItemMasterRecord, 'active'>) => item.active !== false;
+
+/**
+ * Find an item by code (case-insensitive), falling back to its name, since
+ * older records in some modules only carry the name.
+ */
+export const itemLookup = <T extends Pick<ItemMasterRecord, 'itemCode' | 'itemName'>>(items: T[]) => {
+  const byCode = new Map<string, T>();
+  const byName = new Map<string, T>();
+  items.forEach(item => {
+    const code = String(item.itemCode ?? '').trim().toUpperCase();
+    const name = String(item.itemName ?? '').trim().toUpperCase();
+    if (code && !byCode.has(code)) byCode.set(code, item);
+    if (name && !byName.has(name)) byName.set(name, item);
+  });
+  return (itemCode?: string, itemName?: string): T | undefined =>
+    byCode.get(String(itemCode ?? '').trim().toUpperCase()) || byName.get(String(itemName ?? '').trim().toUpperCase());
+};
@@ -0,0 +1,155 @@
+import { collection, doc, getDoc, onSnapshot, setDoc, updateDoc, writeBatch, serverTimestamp } from 'firebase/firestore';
+import type { User } from 'firebase/auth';
+import { db } from '../firebase';
+import { logger } from './logger';
+import { recordAudit } from './auditLog';
+
+/**
+ * Users have a personal profile at users/{uid} (email, name, last login and
+ * the organisation they work in) and a membership at
+ * orgs/{orgId}/members/{uid}: the role that bundles their permissions, any
+ * extra `module:action` permissions granted on top, and whether the account is
+ * disabled. Users create their profile on first sign-in, then create an
+ * organisation (as its admin) or ask to join one (disabled until an admin
+ * enables them); only admins change roles, permissions or the disabled flag.
+ */
+
+export interface UserProfile {
+  uid?: string;
+  email: string;
+  role: string;
+  /** Extra permissions granted on top of the role's bundle */
+  permissions: string[];
+  displayName?: string;
+  createdAt?: unknown;
+  lastLoginAt?: unknown;
+  disabled?: boolean;
+  /** Organisation the user works in; missing until they create or join one */
+  orgId?: string;
+  orgName?: string;
+}
+
+export type AdminProfileChanges = Partial<Pick<UserProfile, 'role' | 'permissions' | 'disabled'>>;
+
+// Role given to users who ask to join an organisation; admins promote from there
+export const DEFAULT_ROLE = 'viewer';
+
+const profileRef = (uid: string) => doc(db, 'users', uid);
+const orgRef = (orgId: string) => doc(db, 'orgs', orgId);
+const membersCol = (orgId: string) => collection(db, 'orgs', orgId, 'members');
+const memberRef = (orgId: string, uid: string) => doc(membersCol(orgId), uid);
+
+const fromData = (uid: string, data: Record<string, unknown>): UserProfile => ({
+  ...(data as Partial<UserProfile>),
+  uid,
+  email: String(data.email || ''),
+  role: String(data.role || DEFAULT_ROLE),
+  permissions: Array.isArray(data.permissions) ? data.permissions.map(String) : [],
+  disabled: data.disabled === true,
+});
+
+/**
+ * Load the signed-in user's profile merged with their membership, creating the
+ * profile on first sign-in, and stamp the last login time. The result has no
+ * `orgId` while the user belongs to no organisation.
+ */
+export const ensureUserProfile = async (user: User): Promise<UserProfile> => {
+  const ref = profileRef(user.uid);
+  const snap = await getDoc(ref);
+  const base = {
+    email: user.email || '',
+    displayName: user.displayName || 'User',
+  };
+  if (!snap.exists()) {
+    try {
+      await setDoc(ref, { ...base, createdAt: serverTimestamp(), lastLoginAt: serverTimestamp() });
+    } catch (error) {
+      // Continue without a profile; it is created again on the next sign-in
+      logger.error('[UserProfiles] Failed to create user profile:', error);
+    }
+    return { ...base, uid: user.uid, role: DEFAULT_ROLE, permissions: [] };
+  }
+  updateDoc(ref, { lastLoginAt: serverTimestamp() }).catch(error =>
+    logger.warn('[UserProfiles] Could not record last login:', error));
+
+  const orgId = typeof snap.data().orgId === 'string' ? snap.data().orgId as string : '';
+  const member = orgId ? await getDoc(memberRef(orgId, user.uid)) : null;
+  if (!orgId || !member?.exists()) {
+    return { ...base, uid: user.uid, role: DEFAULT_ROLE, permissions: [] };
+  }
+  updateDoc(member.ref, { lastLoginAt: serverTimestamp() }).catch(error =>
+    logger.warn('[UserProfiles] Could not record last login on membership:', error));
+  const org = await getDoc(orgRef(orgId));
+  return {
+    ...fromData(user.uid, { ...base, ...member.data() }),
+    orgId,
+    orgName: org.exists() ? String(org.data().name || orgId) : orgId,
+  };
+};
+
+/** Start a new organisation with the signed-in user as its admin; returns its id */
+export const createOrganisation = async (user: User, name: string): Promise<string> => {
+  const ref = doc(collection(db, 'orgs'));
+  const batch = writeBatch(db);
+  batch.set(ref, { name: name.trim(), createdBy: user.uid, createdAt: serverTimestamp() });
+  batch.set(memberRef(ref.id, user.uid), {
+    email: user.email || '',
+    displayName: user.displayName || 'User',
+    role: 'admin',
+    permissions: [],
+    disabled: false,
+    joinedAt: serverTimestamp(),
+  });
+  batch.set(profileRef(user.uid), { orgId: ref.id }, { merge: true });
+  await batch.commit();
+  logger.log(`[UserProfiles] Created organisation ${ref.id}`);
+  return ref.id;
+};
+
+/**
+ * Ask to join an existing organisation. The membership starts disabled with the
+ * default role, so nothing is visible until an admin enables it.
+ */
+export const requestToJoinOrganisation = async (user: User, orgId: string) => {
+  const id = orgId.trim();
+  const org = await getDoc(orgRef(id)).catch(() => null);
+  if (!org?.exists()) throw new Error(`No organisation with id ${id}`);
+  const batch = writeBatch(db);
+  batch.set(memberRef(id, user.uid), {
+    email: user.email || '',
+    displayName: user.displayName || 'User',
+    role: DEFAULT_ROLE,
+    permissions: [],
+    disabled: true,
+    joinedAt: serverTimestamp(),
+  });
+  batch.set(profileRef(user.uid), { orgId: id }, { merge: true });
+  await batch.commit();
+};
+
+/** Every member of the organisation, for the admin user management screen */
+export const subscribeUserProfiles = (orgId: string, cb: (profiles: UserProfile[]) => void, onError?: (error: Error) => void) =>
+  onSnapshot(
+    membersCol(orgId),
+    snap => cb(snap.docs.map(d => ({ ...fromData(d.id, d.data()), orgId }))),
+    error => {
+      logger.error('[UserProfiles] Subscription failed:', error);
+      onError?.(error);
+    }
+  );
+
+/** Change a member's role, extra permissions or disabled flag (admins only) */
+export const updateUserProfile = async (orgId: string, uid: string, changes: AdminProfileChanges) => {
+  const ref = memberRef(orgId, uid);
+  const before = await getDoc(ref);
+  await updateDoc(ref, { ...changes });
+  const prev = before.exists() ? before.data() : null;
+  void recordAudit({
+    collectionName: 'members',
+    path: ref.path,
+    docId: uid,
+    action: 'update',
+    before: prev,
+    after: { ...(prev || {}), ...changes },
+  });
+};
@@ -0,0 +1,29 @@
+import { collection, doc } from 'firebase/firestore';
+import { db } from '../firebase';
+
+/**
+ * Records belong to the organisation, not to the user who entered them: every
+ * shared collection lives under orgs/{orgId}/. Services are still called with
+ * the acting user's uid; the workspace is the organisation that user is a
+ * member of, registered here by useUserRole once the membership has loaded.
+ */
+
+let active: { uid: string; orgId: string } | null = null;
+
+export const setActiveWorkspace = (uid: string, orgId: string | null) => {
+  active = orgId ? { uid, orgId } : null;
+};
+
+export const getActiveOrgId = () => active?.orgId ?? null;
+
+/** Path of the organisation workspace `uid` works in, e.g. orgs/{orgId} */
+export const workspacePath = (uid: string) => {
+  if (!active || active.uid !== uid) throw new Error(`No organisation workspace for user ${uid}`);
+  return `orgs/${active.orgId}`;
+};
+
+export const workspaceCollectionPath = (uid: string, name: string) => `${workspacePath(uid)}/${name}`;
+
+export const workspaceCollection = (uid: string, name: string) => collection(db, workspaceCollectionPath(uid, name));
+
+export const workspaceDoc = (uid: string, name: string, docId: string) => doc(db, workspaceCollectionPath(uid, name), docId);
@@ -0,0 +1,252 @@
+import { collection, doc, getDoc, setDoc, updateDoc, deleteDoc, serverTimestamp } from 'firebase/firestore';
+import type { DocumentData } from 'firebase/firestore';
+import { db } from '../firebase';
+import bus from './eventBus';
+import { logger } from './logger';
+import { appendMutation, readMutations, putMutation, deleteMutation, putCachedDoc, deleteCachedDoc, clearOfflineStore } from './offlineStore';
+import type { QueuedMutation, MutationOp } from './offlineStore';
+import { recordAudit } from './auditLog';
+
+/**
+ * Durable queue of writes made while offline. Mutations are stored in
+ * IndexedDB, overlaid on subscription results so the UI shows them at once,
+ * and replayed against Firestore in order when the browser comes back online.
+ *
+ * Conflicts: an update or delete remembers the `updatedAt` of the document it
+ * was made against. If the server copy has changed since, the mutation is
+ * parked with status 'conflict' and `offline.conflict` is dispatched on the
+ * bus; the UI shows the server copy until the user keeps either side through
+ * resolveConflict() (SyncStatus lists parked writes).
+ */
+
+// Non-network errors are retried a few times before the write is marked failed
+const MAX_ATTEMPTS = 3;
+
+let queueSnapshot: QueuedMutation[] = [];
+let loaded = false;
+let replaying = false;
+
+// Last server updatedAt (millis) seen per scope/doc, recorded by subscriptions
+const knownVersions = new Map<string, number>();
+
+export const isOffline = () => typeof navigator !== 'undefined' && navigator.onLine === false;
+
+/** Firestore errors that mean "could not reach the server" rather than "write rejected" */
+export const isNetworkError = (error: unknown) => {
+  const code = (error as { code?: string })?.code;
+  return code === 'unavailable' || code === 'deadline-exceeded' || isOffline();
+};
+
+export const timestampMillis = (val: unknown): number | null => {
+  if (val && typeof (val as { toMillis?: unknown }).toMillis === 'function') return (val as { toMillis: () => number }).toMillis();
+  if (typeof val === 'string') return Date.parse(val) || null;
+  if (typeof val === 'number') return val;
+  return null;
+};
+
+/** Record the updatedAt of documents just read from the server, for conflict checks */
+export const rememberVersions = (scope: string, docs: Array<Record<string, unknown> & { id: string }>) => {
+  docs.forEach(d => {
+    const ms = timestampMillis(d.updatedAt);
+    if (ms !== null) knownVersions.set(`${scope}#${d.id}`, ms);
+  });
+};
+
+const notify = async () => {
+  try {
+    queueSnapshot = await readMutations();
+    loaded = true;
+  } catch (error) {
+    logger.warn('[WriteQueue] Could not read queue:', error);
+  }
+  bus.emit('offline.queue.changed', {
+      pending: queueSnapshot.filter(m => m.status === 'pending').length,
+      conflicts: queueSnapshot.filter(m => m.status === 'conflict').length,
+      failed: queueSnapshot.filter(m => m.status === 'failed').length,
+    });
+};
+
+/** Queued mutations as of the last change, oldest first */
+export const getQueuedMutations = (): QueuedMutation[] => queueSnapshot;
+
+/** A Firestore id generated client-side, so offline adds can be referenced before they sync */
+export const newDocId = (collectionPath: string) => doc(collection(db, collectionPath)).id;
+
+/**
+ * Store a write for later replay and apply it to the offline cache.
+ * Returns the document id (generated for adds).
+ */
+export const enqueueMutation = async (params: {
+  scope: string;
+  collectionPath: string;
+  op: MutationOp;
+  docId?: string;
+  data?: Record<string, unknown>;
+  merge?: boolean;
+}): Promise<string> => {
+  const docId = params.docId || newDocId(params.collectionPath);
+  const mutation: QueuedMutation = {
+    scope: params.scope,
+    collectionPath: params.collectionPath,
+    op: params.op,
+    docId,
+    data: params.data,
+    merge: params.merge,
+    baseUpdatedAt: params.op === 'add' ? null : knownVersions.get(`${params.scope}#${docId}`) ?? null,
+    queuedAt: Date.now(),
+    attempts: 0,
+    status: 'pending',
+  };
+  await appendMutation(mutation);
+  try {
+    if (params.op === 'remove') await deleteCachedDoc(params.scope, docId);
+    else await putCachedDoc(params.scope, docId, params.data || {}, params.op === 'update');
+  } catch (error) {
+    logger.warn('[WriteQueue] Could not update offline cache:', error);
+  }
+  logger.log(`[WriteQueue] Queued ${params.op} ${params.collectionPath}/${docId}`);
+  await notify();
+  return docId;
+};
+
+/**
+ * Apply queued mutations for `scope` on top of `docs` (the server or cached copy).
+ * Only writes still waiting to replay are shown; parked conflicts and failures
+ * leave the server copy visible until they are resolved.
+ */
+export const overlayPending = <T extends { id: string }>(scope: string, docs: T[]): T[] => {
+  const pending = queueSnapshot.filter(m => m.scope === scope && m.status === 'pending');
+  if (pending.length === 0) return docs;
+  let out = [...docs];
+  for (const m of pending) {
+    if (m.op === 'remove') {
+      out = out.filter(d => d.id !== m.docId);
+    } else if (m.op === 'add' || !out.some(d => d.id === m.docId)) {
+      out = [{ ...(m.data || {}), id: m.docId } as unknown as T, ...out.filter(d => d.id !== m.docId)];
+    } else {
+      out = out.map(d => d.id === m.docId ? { ...d, ...(m.data || {}) } : d);
+    }
+  }
+  return out;
+};
+
+const replayOne = async (m: QueuedMutation): Promise<'done' | 'conflict'> => {
+  const ref = doc(db, m.collectionPath, m.docId);
+  let before: DocumentData | null = null;
+  if (m.op !== 'add') {
+    const snap = await getDoc(ref);
+    before = snap.exists() ? snap.data() : null;
+    if (m.baseUpdatedAt !== null) {
+      if (!before) {
+        // Deleted elsewhere: a delete is already satisfied, an edit has nothing to apply to
+        if (m.op === 'remove') return 'done';
+        return 'conflict';
+      }
+      const serverMs = timestampMillis(before.updatedAt);
+      if (serverMs !== null && serverMs > m.baseUpdatedAt) return 'conflict';
+    }
+  }
+  if (m.op === 'add') {
+    await setDoc(ref, { ...m.data, createdAt: serverTimestamp(), updatedAt: serverTimestamp() });
+  } else if (m.op === 'update') {
+    if (m.merge) await setDoc(ref, { ...m.data, updatedAt: serverTimestamp() }, { merge: true });
+    else await updateDoc(ref, { ...m.data, updatedAt: serverTimestamp() });
+  } else {
+    await deleteDoc(ref);
+  }
+  // Queued writes are audited when they reach the server
+  const audit = { collectionName: m.collectionPath.split('/').pop() || m.collectionPath, path: ref.path, docId: m.docId };
+  if (m.op === 'add') void recordAudit({ ...audit, action: 'create', before: null, after: m.data || {} });
+  else if (m.op === 'update') void recordAudit({ ...audit, action: before ? 'update' : 'create', before, after: { ...(before || {}), ...m.data } });
+  else if (before) void recordAudit({ ...audit, action: 'delete', before, after: null });
+  return 'done';
+};
+
+/** Replay pending mutations in order. Stops at the first network error. */
+export const replayQueue = async (): Promise<void> => {
+  if (replaying || isOffline()) return;
+  replaying = true;
+  try {
+    const queue = await readMutations();
+    const writtenPaths = new Set<string>();
+    // Later edits to a doc already written in this pass are checked against our own write, not the base
+    const written = new Set<string>();
+    const parked = new Set<string>();
+    for (const m of queue) {
+      if (m.status !== 'pending' || m.seq === undefined) continue;
+      const key = `${m.collectionPath}/${m.docId}`;
+      try {
+        const outcome = parked.has(key) ? 'conflict' : await replayOne(written.has(key) ? { ...m, baseUpdatedAt: null } : m);
+        if (outcome === 'conflict') {
+          parked.add(key);
+          await putMutation({ ...m, status: 'conflict' });
+          logger.warn(`[WriteQueue] Conflict on ${m.collectionPath}/${m.docId}; server copy changed while offline`);
+          bus.emit('offline.conflict', { seq: m.seq, collectionPath: m.collectionPath, docId: m.docId, op: m.op });
+        } else {
+          written.add(key);
+          writtenPaths.add(m.collectionPath);
+          await deleteMutation(m.seq);
+        }
+      } catch (error) {
+        if (isNetworkError(error)) {
+          logger.warn('[WriteQueue] Network lost during replay, will retry on reconnect');
+          break;
+        }
+        const attempts = m.attempts + 1;
+        await putMutation({ ...m, attempts, lastError: String(error), status: attempts >= MAX_ATTEMPTS ? 'failed' : 'pending' });
+        logger.error(`[WriteQueue] Replay of ${m.op} ${m.collectionPath}/${m.docId} failed:`, error);
+      }
+    }
+    if (written.size > 0) bus.emit('offline.queue.replayed', { written: written.size, collectionPaths: Array.from(writtenPaths) });
+  } catch (error) {
+    logger.error('[WriteQueue] Replay failed:', error);
+  } finally {
+    replaying = false;
+    await notify();
+  }
+};
+
+/**
+ * Settle a conflicted mutation: 'mine' re-applies the local edit over the
+ * server copy, 'theirs' discards it. Failed mutations can be settled the same way.
+ */
+export const resolveConflict = async (seq: number, keep: 'mine' | 'theirs'): Promise<void> => {
+  const m = (await readMutations()).find(q => q.seq === seq);
+  if (!m) return;
+  if (keep === 'theirs') {
+    await deleteMutation(seq);
+  } else {
+    await putMutation({ ...m, status: 'pending', baseUpdatedAt: null, attempts: 0 });
+  }
+  await notify();
+  if (keep === 'mine') await replayQueue();
+};
+
+/** Drop every queued mutation `match` selects, whatever its status. Returns how many were dropped. */
+export const discardMutations = async (match: (m: QueuedMutation) => boolean): Promise<number> => {
+  const dropped = (await readMutations()).filter(m => m.seq !== undefined && match(m));
+  for (const m of dropped) await deleteMutation(m.seq as number);
+  if (dropped.length > 0) await notify();
+  return dropped.length;
+};
+
+/**
+ * Forget this browser's cached documents and unsent writes, on sign-out, so
+ * the next person to sign in neither sees nor replays them.
+ */
+export const clearLocalData = async (): Promise<void> => {
+  await clearOfflineStore();
+  knownVersions.clear();
+  await notify();
+};
+
+/** Load the queue, replay it now and whenever the browser reconnects. Returns a cleanup function. */
+export const startWriteQueue = () => {
+  const onOnline = () => { void replayQueue(); };
+  window.addEventListener('online', onOnline);
+  if (!loaded) void notify().then(() => replayQueue());
+  else void replayQueue();
+  return () => window.removeEventListener('online', onOnline);
+};
+
+export type { QueuedMutation };
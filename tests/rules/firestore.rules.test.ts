@@ -0,0 +1,306 @@
+import { readFileSync } from 'node:fs';
+import { afterAll, beforeAll, describe, it } from 'vitest';
+import { assertFails, assertSucceeds, initializeTestEnvironment } from '@firebase/rules-unit-testing';
+import type { RulesTestEnvironment, TokenOptions } from '@firebase/rules-unit-testing';
+import { rolePermissions } from '../../src/config/roleModuleConfig';
+
+/**
+ * firestore.rules against the Firestore emulator. Expected access is read from
+ * rolePermissions, so these also fail when roleGrants() in the rules drifts
+ * from the app's role bundles. Run with `npm run test:rules`.
+ */
+
+const ORG = 'org-test';
+const ROLES = Object.keys(rolePermissions);
+
+// Mirrors moduleFor() in firestore.rules
+const COLLECTIONS: Record<string, string> = {
+  indentData: 'indent',
+  openIndentItems: 'indent',
+  closedIndentItems: 'indent',
+  purchaseOrders: 'purchase',
+  purchaseData: 'purchase',
+  vendorDepts: 'vendorDept',
+  vendorIssues: 'vendorIssue',
+  psirData: 'psir',
+  psirs: 'psir',
+  vsirRecords: 'vsir',
+  debitNotes: 'debitNote',
+  salesOrders: 'sales',
+  deliveryChallans: 'dc',
+  inHouseIssues: 'inHouseIssue',
+  stockRecords: 'stock',
+  itemMaster: 'itemMaster',
+};
+
+const STOCK_VIEW = ['stock', 'psir', 'vsir', 'vendorIssue', 'inHouseIssue', 'dc'];
+
+const uidFor = (role: string) => `${role}-user`;
+const granted = (role: string, permission: string) => rolePermissions[role].includes(permission);
+const movesStock = (role: string) => STOCK_VIEW.some(m => ['create', 'edit', 'delete'].some(a => granted(role, `${m}:${a}`)));
+
+let env: RulesTestEnvironment;
+let counter = 0;
+
+// Every check writes its own document, so checks never depend on each other's leftovers
+const seed = async (path: string, data: Record<string, unknown>) => {
+  await env.withSecurityRulesDisabled(async ctx => {
+    await ctx.firestore().doc(path).set(data);
+  });
+  return path;
+};
+const freshPath = (collection: string) => `orgs/${ORG}/${collection}/doc-${++counter}`;
+const db = (uid: string, token?: TokenOptions) => env.authenticatedContext(uid, token).firestore();
+const expectAccess = (allowed: boolean, op: Promise<unknown>) => (allowed ? assertSucceeds(op) : assertFails(op));
+// Indents and POs are raised pending approval by their creator; the indent item
+// lists copy the approval status of the indent they name
+const newDoc = async (collection: string, moduleId: string, uid: string): Promise<Record<string, unknown>> => {
+  if (['openIndentItems', 'closedIndentItems'].includes(collection)) {
+    const indent = await seed(freshPath('indentData'), { indentNo: 'S-000', approvalStatus: 'approved', approvals: [], raisedBy: 'someone' });
+    return { remarks: 'new', indentId: indent.split('/').pop(), approvalStatus: 'approved' };
+  }
+  return ['indent', 'purchase'].includes(moduleId)
+    ? { remarks: 'new', approvalStatus: 'pending', approvals: [], raisedBy: uid }
+    : { remarks: 'new' };
+};
+
+beforeAll(async () => {
+  env = await initializeTestEnvironment({
+    projectId: 'demo-acu-rules',
+    firestore: { rules: readFileSync('firestore.rules', 'utf8') },
+  });
+  await env.clearFirestore();
+  await env.withSecurityRulesDisabled(async ctx => {
+    const fs = ctx.firestore();
+    await fs.doc(`orgs/${ORG}`).set({ name: 'Test Org', createdBy: uidFor('admin') });
+    for (const role of ROLES) {
+      await fs.doc(`orgs/${ORG}/members/${uidFor(role)}`).set({ role, permissions: [], disabled: false });
+    }
+    await fs.doc(`orgs/${ORG}/members/disabled-user`).set({ role: 'admin', permissions: [], disabled: true });
+    await fs.doc(`orgs/${ORG}/members/extra-user`).set({ role: 'viewer', permissions: ['indent:view'], disabled: false });
+  });
+});
+
+afterAll(async () => {
+  await env?.cleanup();
+});
+
+describe.each(Object.entries(COLLECTIONS))('%s (%s module)', (collection, moduleId) => {
+  describe.each(ROLES)('%s', role => {
+    const uid = uidFor(role);
+
+    it(`read ${granted(role, `${moduleId}:view`) ? 'allowed' : 'denied'}`, async () => {
+      const path = await seed(freshPath(collection), { remarks: 'seed' });
+      await expectAccess(granted(role, `${moduleId}:view`), db(uid).doc(path).get());
+    });
+
+    it(`create ${granted(role, `${moduleId}:create`) ? 'allowed' : 'denied'}`, async () => {
+      const data = await newDoc(collection, moduleId, uid);
+      await expectAccess(granted(role, `${moduleId}:create`), db(uid).doc(freshPath(collection)).set(data));
+    });
+
+    it(`edit ${granted(role, `${moduleId}:edit`) ? 'allowed' : 'denied'}`, async () => {
+      const path = await seed(freshPath(collection), { remarks: 'seed' });
+      await expectAccess(granted(role, `${moduleId}:edit`), db(uid).doc(path).update({ remarks: 'edited' }));
+    });
+
+    it(`move to recycle bin ${granted(role, `${moduleId}:delete`) ? 'allowed' : 'denied'}`, async () => {
+      const path = await seed(freshPath(collection), { remarks: 'seed' });
+      await expectAccess(granted(role, `${moduleId}:delete`), db(uid).doc(path).update({ deletedAt: Date.now(), deletedBy: uid }));
+    });
+
+    it(`delete ${granted(role, `${moduleId}:delete`) ? 'allowed' : 'denied'}`, async () => {
+      const path = await seed(freshPath(collection), { remarks: 'seed' });
+      await expectAccess(granted(role, `${moduleId}:delete`), db(uid).doc(path).delete());
+    });
+  });
+
+  it('denies signed-out and disabled users', async () => {
+    const path = await seed(freshPath(collection), { remarks: 'seed' });
+    await assertFails(env.unauthenticatedContext().firestore().doc(path).get());
+    await assertFails(db('disabled-user').doc(path).get());
+    await assertFails(db('disabled-user').doc(freshPath(collection)).set({ remarks: 'new' }));
+  });
+
+  it('denies users outside the organisation', async () => {
+    const path = await seed(freshPath(collection), { remarks: 'seed' });
+    await assertFails(db('stranger').doc(path).get());
+    await assertFails(db('stranger').doc(freshPath(collection)).set({ remarks: 'new' }));
+  });
+});
+
+describe('extra permissions on a membership', () => {
+  it('add to the role bundle', async () => {
+    const path = await seed(freshPath('indentData'), { remarks: 'seed' });
+    await assertSucceeds(db('extra-user').doc(path).get());
+    await assertFails(db('extra-user').doc(path).update({ remarks: 'edited' }));
+  });
+});
+
+describe('unlisted collections', () => {
+  it.each(ROLES)('%s', async role => {
+    const path = await seed(freshPath('settings'), { value: 1 });
+    await expectAccess(role === 'admin', db(uidFor(role)).doc(path).get());
+    await expectAccess(role === 'admin', db(uidFor(role)).doc(freshPath('settings')).set({ value: 2 }));
+  });
+});
+
+describe('stock ledger', () => {
+  describe.each(ROLES)('%s', role => {
+    const uid = uidFor(role);
+    const canView = STOCK_VIEW.some(m => granted(role, `${m}:view`));
+
+    it(`reads ${canView ? 'allowed' : 'denied'}`, async () => {
+      const row = await seed(freshPath('stockLedger'), { itemCode: 'A', qty: 1 });
+      const posting = await seed(freshPath('stockLedgerPostings'), { lines: {} });
+      await expectAccess(canView, db(uid).doc(row).get());
+      await expectAccess(canView, db(uid).doc(posting).get());
+    });
+
+    it(`posting ${movesStock(role) ? 'allowed' : 'denied'}`, async () => {
+      await expectAccess(movesStock(role), db(uid).doc(freshPath('stockLedger')).set({ itemCode: 'A', qty: 1, createdBy: uid }));
+      const posting = await seed(freshPath('stockLedgerPostings'), { lines: {} });
+      await expectAccess(movesStock(role), db(uid).doc(posting).set({ lines: { a: { qty: 2 } } }));
+      await expectAccess(movesStock(role), db(uid).doc(posting).delete());
+    });
+
+    it('ledger rows are append-only', async () => {
+      const row = await seed(freshPath('stockLedger'), { itemCode: 'A', qty: 1 });
+      await assertFails(db(uid).doc(row).update({ qty: 5 }));
+      await assertFails(db(uid).doc(row).delete());
+    });
+  });
+});
+
+describe('audit log', () => {
+  it.each(ROLES)('%s appends its own entries; only admins read them', async role => {
+    const uid = uidFor(role);
+    await assertSucceeds(db(uid).doc(freshPath('auditLog')).set({ userId: uid, action: 'create' }));
+    await assertFails(db(uid).doc(freshPath('auditLog')).set({ userId: 'someone-else', action: 'create' }));
+    const entry = await seed(freshPath('auditLog'), { userId: uid, action: 'create' });
+    await expectAccess(role === 'admin', db(uid).doc(entry).get());
+    await assertFails(db(uid).doc(entry).update({ action: 'delete' }));
+    await assertFails(db(uid).doc(entry).delete());
+  });
+});
+
+describe('members', () => {
+  it('members read their own membership but cannot change their role', async () => {
+    const me = db(uidFor('viewer')).doc(`orgs/${ORG}/members/${uidFor('viewer')}`);
+    await assertSucceeds(me.get());
+    await assertFails(me.update({ role: 'admin' }));
+    await assertFails(me.update({ permissions: ['stock:edit'] }));
+    await assertSucceeds(me.update({ displayName: 'Viewer' }));
+    await assertFails(db(uidFor('viewer')).doc(`orgs/${ORG}/members/${uidFor('hod')}`).get());
+  });
+
+  it('admins manage memberships', async () => {
+    const admin = db(uidFor('admin'));
+    await assertSucceeds(admin.doc(`orgs/${ORG}/members/${uidFor('hod')}`).get());
+    await seed(`orgs/${ORG}/members/temp-user`, { role: 'viewer', permissions: [], disabled: true });
+    await assertSucceeds(admin.doc(`orgs/${ORG}/members/temp-user`).update({ disabled: false }));
+    await assertSucceeds(admin.doc(`orgs/${ORG}/members/temp-user`).delete());
+  });
+
+  it('outsiders may only ask to join as a disabled viewer', async () => {
+    const stranger = db('joiner');
+    await assertFails(stranger.doc(`orgs/${ORG}/members/joiner`).set({ role: 'admin', permissions: [], disabled: false }));
+    await assertFails(stranger.doc(`orgs/${ORG}/members/joiner`).set({ role: 'viewer', permissions: [], disabled: false }));
+    await assertSucceeds(stranger.doc(`orgs/${ORG}/members/joiner`).set({ role: 'viewer', permissions: [], disabled: true }));
+  });
+});
+
+describe('notification inbox', () => {
+  it('each member reads and writes only their own', async () => {
+    await assertSucceeds(db(uidFor('hod')).doc(`orgs/${ORG}/inbox/${uidFor('hod')}`).set({ read: [] }));
+    await assertFails(db(uidFor('hod')).doc(`orgs/${ORG}/inbox/${uidFor('viewer')}`).get());
+    await assertFails(db('disabled-user').doc(`orgs/${ORG}/inbox/disabled-user`).set({ read: [] }));
+  });
+});
+
+describe('invites', () => {
+  const invitee = (verified: boolean) => db(verified ? 'invitee' : 'impostor', { email: 'new.hire@example.com', email_verified: verified });
+  const seedInvite = () => seed(freshPath('invites'), { email: 'new.hire@example.com', role: 'hod', permissions: [], createdBy: uidFor('admin'), acceptedBy: null });
+  const accept = async (fs: ReturnType<typeof invitee>, uid: string, invitePath: string) => {
+    const batch = fs.batch();
+    batch.set(fs.doc(`orgs/${ORG}/members/${uid}`), { role: 'hod', permissions: [], disabled: false, inviteId: invitePath.split('/').pop() });
+    batch.update(fs.doc(invitePath), { acceptedBy: uid, acceptedAt: Date.now() });
+    return batch.commit();
+  };
+
+  it('the invitee with a verified email reads and accepts it, once', async () => {
+    const path = await seedInvite();
+    await assertSucceeds(invitee(true).doc(path).get());
+    await assertSucceeds(accept(invitee(true), 'invitee', path));
+    await assertFails(accept(db('late', { email: 'new.hire@example.com', email_verified: true }), 'late', path));
+  });
+
+  it('an unverified account with the invite email cannot read or accept it', async () => {
+    const path = await seedInvite();
+    await assertFails(invitee(false).doc(path).get());
+    await assertFails(accept(invitee(false), 'impostor', path));
+  });
+
+  it('other users cannot read it and only admins create invites', async () => {
+    const path = await seedInvite();
+    await assertFails(db(uidFor('hod'), { email: 'hod@example.com', email_verified: true }).doc(path).get());
+    await assertSucceeds(db(uidFor('admin')).doc(path).get());
+    await assertFails(db(uidFor('hod')).doc(freshPath('invites')).set({ email: 'x@example.com', role: 'admin', permissions: [], acceptedBy: null }));
+    await assertSucceeds(db(uidFor('admin')).doc(freshPath('invites')).set({ email: 'x@example.com', role: 'viewer', permissions: [], acceptedBy: null }));
+  });
+});
+
+describe('approvals', () => {
+  const pendingIndent = (raisedBy: string) => seed(freshPath('indentData'), { indentNo: 'S-001', approvalStatus: 'pending', approvals: [], raisedBy });
+  const decision = (by: string) => ({
+    approvalStatus: 'approved',
+    approvals: [{ step: 'hod', decision: 'approved', by, byName: by, at: new Date().toISOString(), comment: '' }],
+  });
+
+  it('an approver decides on an indent someone else raised', async () => {
+    const path = await pendingIndent(uidFor('purchaseManager'));
+    await assertSucceeds(db(uidFor('hod')).doc(path).update(decision(uidFor('hod'))));
+  });
+
+  it('nobody decides on what they raised', async () => {
+    const path = await pendingIndent(uidFor('hod'));
+    await assertFails(db(uidFor('hod')).doc(path).update(decision(uidFor('hod'))));
+    await assertFails(db(uidFor('admin')).doc(await pendingIndent(uidFor('admin'))).update(decision(uidFor('admin'))));
+  });
+
+  it('editing without the approve permission cannot touch the approval fields', async () => {
+    await seed(`orgs/${ORG}/members/indent-editor`, { role: 'viewer', permissions: ['indent:view', 'indent:create', 'indent:edit'], disabled: false });
+    const path = await pendingIndent(uidFor('hod'));
+    await assertFails(db('indent-editor').doc(path).update(decision('indent-editor')));
+    await assertFails(db('indent-editor').doc(path).update({ approvalStatus: 'approved' }));
+    await assertSucceeds(db('indent-editor').doc(path).update({ indentBy: 'Someone' }));
+    await assertFails(db('indent-editor').doc(freshPath('indentData')).set({ indentNo: 'S-002', approvalStatus: 'approved', approvals: [], raisedBy: 'indent-editor' }));
+    await assertFails(db('indent-editor').doc(freshPath('indentData')).set({ indentNo: 'S-003', raisedBy: 'indent-editor' }));
+  });
+
+  it('raisedBy is set to the creator and never changes', async () => {
+    await assertFails(db(uidFor('hod')).doc(freshPath('indentData')).set({ indentNo: 'S-004', approvalStatus: 'pending', approvals: [], raisedBy: uidFor('purchaseManager') }));
+    const path = await pendingIndent(uidFor('hod'));
+    await assertFails(db(uidFor('hod')).doc(path).update({ raisedBy: uidFor('purchaseManager') }));
+  });
+
+  it('purchase entries start pending, raised by their creator, even for approvers', async () => {
+    const approved = { poNo: 'PO-1', approvalStatus: 'approved', approvals: [], raisedBy: uidFor('purchaseManager') };
+    await assertFails(db(uidFor('purchaseManager')).doc(freshPath('purchaseData')).set(approved));
+    await assertFails(db(uidFor('purchaseManager')).doc(freshPath('purchaseOrders')).set({ ...approved, raisedBy: 'someone' }));
+    await assertSucceeds(db(uidFor('purchaseManager')).doc(freshPath('purchaseOrders')).set({ poNo: 'PO-2', approvalStatus: 'pending', approvals: [], raisedBy: uidFor('purchaseManager') }));
+  });
+
+  it('indent item lists carry the approval status of their indent', async () => {
+    const indent = await pendingIndent(uidFor('purchaseManager'));
+    const indentId = indent.split('/').pop();
+    const hod = db(uidFor('hod'));
+    await assertFails(hod.doc(freshPath('openIndentItems')).set({ indentNo: 'S-001', indentId, approvalStatus: 'approved' }));
+    await assertFails(hod.doc(freshPath('openIndentItems')).set({ indentNo: 'S-001', approvalStatus: 'pending' }));
+    const item = freshPath('openIndentItems');
+    await assertSucceeds(hod.doc(item).set({ indentNo: 'S-001', indentId, approvalStatus: 'pending' }));
+    await assertFails(hod.doc(item).update({ approvalStatus: 'approved' }));
+    await seed(indent, { indentNo: 'S-001', ...decision(uidFor('hod')), raisedBy: uidFor('purchaseManager') });
+    await assertSucceeds(hod.doc(item).update({ approvalStatus: 'approved' }));
+  });
+});